@@ -0,0 +1,290 @@
+import React, { useMemo, useState } from 'react';
+import { AuthorRecord, ReadingStatus } from '../models/BookTypes';
+import { useBookMetadata } from '../providers/BookMetadataProvider';
+import { authorRegistryService } from '../services/AuthorRegistryService';
+import { workService } from '../services/WorkService';
+import { summarizeAuthor } from '../utils/authors';
+
+interface AuthorDetailsProps {
+  authorId: string;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ReadingStatus, string> = {
+  'to-read': 'To Read',
+  'reading': 'Reading',
+  'completed': 'Completed',
+  'abandoned': 'Abandoned',
+  'reference': 'Reference'
+};
+
+const STATUS_CLASSES: Record<ReadingStatus, string> = {
+  'to-read': 'bg-gray-700 text-gray-200',
+  'reading': 'bg-blue-700 text-blue-100',
+  'completed': 'bg-green-700 text-green-100',
+  'abandoned': 'bg-red-700 text-red-100',
+  'reference': 'bg-purple-700 text-purple-100'
+};
+
+/**
+ * Format an author's life dates
+ * @param author Registry record
+ * @returns Text like "1821–1881", or null if unknown
+ */
+const formatLifeDates = (author: AuthorRecord): string | null => {
+  if (!author.birth && !author.death) return null;
+  return `${author.birth || '?'}–${author.death || ''}`;
+};
+
+const AuthorDetails: React.FC<AuthorDetailsProps> = ({ authorId, onClose }) => {
+  const { books, refreshBooks } = useBookMetadata();
+  // Tracked locally since registry edits don't replace the authorId prop
+  const [author, setAuthor] = useState<AuthorRecord | null>(() => authorRegistryService.getAuthor(authorId));
+  const [isEditing, setIsEditing] = useState(false);
+  const [form, setForm] = useState({ name: '', birth: '', death: '', nationality: '', primaryGenres: '' });
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const summary = useMemo(() => {
+    if (!author) return null;
+    const credited = books.filter(book => book.authors.some(credit => credit.id === author.id));
+    return summarizeAuthor(author, workService.summarizeBooks(credited));
+  }, [author, books]);
+
+  const otherAuthors = useMemo(
+    () => authorRegistryService.getAuthors()
+      .filter(other => other.id !== author?.id)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [author]
+  );
+
+  const afterChange = (updated: AuthorRecord | null) => {
+    if (updated) setAuthor(updated);
+    refreshBooks();
+  };
+
+  const startEditing = (record: AuthorRecord) => {
+    setForm({
+      name: record.name,
+      birth: record.birth || '',
+      death: record.death || '',
+      nationality: record.nationality || '',
+      primaryGenres: (record.primaryGenres || []).join(', ')
+    });
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    const updated = authorRegistryService.updateAuthor(authorId, {
+      name: form.name,
+      birth: form.birth.trim() || undefined,
+      death: form.death.trim() || undefined,
+      nationality: form.nationality.trim() || undefined,
+      primaryGenres: form.primaryGenres.split(',').map(genre => genre.trim()).filter(Boolean)
+    });
+    setIsEditing(false);
+    afterChange(updated);
+  };
+
+  const handleLookup = async () => {
+    setIsLookingUp(true);
+    setError(null);
+
+    try {
+      const updated = await authorRegistryService.refreshFromOpenLibrary(authorId);
+      if (updated && !updated.openLibraryAuthorId) {
+        setError('Open Library has no author by this name');
+      }
+      afterChange(updated);
+    } catch (err) {
+      console.error('Error looking up author:', err);
+      setError(err instanceof Error ? err.message : 'Failed to look up the author');
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleMerge = (mergedId: string) => {
+    const merged = authorRegistryService.getAuthor(mergedId);
+    if (!merged || !confirm(`Treat "${merged.name}" as another spelling of this author?`)) return;
+
+    afterChange(authorRegistryService.mergeAuthors(authorId, mergedId));
+  };
+
+  if (!author || !summary) {
+    return null;
+  }
+
+  const lifeDates = formatLifeDates(author);
+  const progress = summary.bibliographySize > 0
+    ? Math.round((summary.worksRead / summary.bibliographySize) * 100)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-gray-900 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto p-6 relative">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">{author.name}</h2>
+            <p className="text-gray-400">
+              {[lifeDates, author.nationality].filter(Boolean).join(' · ') || 'No biographical details yet'}
+            </p>
+            {author.nameVariants.length > 0 && (
+              <p className="text-sm text-gray-500 mt-1">Also credited as {author.nameVariants.join(', ')}</p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-900/30 border border-red-800 rounded-lg mb-6">
+            <p className="text-red-300">{error}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-gray-800 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">In your library</p>
+            <p className="text-2xl font-bold text-white">{summary.works.length}</p>
+            <p className="text-xs text-gray-500">
+              {summary.works.length === 1 ? 'work' : 'works'} in {summary.editionCount} {summary.editionCount === 1 ? 'edition' : 'editions'}
+            </p>
+          </div>
+          <div className="bg-gray-800 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Bibliography read</p>
+            <p className="text-2xl font-bold text-white">{summary.worksRead} / {summary.bibliographySize}</p>
+            <div className="w-full bg-gray-700 rounded-full h-2 mt-2">
+              <div className="bg-indigo-500 h-2 rounded-full" style={{ width: `${progress}%` }} />
+            </div>
+            {author.bibliography.length === 0 && (
+              <p className="text-xs text-gray-500 mt-1">Only counting works in your library</p>
+            )}
+          </div>
+          <div className="bg-gray-800 p-4 rounded-lg">
+            <p className="text-sm text-gray-400">Average rating</p>
+            <p className="text-2xl font-bold text-white">
+              {summary.ratedCount > 0 ? `${summary.averageRating} ★` : '—'}
+            </p>
+            <p className="text-xs text-gray-500">
+              {summary.ratedCount} rated {summary.ratedCount === 1 ? 'work' : 'works'}
+            </p>
+          </div>
+        </div>
+
+        {(author.primaryGenres?.length || summary.genres.length > 0) && (
+          <div className="mb-6 flex flex-wrap gap-2">
+            {(author.primaryGenres?.length ? author.primaryGenres : summary.genres.slice(0, 5)).map(genre => (
+              <span key={genre} className="px-3 py-1 bg-gray-800 rounded-full text-sm">{genre}</span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <button
+            onClick={handleLookup}
+            disabled={isLookingUp}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+          >
+            {isLookingUp ? 'Looking up...' : 'Look Up on Open Library'}
+          </button>
+          <button
+            onClick={() => startEditing(author)}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+          >
+            Edit Details
+          </button>
+          {otherAuthors.length > 0 && (
+            <select
+              value=""
+              onChange={e => handleMerge(e.target.value)}
+              className="p-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-white"
+            >
+              <option value="">Same person as...</option>
+              {otherAuthors.map(other => (
+                <option key={other.id} value={other.id}>{other.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {isEditing && (
+          <div className="bg-gray-800 p-4 rounded-lg mb-6 grid grid-cols-1 md:grid-cols-2 gap-3">
+            {([
+              ['name', 'Name'],
+              ['birth', 'Born (year)'],
+              ['death', 'Died (year)'],
+              ['nationality', 'Nationality'],
+              ['primaryGenres', 'Primary genres (comma separated)']
+            ] as [keyof typeof form, string][]).map(([field, label]) => (
+              <label key={field} className="block text-sm text-gray-400">
+                {label}
+                <input
+                  type="text"
+                  value={form[field]}
+                  onChange={e => setForm({ ...form, [field]: e.target.value })}
+                  className="mt-1 w-full p-2 bg-gray-900 border border-gray-700 rounded text-white"
+                />
+              </label>
+            ))}
+            <div className="flex justify-end gap-3 md:col-span-2">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-4 py-2 rounded-lg text-gray-300 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 rounded-lg font-medium bg-indigo-600 hover:bg-indigo-700 text-white"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        )}
+
+        <h3 className="text-lg font-semibold text-white mb-3">In Your Library</h3>
+        <div className="space-y-2 mb-6">
+          {summary.works.map(work => (
+            <div key={work.work.id} className="flex justify-between items-start gap-4 bg-gray-800 p-3 rounded-lg">
+              <div>
+                <p className="text-white">{work.work.title}</p>
+                <p className="text-sm text-gray-400">
+                  {work.editions.length} {work.editions.length === 1 ? 'edition' : 'editions'}
+                  {work.readCount > 0 && ` · read ${work.readCount}×`}
+                  {work.userRating > 0 && ` · ${work.userRating} ★`}
+                </p>
+              </div>
+              <span className={`self-start text-xs font-medium px-2 py-1 rounded ${STATUS_CLASSES[work.readingStatus]}`}>
+                {STATUS_LABELS[work.readingStatus]}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {summary.missing.length > 0 && (
+          <>
+            <h3 className="text-lg font-semibold text-white mb-3">Not in Your Library</h3>
+            <ul className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm text-gray-400">
+              {summary.missing.map(entry => (
+                <li key={entry.openLibraryWorkId || entry.title}>
+                  {entry.title}
+                  {entry.firstPublishYear && <span className="text-gray-500"> ({entry.firstPublishYear})</span>}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuthorDetails;
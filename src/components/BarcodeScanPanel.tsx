@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useBookMetadata } from '../providers/BookMetadataProvider';
+import { barcodeScanService } from '../services/scanning/BarcodeScanService';
+import { PhotoScanResult, ScanItem, ScanItemStatus } from '../services/scanning/ScanTypes';
+import { hyphenateIsbn } from '../utils/isbn';
+
+const STATUS_LABELS: Record<ScanItemStatus, string> = {
+  added: 'Added',
+  duplicate: 'Already in library',
+  not_found: 'Not found',
+  failed: 'Failed'
+};
+
+const STATUS_CLASSES: Record<ScanItemStatus, string> = {
+  added: 'bg-green-700 text-green-100',
+  duplicate: 'bg-purple-700 text-purple-100',
+  not_found: 'bg-yellow-700 text-yellow-100',
+  failed: 'bg-red-700 text-red-100'
+};
+
+interface BarcodeScanPanelProps {
+  onClose: () => void;
+}
+
+const BarcodeScanPanel: React.FC<BarcodeScanPanelProps> = ({ onClose }) => {
+  const { refreshBooks } = useBookMetadata();
+  const [results, setResults] = useState<PhotoScanResult[] | null>(null);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [manualIsbns, setManualIsbns] = useState<Record<string, string>>({});
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  // Release the photo previews when they're replaced or the panel closes
+  useEffect(() => {
+    return () => Object.values(photoUrls).forEach(url => URL.revokeObjectURL(url));
+  }, [photoUrls]);
+
+  const summary = useMemo(() => (results ? barcodeScanService.summarize(results) : null), [results]);
+
+  const photosWithoutIsbn = results?.filter(result => result.items.length === 0) || [];
+  const itemsToReview = results?.flatMap(result => result.items
+    .filter(item => item.status === 'not_found' || item.status === 'failed')
+    .map(item => ({ result, item }))) || [];
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setResults(null);
+    setManualIsbns({});
+    setPhotoUrls(Object.fromEntries(files.map((file, index) => [`${index}-${file.name}`, URL.createObjectURL(file)])));
+    setProgress({ completed: 0, total: files.length });
+
+    try {
+      const scanned = await barcodeScanService.scanPhotos(files, (completed, total) => {
+        setProgress({ completed, total });
+      });
+      setResults(scanned);
+      refreshBooks();
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const replaceItem = (photoId: string, isbn: string, item: ScanItem) => {
+    setResults(prev => prev && prev.map(result => {
+      if (result.photoId !== photoId) return result;
+
+      const exists = result.items.some(existing => existing.isbn === isbn);
+      return {
+        ...result,
+        items: exists
+          ? result.items.map(existing => (existing.isbn === isbn ? item : existing))
+          : [...result.items, item]
+      };
+    }));
+  };
+
+  const retryItem = async (photoId: string, isbn: string, useOpenLibrary: boolean) => {
+    setBusyKey(`${photoId}:${isbn}`);
+    try {
+      const item = useOpenLibrary
+        ? await barcodeScanService.addByIsbnFromOpenLibrary(isbn)
+        : await barcodeScanService.addByIsbn(isbn);
+      replaceItem(photoId, isbn, item);
+      refreshBooks();
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const addManualIsbn = async (photoId: string) => {
+    const isbn = (manualIsbns[photoId] || '').trim();
+    if (!isbn) return;
+
+    setBusyKey(photoId);
+    try {
+      const item = await barcodeScanService.addByIsbn(isbn);
+      replaceItem(photoId, item.isbn, item);
+      refreshBooks();
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-gray-900 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto p-6 relative">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Scan Barcodes</h2>
+            <p className="text-gray-400 text-sm mt-1">
+              Select photos of book barcodes (back covers); every ISBN found is added to your library.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {!progress && (
+          <div className="mb-6">
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handleFilesSelected}
+              className="text-sm text-gray-300"
+            />
+          </div>
+        )}
+
+        {progress && (
+          <p className="text-indigo-300 mb-6">
+            Reading barcodes and looking up books... {progress.completed}/{progress.total} photos
+          </p>
+        )}
+
+        {summary && (
+          <div className="p-4 bg-green-900/30 border border-green-800 rounded-lg mb-6">
+            <p className="text-green-300 font-medium">
+              Scanned {summary.photos} {summary.photos === 1 ? 'photo' : 'photos'}: added {summary.added} books,
+              {' '}{summary.duplicates} already in your library, {summary.needsReview} to review.
+            </p>
+          </div>
+        )}
+
+        {results && (photosWithoutIsbn.length > 0 || itemsToReview.length > 0) && (
+          <div className="mb-6">
+            <h3 className="text-lg font-semibold text-white mb-3">Needs Review</h3>
+            <div className="space-y-2">
+              {photosWithoutIsbn.map(result => (
+                <div key={result.photoId} className="p-3 bg-gray-800 rounded-lg flex items-start gap-3">
+                  {photoUrls[result.photoId] && (
+                    <img src={photoUrls[result.photoId]} alt={result.fileName} className="w-16 h-20 object-cover rounded" />
+                  )}
+                  <div className="flex-1">
+                    <p className="font-medium text-white">{result.fileName}</p>
+                    <p className="text-sm text-gray-400">
+                      {result.error
+                        || (result.barcodes.length > 0
+                          ? `Found ${result.barcodes.join(', ')}, which is not an ISBN`
+                          : 'No barcode could be read')}
+                    </p>
+                    <div className="flex gap-2 mt-2">
+                      <input
+                        type="text"
+                        value={manualIsbns[result.photoId] || ''}
+                        onChange={e => setManualIsbns(prev => ({ ...prev, [result.photoId]: e.target.value }))}
+                        placeholder="Type the ISBN"
+                        className="flex-1 p-1.5 bg-gray-900 border border-gray-700 rounded text-sm text-white"
+                      />
+                      <button
+                        onClick={() => addManualIsbn(result.photoId)}
+                        disabled={busyKey !== null || !(manualIsbns[result.photoId] || '').trim()}
+                        className="px-3 py-1.5 rounded text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+                      >
+                        Add
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+
+              {itemsToReview.map(({ result, item }) => (
+                <div key={`${result.photoId}:${item.isbn}`} className="p-3 bg-gray-800 rounded-lg flex items-start gap-3">
+                  {photoUrls[result.photoId] && (
+                    <img src={photoUrls[result.photoId]} alt={result.fileName} className="w-16 h-20 object-cover rounded" />
+                  )}
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-white">ISBN {hyphenateIsbn(item.isbn) || item.isbn}</span>
+                      <span className={`text-xs px-2 py-0.5 rounded ${STATUS_CLASSES[item.status]}`}>
+                        {STATUS_LABELS[item.status]}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-400">{result.fileName}{item.error && ` · ${item.error}`}</p>
+                    <div className="flex gap-2 mt-2">
+                      <button
+                        onClick={() => retryItem(result.photoId, item.isbn, false)}
+                        disabled={busyKey !== null}
+                        className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50"
+                      >
+                        Retry
+                      </button>
+                      <button
+                        onClick={() => retryItem(result.photoId, item.isbn, true)}
+                        disabled={busyKey !== null}
+                        className="px-3 py-1.5 rounded text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+                      >
+                        Try Open Library
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {results && (
+          <div className="space-y-2">
+            {results.flatMap(result => result.items
+              .filter(item => item.status === 'added' || item.status === 'duplicate')
+              .map(item => (
+                <div key={`${result.photoId}:${item.isbn}`} className="p-3 bg-gray-800 rounded-lg flex items-center gap-3">
+                  <div className="flex-1">
+                    <span className="font-medium text-white">{item.book?.title || `ISBN ${item.isbn}`}</span>
+                    {item.book && (
+                      <p className="text-sm text-gray-400">{item.book.authors.map(author => author.name).join(', ')}</p>
+                    )}
+                  </div>
+                  <span className={`text-xs px-2 py-0.5 rounded ${STATUS_CLASSES[item.status]}`}>
+                    {STATUS_LABELS[item.status]}
+                  </span>
+                </div>
+              )))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BarcodeScanPanel;
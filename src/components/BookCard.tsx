@@ -1,4 +1,5 @@
 import React from 'react';
+import CoverImage from './CoverImage';
 
 interface BookCardProps {
   title: string;
@@ -12,19 +13,14 @@ export default function BookCard({ title, author, isbn, thumbnail, onDelete }: B
   return (
     <div className="bg-white p-4 rounded-lg shadow hover:shadow-md transition-shadow flex flex-col h-full">
       <div className="flex-1">
-        {thumbnail ? (
-          <div className="flex justify-center mb-3">
-            <img 
-              src={thumbnail} 
-              alt={`Cover of ${title}`} 
-              className="h-40 object-contain rounded"
-            />
-          </div>
-        ) : (
-          <div className="h-40 bg-gray-200 flex items-center justify-center mb-3 rounded">
-            <span className="text-gray-500 text-sm">No cover available</span>
-          </div>
-        )}
+        <div className="flex justify-center mb-3">
+          <CoverImage
+            src={thumbnail}
+            title={title}
+            author={author}
+            className="h-40 w-28 object-contain rounded"
+          />
+        </div>
         <h3 className="text-lg font-semibold text-gray-900 line-clamp-2">{title}</h3>
         <p className="text-gray-600 text-sm">by {author}</p>
         <p className="text-xs text-gray-500 mt-1">ISBN: {isbn}</p>
@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+import { Book } from '../models/BookTypes';
+import { coverService } from '../services/CoverService';
+import CoverImage from './CoverImage';
+
+interface BookCoverProps {
+  book: Book;
+  size?: 'small' | 'medium' | 'large';
+  className?: string;
+}
+
+/**
+ * A library book's cover: the stored image when there is one, otherwise the
+ * catalog image (which is then stored) or a generated cover
+ */
+const BookCover: React.FC<BookCoverProps> = ({ book, size, className }) => {
+  const [, setVersion] = useState(0);
+
+  // Re-render when this book's cover is stored, replaced or removed
+  useEffect(() => coverService.subscribe(bookId => {
+    if (bookId === book.id) setVersion(version => version + 1);
+  }), [book.id]);
+
+  useEffect(() => {
+    coverService.cacheCover(book);
+  }, [book]);
+
+  return (
+    <CoverImage
+      src={coverService.getCoverUrl(book)}
+      title={book.title}
+      author={book.authors.map(author => author.name).join(', ')}
+      size={size}
+      className={className}
+    />
+  );
+};
+
+export default BookCover;
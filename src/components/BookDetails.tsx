@@ -1,60 +1,125 @@
-import React, { useState } from 'react';
-import { Book, ReadingStatus } from '../models/BookTypes';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Book, ReadingStatus, Work } from '../models/BookTypes';
 import { bookEnrichmentOrchestrator } from '../services/BookEnrichmentOrchestrator';
+import { enrichmentJobQueue } from '../services/EnrichmentJobQueue';
+import { enrichmentSuggestionService } from '../services/EnrichmentSuggestionService';
+import { metadataCompletenessService } from '../services/MetadataCompletenessService';
+import { workService } from '../services/WorkService';
+import { NextSeriesEntry, seriesService } from '../services/SeriesService';
+import AuthorDetails from './AuthorDetails';
+import SeriesPanel from './SeriesPanel';
+import BookEditForm from './BookEditForm';
+import BookMetadataEnrichment from './BookMetadataEnrichment';
+import BookCover from './BookCover';
+import FieldProvenanceList from './FieldProvenanceList';
+import { useBookMetadata } from '../providers/BookMetadataProvider';
+import { hyphenateIsbn } from '../utils/isbn';
+import { summarizeWork } from '../utils/works';
+import { isActiveJob } from '../utils/enrichmentJobs';
+import { isKnownAuthorName } from '../utils/authors';
 
 interface BookDetailsProps {
   book: Book;
   onClose: () => void;
 }
 
-const BookDetails: React.FC<BookDetailsProps> = ({ book, onClose }) => {
-  // Check if the book is currently being enriched
-  const isEnriching = book.isbn ? bookEnrichmentOrchestrator.isInEnrichmentQueue(book.isbn) : false;
+const BookDetails: React.FC<BookDetailsProps> = ({ book: selectedBook, onClose }) => {
+  const { books, refreshBooks, updateBookSection } = useBookMetadata();
+  // Follow the library so edits made from this view show up in it
+  const book = books.find(candidate => candidate.id === selectedBook.id) || selectedBook;
+  // The book's latest enrichment job, kept live through the queue's events
+  const [enrichmentJob, setEnrichmentJob] = useState(() => bookEnrichmentOrchestrator.getEnrichmentJob(book.id));
+  const isEnriching = enrichmentJob ? isActiveJob(enrichmentJob) : false;
   const [isReenriching, setIsReenriching] = useState(false);
+  // Enrichment results waiting for the user's review
+  const [suggestionSet, setSuggestionSet] = useState(() => enrichmentSuggestionService.getSuggestionSet(book.id));
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  // The edition's work; tracked locally since moving editions doesn't replace the book prop
+  const [workId, setWorkId] = useState(book.workId);
+  const [selectedAuthorId, setSelectedAuthorId] = useState<string | null>(null);
+  // Tracked locally for the same reason; finishing a book may offer the next in its series
+  const [readingStatus, setReadingStatus] = useState(book.readingStatus);
+  const [nextEntry, setNextEntry] = useState<NextSeriesEntry | null>(null);
+  const [isAddingNext, setIsAddingNext] = useState(false);
+  const [seriesMessage, setSeriesMessage] = useState<string | null>(null);
+  const [showSeries, setShowSeries] = useState(false);
   
-  // Determine completion level of the book metadata
-  const metadataCompleteness = (): {percentage: number; status: 'low' | 'medium' | 'high'} => {
-    let filledFields = 0;
-    let totalFields = 0;
-    
-    // Check themes
-    if (book.themes && book.themes.length > 0) filledFields++;
-    totalFields++;
-    
-    // Check characters
-    if (book.characters && book.characters.length > 0) filledFields++;
-    totalFields++;
-    
-    // Check locations
-    if (book.locations && book.locations.length > 0) filledFields++;
-    totalFields++;
-    
-    // Check narrative structure
-    if (book.narrativeStructure && Object.keys(book.narrativeStructure).length > 0) filledFields++;
-    totalFields++;
-    
-    // Check genres
-    if (book.genres && book.genres.length > 0) filledFields++;
-    totalFields++;
-    
-    // Check subgenres
-    if (book.subgenres && book.subgenres.length > 0) filledFields++;
-    totalFields++;
-    
-    // Check enrichedData
-    if (book.enrichedData) filledFields++;
-    totalFields++;
-    
-    const percentage = Math.round((filledFields / totalFields) * 100);
+  useEffect(() => enrichmentJobQueue.subscribe(event => {
+    if (event.job.bookId === book.id) {
+      setEnrichmentJob(bookEnrichmentOrchestrator.getEnrichmentJob(book.id));
+    }
+  }), [book.id]);
+  
+  useEffect(() => enrichmentSuggestionService.subscribe(bookId => {
+    if (bookId === book.id) {
+      setSuggestionSet(enrichmentSuggestionService.getSuggestionSet(book.id));
+    }
+  }), [book.id]);
+  
+  const workSummary = useMemo(() => {
+    const work = workId ? workService.getWork(workId) : null;
+    return work ? summarizeWork(work, books.filter(edition => edition.workId === workId)) : null;
+  }, [workId, books]);
+  
+  const otherWorks = useMemo(() => {
+    const workIds = new Set(books.map(edition => edition.workId).filter(id => id && id !== workId));
+    return Array.from(workIds)
+      .map(id => workService.getWork(id!))
+      .filter((work): work is Work => work !== null)
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }, [workId, books]);
+  
+  const handleMoveToWork = (targetWorkId: string) => {
+    const updated = targetWorkId ? workService.moveEdition(book.id, targetWorkId) : null;
+    if (updated) {
+      setWorkId(updated.workId);
+      refreshBooks();
+    }
+  };
+  
+  const handleStatusChange = async (status: ReadingStatus) => {
+    const updated = await updateBookSection(book.id, 'readingStatus', status);
+    setReadingStatus(status);
+    setSeriesMessage(null);
     
-    let status: 'low' | 'medium' | 'high' = 'low';
-    if (percentage >= 80) status = 'high';
-    else if (percentage >= 40) status = 'medium';
+    const next = status === 'completed' && updated ? seriesService.getNextEntry(updated) : null;
+    // Offer the next entry unless one of its editions is already read or queued
+    const alreadyQueued = next?.books.some(edition =>
+      edition.readingStatus === 'to-read' || edition.readingStatus === 'reading' || edition.readingStatus === 'completed'
+    );
+    setNextEntry(next && !alreadyQueued ? next : null);
+  };
+  
+  const handleAddNextEntry = async () => {
+    if (!nextEntry) return;
+    setIsAddingNext(true);
     
-    return { percentage, status };
+    try {
+      const added = await seriesService.addToReadingList(nextEntry);
+      setSeriesMessage(added
+        ? `Added "${added.title}" to your To Read list`
+        : `Couldn't find ${nextEntry.series.name} #${nextEntry.position} in the catalogs`);
+      setNextEntry(null);
+      refreshBooks();
+    } catch (error) {
+      console.error('Error adding the next book in the series:', error);
+      setSeriesMessage('Failed to add the next book in the series');
+    } finally {
+      setIsAddingNext(false);
+    }
+  };
+  
+  const handleDetachEdition = () => {
+    const updated = workService.detachEdition(book.id);
+    if (updated) {
+      setWorkId(updated.workId);
+      refreshBooks();
+    }
   };
   
-  const completeness = metadataCompleteness();
+  // Completeness is derived from the book's current fields, so edits show up right away
+  const completeness = metadataCompletenessService.evaluate(book);
   
   // Get reading status display text
   const getStatusText = (status: ReadingStatus): string => {
@@ -80,20 +145,16 @@ const BookDetails: React.FC<BookDetailsProps> = ({ book, onClose }) => {
     }
   };
   
-  // Handle manual re-enrichment
+  // Handle manual re-enrichment; progress comes in through the job's events
   const handleReenrich = async () => {
     if (book.id) {
       setIsReenriching(true);
       const success = await bookEnrichmentOrchestrator.forceReenrichBook(book.id);
-      if (success) {
-        // We'll close the details and let the user refresh
-        setTimeout(() => {
-          alert('Book metadata is being refreshed. Please check back in a moment!');
-          onClose();
-        }, 1000);
-      } else {
-        setIsReenriching(false);
-        alert('There was an issue refreshing the book metadata. Please try again later.');
+      setIsReenriching(false);
+      if (!success) {
+        alert(book.isbn
+          ? 'Metadata can only be refreshed once a language model is configured in AI Settings.'
+          : 'Metadata can only be refreshed for books with an ISBN.');
       }
     }
   };
@@ -114,19 +175,7 @@ const BookDetails: React.FC<BookDetailsProps> = ({ book, onClose }) => {
         {/* Header with cover and basic info */}
         <div className="flex flex-col md:flex-row p-6 border-b border-gray-800">
           <div className="w-full md:w-1/3 flex justify-center mb-6 md:mb-0">
-            {book.coverImage ? (
-              <img 
-                src={book.coverImage} 
-                alt={`Cover of ${book.title}`} 
-                className="h-64 w-auto object-contain rounded-lg shadow-lg"
-              />
-            ) : (
-              <div className="h-64 w-48 bg-gray-800 flex items-center justify-center rounded-lg shadow-lg">
-                <svg className="w-16 h-16 text-gray-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
-                </svg>
-              </div>
-            )}
+            <BookCover book={book} size="large" className="h-64 w-48 object-contain rounded-lg shadow-lg" />
           </div>
           
           <div className="w-full md:w-2/3 md:pl-6">
@@ -134,9 +183,33 @@ const BookDetails: React.FC<BookDetailsProps> = ({ book, onClose }) => {
             {book.subtitle && <h2 className="text-xl text-gray-300 mt-1">{book.subtitle}</h2>}
             
             <div className="flex flex-wrap items-center mt-2 text-gray-300">
-              <span className="text-lg">by {book.authors.map(author => author.name).join(', ')}</span>
+              <span className="text-lg">
+                by{' '}
+                {book.authors.map((author, index) => (
+                  <React.Fragment key={author.id}>
+                    {index > 0 && ', '}
+                    {isKnownAuthorName(author.name) ? (
+                      <button
+                        onClick={() => setSelectedAuthorId(author.id)}
+                        className="hover:text-white hover:underline"
+                      >
+                        {author.name}
+                      </button>
+                    ) : author.name}
+                  </React.Fragment>
+                ))}
+              </span>
             </div>
             
+            {book.series && (
+              <button
+                onClick={() => setShowSeries(true)}
+                className="mt-1 text-indigo-300 hover:text-indigo-200 hover:underline"
+              >
+                Book {book.series.position} of {book.series.name}
+              </button>
+            )}
+            
             <div className="mt-4 flex flex-wrap gap-2">
               {book.genres?.map((genre, index) => (
                 <span key={index} className="px-3 py-1 bg-gray-800 rounded-full text-sm">
@@ -160,7 +233,10 @@ const BookDetails: React.FC<BookDetailsProps> = ({ book, onClose }) => {
               </div>
               <div>
                 <span className="text-gray-400 text-sm">ISBN:</span>
-                <p>{book.isbn || 'Unknown'}</p>
+                <p>{book.isbn ? hyphenateIsbn(book.isbn) || book.isbn : 'Unknown'}</p>
+                {book.identifiers.isbn10 && (
+                  <p className="text-gray-400 text-sm">ISBN-10: {hyphenateIsbn(book.identifiers.isbn10)}</p>
+                )}
               </div>
               <div>
                 <span className="text-gray-400 text-sm">Language:</span>
@@ -170,23 +246,72 @@ const BookDetails: React.FC<BookDetailsProps> = ({ book, onClose }) => {
                 <span className="text-gray-400 text-sm">Format:</span>
                 <p className="capitalize">{book.format || 'Unknown'}</p>
               </div>
+              {book.edition && (
+                <div>
+                  <span className="text-gray-400 text-sm">Edition:</span>
+                  <p>{book.edition}</p>
+                </div>
+              )}
+              {book.translator && (
+                <div>
+                  <span className="text-gray-400 text-sm">Translator:</span>
+                  <p>{book.translator}</p>
+                </div>
+              )}
             </div>
             
             <div className="mt-4 flex items-center">
-              <span className={`px-3 py-1 rounded-full text-sm ${getStatusClass(book.readingStatus)}`}>
-                {getStatusText(book.readingStatus)}
-              </span>
+              <select
+                value={readingStatus}
+                onChange={e => handleStatusChange(e.target.value as ReadingStatus)}
+                className={`px-3 py-1 rounded-full text-sm border-0 ${getStatusClass(readingStatus)}`}
+              >
+                {(['to-read', 'reading', 'completed', 'abandoned', 'reference'] as ReadingStatus[]).map(status => (
+                  <option key={status} value={status}>{getStatusText(status)}</option>
+                ))}
+              </select>
               {book.userRating > 0 && (
                 <div className="ml-3 flex items-center">
                   <span className="text-yellow-400 mr-1">★</span>
                   <span>{book.userRating.toFixed(1)}</span>
                 </div>
               )}
+              <button
+                onClick={() => setIsEditing(true)}
+                className="ml-3 px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs rounded-full"
+              >
+                Edit Details
+              </button>
               <div className="ml-auto">
                 <span className="text-gray-400 text-sm">Added on:</span>
                 <p>{new Date(book.dateAdded).toLocaleDateString()}</p>
               </div>
             </div>
+            
+            {nextEntry && (
+              <div className="mt-4 p-3 bg-indigo-900/30 border border-indigo-800 rounded-lg">
+                <p className="text-sm text-indigo-200">
+                  Next in {nextEntry.series.name}: #{nextEntry.position}
+                  {nextEntry.books[0] ? ` ${nextEntry.books[0].title}` : ' (not in your library yet)'}
+                </p>
+                <div className="flex gap-2 mt-2">
+                  <button
+                    onClick={handleAddNextEntry}
+                    disabled={isAddingNext}
+                    className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white text-xs rounded-full disabled:opacity-50"
+                  >
+                    {isAddingNext ? 'Adding...' : 'Add to To Read'}
+                  </button>
+                  <button
+                    onClick={() => setNextEntry(null)}
+                    className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs rounded-full"
+                  >
+                    No thanks
+                  </button>
+                </div>
+              </div>
+            )}
+            {seriesMessage && <p className="mt-3 text-sm text-gray-300">{seriesMessage}</p>}
           </div>
         </div>
         
@@ -201,15 +326,23 @@ const BookDetails: React.FC<BookDetailsProps> = ({ book, onClose }) => {
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                   </svg>
-                  <span>Enriching...</span>
+                  <span>{enrichmentJob?.status === 'pending' ? 'Queued...' : 'Enriching...'}</span>
+                  {enrichmentJob && isEnriching && (
+                    <button
+                      onClick={() => bookEnrichmentOrchestrator.cancelEnrichment(book.id)}
+                      className="ml-4 px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs rounded-full"
+                    >
+                      Cancel
+                    </button>
+                  )}
                 </div>
               ) : (
                 <div className="text-sm flex items-center">
                   <span className="text-gray-400">Completeness: </span>
                   <span className={`ml-1 font-medium ${
-                    completeness.status === 'high' 
+                    completeness.level === 'high' 
                       ? 'text-green-400' 
-                      : completeness.status === 'medium' 
+                      : completeness.level === 'medium' 
                         ? 'text-yellow-400' 
                         : 'text-red-400'
                   }`}>
@@ -232,9 +365,9 @@ const BookDetails: React.FC<BookDetailsProps> = ({ book, onClose }) => {
           <div className="w-full bg-gray-700 rounded-full h-2.5 mb-4">
             <div 
               className={`h-2.5 rounded-full ${
-                completeness.status === 'high' 
+                completeness.level === 'high' 
                   ? 'bg-green-500' 
-                  : completeness.status === 'medium' 
+                  : completeness.level === 'medium' 
                     ? 'bg-yellow-500' 
                     : 'bg-red-500'
               }`} 
@@ -242,9 +375,51 @@ const BookDetails: React.FC<BookDetailsProps> = ({ book, onClose }) => {
             ></div>
           </div>
           
+          {completeness.missing.length > 0 && (
+            <div className="mb-4">
+              <p className="text-sm text-gray-400 mb-2">Missing:</p>
+              <div className="flex flex-wrap gap-2">
+                {completeness.missing.map(field => (
+                  <span
+                    key={field.field}
+                    title={field.reason}
+                    className="px-2 py-1 bg-gray-800 text-gray-300 text-xs rounded-full"
+                  >
+                    {field.label}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          
+          <FieldProvenanceList book={book} />
+          
+          {suggestionSet && (
+            <div className="flex justify-between items-center p-3 bg-indigo-900/30 border border-indigo-800 rounded-lg mb-4">
+              <p className="text-sm text-indigo-200">
+                {suggestionSet.suggestions.length} suggested {suggestionSet.suggestions.length === 1 ? 'change' : 'changes'} from
+                enrichment {suggestionSet.suggestions.length === 1 ? 'is' : 'are'} waiting for your review
+              </p>
+              <button
+                onClick={() => setShowSuggestions(true)}
+                className="ml-4 px-3 py-1 bg-indigo-700 hover:bg-indigo-800 text-white text-xs rounded-full"
+              >
+                Review
+              </button>
+            </div>
+          )}
+          
           {(isEnriching || isReenriching) && (
             <p className="text-sm text-indigo-300 italic mb-4">
-              This book is currently being enriched with metadata. Refresh or check back later to see updated information.
+              This book is currently being enriched with metadata. Its suggestions show up here for review as soon as it finishes.
+            </p>
+          )}
+          
+          {enrichmentJob?.lastError && (enrichmentJob.status === 'pending' || enrichmentJob.status === 'failed') && (
+            <p className="text-sm text-yellow-300 mb-4">
+              {enrichmentJob.status === 'pending'
+                ? `Attempt ${enrichmentJob.attempts} of ${enrichmentJob.maxAttempts} failed (${enrichmentJob.lastError}); retrying${enrichmentJob.nextAttemptAt ? ` at ${new Date(enrichmentJob.nextAttemptAt).toLocaleTimeString()}` : ''}.`
+                : `Enrichment failed after ${enrichmentJob.attempts} attempts: ${enrichmentJob.lastError}`}
             </p>
           )}
         </div>
@@ -257,6 +432,69 @@ const BookDetails: React.FC<BookDetailsProps> = ({ book, onClose }) => {
           </div>
         </div>
         
+        {/* Editions of this work */}
+        {workSummary && (
+          <div className="p-6 border-b border-gray-800">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-lg font-semibold">
+                Editions of {workSummary.work.title}
+              </h3>
+              <span className="text-sm text-gray-400">
+                {getStatusText(workSummary.readingStatus)}
+                {workSummary.readCount > 0 && ` · read ${workSummary.readCount}×`}
+                {workSummary.userRating > 0 && ` · rated ${workSummary.userRating}`}
+              </span>
+            </div>
+            <div className="space-y-2">
+              {workSummary.editions.map(edition => (
+                <div key={edition.id} className="p-3 bg-gray-800 rounded-lg text-sm flex justify-between gap-4">
+                  <div>
+                    <p className="text-white">
+                      {edition.title}
+                      {edition.id === book.id && <span className="ml-2 text-xs text-indigo-300">This edition</span>}
+                    </p>
+                    <p className="text-gray-400">
+                      {[
+                        edition.format.charAt(0).toUpperCase() + edition.format.slice(1),
+                        edition.language,
+                        edition.pageCount ? `${edition.pageCount} pages` : null,
+                        edition.translator ? `translated by ${edition.translator}` : null,
+                        edition.translatedFrom ? `from ${edition.translatedFrom}` : null,
+                        edition.isbn ? `ISBN ${hyphenateIsbn(edition.isbn) || edition.isbn}` : null
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <span className={`self-start text-xs font-medium px-2 py-1 rounded ${getStatusClass(edition.readingStatus)}`}>
+                    {getStatusText(edition.readingStatus)}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-3 mt-3">
+              <select
+                value=""
+                onChange={e => handleMoveToWork(e.target.value)}
+                className="p-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-white"
+              >
+                <option value="">Group with another work...</option>
+                {otherWorks.map(work => (
+                  <option key={work.id} value={work.id}>
+                    {work.title} — {work.authors.map(author => author.name).join(', ')}
+                  </option>
+                ))}
+              </select>
+              {workSummary.editions.length > 1 && (
+                <button
+                  onClick={handleDetachEdition}
+                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-200 text-xs rounded-full"
+                >
+                  Split into its own work
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+        
         {/* AI Analysis (if available) */}
         {book.enrichedData?.aiAnalysis && (
           <div className="p-6 border-b border-gray-800">
@@ -424,6 +662,26 @@ const BookDetails: React.FC<BookDetailsProps> = ({ book, onClose }) => {
           </div>
         </div>
       </div>
+      
+      {showSeries && book.series && (
+        <SeriesPanel seriesName={book.series.name} onClose={() => setShowSeries(false)} />
+      )}
+      
+      {isEditing && (
+        <BookEditForm book={book} onClose={() => setIsEditing(false)} />
+      )}
+      
+      {showSuggestions && (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 overflow-y-auto">
+          <div className="w-full max-h-[90vh] overflow-y-auto">
+            <BookMetadataEnrichment book={book} onClose={() => setShowSuggestions(false)} />
+          </div>
+        </div>
+      )}
+      
+      {selectedAuthorId && (
+        <AuthorDetails authorId={selectedAuthorId} onClose={() => setSelectedAuthorId(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,373 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Book, ManualBookInput } from '../models/BookTypes';
+import { useBookMetadata } from '../providers/BookMetadataProvider';
+import { bookMetadataService } from '../services/BookMetadataService';
+import { bookEnrichmentOrchestrator } from '../services/BookEnrichmentOrchestrator';
+import { coverService } from '../services/CoverService';
+import CoverImage from './CoverImage';
+
+interface BookEditFormProps {
+  book?: Book;                  // Book to edit; a new book is created when omitted
+  onClose: () => void;
+  onSaved?: (book: Book) => void;
+}
+
+const FORMAT_LABELS: Record<Book['format'], string> = {
+  hardcover: 'Hardcover',
+  paperback: 'Paperback',
+  ebook: 'E-book',
+  audiobook: 'Audiobook',
+  other: 'Other'
+};
+
+/**
+ * Form values; numbers and lists are kept as typed until saving
+ */
+interface BookFormState {
+  title: string;
+  subtitle: string;
+  authors: string;              // One name per line
+  publisher: string;
+  publishedDate: string;
+  pageCount: string;
+  language: string;
+  description: string;
+  isbn: string;
+  coverImage: string;
+  genres: string;               // Comma separated
+  format: Book['format'];
+  seriesName: string;
+  seriesPosition: string;
+  edition: string;
+  translator: string;
+}
+
+const EMPTY_FORM: BookFormState = {
+  title: '',
+  subtitle: '',
+  authors: '',
+  publisher: '',
+  publishedDate: '',
+  pageCount: '',
+  language: 'en',
+  description: '',
+  isbn: '',
+  coverImage: '',
+  genres: '',
+  format: 'paperback',
+  seriesName: '',
+  seriesPosition: '',
+  edition: '',
+  translator: ''
+};
+
+/**
+ * Fill the form from a book's editable details
+ * @param input Details from the metadata service
+ * @returns Form values
+ */
+const toFormState = (input: ManualBookInput): BookFormState => ({
+  title: input.title,
+  subtitle: input.subtitle || '',
+  authors: input.authors.join('\n'),
+  publisher: input.publisher === 'Unknown Publisher' ? '' : input.publisher,
+  publishedDate: input.publishedDate,
+  pageCount: input.pageCount ? String(input.pageCount) : '',
+  language: input.language,
+  description: input.description,
+  isbn: input.isbn,
+  coverImage: input.coverImage || '',
+  genres: input.genres.join(', '),
+  format: input.format,
+  seriesName: input.series?.name || '',
+  seriesPosition: input.series ? String(input.series.position) : '',
+  edition: input.edition || '',
+  translator: input.translator || ''
+});
+
+/**
+ * Convert form values to the details the metadata service saves
+ * @param form Form values
+ * @returns Book details
+ */
+const toManualBookInput = (form: BookFormState): ManualBookInput => ({
+  title: form.title,
+  subtitle: form.subtitle,
+  authors: form.authors.split('\n').map(name => name.trim()).filter(Boolean),
+  publisher: form.publisher,
+  publishedDate: form.publishedDate,
+  pageCount: form.pageCount.trim() ? Number(form.pageCount) : 0,
+  language: form.language,
+  description: form.description,
+  isbn: form.isbn,
+  coverImage: form.coverImage || undefined,
+  genres: form.genres.split(',').map(genre => genre.trim()).filter(Boolean),
+  format: form.format,
+  series: form.seriesName.trim() || form.seriesPosition.trim()
+    ? { name: form.seriesName, position: Number(form.seriesPosition) }
+    : undefined,
+  edition: form.edition,
+  translator: form.translator
+});
+
+const BookEditForm: React.FC<BookEditFormProps> = ({ book, onClose, onSaved }) => {
+  const { refreshBooks } = useBookMetadata();
+  const [form, setForm] = useState<BookFormState>(
+    book ? toFormState(bookMetadataService.getManualBookInput(book)) : EMPTY_FORM
+  );
+  const [errors, setErrors] = useState<string[]>([]);
+  const [coverUpload, setCoverUpload] = useState<Blob | null>(null);
+  const [removeCustomCover, setRemoveCustomCover] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const uploadUrl = useMemo(() => (coverUpload ? URL.createObjectURL(coverUpload) : null), [coverUpload]);
+  useEffect(() => () => {
+    if (uploadUrl) URL.revokeObjectURL(uploadUrl);
+  }, [uploadUrl]);
+
+  const hasCustomCover = !!book && !removeCustomCover && coverService.hasCustomCover(book.id);
+  const previewUrl = uploadUrl
+    || (hasCustomCover && book ? coverService.getCoverUrl(book) : undefined)
+    || form.coverImage
+    || undefined;
+
+  const update = (field: keyof BookFormState, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleCoverSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setErrors(['The cover must be an image file']);
+      return;
+    }
+    setCoverUpload(file);
+  };
+
+  const handleRemoveCover = () => {
+    setCoverUpload(null);
+    setRemoveCustomCover(true);
+    update('coverImage', '');
+  };
+
+  const handleSave = async () => {
+    const input = toManualBookInput(form);
+    const problems = bookMetadataService.validateManualBook(input);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setSaving(true);
+    try {
+      const saved = book
+        ? bookMetadataService.updateManualBookDetails(book.id, input)
+        : bookMetadataService.addManualBook(input);
+      if (!saved) {
+        setErrors(['This book is no longer in your library']);
+        return;
+      }
+
+      // Uploaded covers live in the covers collection rather than on the book
+      if (coverUpload) {
+        await coverService.setCustomCover(saved.id, coverUpload);
+      } else if (removeCustomCover) {
+        coverService.removeCover(saved.id);
+      }
+
+      // New books with an ISBN are enriched like the ones added from a catalog
+      if (!book && saved.isbn) {
+        bookEnrichmentOrchestrator.scheduleEnrichment(saved);
+      }
+
+      refreshBooks();
+      onSaved?.(saved);
+      onClose();
+    } catch (err) {
+      console.error('Error saving book:', err);
+      setErrors([err instanceof Error ? err.message : 'Failed to save the book']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const textFields: [keyof BookFormState, string][] = [
+    ['title', 'Title *'],
+    ['subtitle', 'Subtitle'],
+    ['publisher', 'Publisher'],
+    ['publishedDate', 'Published (e.g. 1999 or 1999-04-21)'],
+    ['pageCount', 'Pages'],
+    ['isbn', 'ISBN'],
+    ['language', 'Language code (e.g. en)'],
+    ['edition', 'Edition'],
+    ['translator', 'Translator'],
+    ['genres', 'Genres (comma separated)']
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-gray-900 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto p-6 relative">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">{book ? 'Edit Book Details' : 'Add a Book Manually'}</h2>
+            {!book && (
+              <p className="text-gray-400 mt-1">For self-published books, zines, manuscripts and anything no catalog has</p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="p-4 bg-red-900/30 border border-red-800 rounded-lg mb-6">
+            {errors.map(error => (
+              <p key={error} className="text-red-300">{error}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <div className="md:w-1/4 flex flex-col items-center gap-3">
+            <CoverImage
+              src={previewUrl}
+              title={form.title.trim() || 'Untitled'}
+              author={form.authors.split('\n').map(name => name.trim()).filter(Boolean).join(', ')}
+              className="h-48 w-32 object-contain rounded-lg shadow-lg"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+              >
+                {previewUrl ? 'Replace Cover' : 'Upload Cover'}
+              </button>
+              {previewUrl && (
+                <button
+                  onClick={handleRemoveCover}
+                  className="px-3 py-1.5 rounded text-sm font-medium text-gray-300 hover:text-white"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleCoverSelected}
+              className="hidden"
+            />
+          </div>
+
+          <div className="md:w-3/4 grid grid-cols-1 md:grid-cols-2 gap-3">
+            {textFields.map(([field, label]) => (
+              <label key={field} className="block text-sm text-gray-400">
+                {label}
+                <input
+                  type={field === 'pageCount' ? 'number' : 'text'}
+                  min={field === 'pageCount' ? 0 : undefined}
+                  value={form[field]}
+                  onChange={e => update(field, e.target.value)}
+                  className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+                />
+              </label>
+            ))}
+
+            <label className="block text-sm text-gray-400">
+              Format
+              <select
+                value={form.format}
+                onChange={e => update('format', e.target.value)}
+                className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+              >
+                {(Object.keys(FORMAT_LABELS) as Book['format'][]).map(format => (
+                  <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+                ))}
+              </select>
+            </label>
+
+            <div className="grid grid-cols-3 gap-2">
+              <label className="block text-sm text-gray-400 col-span-2">
+                Series
+                <input
+                  type="text"
+                  value={form.seriesName}
+                  onChange={e => update('seriesName', e.target.value)}
+                  className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+                />
+              </label>
+              <label className="block text-sm text-gray-400">
+                Number
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={form.seriesPosition}
+                  onChange={e => update('seriesPosition', e.target.value)}
+                  className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+                />
+              </label>
+            </div>
+
+            <label className="block text-sm text-gray-400 md:col-span-2">
+              Authors (one per line)
+              <textarea
+                value={form.authors}
+                onChange={e => update('authors', e.target.value)}
+                rows={2}
+                className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+              />
+            </label>
+
+            <label className="block text-sm text-gray-400 md:col-span-2">
+              Cover image URL
+              <input
+                type="text"
+                value={form.coverImage}
+                placeholder={coverUpload || hasCustomCover ? 'Using the uploaded image' : ''}
+                onChange={e => update('coverImage', e.target.value)}
+                className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+              />
+            </label>
+
+            <label className="block text-sm text-gray-400 md:col-span-2">
+              Description
+              <textarea
+                value={form.description}
+                onChange={e => update('description', e.target.value)}
+                rows={4}
+                className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-gray-300 hover:text-white"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 rounded-lg font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+          >
+            {book ? 'Save Changes' : 'Add to Library'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookEditForm;
@@ -2,6 +2,18 @@ import React, { useState, useMemo } from 'react';
 import { useBookMetadata } from '../providers/BookMetadataProvider';
 import { Book, ReadingStatus } from '../models/BookTypes';
 import BookDetails from './BookDetails';
+import LibraryBackupPanel from './LibraryBackupPanel';
+import LibraryImportPanel from './LibraryImportPanel';
+import BarcodeScanPanel from './BarcodeScanPanel';
+import DuplicateMergePanel from './DuplicateMergePanel';
+import LibraryExportPanel from './LibraryExportPanel';
+import SeriesPanel from './SeriesPanel';
+import GenreMappingPanel from './GenreMappingPanel';
+import LLMSettingsPanel from './LLMSettingsPanel';
+import EnrichmentJobsPanel from './EnrichmentJobsPanel';
+import BookEditForm from './BookEditForm';
+import BookCover from './BookCover';
+import { bookMetadataService } from '../services/BookMetadataService';
 
 const BookLibrary: React.FC = () => {
   const { books, deleteBook, loading, error, refreshBooks } = useBookMetadata();
@@ -11,6 +23,32 @@ const BookLibrary: React.FC = () => {
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
   const [selectedBook, setSelectedBook] = useState<Book | null>(null);
+  const [migrationNoticeDismissed, setMigrationNoticeDismissed] = useState(false);
+  const [isRetryingMigration, setIsRetryingMigration] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showScan, setShowScan] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showSeries, setShowSeries] = useState(false);
+  const [showGenres, setShowGenres] = useState(false);
+  const [showAISettings, setShowAISettings] = useState(false);
+  const [showEnrichmentJobs, setShowEnrichmentJobs] = useState(false);
+  const [showManualEntry, setShowManualEntry] = useState(false);
+  
+  // Records that could not be upgraded, at this startup or an earlier one
+  const migrationFailures = bookMetadataService.getMigrationReport()?.unresolved || [];
+  
+  const handleRetryMigration = async () => {
+    setIsRetryingMigration(true);
+    try {
+      await bookMetadataService.retryFailedMigrations();
+      refreshBooks();
+    } catch (err) {
+      console.error('Error retrying migrations:', err);
+    } finally {
+      setIsRetryingMigration(false);
+    }
+  };
 
   // Filter and sort books
   const filteredBooks = useMemo(() => {
@@ -137,7 +175,103 @@ const BookLibrary: React.FC = () => {
 
   return (
     <div className="book-library bg-gray-900 p-6 rounded-xl shadow-xl">
-      <h2 className="text-2xl font-bold mb-6">My Library</h2>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold">My Library</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowExport(true)}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+          >
+            Export Library
+          </button>
+          <button
+            onClick={() => setShowSeries(true)}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+          >
+            Series
+          </button>
+          <button
+            onClick={() => setShowGenres(true)}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+          >
+            Genres
+          </button>
+          <button
+            onClick={() => setShowAISettings(true)}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+          >
+            AI Settings
+          </button>
+          <button
+            onClick={() => setShowEnrichmentJobs(true)}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+          >
+            Enrichment Jobs
+          </button>
+          <button
+            onClick={() => setShowDuplicates(true)}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+          >
+            Find Duplicates
+          </button>
+          <button
+            onClick={() => setShowManualEntry(true)}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+          >
+            Add Manually
+          </button>
+          <button
+            onClick={() => setShowScan(true)}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+          >
+            Scan Barcodes
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            Import Library
+          </button>
+        </div>
+      </div>
+      
+      <LibraryBackupPanel />
+      
+      {/* Migration failures */}
+      {migrationFailures.length > 0 && !migrationNoticeDismissed && (
+        <div className="mb-6 p-4 bg-yellow-900/30 border border-yellow-800 rounded-lg">
+          <div className="flex justify-between items-start">
+            <h3 className="text-yellow-300 font-medium mb-2">
+              {migrationFailures.length} {migrationFailures.length === 1 ? 'record' : 'records'} could not be upgraded
+            </h3>
+            <div className="flex gap-3">
+              <button
+                onClick={handleRetryMigration}
+                disabled={isRetryingMigration}
+                className="text-xs text-yellow-300 hover:text-white disabled:opacity-50"
+              >
+                {isRetryingMigration ? 'Retrying...' : 'Retry'}
+              </button>
+              <button
+                onClick={() => setMigrationNoticeDismissed(true)}
+                className="text-xs text-gray-400 hover:text-white"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+          <p className="text-sm text-gray-400 mb-2">
+            They stay in storage and are listed here until they can be upgraded.
+          </p>
+          <ul className="list-disc pl-5 text-sm text-gray-300 space-y-1">
+            {migrationFailures.map(failure => (
+              <li key={`${failure.collection}/${failure.key}`}>
+                {failure.collection}/{failure.key}: {failure.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
       
       {/* Filters */}
       <div className="mb-8 flex flex-col md:flex-row gap-4">
@@ -224,29 +358,7 @@ const BookLibrary: React.FC = () => {
               onClick={() => handleViewBookDetails(book)}
             >
               <div className="relative h-48 overflow-hidden bg-gray-700">
-                {book.coverImage ? (
-                  <img 
-                    src={book.coverImage} 
-                    alt={`Cover of ${book.title}`} 
-                    className="w-full h-full object-cover"
-                  />
-                ) : (
-                  <div className="flex items-center justify-center h-full">
-                    <svg 
-                      className="w-12 h-12 text-gray-500" 
-                      fill="none" 
-                      viewBox="0 0 24 24" 
-                      stroke="currentColor"
-                    >
-                      <path 
-                        strokeLinecap="round" 
-                        strokeLinejoin="round" 
-                        strokeWidth="2" 
-                        d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" 
-                      />
-                    </svg>
-                  </div>
-                )}
+                <BookCover book={book} className="w-full h-full object-cover" />
                 <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/80 to-transparent">
                   <span className={`text-xs font-medium px-2 py-1 rounded ${getStatusClass(book.readingStatus)}`}>
                     {getStatusDisplayText(book.readingStatus)}
@@ -314,6 +426,51 @@ const BookLibrary: React.FC = () => {
         {searchTerm ? ` matching "${searchTerm}"` : ''} (Total: {books.length})
       </div>
       
+      {/* Library Import Modal */}
+      {showImport && (
+        <LibraryImportPanel onClose={() => setShowImport(false)} />
+      )}
+      
+      {/* Barcode Scan Modal */}
+      {showScan && (
+        <BarcodeScanPanel onClose={() => setShowScan(false)} />
+      )}
+      
+      {/* Duplicate Merge Modal */}
+      {showDuplicates && (
+        <DuplicateMergePanel onClose={() => setShowDuplicates(false)} />
+      )}
+      
+      {/* Series Modal */}
+      {showSeries && (
+        <SeriesPanel onClose={() => setShowSeries(false)} />
+      )}
+      
+      {/* Genre Mapping Modal */}
+      {showGenres && (
+        <GenreMappingPanel onClose={() => setShowGenres(false)} />
+      )}
+      
+      {/* AI Settings Modal */}
+      {showAISettings && (
+        <LLMSettingsPanel onClose={() => setShowAISettings(false)} />
+      )}
+      
+      {/* Enrichment Jobs Modal */}
+      {showEnrichmentJobs && (
+        <EnrichmentJobsPanel onClose={() => setShowEnrichmentJobs(false)} />
+      )}
+      
+      {/* Manual Entry Modal */}
+      {showManualEntry && (
+        <BookEditForm onClose={() => setShowManualEntry(false)} />
+      )}
+      
+      {/* Library Export Modal */}
+      {showExport && (
+        <LibraryExportPanel onClose={() => setShowExport(false)} />
+      )}
+      
       {/* Book Details Modal */}
       {selectedBook && (
         <BookDetails book={selectedBook} onClose={handleCloseDetails} />
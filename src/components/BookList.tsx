@@ -2,6 +2,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useBookMetadata } from '../providers/BookMetadataProvider';
 import { Book } from '../models/BookTypes';
 import { Link } from 'react-router-dom';
+import BookCover from './BookCover';
 
 const BookList: React.FC = () => {
   const { books, deleteBook, updateBookSection } = useBookMetadata();
@@ -227,19 +228,7 @@ const BookList: React.FC = () => {
             {filteredBooks.map(book => (
               <div key={book.id} className="bg-white/10 backdrop-blur-md rounded-xl overflow-hidden shadow-lg border border-white/20 transition-transform hover:scale-105">
                 <div className="relative">
-                  {book.coverImage ? (
-                    <img 
-                      src={book.coverImage} 
-                      alt={book.title} 
-                      className="w-full h-48 object-cover"
-                    />
-                  ) : (
-                    <div className="w-full h-48 bg-gray-800 flex items-center justify-center">
-                      <svg className="w-12 h-12 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
-                      </svg>
-                    </div>
-                  )}
+                  <BookCover book={book} className="w-full h-48 object-cover" />
                   
                   {/* Delete Button - More prominently positioned */}
                   <button
@@ -1,9 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useBookMetadata } from '../providers/BookMetadataProvider';
-import { Book, BookAIEnrichment } from '../models/BookTypes';
+import { Book, BookAIEnrichment, EnrichableField, EnrichmentReviewPolicy, FieldSuggestion } from '../models/BookTypes';
 import { bookMetadataService } from '../services/BookMetadataService';
 import { bookEnrichmentOrchestrator } from '../services/BookEnrichmentOrchestrator';
 import { aiEnrichmentService } from '../services/AIEnrichmentService';
+import { enrichmentSuggestionService } from '../services/EnrichmentSuggestionService';
+import { metadataCompletenessService } from '../services/MetadataCompletenessService';
+import { ENRICHABLE_FIELD_LABELS } from '../utils/provenance';
+import { ENRICHMENT_REVIEW_POLICY_LABELS } from '../utils/enrichmentSuggestions';
+import EnrichmentSuggestionReview from './EnrichmentSuggestionReview';
 
 // Component props
 interface BookMetadataEnrichmentProps {
@@ -21,45 +26,23 @@ const BookMetadataEnrichment: React.FC<BookMetadataEnrichmentProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [enrichmentStatus, setEnrichmentStatus] = useState<string>('idle');
-  const [missingFields, setMissingFields] = useState<(keyof Book)[]>([]);
   const [enrichedBook, setEnrichedBook] = useState<Book | null>(null);
+  // Suggestions waiting for review, kept live through the service's events
+  const [suggestionSet, setSuggestionSet] = useState(() => enrichmentSuggestionService.getSuggestionSet(book.id));
+  const [reviewPolicy, setReviewPolicy] = useState(() => enrichmentSuggestionService.getPolicy());
   
-  // Check if API key is available
-  const apiKeyAvailable = aiEnrichmentService.hasAPIKey();
+  useEffect(() => enrichmentSuggestionService.subscribe(bookId => {
+    if (bookId === book.id) {
+      setSuggestionSet(enrichmentSuggestionService.getSuggestionSet(book.id));
+    }
+  }), [book.id]);
   
-  // Calculate completion percentage
-  const metadataCompletionPercentage = (): number => {
-    if (!book) return 0;
-    
-    // Define important fields that should ideally be filled
-    const importantFields: (keyof Book)[] = [
-      'themes', 'characters', 'locations', 'narrativeStructure', 
-      'genres', 'subgenres', 'culturalContext', 'complexity'
-    ];
-    
-    // Count how many important fields are filled
-    let filledFields = 0;
-    
-    importantFields.forEach(field => {
-      const value = book[field];
-      if (
-        (Array.isArray(value) && value.length > 0) || 
-        (typeof value === 'object' && value !== null && Object.keys(value).length > 0)
-      ) {
-        filledFields += 1;
-      }
-    });
-    
-    return Math.round((filledFields / importantFields.length) * 100);
-  };
+  // Check if a language model is configured
+  const apiKeyAvailable = aiEnrichmentService.hasAPIKey();
   
-  // Get missing fields on component mount
-  useEffect(() => {
-    if (book) {
-      const missing = aiEnrichmentService.identifyMissingData(book);
-      setMissingFields(missing);
-    }
-  }, [book]);
+  // Judge the latest version of the book; enrichment fills in what's missing
+  const completeness = metadataCompletenessService.evaluate(enrichedBook || book);
+  const missingFields = completeness.missing.filter(field => field.enrichable);
   
   // Start the enrichment process
   const startEnrichment = async () => {
@@ -72,13 +55,9 @@ const BookMetadataEnrichment: React.FC<BookMetadataEnrichmentProps> = ({
       
       // Enrich the book metadata
       const enriched = await aiEnrichmentService.enrichBookMetadata(book);
-      setEnrichedBook(enriched);
       
-      // Save the enriched book
-      if (book.isbn) {
-        // Save to shared database for other users
-        bookEnrichmentOrchestrator.saveEnrichedBook(enriched);
-      }
+      // Save the analysis and queue the field values for review
+      setEnrichedBook(bookEnrichmentOrchestrator.saveEnrichmentResult(enriched));
       
       // Update in user's library
       refreshBooks();
@@ -136,14 +115,109 @@ const BookMetadataEnrichment: React.FC<BookMetadataEnrichmentProps> = ({
     }
   };
   
+  // Accept a suggestion, as suggested or edited
+  const acceptSuggestion = (field: EnrichableField, value: FieldSuggestion['suggested'], edited: boolean) => {
+    try {
+      const saved = enrichmentSuggestionService.acceptSuggestion(book.id, field, value, edited);
+      if (saved) {
+        setEnrichedBook(saved);
+        refreshBooks();
+      }
+    } catch (error) {
+      console.error('Error accepting suggestion:', error);
+      setError('An error occurred while saving the suggestion. Please try again.');
+    }
+  };
+  
+  // Accept every suggestion as suggested
+  const acceptAllSuggestions = () => {
+    try {
+      const saved = enrichmentSuggestionService.acceptAll(book.id);
+      if (saved) {
+        setEnrichedBook(saved);
+        refreshBooks();
+      }
+    } catch (error) {
+      console.error('Error accepting suggestions:', error);
+      setError('An error occurred while saving the suggestions. Please try again.');
+    }
+  };
+  
+  // Choose what happens to the results of future enrichment runs
+  const changeReviewPolicy = (policy: EnrichmentReviewPolicy) => {
+    enrichmentSuggestionService.setPolicy(policy);
+    setReviewPolicy(policy);
+  };
+  
+  // Render the suggestions waiting for review, field by field
+  const renderSuggestions = () => {
+    const currentBook = bookMetadataService.getBookById(book.id) || enrichedBook || book;
+    
+    return (
+      <div className="mt-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold">Suggested Changes</h3>
+          {suggestionSet && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => enrichmentSuggestionService.rejectAll(book.id)}
+                className="px-3 py-1.5 rounded text-sm font-medium text-gray-300 hover:text-white"
+              >
+                Reject All
+              </button>
+              <button
+                onClick={acceptAllSuggestions}
+                className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+              >
+                Accept All
+              </button>
+            </div>
+          )}
+        </div>
+        
+        <label className="block text-sm text-gray-400 mb-4">
+          When enrichment finishes
+          <select
+            value={reviewPolicy}
+            onChange={e => changeReviewPolicy(e.target.value as EnrichmentReviewPolicy)}
+            className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+          >
+            {(Object.keys(ENRICHMENT_REVIEW_POLICY_LABELS) as EnrichmentReviewPolicy[]).map(policy => (
+              <option key={policy} value={policy}>{ENRICHMENT_REVIEW_POLICY_LABELS[policy]}</option>
+            ))}
+          </select>
+        </label>
+        
+        {suggestionSet ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-400">
+              Suggested {new Date(suggestionSet.updatedAt).toLocaleString()}. Nothing changes until you accept it.
+            </p>
+            {suggestionSet.suggestions.map(suggestion => (
+              <EnrichmentSuggestionReview
+                key={`${suggestion.field}-${suggestion.provenance.recordedAt}`}
+                book={currentBook}
+                suggestion={suggestion}
+                onAccept={(value, edited) => acceptSuggestion(suggestion.field, value, edited)}
+                onReject={() => enrichmentSuggestionService.rejectSuggestion(book.id, suggestion.field)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400">No suggestions are waiting for review.</p>
+        )}
+      </div>
+    );
+  };
+  
   // Render completion percentage as a progress bar
   const renderCompletionProgress = () => {
-    const percentage = metadataCompletionPercentage();
+    const { percentage, level } = completeness;
     let barClass = 'bg-red-500';
     
-    if (percentage >= 80) {
+    if (level === 'high') {
       barClass = 'bg-green-500';
-    } else if (percentage >= 50) {
+    } else if (level === 'medium') {
       barClass = 'bg-yellow-500';
     }
     
@@ -180,7 +254,10 @@ const BookMetadataEnrichment: React.FC<BookMetadataEnrichmentProps> = ({
         </p>
         <ul className="list-disc pl-5 text-gray-300 space-y-1">
           {missingFields.map(field => (
-            <li key={field as string}>{field as string}</li>
+            <li key={field.field}>
+              {field.label}
+              {field.reason && <span className="text-gray-500"> — {field.reason}</span>}
+            </li>
           ))}
         </ul>
       </div>
@@ -279,6 +356,30 @@ const BookMetadataEnrichment: React.FC<BookMetadataEnrichmentProps> = ({
             </div>
           )}
         </div>
+        
+        {enrichmentData.failures && enrichmentData.failures.length > 0 && (
+          <div className="p-4 bg-yellow-900/30 border border-yellow-800 rounded-lg mb-6">
+            <h4 className="text-yellow-300 font-medium mb-2">Could Not Be Enriched</h4>
+            <ul className="space-y-2 text-sm">
+              {enrichmentData.failures.map(failure => (
+                <li key={failure.section} className="text-gray-300">
+                  <span className="font-medium">
+                    {ENRICHABLE_FIELD_LABELS[failure.section as keyof typeof ENRICHABLE_FIELD_LABELS] || 'Analysis'}
+                  </span>
+                  <span className="text-gray-500">
+                    {failure.partial ? ' — partly applied' : ' — not applied'}
+                    {failure.model && `, ${failure.model}`}
+                  </span>
+                  <ul className="list-disc pl-5 text-gray-400">
+                    {failure.errors.map((message, index) => (
+                      <li key={index}>{message}</li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     );
   };
@@ -343,9 +444,9 @@ const BookMetadataEnrichment: React.FC<BookMetadataEnrichmentProps> = ({
           ) : missingFields.length === 0 ? (
             'Metadata Complete'
           ) : !apiKeyAvailable ? (
-            'API Key Required'
+            'Configure AI Settings First'
           ) : (
-            'Enrich with Perplexity AI'
+            'Enrich with AI'
           )}
         </button>
         
@@ -367,13 +468,15 @@ const BookMetadataEnrichment: React.FC<BookMetadataEnrichmentProps> = ({
               Generating Analysis...
             </span>
           ) : !apiKeyAvailable ? (
-            'API Key Required'
+            'Configure AI Settings First'
           ) : (
             'Generate AI Book Analysis'
           )}
         </button>
       </div>
       
+      {renderSuggestions()}
+      
       {renderEnrichmentDetails()}
     </div>
   );
@@ -1,18 +1,76 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { bookMetadataService } from '../services/BookMetadataService';
 import { bookEnrichmentOrchestrator } from '../services/BookEnrichmentOrchestrator';
+import { networkStatusService } from '../services/NetworkStatusService';
 import { useBookMetadata } from '../providers/BookMetadataProvider';
-import { Book } from '../models/BookTypes';
+import { Book, BookPrintType, BookSearchQuery, GoogleBooksVolume } from '../models/BookTypes';
+import { appendSearchPage, CATALOG_PAGE_SIZE, hasMoreSearchResults, hasSearchTerms } from '../utils/catalogSearch';
+import BookCover from './BookCover';
+
+type SearchResult = GoogleBooksVolume & { added?: boolean };
+
+type AdvancedField = 'title' | 'author' | 'isbn' | 'publisher' | 'subject';
+
+const ADVANCED_FIELDS: [AdvancedField, string][] = [
+  ['title', 'Title'],
+  ['author', 'Author'],
+  ['isbn', 'ISBN'],
+  ['publisher', 'Publisher'],
+  ['subject', 'Subject']
+];
+
+const LANGUAGE_OPTIONS: [string, string][] = [
+  ['', 'Any language'],
+  ['en', 'English'],
+  ['es', 'Spanish'],
+  ['fr', 'French'],
+  ['de', 'German'],
+  ['it', 'Italian'],
+  ['pt', 'Portuguese'],
+  ['nl', 'Dutch'],
+  ['ru', 'Russian'],
+  ['ja', 'Japanese'],
+  ['zh', 'Chinese']
+];
+
+const PRINT_TYPE_LABELS: Record<BookPrintType, string> = {
+  all: 'Books & magazines',
+  books: 'Books only',
+  magazines: 'Magazines only'
+};
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 350;
 
 const BookSearchBar: React.FC = () => {
   const [query, setQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<any[]>([]);
+  const [filters, setFilters] = useState<BookSearchQuery>({});
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [totalItems, setTotalItems] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showResults, setShowResults] = useState(false);
+  const [libraryMatches, setLibraryMatches] = useState<Book[]>([]);
+  const [servedOffline, setServedOffline] = useState(false);
+  const [cachedAt, setCachedAt] = useState<string | undefined>(undefined);
+  const [online, setOnline] = useState(networkStatusService.isOnline());
   const { books, refreshBooks } = useBookMetadata();
   const searchBarRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  const search = useMemo<BookSearchQuery>(() => ({ ...filters, text: query }), [filters, query]);
+  const activeFilterCount = ADVANCED_FIELDS.filter(([field]) => filters[field]?.trim()).length
+    + (filters.language ? 1 : 0)
+    + (filters.printType && filters.printType !== 'all' ? 1 : 0);
+
+  // Follow the network status so the offline notice appears and clears on its own
+  useEffect(() => networkStatusService.subscribe(setOnline), []);
+
+  // Cancel whatever is still loading when the search bar goes away
+  useEffect(() => () => requestRef.current?.abort(), []);
 
   // Add click away listener to close search results when clicking outside
   useEffect(() => {
@@ -28,33 +86,81 @@ const BookSearchBar: React.FC = () => {
     };
   }, []);
 
-  const handleSearch = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const searchTerm = e.target.value;
-    setQuery(searchTerm);
-    
-    if (searchTerm.trim().length < 3) {
-      setSearchResults([]);
-      setShowResults(false);
-      return;
-    }
-    
+  // Fetch one page of results; a newer request cancels the one before it
+  const runSearch = useCallback(async (searchQuery: BookSearchQuery, startIndex: number) => {
+    requestRef.current?.abort();
+    const request = new AbortController();
+    requestRef.current = request;
+
     try {
       setLoading(true);
       setError(null);
-      
-      const results = await bookMetadataService.searchGoogleBooks(searchTerm);
-      setSearchResults(results);
+
+      const response = await bookMetadataService.searchBooks(searchQuery, {
+        startIndex,
+        maxResults: CATALOG_PAGE_SIZE,
+        signal: request.signal
+      });
+
+      if (startIndex === 0) {
+        setSearchResults(response.volumes);
+        setLibraryMatches(response.libraryBooks);
+        setServedOffline(response.offline);
+        setCachedAt(response.fetchedAt);
+      } else {
+        setSearchResults(prev => appendSearchPage(prev, response.volumes));
+        setServedOffline(prev => prev || response.offline);
+      }
+      setTotalItems(response.totalItems);
+      setHasMore(hasMoreSearchResults(startIndex, response.volumes.length, response.totalItems));
       setShowResults(true);
     } catch (err) {
+      if (networkStatusService.isAbortError(err)) return;
       console.error('Search error:', err);
       setError('An error occurred while searching for books');
     } finally {
-      setLoading(false);
+      if (requestRef.current === request) {
+        requestRef.current = null;
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  // Search once typing pauses; stale requests are cancelled by the next one
+  useEffect(() => {
+    if (!hasSearchTerms(search)) {
+      requestRef.current?.abort();
+      setSearchResults([]);
+      setLibraryMatches([]);
+      setHasMore(false);
+      setShowResults(false);
+      return;
+    }
+
+    const timer = setTimeout(() => runSearch(search, 0), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search, runSearch]);
+
+  const loadMore = () => {
+    if (!loading && hasMore) {
+      runSearch(search, searchResults.length);
+    }
+  };
+
+  // Infinite scroll: fetch the next page when the list nears its end
+  const handleResultsScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const list = e.currentTarget;
+    if (list.scrollTop + list.clientHeight >= list.scrollHeight - 80) {
+      loadMore();
     }
   };
 
+  const updateFilter = (field: keyof BookSearchQuery, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value || undefined }));
+  };
+
   const handleFocus = () => {
-    if (query.trim().length >= 3 && searchResults.length > 0) {
+    if (hasSearchTerms(search) && (searchResults.length > 0 || servedOffline)) {
       setShowResults(true);
     }
   };
@@ -99,7 +205,9 @@ const BookSearchBar: React.FC = () => {
 
   const clearSearch = () => {
     setQuery('');
+    setFilters({});
     setSearchResults([]);
+    setLibraryMatches([]);
     setShowResults(false);
     if (inputRef.current) {
       inputRef.current.blur();
@@ -113,7 +221,7 @@ const BookSearchBar: React.FC = () => {
           ref={inputRef}
           type="text"
           value={query}
-          onChange={handleSearch}
+          onChange={e => setQuery(e.target.value)}
           onFocus={handleFocus}
           placeholder="Search for books..."
           className="search-input"
@@ -125,7 +233,7 @@ const BookSearchBar: React.FC = () => {
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
           </div>
-        ) : query ? (
+        ) : query || activeFilterCount > 0 ? (
           <button 
             onClick={clearSearch}
             className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-300"
@@ -143,14 +251,96 @@ const BookSearchBar: React.FC = () => {
         )}
       </div>
 
+      <div className="mt-1 flex justify-end">
+        <button
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          className="text-xs text-gray-400 hover:text-gray-200"
+        >
+          {showAdvanced ? 'Hide advanced search' : 'Advanced search'}
+          {activeFilterCount > 0 && ` (${activeFilterCount})`}
+        </button>
+      </div>
+
+      {showAdvanced && (
+        <div className="mt-2 p-3 bg-gray-800 border border-gray-700 rounded-lg grid grid-cols-1 md:grid-cols-2 gap-3">
+          {ADVANCED_FIELDS.map(([field, label]) => (
+            <label key={field} className="block text-sm text-gray-400">
+              {label}
+              <input
+                type="text"
+                value={filters[field] || ''}
+                onChange={e => updateFilter(field, e.target.value)}
+                className="mt-1 w-full p-2 bg-gray-900 border border-gray-700 rounded text-white"
+              />
+            </label>
+          ))}
+          <label className="block text-sm text-gray-400">
+            Language
+            <select
+              value={filters.language || ''}
+              onChange={e => updateFilter('language', e.target.value)}
+              className="mt-1 w-full p-2 bg-gray-900 border border-gray-700 rounded text-white"
+            >
+              {LANGUAGE_OPTIONS.map(([code, label]) => (
+                <option key={code} value={code}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-400">
+            Print type
+            <select
+              value={filters.printType || 'all'}
+              onChange={e => updateFilter('printType', e.target.value)}
+              className="mt-1 w-full p-2 bg-gray-900 border border-gray-700 rounded text-white"
+            >
+              {(Object.keys(PRINT_TYPE_LABELS) as BookPrintType[]).map(printType => (
+                <option key={printType} value={printType}>{PRINT_TYPE_LABELS[printType]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {!online && (
+        <p className="mt-2 text-xs text-amber-300">
+          You're offline. Searches use earlier results and your library.
+        </p>
+      )}
+
       {error && (
         <div className="mt-2 p-2 bg-red-900/50 border border-red-700 text-red-200 rounded-lg text-sm">
           {error}
         </div>
       )}
 
-      {showResults && searchResults.length > 0 && (
-        <div className="absolute z-10 mt-2 w-full bg-white/10 backdrop-blur-md shadow-lg rounded-xl border border-white/20 overflow-hidden max-h-96 overflow-y-auto">
+      {showResults && (searchResults.length > 0 || servedOffline) && (
+        <div
+          onScroll={handleResultsScroll}
+          className="absolute z-10 mt-2 w-full bg-white/10 backdrop-blur-md shadow-lg rounded-xl border border-white/20 overflow-hidden max-h-96 overflow-y-auto"
+        >
+          {servedOffline && (
+            <div className="px-4 py-2 bg-amber-900/60 border-b border-amber-700 text-amber-200 text-sm">
+              Offline results{cachedAt ? ` from a search on ${new Date(cachedAt).toLocaleDateString()}` : ' from earlier searches and your library'}
+            </div>
+          )}
+
+          {libraryMatches.map(book => (
+            <div key={`library-${book.id}`} className="p-4 border-b border-white/10 flex items-center gap-4">
+              <BookCover book={book} size="small" className="w-12 h-16 object-cover rounded shadow-md shrink-0" />
+
+              <div className="flex-1">
+                <h4 className="font-medium text-white">{book.title}</h4>
+                <p className="text-gray-300 text-sm">{book.authors.map(author => author.name).join(', ')}</p>
+              </div>
+
+              <span className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 text-gray-200">In Your Library</span>
+            </div>
+          ))}
+
+          {servedOffline && searchResults.length === 0 && libraryMatches.length === 0 && (
+            <p className="p-4 text-gray-300 text-sm">Nothing cached matches this search. Try again once you're back online.</p>
+          )}
+
           {searchResults.map((book) => {
             const alreadyInLibrary = isBookInLibrary(book.id);
             const volumeInfo = book.volumeInfo;
@@ -190,6 +380,21 @@ const BookSearchBar: React.FC = () => {
               </div>
             );
           })}
+
+          {searchResults.length > 0 && (
+            <div className="p-3 flex justify-between items-center text-xs text-gray-400">
+              <span>Showing {searchResults.length} of {Math.max(totalItems, searchResults.length)} results</span>
+              {hasMore && (
+                <button
+                  onClick={loadMore}
+                  disabled={loading}
+                  className="text-indigo-300 hover:text-indigo-200 disabled:opacity-50"
+                >
+                  {loading ? 'Loading...' : 'Load more'}
+                </button>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { coverHue } from '../utils/images';
+
+interface CoverImageProps {
+  src?: string;                 // Image to show; the generated cover is used without one
+  title: string;
+  author?: string;
+  size?: 'small' | 'medium' | 'large';
+  className?: string;           // Sizing, applied to the image and the generated cover alike
+}
+
+const TITLE_CLASSES: Record<NonNullable<CoverImageProps['size']>, string> = {
+  small: 'text-[7px] leading-tight line-clamp-4',
+  medium: 'text-base leading-snug line-clamp-4',
+  large: 'text-2xl leading-tight line-clamp-5'
+};
+
+const AUTHOR_CLASSES: Record<NonNullable<CoverImageProps['size']>, string> = {
+  small: 'text-[6px] truncate',
+  medium: 'text-xs truncate',
+  large: 'text-sm line-clamp-2'
+};
+
+const PADDING_CLASSES: Record<NonNullable<CoverImageProps['size']>, string> = {
+  small: 'p-1',
+  medium: 'p-3',
+  large: 'p-5'
+};
+
+/**
+ * A cover image, or a generated cover showing the title and author when
+ * there is no image or it fails to load
+ */
+const CoverImage: React.FC<CoverImageProps> = ({ src, title, author, size = 'medium', className = '' }) => {
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+
+  if (src && src !== failedSrc) {
+    return (
+      <img
+        src={src}
+        alt={`Cover of ${title}`}
+        onError={() => setFailedSrc(src)}
+        className={className}
+      />
+    );
+  }
+
+  const hue = coverHue(`${title}${author || ''}`);
+
+  return (
+    <div
+      role="img"
+      aria-label={`Cover of ${title}`}
+      className={`${className} flex flex-col justify-between overflow-hidden text-left border-l-4 border-black/30 ${PADDING_CLASSES[size]}`}
+      style={{ background: `linear-gradient(160deg, hsl(${hue} 45% 38%), hsl(${(hue + 40) % 360} 50% 18%))` }}
+    >
+      <p className={`font-serif font-bold text-white ${TITLE_CLASSES[size]}`}>{title}</p>
+      {author && <p className={`text-white/80 uppercase tracking-wide ${AUTHOR_CLASSES[size]}`}>{author}</p>}
+    </div>
+  );
+};
+
+export default CoverImage;
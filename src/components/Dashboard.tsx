@@ -1,24 +1,49 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useBookMetadata } from '../providers/BookMetadataProvider';
 import ChartWidget from './widgets/ChartWidget';
-import { ReadingStatus } from '../models/BookTypes';
+import NextInSeriesWidget from './widgets/NextInSeriesWidget';
+import { Book } from '../models/BookTypes';
+import { workService } from '../services/WorkService';
+import { DashboardCountBy, loadDashboardCountBy, saveDashboardCountBy } from '../utils/storage';
+
+// Fields the dashboard reads, shared by editions and work summaries
+type CountedItem = Pick<Book, 'genres' | 'readingStatus' | 'pageCount' | 'finishDate'>;
 
 const Dashboard: React.FC = () => {
   const { books, loading, error } = useBookMetadata();
+  const [countBy, setCountBy] = useState<DashboardCountBy>(() => loadDashboardCountBy());
+  
+  // The saved choice is only readable once storage has loaded
+  useEffect(() => {
+    if (!loading) {
+      setCountBy(loadDashboardCountBy());
+    }
+  }, [loading]);
+  
+  // Each edition, or each work once with its editions' data aggregated
+  const items = useMemo<CountedItem[]>(
+    () => (countBy === 'works' ? workService.summarizeBooks(books) : books),
+    [books, countBy]
+  );
+  
+  const handleCountByChange = (value: DashboardCountBy) => {
+    setCountBy(value);
+    saveDashboardCountBy(value);
+  };
   
   // Calculate statistics
   const stats = useMemo(() => {
-    const totalBooks = books.length;
+    const totalBooks = items.length;
     
     // Calculate total genres (unique)
     const allGenres = new Set<string>();
-    books.forEach(book => {
+    items.forEach(book => {
       book.genres.forEach(genre => allGenres.add(genre));
     });
     const totalGenres = allGenres.size;
     
     // Calculate total pages read
-    const totalPagesRead = books.reduce((sum, book) => {
+    const totalPagesRead = items.reduce((sum, book) => {
       // Only count pages for completed books
       if (book.readingStatus === 'completed' && book.pageCount) {
         return sum + book.pageCount;
@@ -31,13 +56,13 @@ const Dashboard: React.FC = () => {
       totalGenres,
       totalPagesRead
     };
-  }, [books]);
+  }, [items]);
   
   // Generate genre distribution data for charts
   const genreDistributionData = useMemo(() => {
     const genreCounts: Record<string, number> = {};
     
-    books.forEach(book => {
+    items.forEach(book => {
       book.genres.forEach(genre => {
         genreCounts[genre] = (genreCounts[genre] || 0) + 1;
       });
@@ -48,7 +73,7 @@ const Dashboard: React.FC = () => {
       .map(([name, value]) => ({ name, value }))
       .sort((a, b) => b.value - a.value)
       .slice(0, 10); // Top 10 genres
-  }, [books]);
+  }, [items]);
   
   // Reading status distribution data
   const readingStatusData = useMemo(() => {
@@ -60,7 +85,7 @@ const Dashboard: React.FC = () => {
       'reference': 0
     };
     
-    books.forEach(book => {
+    items.forEach(book => {
       if (book.readingStatus in statusCounts) {
         statusCounts[book.readingStatus]++;
       }
@@ -71,7 +96,7 @@ const Dashboard: React.FC = () => {
         name: name.charAt(0).toUpperCase() + name.slice(1).replace('-', ' '), 
         value 
       }));
-  }, [books]);
+  }, [items]);
   
   // Books read per month data
   const booksPerMonthData = useMemo(() => {
@@ -87,7 +112,7 @@ const Dashboard: React.FC = () => {
     }
     
     // Add data for completed books
-    books.forEach(book => {
+    items.forEach(book => {
       if (book.readingStatus === 'completed' && book.finishDate) {
         // Using finishDate for completed books
         const completedDate = new Date(book.finishDate);
@@ -101,7 +126,7 @@ const Dashboard: React.FC = () => {
     // Convert to array format for charts
     return Object.entries(monthlyData)
       .map(([name, value]) => ({ name, value }));
-  }, [books]);
+  }, [items]);
   
   if (loading) {
     return <div className="text-center py-10">Loading your library data...</div>;
@@ -113,12 +138,26 @@ const Dashboard: React.FC = () => {
   
   return (
     <div className="dashboard">
+      {/* Count editions or works */}
+      <div className="flex justify-end items-center gap-2 mb-4 text-sm">
+        <span className="text-gray-400">Count:</span>
+        {(['editions', 'works'] as DashboardCountBy[]).map(option => (
+          <button
+            key={option}
+            onClick={() => handleCountByChange(option)}
+            className={`px-2 py-1 text-xs rounded ${countBy === option ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            {option === 'editions' ? 'Editions' : 'Works'}
+          </button>
+        ))}
+      </div>
+      
       {/* Summary Statistics */}
       <div className="stats-summary flex justify-between mb-8 gap-4">
         <div className="stat-card flex-1 bg-gray-800 p-4 rounded-lg shadow-lg">
           <h3 className="text-lg font-bold">My Library</h3>
           <p className="text-3xl font-bold">{stats.totalBooks}</p>
-          <p className="text-gray-400">books in collection</p>
+          <p className="text-gray-400">{countBy === 'works' ? 'works in collection' : 'books in collection'}</p>
         </div>
         
         <div className="stat-card flex-1 bg-gray-800 p-4 rounded-lg shadow-lg">
@@ -172,6 +211,11 @@ const Dashboard: React.FC = () => {
           />
         </div>
       </div>
+      
+      {/* Next entries of the series being read */}
+      <div className="dashboard-card bg-gray-800 p-4 rounded-lg shadow-lg mt-6">
+        <NextInSeriesWidget />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from 'react';
+import { Book } from '../models/BookTypes';
+import { useBookMetadata } from '../providers/BookMetadataProvider';
+import { MERGE_SECTIONS, libraryDuplicateService } from '../services/duplicates/LibraryDuplicateService';
+import { DuplicateGroup, MergePlan, MergeSection, MergeSectionId } from '../services/duplicates/DuplicateTypes';
+
+interface DuplicateMergePanelProps {
+  onClose: () => void;
+}
+
+/**
+ * Format one field value for the side-by-side comparison
+ * @param value Field value
+ * @returns Short display text, or null if empty
+ */
+const formatValue = (value: unknown): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return null;
+    const names = value.map(item => (typeof item === 'object' && item && 'name' in item ? String(item.name) : String(item)));
+    return names.length > 3 ? `${names.slice(0, 3).join(', ')} +${names.length - 3}` : names.join(', ');
+  }
+  if (typeof value === 'object') {
+    const filled = Object.entries(value).filter(([, v]) => v !== undefined && v !== '' && !(Array.isArray(v) && v.length === 0));
+    return filled.length > 0 ? filled.map(([k, v]) => `${k}: ${formatValue(v)}`).join(', ') : null;
+  }
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+/**
+ * Summarize a book's values for one merge section
+ * @param book Book
+ * @param section Merge section
+ * @returns Lines of "field: value"
+ */
+const summarizeSection = (book: Book, section: MergeSection): string[] => {
+  if (section.id === 'coverAndDescription') {
+    return [book.coverImage ? 'Has cover' : 'No cover', formatValue(book.description) || 'No description'];
+  }
+
+  return section.fields
+    .map(field => {
+      const text = formatValue(book[field]);
+      return text ? `${field}: ${text}` : null;
+    })
+    .filter((line): line is string => line !== null);
+};
+
+const DuplicateMergePanel: React.FC<DuplicateMergePanelProps> = ({ onClose }) => {
+  const { books, refreshBooks } = useBookMetadata();
+  const [groups, setGroups] = useState<DuplicateGroup[]>(() => libraryDuplicateService.findDuplicates());
+  const [plan, setPlan] = useState<MergePlan | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const booksById = useMemo(() => new Map(books.map(book => [book.id, book])), [books]);
+  const planBooks = plan
+    ? plan.bookIds.map(id => booksById.get(id)).filter((book): book is Book => book !== undefined)
+    : [];
+
+  const preview = useMemo(() => {
+    if (!plan) return null;
+    try {
+      return libraryDuplicateService.previewMerge(plan);
+    } catch {
+      return null;
+    }
+  }, [plan]);
+
+  const rescan = () => {
+    setGroups(libraryDuplicateService.findDuplicates());
+  };
+
+  const startReview = (group: DuplicateGroup) => {
+    setMessage(null);
+    setError(null);
+    setPlan(libraryDuplicateService.createMergePlan(group.bookIds));
+  };
+
+  const dismiss = (group: DuplicateGroup) => {
+    libraryDuplicateService.dismissGroup(group.bookIds);
+    setGroups(prev => prev.filter(g => g.id !== group.id));
+  };
+
+  const setSource = (section: MergeSectionId, bookId: string) => {
+    setPlan(prev => prev && { ...prev, sources: { ...prev.sources, [section]: bookId } });
+  };
+
+  const handleMerge = () => {
+    if (!plan) return;
+
+    try {
+      const merged = libraryDuplicateService.mergeBooks(plan);
+      setMessage(`Merged ${plan.bookIds.length} books into "${merged.title}"`);
+      setPlan(null);
+      refreshBooks();
+      rescan();
+    } catch (err) {
+      console.error('Error merging books:', err);
+      setError(err instanceof Error ? err.message : 'Failed to merge the books');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-gray-900 rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] overflow-y-auto p-6 relative">
+        <div className="flex justify-between items-start mb-6">
+          <h2 className="text-2xl font-bold text-white">Find Duplicates</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {message && (
+          <div className="p-4 bg-green-900/30 border border-green-800 rounded-lg mb-6">
+            <p className="text-green-300">{message}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-900/30 border border-red-800 rounded-lg mb-6">
+            <p className="text-red-300">{error}</p>
+          </div>
+        )}
+
+        {!plan && (
+          groups.length === 0 ? (
+            <p className="text-gray-400">No likely duplicates in your library.</p>
+          ) : (
+            <div className="space-y-3">
+              {groups.map(group => (
+                <div key={group.id} className="p-4 bg-gray-800 rounded-lg">
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="flex-1 space-y-1">
+                      {group.bookIds.map(id => {
+                        const book = booksById.get(id);
+                        return book && (
+                          <p key={id} className="text-white">
+                            {book.title}
+                            <span className="text-gray-400 text-sm">
+                              {' '}— {book.authors.map(author => author.name).join(', ')}
+                              {book.isbn && ` · ISBN ${book.isbn}`}
+                              {` · ${book.readingSessions.length} sessions, ${book.annotations.length} annotations`}
+                            </span>
+                          </p>
+                        );
+                      })}
+                      <p className="text-xs text-purple-300">
+                        {group.reasons.join(', ')} · {Math.round(group.score * 100)}% match
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => dismiss(group)}
+                        className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+                      >
+                        Not Duplicates
+                      </button>
+                      <button
+                        onClick={() => startReview(group)}
+                        className="px-3 py-1.5 rounded text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white"
+                      >
+                        Review & Merge
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        {plan && (
+          <>
+            <p className="text-gray-400 text-sm mb-4">
+              Pick which book each section comes from. Reading sessions, annotations and tags from every
+              book are kept.
+            </p>
+
+            <div className="overflow-x-auto mb-6">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="text-left text-gray-400 font-medium p-2 w-40">Section</th>
+                    {planBooks.map(book => (
+                      <th key={book.id} className="text-left p-2 align-top">
+                        <p className="text-white font-medium">{book.title}</p>
+                        <label className="flex items-center gap-1 text-xs text-gray-400 font-normal mt-1">
+                          <input
+                            type="radio"
+                            checked={plan.survivorId === book.id}
+                            onChange={() => setPlan({ ...plan, survivorId: book.id })}
+                          />
+                          Keep this record
+                        </label>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {MERGE_SECTIONS.map(section => (
+                    <tr key={section.id} className="border-t border-gray-800">
+                      <td className="p-2 text-gray-300 align-top">{section.label}</td>
+                      {planBooks.map(book => {
+                        const lines = summarizeSection(book, section);
+                        const selected = plan.sources[section.id] === book.id;
+                        return (
+                          <td key={book.id} className="p-2 align-top">
+                            <label className={`block p-2 rounded cursor-pointer ${selected ? 'bg-indigo-900/50 border border-indigo-700' : 'bg-gray-800 border border-transparent'}`}>
+                              <input
+                                type="radio"
+                                name={section.id}
+                                checked={selected}
+                                onChange={() => setSource(section.id, book.id)}
+                                className="mr-2"
+                              />
+                              {lines.length > 0 ? (
+                                lines.map(line => <span key={line} className="block text-gray-300 text-xs">{line}</span>)
+                              ) : (
+                                <span className="text-gray-500 text-xs">Empty</span>
+                              )}
+                            </label>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {preview && (
+              <p className="text-sm text-gray-400 mb-4">
+                The merged book will have {preview.readingSessions.length} reading sessions,
+                {' '}{preview.annotations.length} annotations and {preview.userTags.length} tags.
+              </p>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setPlan(null)}
+                className="px-4 py-2 rounded-lg text-gray-300 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleMerge}
+                className="px-4 py-2 rounded-lg font-medium bg-indigo-600 hover:bg-indigo-700 text-white"
+              >
+                Merge {plan.bookIds.length} books
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateMergePanel;
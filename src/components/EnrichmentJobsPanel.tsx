@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { EnrichmentJob, EnrichmentJobStatus } from '../models/BookTypes';
+import { aiEnrichmentService } from '../services/AIEnrichmentService';
+import { enrichmentJobQueue } from '../services/EnrichmentJobQueue';
+import { ENRICHMENT_JOB_STATUS_LABELS, isActiveJob } from '../utils/enrichmentJobs';
+
+interface EnrichmentJobsPanelProps {
+  onClose: () => void;
+}
+
+const STATUS_CLASSES: Record<EnrichmentJobStatus, string> = {
+  pending: 'bg-gray-700 text-gray-200',
+  running: 'bg-indigo-900/50 text-indigo-200',
+  succeeded: 'bg-green-900/50 text-green-200',
+  failed: 'bg-red-900/50 text-red-200',
+  cancelled: 'bg-gray-800 text-gray-400'
+};
+
+const EnrichmentJobsPanel: React.FC<EnrichmentJobsPanelProps> = ({ onClose }) => {
+  const [jobs, setJobs] = useState<EnrichmentJob[]>(() => enrichmentJobQueue.getJobs());
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Follow the queue live
+  useEffect(() => enrichmentJobQueue.subscribe(() => setJobs(enrichmentJobQueue.getJobs())), []);
+
+  const activeCount = jobs.filter(isActiveJob).length;
+
+  const handleRetry = (job: EnrichmentJob) => {
+    if (!enrichmentJobQueue.retry(job.id)) {
+      setMessage(`"${job.title}" already has a job in the queue`);
+    }
+  };
+
+  const handleClear = () => {
+    const removed = enrichmentJobQueue.clearFinished();
+    setMessage(`Cleared ${removed} finished ${removed === 1 ? 'job' : 'jobs'}`);
+  };
+
+  const describe = (job: EnrichmentJob): string => {
+    const parts = [`Attempt ${job.attempts} of ${job.maxAttempts}`];
+    if (job.status === 'pending' && job.nextAttemptAt) {
+      parts.push(`next try at ${new Date(job.nextAttemptAt).toLocaleTimeString()}`);
+    } else if (job.finishedAt) {
+      parts.push(`finished ${new Date(job.finishedAt).toLocaleString()}`);
+    } else {
+      parts.push(`queued ${new Date(job.createdAt).toLocaleString()}`);
+    }
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-gray-900 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto p-6 relative">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Enrichment Jobs</h2>
+            <p className="text-gray-400 mt-1">
+              {activeCount > 0
+                ? `${activeCount} ${activeCount === 1 ? 'book' : 'books'} waiting or being enriched`
+                : 'Nothing is being enriched right now'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {!aiEnrichmentService.hasAPIKey() && activeCount > 0 && (
+          <div className="p-4 bg-yellow-900/30 border border-yellow-800 rounded-lg mb-6">
+            <p className="text-yellow-300">Queued jobs wait until a language model is configured in AI Settings.</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="p-4 bg-gray-800 border border-gray-700 rounded-lg mb-6">
+            <p className="text-gray-300">{message}</p>
+          </div>
+        )}
+
+        {jobs.length === 0 ? (
+          <p className="text-gray-400">No books have been queued for enrichment yet.</p>
+        ) : (
+          <>
+            <div className="flex justify-end mb-4">
+              <button
+                onClick={handleClear}
+                disabled={jobs.length === activeCount}
+                className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50"
+              >
+                Clear Finished
+              </button>
+            </div>
+            <div className="space-y-2">
+              {jobs.map(job => (
+                <div key={job.id} className="p-3 rounded-lg bg-gray-800">
+                  <div className="flex justify-between items-center gap-4">
+                    <div className="min-w-0">
+                      <p className="text-white truncate">{job.title}</p>
+                      <p className="text-xs text-gray-400">{describe(job)}</p>
+                      {job.lastError && job.status !== 'succeeded' && (
+                        <p className="text-xs text-yellow-400 mt-1">{job.lastError}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className={`text-xs font-medium px-2 py-1 rounded ${STATUS_CLASSES[job.status]}`}>
+                        {ENRICHMENT_JOB_STATUS_LABELS[job.status]}
+                      </span>
+                      {isActiveJob(job) ? (
+                        <button
+                          onClick={() => enrichmentJobQueue.cancel(job.id)}
+                          className="px-3 py-1.5 rounded text-sm font-medium text-gray-300 hover:text-white"
+                        >
+                          Cancel
+                        </button>
+                      ) : job.status !== 'succeeded' && (
+                        <button
+                          onClick={() => handleRetry(job)}
+                          className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EnrichmentJobsPanel;
@@ -0,0 +1,429 @@
+import React, { useMemo, useState } from 'react';
+import { Book, EnrichableField, FieldSuggestion } from '../models/BookTypes';
+import { ENRICHABLE_FIELD_LABELS, PROVENANCE_SOURCE_LABELS } from '../utils/provenance';
+import {
+  ItemChange,
+  ListField,
+  ListItem,
+  diffListItems,
+  getItemKey,
+  getItemName,
+  isListField,
+  mergeListItems,
+  renameItem
+} from '../utils/enrichmentSuggestions';
+
+interface EnrichmentSuggestionReviewProps {
+  book: Book;                   // The book as stored now, to compare against
+  suggestion: FieldSuggestion;
+  onAccept: (value: FieldSuggestion['suggested'], edited: boolean) => void;
+  onReject: () => void;
+}
+
+type ValueField = Exclude<EnrichableField, ListField>;
+
+const AUDIENCE_LABELS: Record<Book['audience'], string> = {
+  children: 'Children',
+  'middle-grade': 'Middle Grade',
+  'young-adult': 'Young Adult',
+  adult: 'Adult',
+  academic: 'Academic'
+};
+
+const POV_OPTIONS: Book['narrativeStructure']['pov'][] = [
+  'first-person', 'second-person', 'third-person-limited', 'third-person-omniscient', 'multiple', 'other'
+];
+const TENSE_OPTIONS: Book['narrativeStructure']['tense'][] = ['past', 'present', 'future', 'mixed'];
+const TIMELINE_OPTIONS: Book['narrativeStructure']['timeline'][] = ['linear', 'non-linear', 'multiple-timelines'];
+const FORMAT_OPTIONS: NonNullable<Book['narrativeStructure']['format']>[] = ['prose', 'verse', 'epistolary', 'mixed-media', 'other'];
+const COMPLEXITY_SCORES: (keyof Book['complexity'])[] = ['readability', 'vocabulary', 'conceptual', 'structural'];
+
+const CHANGE_LABELS: Record<ItemChange, string> = {
+  added: 'New',
+  changed: 'Changed',
+  unchanged: 'Already listed'
+};
+
+const CHANGE_CLASSES: Record<ItemChange, string> = {
+  added: 'bg-green-900/50 text-green-200',
+  changed: 'bg-yellow-900/50 text-yellow-200',
+  unchanged: 'bg-gray-700 text-gray-400'
+};
+
+const inputClass = 'mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white';
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Describe the details of a list item beyond its name
+ * @param item List item
+ * @returns Relevance, role or kind of place; null for plain genres
+ */
+const describeItem = (item: ListItem): string | null => {
+  if (typeof item === 'string') return null;
+  if ('relevance' in item) return `relevance ${item.relevance}/5`;
+  if ('role' in item) return [item.role, item.archetype].filter(Boolean).join(', ');
+  return `${item.type}${item.realWorld ? '' : ', fictional'}, importance ${item.importance}/5`;
+};
+
+/**
+ * Describe a field that is not a list
+ * @param book Book holding the value
+ * @param field Field to describe
+ * @returns The value in words
+ */
+const describeValue = (book: Book, field: ValueField): string => {
+  switch (field) {
+    case 'fiction':
+      return book.fiction ? 'Fiction' : 'Non-fiction';
+    case 'audience':
+      return AUDIENCE_LABELS[book.audience] || book.audience;
+    case 'narrativeStructure': {
+      const { pov, tense, timeline, format } = book.narrativeStructure;
+      return [pov, `${tense} tense`, timeline, format].filter(Boolean).join(', ');
+    }
+    case 'complexity': {
+      const scores = COMPLEXITY_SCORES
+        .filter(score => book.complexity?.[score] !== undefined)
+        .map(score => `${score} ${book.complexity[score]}`);
+      return scores.length > 0 ? scores.join(', ') : 'Not rated';
+    }
+    case 'culturalContext': {
+      const { representation, diversityElements, sensitivity } = book.culturalContext;
+      const parts = [
+        representation.length > 0 && `Representation: ${representation.join(', ')}`,
+        diversityElements.length > 0 && `Diversity: ${diversityElements.join(', ')}`,
+        sensitivity && `Sensitivity: ${sensitivity}`
+      ].filter(Boolean);
+      return parts.length > 0 ? parts.join('; ') : 'None';
+    }
+  }
+};
+
+/**
+ * Split a comma-separated entry into a list
+ * @param text Entry as typed
+ * @returns Trimmed, non-empty items
+ */
+const splitList = (text: string): string[] => text.split(',').map(item => item.trim()).filter(Boolean);
+
+interface ListReviewProps {
+  current: ListItem[];
+  suggested: ListItem[];
+  onAccept: (value: ListItem[], edited: boolean) => void;
+  onReject: () => void;
+}
+
+// Review of a list field: each new or changed item can be taken, left out or renamed
+const ListReview: React.FC<ListReviewProps> = ({ current, suggested, onAccept, onReject }) => {
+  const diffs = useMemo(() => diffListItems(current, suggested), [current, suggested]);
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(diffs.filter(diff => diff.change !== 'unchanged').map(diff => diff.key))
+  );
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  // Items only the book has stay as they are
+  const kept = current.filter(item => !diffs.some(diff => diff.key === getItemKey(item)));
+
+  const toggle = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setSelected(next);
+  };
+
+  const handleApply = () => {
+    let edited = false;
+    const accepted = diffs
+      .filter(diff => diff.change !== 'unchanged' && selected.has(diff.key))
+      .map(diff => {
+        const name = names[diff.key]?.trim();
+        if (!name || name === getItemName(diff.suggested)) return diff.suggested;
+        edited = true;
+        return renameItem(diff.suggested, name);
+      });
+    onAccept(mergeListItems(current, accepted), edited);
+  };
+
+  return (
+    <>
+      <ul className="space-y-2">
+        {diffs.map(diff => (
+          <li key={diff.key} className="flex items-center gap-3">
+            {diff.change === 'unchanged' ? (
+              <span className="w-4" />
+            ) : (
+              <input
+                type="checkbox"
+                checked={selected.has(diff.key)}
+                onChange={() => toggle(diff.key)}
+                aria-label={`Take ${getItemName(diff.suggested)}`}
+              />
+            )}
+            <span className={`text-xs font-medium px-2 py-0.5 rounded shrink-0 ${CHANGE_CLASSES[diff.change]}`}>
+              {CHANGE_LABELS[diff.change]}
+            </span>
+            <div className="min-w-0 flex-1">
+              {diff.change === 'unchanged' ? (
+                <span className="text-gray-400">{getItemName(diff.suggested)}</span>
+              ) : (
+                <input
+                  type="text"
+                  value={names[diff.key] ?? getItemName(diff.suggested)}
+                  onChange={e => setNames({ ...names, [diff.key]: e.target.value })}
+                  disabled={!selected.has(diff.key)}
+                  className="w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-white text-sm disabled:opacity-50"
+                />
+              )}
+              {describeItem(diff.suggested) && (
+                <span className="block text-xs text-gray-500 mt-0.5">
+                  {describeItem(diff.suggested)}
+                  {diff.change === 'changed' && diff.current && ` (now ${describeItem(diff.current)})`}
+                </span>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {kept.length > 0 && (
+        <p className="text-xs text-gray-500 mt-3">
+          Kept as is: {kept.map(getItemName).join(', ')}
+        </p>
+      )}
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          onClick={onReject}
+          className="px-3 py-1.5 rounded text-sm font-medium text-gray-300 hover:text-white"
+        >
+          Reject
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={selected.size === 0}
+          className="px-3 py-1.5 rounded text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+        >
+          Add {selected.size} {selected.size === 1 ? 'Item' : 'Items'}
+        </button>
+      </div>
+    </>
+  );
+};
+
+interface ValueReviewProps {
+  book: Book;
+  field: ValueField;
+  suggested: Book;              // The book with the suggested value in place
+  onAccept: (value: FieldSuggestion['suggested'], edited: boolean) => void;
+  onReject: () => void;
+}
+
+// Review of a single value: the suggestion can be taken as is, edited first, or rejected
+const ValueReview: React.FC<ValueReviewProps> = ({ book, field, suggested, onAccept, onReject }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<Book>(suggested);
+  // Lists of the cultural context, as typed
+  const [representation, setRepresentation] = useState(suggested.culturalContext.representation.join(', '));
+  const [diversityElements, setDiversityElements] = useState(suggested.culturalContext.diversityElements.join(', '));
+
+  const handleAccept = () => {
+    if (!isEditing) {
+      onAccept(suggested[field], false);
+      return;
+    }
+
+    const value = field === 'culturalContext'
+      ? { ...draft.culturalContext, representation: splitList(representation), diversityElements: splitList(diversityElements) }
+      : draft[field];
+    onAccept(value, !sameValue(value, suggested[field]));
+  };
+
+  const renderEditor = () => {
+    switch (field) {
+      case 'fiction':
+        return (
+          <select
+            value={draft.fiction ? 'fiction' : 'nonfiction'}
+            onChange={e => setDraft({ ...draft, fiction: e.target.value === 'fiction' })}
+            className={inputClass}
+          >
+            <option value="fiction">Fiction</option>
+            <option value="nonfiction">Non-fiction</option>
+          </select>
+        );
+      case 'audience':
+        return (
+          <select
+            value={draft.audience}
+            onChange={e => setDraft({ ...draft, audience: e.target.value as Book['audience'] })}
+            className={inputClass}
+          >
+            {(Object.keys(AUDIENCE_LABELS) as Book['audience'][]).map(audience => (
+              <option key={audience} value={audience}>{AUDIENCE_LABELS[audience]}</option>
+            ))}
+          </select>
+        );
+      case 'narrativeStructure': {
+        const structure = draft.narrativeStructure;
+        const update = (changes: Partial<Book['narrativeStructure']>) =>
+          setDraft({ ...draft, narrativeStructure: { ...structure, ...changes } });
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-sm text-gray-400">
+              Point of view
+              <select value={structure.pov} onChange={e => update({ pov: e.target.value as typeof structure.pov })} className={inputClass}>
+                {POV_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm text-gray-400">
+              Tense
+              <select value={structure.tense} onChange={e => update({ tense: e.target.value as typeof structure.tense })} className={inputClass}>
+                {TENSE_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm text-gray-400">
+              Timeline
+              <select value={structure.timeline} onChange={e => update({ timeline: e.target.value as typeof structure.timeline })} className={inputClass}>
+                {TIMELINE_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm text-gray-400">
+              Format
+              <select
+                value={structure.format || ''}
+                onChange={e => update({ format: (e.target.value || undefined) as typeof structure.format })}
+                className={inputClass}
+              >
+                <option value="">Unknown</option>
+                {FORMAT_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+            </label>
+          </div>
+        );
+      }
+      case 'complexity':
+        return (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {COMPLEXITY_SCORES.map(score => (
+              <label key={score} className="block text-sm text-gray-400 capitalize">
+                {score}
+                <input
+                  type="number"
+                  min={1}
+                  max={5}
+                  value={draft.complexity[score] ?? ''}
+                  onChange={e => setDraft({
+                    ...draft,
+                    complexity: { ...draft.complexity, [score]: e.target.value === '' ? undefined : Number(e.target.value) }
+                  })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        );
+      case 'culturalContext':
+        return (
+          <div className="space-y-3">
+            <label className="block text-sm text-gray-400">
+              Representation (comma-separated)
+              <input type="text" value={representation} onChange={e => setRepresentation(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block text-sm text-gray-400">
+              Diversity elements (comma-separated)
+              <input type="text" value={diversityElements} onChange={e => setDiversityElements(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block text-sm text-gray-400">
+              Sensitivity
+              <input
+                type="text"
+                value={draft.culturalContext.sensitivity || ''}
+                onChange={e => setDraft({
+                  ...draft,
+                  culturalContext: { ...draft.culturalContext, sensitivity: e.target.value || undefined }
+                })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <>
+      {isEditing ? renderEditor() : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+          <div>
+            <p className="text-gray-500 mb-1">Current</p>
+            <p className="text-gray-300">{describeValue(book, field)}</p>
+          </div>
+          <div>
+            <p className="text-gray-500 mb-1">Suggested</p>
+            <p className="text-green-300">{describeValue(suggested, field)}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          onClick={onReject}
+          className="px-3 py-1.5 rounded text-sm font-medium text-gray-300 hover:text-white"
+        >
+          Reject
+        </button>
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+        >
+          {isEditing ? 'Show Difference' : 'Edit'}
+        </button>
+        <button
+          onClick={handleAccept}
+          className="px-3 py-1.5 rounded text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white"
+        >
+          {isEditing ? 'Save Edited' : 'Accept'}
+        </button>
+      </div>
+    </>
+  );
+};
+
+const EnrichmentSuggestionReview: React.FC<EnrichmentSuggestionReviewProps> = ({ book, suggestion, onAccept, onReject }) => {
+  const { field, provenance } = suggestion;
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg">
+      <div className="flex justify-between items-baseline gap-4 mb-3">
+        <h4 className="font-medium text-white">{ENRICHABLE_FIELD_LABELS[field]}</h4>
+        <span className="text-xs text-gray-500">
+          {PROVENANCE_SOURCE_LABELS[provenance.source]}
+          {` · ${Math.round(provenance.confidence * 100)}%`}
+          {provenance.model && ` · ${provenance.model}`}
+        </span>
+      </div>
+
+      {isListField(field) ? (
+        <ListReview
+          current={book[field] as ListItem[]}
+          suggested={suggestion.suggested as ListItem[]}
+          onAccept={(value, edited) => onAccept(value as FieldSuggestion['suggested'], edited)}
+          onReject={onReject}
+        />
+      ) : (
+        <ValueReview
+          book={book}
+          field={field}
+          suggested={{ ...book, [field]: suggestion.suggested }}
+          onAccept={onAccept}
+          onReject={onReject}
+        />
+      )}
+    </div>
+  );
+};
+
+export default EnrichmentSuggestionReview;
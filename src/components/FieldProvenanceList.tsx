@@ -0,0 +1,70 @@
+import React from 'react';
+import { Book, FieldProvenance, ProvenanceSource } from '../models/BookTypes';
+import {
+  ENRICHABLE_FIELDS,
+  ENRICHABLE_FIELD_LABELS,
+  PROVENANCE_SOURCE_LABELS,
+  getFieldProvenance
+} from '../utils/provenance';
+
+interface FieldProvenanceListProps {
+  book: Book;
+}
+
+const SOURCE_CLASSES: Record<ProvenanceSource, string> = {
+  default: 'text-gray-500 italic',
+  catalog: 'text-blue-300',
+  library_import: 'text-teal-300',
+  classic_literature_database: 'text-amber-300',
+  ai_enrichment: 'text-indigo-300',
+  user: 'text-green-300'
+};
+
+/**
+ * Describe a provenance record in full, for the tooltip
+ * @param provenance Provenance to describe
+ * @returns Source, date, confidence, prompt and model
+ */
+const describe = (provenance: FieldProvenance): string => [
+  PROVENANCE_SOURCE_LABELS[provenance.source],
+  `set ${new Date(provenance.recordedAt).toLocaleString()}`,
+  `confidence ${Math.round(provenance.confidence * 100)}%`,
+  provenance.promptVersion && `prompt ${provenance.promptVersion}`,
+  provenance.model && `model ${provenance.model}`
+].filter(Boolean).join(' · ');
+
+const FieldProvenanceList: React.FC<FieldProvenanceListProps> = ({ book }) => {
+  return (
+    <div className="mb-4">
+      <p className="text-sm text-gray-400 mb-2">Sources:</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+        {ENRICHABLE_FIELDS.map(field => {
+          const provenance = getFieldProvenance(book, field);
+          const value = book[field];
+          const empty = Array.isArray(value) && value.length === 0;
+
+          return (
+            <div key={field} className="flex justify-between gap-3">
+              <span className="text-gray-300">{ENRICHABLE_FIELD_LABELS[field]}</span>
+              {provenance && !empty ? (
+                <span className={SOURCE_CLASSES[provenance.source]} title={describe(provenance)}>
+                  {PROVENANCE_SOURCE_LABELS[provenance.source]}
+                  {provenance.source !== 'default' && provenance.source !== 'user' && (
+                    <span className="text-gray-500"> · {Math.round(provenance.confidence * 100)}%</span>
+                  )}
+                  {provenance.promptVersion && (
+                    <span className="text-gray-500"> · {provenance.promptVersion}</span>
+                  )}
+                </span>
+              ) : (
+                <span className="text-gray-500">{empty ? 'Empty' : 'Unknown'}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FieldProvenanceList;
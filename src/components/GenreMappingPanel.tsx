@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { Book } from '../models/BookTypes';
+import { useBookMetadata } from '../providers/BookMetadataProvider';
+import { CategoryUsage, genreTaxonomyService } from '../services/GenreTaxonomyService';
+
+interface GenreMappingPanelProps {
+  onClose: () => void;
+}
+
+const AUDIENCE_LABELS: Record<Book['audience'], string> = {
+  children: 'Children',
+  'middle-grade': 'Middle Grade',
+  'young-adult': 'Young Adult',
+  adult: 'Adult',
+  academic: 'Academic'
+};
+
+/**
+ * Values of the mapping being edited; empty strings leave the field to broader categories
+ */
+interface MappingDraft {
+  category: string;
+  genre: string;
+  subgenre: string;
+  fiction: '' | 'fiction' | 'nonfiction';
+  audience: '' | Book['audience'];
+}
+
+/**
+ * Start editing a category from its current mapping, or from how it is classified now
+ * @param usage Category to edit
+ * @returns Draft values
+ */
+const toDraft = (usage: CategoryUsage): MappingDraft => {
+  const { mapping, classification } = usage;
+  if (mapping) {
+    return {
+      category: usage.category,
+      genre: mapping.genre || '',
+      subgenre: mapping.subgenre || '',
+      fiction: mapping.fiction === undefined ? '' : mapping.fiction ? 'fiction' : 'nonfiction',
+      audience: mapping.audience || ''
+    };
+  }
+
+  return {
+    category: usage.category,
+    genre: classification.genres[0] || '',
+    subgenre: classification.subgenres[0] || '',
+    fiction: '',
+    audience: ''
+  };
+};
+
+const GenreMappingPanel: React.FC<GenreMappingPanelProps> = ({ onClose }) => {
+  const { books, refreshBooks } = useBookMetadata();
+  const [draft, setDraft] = useState<MappingDraft | null>(null);
+  const [unmappedOnly, setUnmappedOnly] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // Mapping changes don't always change a book, so the list is re-read after each one
+  const [, setVersion] = useState(0);
+
+  const categories = genreTaxonomyService.getLibraryCategories(books)
+    .filter(usage => !unmappedOnly || usage.classification.unmapped.length > 0);
+  const taxonomy = genreTaxonomyService.getTaxonomy();
+  const subgenreOptions = taxonomy.find(genre => genre.name === draft?.genre)?.subgenres || [];
+
+  const afterChange = (updated: number) => {
+    setMessage(updated > 0
+      ? `Reclassified ${updated} ${updated === 1 ? 'book' : 'books'}`
+      : 'Mapping saved; no books needed reclassifying');
+    setDraft(null);
+    setVersion(version => version + 1);
+    refreshBooks();
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+
+    try {
+      afterChange(genreTaxonomyService.setMapping({
+        category: draft.category,
+        genre: draft.genre,
+        subgenre: draft.subgenre,
+        fiction: draft.fiction === '' ? undefined : draft.fiction === 'fiction',
+        audience: draft.audience || undefined
+      }));
+    } catch (err) {
+      console.error('Error saving genre mapping:', err);
+      setMessage(err instanceof Error ? err.message : 'Failed to save the mapping');
+    }
+  };
+
+  const handleReset = (category: string) => {
+    afterChange(genreTaxonomyService.resetMapping(category));
+  };
+
+  const describe = (usage: CategoryUsage): string => {
+    const { classification } = usage;
+    if (classification.unmapped.length > 0) return 'Not mapped';
+
+    const parts = [
+      classification.genres[0]
+        ? [classification.genres[0], classification.subgenres[0]].filter(Boolean).join(' › ')
+        : 'No genre',
+      classification.fiction ? 'Fiction' : 'Non-fiction',
+      AUDIENCE_LABELS[classification.audience]
+    ];
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-gray-900 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto p-6 relative">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Genre Mapping</h2>
+            <p className="text-gray-400 mt-1">How the catalogs' categories become your library's genres</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {message && (
+          <div className="p-4 bg-gray-800 border border-gray-700 rounded-lg mb-6">
+            <p className="text-gray-300">{message}</p>
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-300 mb-4">
+          <input
+            type="checkbox"
+            checked={unmappedOnly}
+            onChange={e => setUnmappedOnly(e.target.checked)}
+          />
+          Only show categories that aren't mapped
+        </label>
+
+        {categories.length === 0 ? (
+          <p className="text-gray-400">
+            {unmappedOnly
+              ? 'Every category in your library is mapped.'
+              : 'None of your books have catalog categories yet. Books added from a catalog bring theirs along.'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {categories.map(usage => (
+              <div key={usage.category} className="p-3 rounded-lg bg-gray-800">
+                <div className="flex justify-between items-center gap-4">
+                  <div>
+                    <p className="text-white">{usage.label}</p>
+                    <p className={`text-xs ${usage.classification.unmapped.length > 0 ? 'text-yellow-400' : 'text-gray-400'}`}>
+                      {describe(usage)} · {usage.bookCount} {usage.bookCount === 1 ? 'book' : 'books'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {genreTaxonomyService.isCustomized(usage.category) && (
+                      <>
+                        <span className="text-xs font-medium px-2 py-1 rounded bg-indigo-900/50 text-indigo-200">Custom</span>
+                        <button
+                          onClick={() => handleReset(usage.category)}
+                          className="px-3 py-1.5 rounded text-sm font-medium text-gray-300 hover:text-white"
+                        >
+                          Reset
+                        </button>
+                      </>
+                    )}
+                    <button
+                      onClick={() => setDraft(toDraft(usage))}
+                      className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+                    >
+                      Edit
+                    </button>
+                  </div>
+                </div>
+
+                {draft?.category === usage.category && (
+                  <div className="mt-3 grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <label className="block text-sm text-gray-400">
+                      Genre
+                      <input
+                        type="text"
+                        list="genre-taxonomy"
+                        value={draft.genre}
+                        onChange={e => setDraft({ ...draft, genre: e.target.value, subgenre: '' })}
+                        placeholder="None"
+                        className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+                      />
+                    </label>
+                    <label className="block text-sm text-gray-400">
+                      Subgenre
+                      <input
+                        type="text"
+                        list="genre-subgenres"
+                        value={draft.subgenre}
+                        disabled={!draft.genre.trim()}
+                        onChange={e => setDraft({ ...draft, subgenre: e.target.value })}
+                        placeholder="None"
+                        className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white disabled:opacity-50"
+                      />
+                    </label>
+                    <label className="block text-sm text-gray-400">
+                      Fiction
+                      <select
+                        value={draft.fiction}
+                        onChange={e => setDraft({ ...draft, fiction: e.target.value as MappingDraft['fiction'] })}
+                        className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+                      >
+                        <option value="">From genre</option>
+                        <option value="fiction">Fiction</option>
+                        <option value="nonfiction">Non-fiction</option>
+                      </select>
+                    </label>
+                    <label className="block text-sm text-gray-400">
+                      Audience
+                      <select
+                        value={draft.audience}
+                        onChange={e => setDraft({ ...draft, audience: e.target.value as MappingDraft['audience'] })}
+                        className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+                      >
+                        <option value="">From broader categories</option>
+                        {(Object.keys(AUDIENCE_LABELS) as Book['audience'][]).map(audience => (
+                          <option key={audience} value={audience}>{AUDIENCE_LABELS[audience]}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <div className="md:col-span-4 flex justify-end gap-2">
+                      <button
+                        onClick={() => setDraft(null)}
+                        className="px-3 py-1.5 rounded text-sm font-medium text-gray-300 hover:text-white"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleSave}
+                        className="px-3 py-1.5 rounded text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white"
+                      >
+                        Save Mapping
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <datalist id="genre-taxonomy">
+          {taxonomy.map(genre => <option key={genre.name} value={genre.name} />)}
+        </datalist>
+        <datalist id="genre-subgenres">
+          {subgenreOptions.map(subgenre => <option key={subgenre} value={subgenre} />)}
+        </datalist>
+      </div>
+    </div>
+  );
+};
+
+export default GenreMappingPanel;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { LLMSettings } from '../services/llm/LLMProvider';
+import { llmService } from '../services/llm/LLMService';
+import { bookEnrichmentOrchestrator } from '../services/BookEnrichmentOrchestrator';
+
+interface LLMSettingsPanelProps {
+  onClose: () => void;
+}
+
+const LLMSettingsPanel: React.FC<LLMSettingsPanelProps> = ({ onClose }) => {
+  const providers = llmService.getProviders();
+  const [draft, setDraft] = useState<LLMSettings>(() => llmService.getSettings());
+  const [message, setMessage] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const provider = providers.find(p => p.id === draft.providerId) || llmService.getProvider();
+
+  const handleProviderChange = (providerId: string) => {
+    setDraft(llmService.getSettings(providerId));
+    setMessage(null);
+  };
+
+  const save = (): boolean => {
+    try {
+      llmService.updateSettings(draft);
+      // Queued enrichment jobs can start once a model is configured
+      bookEnrichmentOrchestrator.resumeEnrichment();
+      setMessage(llmService.isConfigured()
+        ? `Enrichment will use ${provider.name} (${draft.model})`
+        : `Saved; ${provider.name} needs an API key before enrichment can run`);
+      return true;
+    } catch (err) {
+      console.error('Error saving language model settings:', err);
+      setMessage(err instanceof Error ? err.message : 'Failed to save the settings');
+      return false;
+    }
+  };
+
+  const handleTest = async () => {
+    if (!save() || !llmService.isConfigured()) return;
+
+    setTesting(true);
+    try {
+      const reply = await llmService.complete([{ role: 'user', content: 'Reply with the single word OK.' }]);
+      setMessage(`Connected; the model replied "${reply.trim().slice(0, 80)}"`);
+    } catch (err) {
+      setMessage(err instanceof Error ? `Connection failed: ${err.message}` : 'Connection failed');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-gray-900 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto p-6 relative">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">AI Settings</h2>
+            <p className="text-gray-400 mt-1">Choose the language model that metadata enrichment uses</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {message && (
+          <div className="p-4 bg-gray-800 border border-gray-700 rounded-lg mb-6">
+            <p className="text-gray-300">{message}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block text-sm text-gray-400">
+            Provider
+            <select
+              value={draft.providerId}
+              onChange={e => handleProviderChange(e.target.value)}
+              className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+            >
+              {providers.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-400">
+            Model
+            <input
+              type="text"
+              value={draft.model}
+              onChange={e => setDraft({ ...draft, model: e.target.value })}
+              placeholder={provider.defaults.model}
+              className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+            />
+          </label>
+          <label className="block text-sm text-gray-400 md:col-span-2">
+            Endpoint
+            <input
+              type="url"
+              value={draft.endpoint}
+              onChange={e => setDraft({ ...draft, endpoint: e.target.value })}
+              placeholder={provider.defaults.endpoint}
+              className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+            />
+          </label>
+          <label className="block text-sm text-gray-400 md:col-span-2">
+            API Key{provider.requiresApiKey ? '' : ' (optional)'}
+            <input
+              type="password"
+              autoComplete="off"
+              value={draft.apiKey}
+              onChange={e => setDraft({ ...draft, apiKey: e.target.value })}
+              placeholder={provider.requiresApiKey ? 'Required' : 'Leave empty for servers without authentication'}
+              className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+            />
+            <span className="block mt-1 text-xs text-gray-500">Stored on this device only and never included in backups.</span>
+          </label>
+          <label className="block text-sm text-gray-400">
+            Temperature
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={draft.temperature}
+              onChange={e => setDraft({ ...draft, temperature: Number(e.target.value) })}
+              className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+            />
+          </label>
+          <label className="block text-sm text-gray-400">
+            Max Tokens
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={draft.maxTokens}
+              onChange={e => setDraft({ ...draft, maxTokens: Number(e.target.value) })}
+              className="mt-1 w-full p-2 bg-gray-800 border border-gray-700 rounded text-white"
+            />
+          </label>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            onClick={() => setDraft({ ...draft, ...provider.defaults })}
+            className="px-3 py-1.5 rounded text-sm font-medium text-gray-300 hover:text-white"
+          >
+            Use Defaults
+          </button>
+          <button
+            onClick={handleTest}
+            disabled={testing}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50"
+          >
+            {testing ? 'Testing...' : 'Save & Test'}
+          </button>
+          <button
+            onClick={save}
+            className="px-3 py-1.5 rounded text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LLMSettingsPanel;
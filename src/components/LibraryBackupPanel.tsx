@@ -0,0 +1,160 @@
+import React, { useRef, useState } from 'react';
+import { useBookMetadata } from '../providers/BookMetadataProvider';
+import {
+  libraryBackupService,
+  LibraryBackupBundle,
+  RestoreMode,
+  RestoreSummary
+} from '../services/LibraryBackupService';
+
+const LibraryBackupPanel: React.FC = () => {
+  const { refreshBooks } = useBookMetadata();
+  const [pendingBundle, setPendingBundle] = useState<LibraryBackupBundle | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<RestoreSummary | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    try {
+      setExportError(null);
+      await libraryBackupService.downloadBackup();
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      setExportError('Failed to create the backup');
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setSummary(null);
+    const result = libraryBackupService.parseBackup(await file.text());
+
+    if (result.valid && result.bundle) {
+      setErrors([]);
+      setPendingBundle(result.bundle);
+    } else {
+      setErrors(result.errors);
+      setPendingBundle(null);
+    }
+
+    // Allow selecting the same file again
+    e.target.value = '';
+  };
+
+  const handleRestore = async () => {
+    if (!pendingBundle) return;
+
+    if (restoreMode === 'replace' && !window.confirm('Replace your entire library with this backup? This cannot be undone.')) {
+      return;
+    }
+
+    try {
+      setRestoring(true);
+      const result = await libraryBackupService.restoreBackup(pendingBundle, restoreMode);
+      setSummary(result);
+      setPendingBundle(null);
+      refreshBooks();
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      setErrors(['Failed to restore the backup']);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-800 rounded-lg">
+      <div className="flex flex-wrap items-center gap-3">
+        <h3 className="text-sm font-medium text-gray-300 mr-auto">Backup &amp; Restore</h3>
+        <button
+          onClick={handleExport}
+          className="px-3 py-1.5 rounded text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white"
+        >
+          Export Backup
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 rounded text-sm font-medium bg-gray-700 hover:bg-gray-600 text-gray-200"
+        >
+          Restore Backup
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+      </div>
+
+      {exportError && (
+        <div className="mt-3 p-2 bg-red-900/50 border border-red-700 text-red-200 rounded-lg text-sm">
+          {exportError}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-3 p-2 bg-red-900/50 border border-red-700 text-red-200 rounded-lg text-sm">
+          <p className="font-medium">This file can't be restored:</p>
+          <ul className="list-disc pl-5">
+            {errors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {pendingBundle && (
+        <div className="mt-3 p-3 bg-gray-900 rounded-lg text-sm">
+          <p className="text-gray-300">
+            Backup from {new Date(pendingBundle.exportedAt).toLocaleString()} with {pendingBundle.data.enhanced_books.length} books.
+          </p>
+          <div className="mt-2 flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-1 text-gray-300">
+              <input
+                type="radio"
+                checked={restoreMode === 'merge'}
+                onChange={() => setRestoreMode('merge')}
+              />
+              Merge by id/ISBN
+            </label>
+            <label className="flex items-center gap-1 text-gray-300">
+              <input
+                type="radio"
+                checked={restoreMode === 'replace'}
+                onChange={() => setRestoreMode('replace')}
+              />
+              Replace library
+            </label>
+            <button
+              onClick={handleRestore}
+              disabled={restoring}
+              className="ml-auto px-3 py-1 rounded text-sm font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+            >
+              {restoring ? 'Restoring...' : 'Restore'}
+            </button>
+            <button
+              onClick={() => setPendingBundle(null)}
+              className="px-3 py-1 rounded text-sm text-gray-400 hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {summary && (
+        <p className="mt-3 text-sm text-green-300">
+          Restore complete: {summary.booksAdded} added, {summary.booksUpdated} updated, {summary.booksSkipped} unchanged.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LibraryBackupPanel;
@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { useBookMetadata } from '../providers/BookMetadataProvider';
+import { libraryExportService } from '../services/exporters/LibraryExportService';
+import { ExportColumn } from '../services/exporters/ExportTypes';
+
+interface LibraryExportPanelProps {
+  onClose: () => void;
+}
+
+const LibraryExportPanel: React.FC<LibraryExportPanelProps> = ({ onClose }) => {
+  const { books } = useBookMetadata();
+  const exporters = libraryExportService.getExporters();
+  const columns = libraryExportService.getColumns();
+  const [exporterId, setExporterId] = useState(exporters[0].id);
+  const [selectedColumns, setSelectedColumns] = useState<string[]>(
+    columns.filter(column => column.defaultSelected).map(column => column.id)
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const exporter = exporters.find(e => e.id === exporterId) || exporters[0];
+
+  // Columns grouped by section, in output order
+  const columnGroups = useMemo(() => {
+    const groups: Record<string, ExportColumn[]> = {};
+    columns.forEach(column => {
+      groups[column.group] = [...(groups[column.group] || []), column];
+    });
+    return Object.entries(groups);
+  }, [columns]);
+
+  const toggleColumn = (columnId: string) => {
+    setSelectedColumns(prev =>
+      prev.includes(columnId) ? prev.filter(id => id !== columnId) : [...prev, columnId]
+    );
+  };
+
+  const handleExport = () => {
+    try {
+      setError(null);
+      libraryExportService.downloadExport(
+        exporter,
+        books,
+        exporter.supportsColumns ? { columns: selectedColumns } : undefined
+      );
+    } catch (err) {
+      console.error('Error exporting library:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export the library');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-gray-900 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6 relative">
+        <div className="flex justify-between items-start mb-6">
+          <h2 className="text-2xl font-bold text-white">Export Library</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-2 mb-6">
+          {exporters.map(e => (
+            <label key={e.id} className="flex items-start gap-2 p-3 bg-gray-800 rounded-lg cursor-pointer">
+              <input
+                type="radio"
+                checked={exporterId === e.id}
+                onChange={() => setExporterId(e.id)}
+                className="mt-1"
+              />
+              <span>
+                <span className="block font-medium text-white">{e.name}</span>
+                <span className="block text-sm text-gray-400">{e.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {exporter.supportsColumns && (
+          <div className="mb-6">
+            <div className="flex items-center gap-3 mb-3">
+              <h3 className="text-sm font-medium text-gray-300 mr-auto">
+                Columns ({selectedColumns.length} selected)
+              </h3>
+              <button
+                onClick={() => setSelectedColumns(columns.map(column => column.id))}
+                className="text-xs text-indigo-300 hover:text-indigo-200"
+              >
+                Select all
+              </button>
+              <button
+                onClick={() => setSelectedColumns([])}
+                className="text-xs text-indigo-300 hover:text-indigo-200"
+              >
+                Clear
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mb-3">
+              Lists are separated with "; ". Themes, locations and characters are written as "Name (detail)";
+              reading sessions and annotations are summarized. Use JSON Lines for a complete copy.
+            </p>
+            <div className="space-y-4">
+              {columnGroups.map(([group, groupColumns]) => (
+                <div key={group}>
+                  <h4 className="text-xs uppercase tracking-wide text-gray-500 mb-1">{group}</h4>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                    {groupColumns.map(column => (
+                      <label key={column.id} className="flex items-center gap-2 text-sm text-gray-300" title={column.description}>
+                        <input
+                          type="checkbox"
+                          checked={selectedColumns.includes(column.id)}
+                          onChange={() => toggleColumn(column.id)}
+                        />
+                        {column.id}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-900/30 border border-red-800 rounded-lg mb-6">
+            <p className="text-red-300">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-gray-300 hover:text-white"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={books.length === 0}
+            className="px-4 py-2 rounded-lg font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+          >
+            Export {books.length} {books.length === 1 ? 'book' : 'books'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryExportPanel;
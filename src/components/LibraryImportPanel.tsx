@@ -0,0 +1,247 @@
+import React, { useMemo, useState } from 'react';
+import { useBookMetadata } from '../providers/BookMetadataProvider';
+import { libraryImportService } from '../services/importers/LibraryImportService';
+import {
+  ImportMatchStatus,
+  ImportPreview,
+  ImportPreviewItem,
+  ImportSummary
+} from '../services/importers/ImportTypes';
+
+const STATUS_LABELS: Record<ImportMatchStatus, string> = {
+  matched: 'Matched',
+  ambiguous: 'Ambiguous',
+  unmatched: 'Unmatched',
+  duplicate: 'Duplicate'
+};
+
+const STATUS_CLASSES: Record<ImportMatchStatus, string> = {
+  matched: 'bg-green-700 text-green-100',
+  ambiguous: 'bg-yellow-700 text-yellow-100',
+  unmatched: 'bg-gray-700 text-gray-200',
+  duplicate: 'bg-purple-700 text-purple-100'
+};
+
+interface LibraryImportPanelProps {
+  onClose: () => void;
+}
+
+const LibraryImportPanel: React.FC<LibraryImportPanelProps> = ({ onClose }) => {
+  const { refreshBooks } = useBookMetadata();
+  const importers = libraryImportService.getImporters();
+  const [importerId, setImporterId] = useState(importers[0].id);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ImportMatchStatus | 'all'>('all');
+
+  const importer = importers.find(i => i.id === importerId) || importers[0];
+
+  const counts = useMemo(() => {
+    const result: Record<ImportMatchStatus, number> = { matched: 0, ambiguous: 0, unmatched: 0, duplicate: 0 };
+    preview?.items.forEach(item => result[item.status]++);
+    return result;
+  }, [preview]);
+
+  const visibleItems = useMemo(() => {
+    if (!preview) return [];
+    return preview.items.filter(item => statusFilter === 'all' || item.status === statusFilter);
+  }, [preview, statusFilter]);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setSummary(null);
+    setPreview(null);
+
+    try {
+      const contents = await file.text();
+      setProgress({ completed: 0, total: 0 });
+      const result = await libraryImportService.buildPreview(importer, contents, (completed, total) => {
+        setProgress({ completed, total });
+      });
+      setPreview(result);
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the import file');
+    } finally {
+      setProgress(null);
+      e.target.value = '';
+    }
+  };
+
+  const updateItem = (target: ImportPreviewItem, changes: Partial<ImportPreviewItem>) => {
+    setPreview(prev => prev && {
+      ...prev,
+      items: prev.items.map(item => (item === target ? { ...item, ...changes } : item))
+    });
+  };
+
+  const handleCommit = () => {
+    if (!preview) return;
+
+    const result = libraryImportService.commitImport(preview);
+    setSummary(result);
+    setPreview(null);
+    refreshBooks();
+  };
+
+  const includedCount = preview?.items.filter(item => item.include).length || 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-gray-900 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto p-6 relative">
+        <div className="flex justify-between items-start mb-6">
+          <h2 className="text-2xl font-bold text-white">Import Library</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {!preview && !progress && (
+          <div className="flex flex-wrap items-center gap-4 mb-6">
+            <select
+              value={importerId}
+              onChange={e => setImporterId(e.target.value)}
+              className="p-2 bg-gray-800 border border-gray-700 rounded-lg text-white"
+            >
+              {importers.map(i => (
+                <option key={i.id} value={i.id}>{i.name}</option>
+              ))}
+            </select>
+            <input
+              type="file"
+              accept={importer.accept}
+              onChange={handleFileSelected}
+              className="text-sm text-gray-300"
+            />
+          </div>
+        )}
+
+        {progress && (
+          <p className="text-indigo-300 mb-6">
+            Matching books against Google Books... {progress.completed}/{progress.total}
+          </p>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-900/30 border border-red-800 rounded-lg mb-6">
+            <p className="text-red-300">{error}</p>
+          </div>
+        )}
+
+        {summary && (
+          <div className="p-4 bg-green-900/30 border border-green-800 rounded-lg mb-6">
+            <p className="text-green-300 font-medium">
+              Imported {summary.imported} new books, updated {summary.updated}, skipped {summary.skipped}.
+            </p>
+            {summary.failed.length > 0 && (
+              <ul className="list-disc pl-5 mt-2 text-sm text-red-300">
+                {summary.failed.map(failure => (
+                  <li key={failure.row.rowNumber}>Row {failure.row.rowNumber} ({failure.row.title}): {failure.reason}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {preview && (
+          <>
+            <div className="flex flex-wrap gap-2 mb-4">
+              <button
+                onClick={() => setStatusFilter('all')}
+                className={`px-2 py-1 text-xs rounded ${statusFilter === 'all' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                All ({preview.items.length})
+              </button>
+              {(Object.keys(STATUS_LABELS) as ImportMatchStatus[]).map(status => (
+                <button
+                  key={status}
+                  onClick={() => setStatusFilter(status)}
+                  className={`px-2 py-1 text-xs rounded ${statusFilter === status ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                >
+                  {STATUS_LABELS[status]} ({counts[status]})
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2 mb-6">
+              {visibleItems.map(item => (
+                <div key={item.row.rowNumber} className="p-3 bg-gray-800 rounded-lg flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={item.include}
+                    onChange={e => updateItem(item, { include: e.target.checked })}
+                    className="mt-1"
+                  />
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-white">{item.row.title}</span>
+                      <span className={`text-xs px-2 py-0.5 rounded ${STATUS_CLASSES[item.status]}`}>
+                        {STATUS_LABELS[item.status]}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-400">
+                      {item.row.authors.join(', ') || 'Unknown Author'}
+                      {(item.row.isbn13 || item.row.isbn10) && ` · ISBN ${item.row.isbn13 || item.row.isbn10}`}
+                    </p>
+
+                    {item.status === 'duplicate' && (
+                      <p className="text-xs text-purple-300 mt-1">
+                        {item.existingBookId
+                          ? 'Already in your library; your data from this row will be merged into it'
+                          : 'Repeats an earlier row in this file'}
+                      </p>
+                    )}
+
+                    {item.status === 'ambiguous' && (
+                      <select
+                        value={item.selectedVolumeId || ''}
+                        onChange={e => updateItem(item, { selectedVolumeId: e.target.value || null })}
+                        className="mt-2 w-full p-1.5 bg-gray-900 border border-gray-700 rounded text-sm text-white"
+                      >
+                        <option value="">Use data from the export file</option>
+                        {item.candidates.map(candidate => (
+                          <option key={candidate.id} value={candidate.id}>
+                            {candidate.volumeInfo.title} — {candidate.volumeInfo.authors?.join(', ') || 'Unknown Author'}
+                            {candidate.volumeInfo.publishedDate ? ` (${candidate.volumeInfo.publishedDate})` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setPreview(null)}
+                className="px-4 py-2 rounded-lg text-gray-300 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCommit}
+                disabled={includedCount === 0}
+                className="px-4 py-2 rounded-lg font-medium bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+              >
+                Import {includedCount} {includedCount === 1 ? 'book' : 'books'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryImportPanel;
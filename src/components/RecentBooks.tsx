@@ -1,4 +1,5 @@
 import React from 'react';
+import CoverImage from './CoverImage';
 
 // Define Book interface
 interface Book {
@@ -36,19 +37,13 @@ export default function RecentBooks({ books, onDeleteBook }: RecentBooksProps) {
         {recentBooks.map((book) => (
           <div key={book.id} className="recent-book-item">
             <div className="recent-book-cover">
-              {book.imageLinks?.thumbnail ? (
-                <img 
-                  src={book.imageLinks.thumbnail} 
-                  alt={book.title} 
-                  className="recent-book-image" 
-                />
-              ) : (
-                <div className="recent-book-placeholder">
-                  <svg className="h-8 w-8 text-gray-400" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
-                  </svg>
-                </div>
-              )}
+              <CoverImage
+                src={book.imageLinks?.thumbnail}
+                title={book.title}
+                author={book.authors.join(', ')}
+                size="small"
+                className="recent-book-image"
+              />
             </div>
             <div className="recent-book-details">
               <h3 className="recent-book-title">{book.title}</h3>
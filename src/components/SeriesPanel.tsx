@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { SeriesEntry, SeriesSummary } from '../models/BookTypes';
+import { useBookMetadata } from '../providers/BookMetadataProvider';
+import { seriesService } from '../services/SeriesService';
+import { seriesKey } from '../utils/series';
+
+interface SeriesPanelProps {
+  seriesName?: string;          // Series to open; defaults to the first one
+  onClose: () => void;
+}
+
+const ENTRY_STATUS_LABELS: Record<SeriesEntry['status'], string> = {
+  read: 'Read',
+  reading: 'Reading',
+  unread: 'Owned',
+  missing: 'Missing'
+};
+
+const ENTRY_STATUS_CLASSES: Record<SeriesEntry['status'], string> = {
+  read: 'bg-green-700 text-green-100',
+  reading: 'bg-blue-700 text-blue-100',
+  unread: 'bg-gray-700 text-gray-200',
+  missing: 'bg-gray-800 text-gray-400 border border-dashed border-gray-600'
+};
+
+const SeriesPanel: React.FC<SeriesPanelProps> = ({ seriesName, onClose }) => {
+  const { books, refreshBooks } = useBookMetadata();
+  const [selectedKey, setSelectedKey] = useState<string | null>(seriesName ? seriesKey(seriesName) : null);
+  const [addingPosition, setAddingPosition] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const allSeries = useMemo(() => seriesService.getAllSeries(books), [books]);
+  const selected = allSeries.find(series => series.key === selectedKey) || allSeries[0];
+
+  const handleAdd = async (series: SeriesSummary, entry: SeriesEntry) => {
+    setAddingPosition(entry.position);
+    setMessage(null);
+
+    try {
+      const added = await seriesService.addToReadingList({ series, position: entry.position, books: entry.books });
+      setMessage(added
+        ? `Added "${added.title}" to your To Read list`
+        : `Couldn't find ${series.name} #${entry.position} in the catalogs`);
+      refreshBooks();
+    } catch (err) {
+      console.error('Error adding series entry:', err);
+      setMessage(err instanceof Error ? err.message : 'Failed to add the book');
+    } finally {
+      setAddingPosition(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 overflow-y-auto">
+      <div className="bg-gray-900 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto p-6 relative">
+        <div className="flex justify-between items-start mb-6">
+          <h2 className="text-2xl font-bold text-white">Series</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {message && (
+          <div className="p-4 bg-gray-800 border border-gray-700 rounded-lg mb-6">
+            <p className="text-gray-300">{message}</p>
+          </div>
+        )}
+
+        {allSeries.length === 0 ? (
+          <p className="text-gray-400">No books in your library are part of a known series yet.</p>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-6">
+            <div className="md:w-1/3 space-y-1">
+              {allSeries.map(series => (
+                <button
+                  key={series.key}
+                  onClick={() => setSelectedKey(series.key)}
+                  className={`w-full text-left p-2 rounded ${series.key === selected?.key ? 'bg-indigo-900/50 border border-indigo-700' : 'bg-gray-800 border border-transparent hover:bg-gray-700'}`}
+                >
+                  <p className="text-white">{series.name}</p>
+                  <p className="text-xs text-gray-400">
+                    {series.readCount} read · {series.ownedCount} owned · {series.entries.length} known
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="md:w-2/3">
+                <h3 className="text-xl font-semibold text-white">{selected.name}</h3>
+                <p className="text-sm text-gray-400 mb-4">{selected.authors.join(', ')}</p>
+
+                <div className="space-y-2">
+                  {selected.entries.map(entry => (
+                    <div
+                      key={entry.position}
+                      className={`flex justify-between items-center gap-4 p-3 rounded-lg ${entry === selected.nextUp ? 'bg-indigo-900/30 border border-indigo-800' : 'bg-gray-800'}`}
+                    >
+                      <div>
+                        <p className="text-white">
+                          <span className="text-gray-400 mr-2">#{entry.position}</span>
+                          {entry.title || <span className="text-gray-500 italic">Not in your library</span>}
+                        </p>
+                        {entry === selected.nextUp && <p className="text-xs text-indigo-300">Next up</p>}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {entry.status === 'missing' && (
+                          <button
+                            onClick={() => handleAdd(selected, entry)}
+                            disabled={addingPosition !== null}
+                            className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white text-xs rounded-full disabled:opacity-50"
+                          >
+                            {addingPosition === entry.position ? 'Searching...' : 'Find & Add to To Read'}
+                          </button>
+                        )}
+                        <span className={`text-xs font-medium px-2 py-1 rounded ${ENTRY_STATUS_CLASSES[entry.status]}`}>
+                          {ENTRY_STATUS_LABELS[entry.status]}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SeriesPanel;
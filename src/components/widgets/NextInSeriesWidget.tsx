@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { SeriesSummary } from '../../models/BookTypes';
+import { useBookMetadata } from '../../providers/BookMetadataProvider';
+import { seriesService } from '../../services/SeriesService';
+import SeriesPanel from '../SeriesPanel';
+
+/**
+ * Dashboard panel listing the next entry of every series the user has started
+ */
+const NextInSeriesWidget: React.FC = () => {
+  const { books, refreshBooks } = useBookMetadata();
+  const [openSeries, setOpenSeries] = useState<string | null>(null);
+  const [addingKey, setAddingKey] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Series with something read or in progress and an entry still to read
+  const started = useMemo(
+    () => seriesService.getAllSeries(books).filter(series =>
+      series.nextUp && series.entries.some(entry => entry.status === 'read' || entry.status === 'reading')
+    ),
+    [books]
+  );
+
+  const handleAdd = async (series: SeriesSummary) => {
+    if (!series.nextUp) return;
+    setAddingKey(series.key);
+    setMessage(null);
+
+    try {
+      const added = await seriesService.addToReadingList({
+        series,
+        position: series.nextUp.position,
+        books: series.nextUp.books
+      });
+      setMessage(added
+        ? `Added "${added.title}" to your To Read list`
+        : `Couldn't find ${series.name} #${series.nextUp.position} in the catalogs`);
+      refreshBooks();
+    } catch (err) {
+      console.error('Error adding series entry:', err);
+      setMessage(err instanceof Error ? err.message : 'Failed to add the book');
+    } finally {
+      setAddingKey(null);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-bold mb-1">Next Up in Your Series</h3>
+      <p className="text-gray-400 text-sm mb-4">The next unread entry of each series you've started</p>
+
+      {message && <p className="text-sm text-gray-300 mb-3">{message}</p>}
+
+      {started.length === 0 ? (
+        <p className="text-gray-500 text-sm">Finish a book that's part of a series to see what comes next.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+          {started.map(series => {
+            const next = series.nextUp!;
+            return (
+              <div key={series.key} className="bg-gray-900/60 p-3 rounded-lg flex justify-between items-start gap-3">
+                <button onClick={() => setOpenSeries(series.name)} className="text-left">
+                  <p className="text-white hover:underline">{series.name}</p>
+                  <p className="text-sm text-gray-400">
+                    #{next.position} {next.title || 'Not in your library'}
+                  </p>
+                  <p className="text-xs text-gray-500">{series.readCount} of {series.entries.length} read</p>
+                </button>
+                {next.status === 'missing' ? (
+                  <button
+                    onClick={() => handleAdd(series)}
+                    disabled={addingKey !== null}
+                    className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white text-xs rounded-full whitespace-nowrap disabled:opacity-50"
+                  >
+                    {addingKey === series.key ? 'Searching...' : 'Find & Add'}
+                  </button>
+                ) : (
+                  <span className="text-xs px-2 py-1 rounded bg-gray-700 text-gray-200 whitespace-nowrap">
+                    {next.status === 'reading' ? 'Reading' : 'In library'}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {openSeries && (
+        <SeriesPanel seriesName={openSeries} onClose={() => setOpenSeries(null)} />
+      )}
+    </div>
+  );
+};
+
+export default NextInSeriesWidget;
@@ -9,8 +9,10 @@ export type ReadingStatus = 'to-read' | 'reading' | 'completed' | 'abandoned' |
 export interface Book {
   // Identification & Basic Metadata
   id: string;                   // Unique identifier
-  isbn: string;                 // ISBN-13 when available
+  isbn: string;                 // Normalized ISBN-13 when available, '' when the book has none
   googleBooksId?: string;       // Google Books API ID
+  identifiers: BookIdentifiers; // Normalized identifiers used for lookups and dedupe
+  workId?: string;              // Work this edition belongs to; assigned when the book is saved
   title: string;                // Full title
   subtitle?: string;            // Subtitle if applicable
   originalTitle?: string;       // Original title if translated
@@ -34,6 +36,7 @@ export interface Book {
   genres: string[];             // Primary genres (standardized)
   subgenres: string[];          // More specific categorization
   subjects: string[];           // Subject matter topics
+  categories?: string[];        // Catalog categories the genres were mapped from (e.g. BISAC headings)
   contentTags: string[];        // User-defined tags
   audience: 'children' | 'middle-grade' | 'young-adult' | 'adult' | 'academic';
   fiction: boolean;             // Fiction or non-fiction
@@ -95,6 +98,7 @@ export interface Book {
   
   // Enrichment Data
   enrichedData?: BookAIEnrichment; // AI-enriched metadata
+  provenance?: Partial<Record<EnrichableField, FieldProvenance>>; // Where each enrichable field's value came from
   
   // Metadata
   coverImage?: string;          // URL to cover image
@@ -103,6 +107,105 @@ export interface Book {
 }
 
 // Supporting Types
+/**
+ * Fields that catalogs, built-in data or AI enrichment can fill in
+ */
+export type EnrichableField =
+  | 'genres'
+  | 'subgenres'
+  | 'fiction'
+  | 'audience'
+  | 'narrativeStructure'
+  | 'themes'
+  | 'characters'
+  | 'locations'
+  | 'culturalContext'
+  | 'complexity';
+
+/**
+ * Where a field's value came from
+ */
+export type ProvenanceSource =
+  | 'default'                   // Placeholder every new book starts with
+  | 'catalog'                   // Classified from catalog categories
+  | 'library_import'            // Reader data from an imported library export
+  | 'classic_literature_database' // Built-in data for well-known classics
+  | 'ai_enrichment'             // Generated by the AI enrichment service
+  | 'user';                     // Entered or edited by the user
+
+/**
+ * Provenance of one field of a book
+ */
+export interface FieldProvenance {
+  source: ProvenanceSource;
+  recordedAt: string;           // When the value was set
+  confidence: number;           // 0-1; 0 for defaults, 1 for the user's own values
+  promptVersion?: string;       // Prompt template that produced an AI value, e.g. "themes@2"
+  model?: string;               // Model that produced an AI value
+}
+
+/**
+ * The abstract work that editions belong to. A Book is one edition
+ * (format, ISBN, translator, page count); reading the paperback and
+ * later the audiobook gives two Books under one Work.
+ */
+export interface Work {
+  id: string;                   // Unique identifier
+  title: string;                // Title of the first edition added
+  alternateTitles: string[];    // Other edition titles and original titles (translations)
+  authors: Author[];
+  originalLanguage?: string;    // ISO language code of the original text
+  openLibraryWorkId?: string;   // Open Library work OLID, e.g. "OL45804W"
+  dateCreated: string;
+  lastModified: string;
+}
+
+/**
+ * A work with its editions and the user's data aggregated across them
+ */
+export interface WorkSummary {
+  work: Work;
+  editions: Book[];
+  readingStatus: ReadingStatus; // Most advanced status of any edition
+  userRating: number;           // Average of the rated editions to the half point; 0 if unrated
+  readCount: number;            // Reads across every edition
+  readingSessions: ReadingSession[]; // Every edition's sessions, oldest first
+  startDate?: string;           // Earliest start across editions
+  finishDate?: string;          // Latest finish across editions
+  genres: string[];             // Union of the editions' genres
+  pageCount: number;            // Longest edition
+}
+
+/**
+ * One position in a series, with the library's editions of it
+ */
+export interface SeriesEntry {
+  position: number;
+  title?: string;               // Title of the first edition in the library; unknown when missing
+  books: Book[];                // Editions at this position; empty when missing
+  status: 'read' | 'reading' | 'unread' | 'missing';
+}
+
+/**
+ * A series as far as the library knows it
+ */
+export interface SeriesSummary {
+  key: string;                  // Normalized series name the books are grouped by
+  name: string;                 // Name as first seen on a book
+  authors: string[];
+  entries: SeriesEntry[];       // By position; gaps below the highest owned position are missing entries
+  ownedCount: number;           // Positions with at least one edition
+  readCount: number;            // Positions read at least once
+  nextUp?: SeriesEntry;         // First entry after the furthest one read, if not yet read
+}
+
+export interface BookIdentifiers {
+  isbn13?: string;              // Compact ISBN-13, e.g. "9780140328721"
+  isbn10?: string;              // Compact ISBN-10, only for 978-prefixed ISBNs
+  googleBooksId?: string;       // Google Books volume ID
+  openLibraryId?: string;       // Open Library edition OLID, e.g. "OL7353617M"
+}
+
 export interface Author {
   id: string;
   name: string;
@@ -114,6 +217,43 @@ export interface Author {
   roles?: string[];
 }
 
+/**
+ * A work listed in an author's bibliography, whether or not it is in the library
+ */
+export interface AuthorBibliographyEntry {
+  title: string;
+  openLibraryWorkId?: string;   // Open Library work OLID, e.g. "OL45804W"
+  firstPublishYear?: number;
+}
+
+/**
+ * The registry's canonical record for an author. Books keep a copy of the
+ * Author fields so they render without a lookup; the registry is the source
+ * of truth and refreshes those copies when it learns something new.
+ */
+export interface AuthorRecord extends Author {
+  nameVariants: string[];       // Other spellings seen on books, e.g. "Fyodor Dostoyevsky"
+  openLibraryAuthorId?: string; // Open Library author OLID, e.g. "OL22098A"
+  bibliography: AuthorBibliographyEntry[]; // Known works; empty until looked up
+  dateCreated: string;
+  lastModified: string;
+}
+
+/**
+ * An author with the user's reading of their works aggregated
+ */
+export interface AuthorSummary {
+  author: AuthorRecord;
+  works: WorkSummary[];         // Works in the library crediting the author
+  editionCount: number;         // Books in the library crediting the author
+  worksRead: number;            // Works completed at least once
+  bibliographySize: number;     // Known works: the bibliography plus library works it doesn't list
+  missing: AuthorBibliographyEntry[]; // Bibliography entries not in the library
+  averageRating: number;        // Average of the rated works; 0 if none is rated
+  ratedCount: number;
+  genres: string[];             // Most common genres across the library works, most common first
+}
+
 export interface Theme {
   name: string;                 // Theme name
   relevance: number;            // 1-5 scale of importance to the book
@@ -210,6 +350,7 @@ export interface GoogleBooksVolumeInfo {
     extraLarge?: string;
   };
   language?: string;
+  printType?: string;           // "BOOK" or "MAGAZINE"
   previewLink?: string;
   infoLink?: string;
   canonicalVolumeLink?: string;
@@ -228,6 +369,134 @@ export interface GoogleBooksVolume {
   };
 }
 
+/**
+ * Kinds of publication a catalog search can be restricted to
+ */
+export type BookPrintType = 'all' | 'books' | 'magazines';
+
+/**
+ * A structured catalog search. Every field given must match.
+ */
+export interface BookSearchQuery {
+  text?: string;                // Free text, passed to the catalog as typed
+  title?: string;
+  author?: string;
+  isbn?: string;
+  publisher?: string;
+  subject?: string;
+  language?: string;            // ISO 639-1 code results are restricted to
+  printType?: BookPrintType;
+}
+
+/**
+ * Results of a catalog search, which may have been answered without the network
+ */
+export interface BookSearchResponse {
+  volumes: GoogleBooksVolume[];
+  totalItems: number;           // Matches in the catalog, across all pages
+  libraryBooks: Book[];         // Library books matching the query; only searched offline
+  offline: boolean;             // True if the results were served from the cache
+  fetchedAt?: string;           // When cached results were originally fetched
+}
+
+/**
+ * Open Library text fields are either plain strings or typed text objects
+ */
+export type OpenLibraryText = string | { type: string; value: string };
+
+/**
+ * A document from the Open Library search API (one per work)
+ */
+export interface OpenLibrarySearchDoc {
+  key: string;                  // Work key, e.g. "/works/OL45804W"
+  title: string;
+  subtitle?: string;
+  author_name?: string[];
+  author_key?: string[];
+  first_publish_year?: number;
+  publisher?: string[];
+  isbn?: string[];
+  language?: string[];          // ISO 639-2 codes, e.g. "eng"
+  number_of_pages_median?: number;
+  cover_i?: number;
+  cover_edition_key?: string;
+  edition_key?: string[];
+  subject?: string[];
+}
+
+/**
+ * An edition record from Open Library (/books/{OLID}.json or /isbn/{isbn}.json)
+ */
+export interface OpenLibraryEdition {
+  key: string;                  // Edition key, e.g. "/books/OL7353617M"
+  title: string;
+  subtitle?: string;
+  authors?: Array<{ key: string }>;
+  by_statement?: string;
+  publishers?: string[];
+  publish_date?: string;        // Free-form, e.g. "1990", "March 1990"
+  number_of_pages?: number;
+  isbn_10?: string[];
+  isbn_13?: string[];
+  covers?: number[];
+  works?: Array<{ key: string }>;
+  languages?: Array<{ key: string }>; // e.g. "/languages/eng"
+  translated_from?: Array<{ key: string }>;
+  translation_of?: string;
+  physical_format?: string;
+  edition_name?: string;
+  series?: string[];
+  subjects?: string[];
+  description?: OpenLibraryText;
+}
+
+/**
+ * A work record from Open Library (/works/{OLID}.json), grouping editions
+ */
+export interface OpenLibraryWork {
+  key: string;                  // Work key, e.g. "/works/OL45804W"
+  title: string;
+  subtitle?: string;
+  authors?: Array<{ author: { key: string } }>;
+  description?: OpenLibraryText;
+  subjects?: string[];
+  covers?: number[];
+  first_publish_date?: string;
+}
+
+/**
+ * An author record from Open Library (/authors/{OLID}.json)
+ */
+export interface OpenLibraryAuthor {
+  key: string;                  // Author key, e.g. "/authors/OL34184A"
+  name: string;
+  birth_date?: string;
+  death_date?: string;
+}
+
+/**
+ * One hit from the Open Library author search (/search/authors.json)
+ */
+export interface OpenLibraryAuthorSearchDoc {
+  key: string;                  // Bare author OLID, e.g. "OL22098A"
+  name: string;
+  alternate_names?: string[];
+  birth_date?: string;
+  death_date?: string;
+  top_work?: string;
+  work_count?: number;
+}
+
+/**
+ * Raw Open Library responses for one edition, stored as external book data
+ */
+export interface OpenLibraryBookRecord {
+  id: string;                   // Edition OLID, e.g. "OL7353617M"
+  edition: OpenLibraryEdition;
+  work?: OpenLibraryWork;
+  authors: OpenLibraryAuthor[];
+}
+
 /**
  * Represents the minimum required data to create a Book entry
  * This is useful for initial book creation before full details are available
@@ -243,11 +512,36 @@ export interface MinimalBookData {
   description: string;
   coverImage?: string;
   isbn: string;
+  identifiers?: BookIdentifiers; // Identifiers known to the source the data came from
+  series?: Book['series'];      // Series detected from catalog labels or the title
+  categories?: string[];        // Catalog categories or subjects, most relevant first
 }
 
 /**
- * Represents metadata fields that can be progressively completed
- * Used to track completion status of book metadata
+ * A book's catalog fields as entered or edited by hand, for books no catalog has
+ */
+export interface ManualBookInput {
+  title: string;
+  subtitle?: string;
+  authors: string[];            // Author names in credit order
+  publisher: string;
+  publishedDate: string;        // Year, year-month or full ISO date
+  pageCount: number;
+  language: string;             // ISO language code
+  description: string;
+  isbn: string;                 // ISBN-10 or ISBN-13, '' if the book has none
+  coverImage?: string;          // Image URL; uploaded covers are stored separately
+  genres: string[];
+  format: Book['format'];
+  series?: Book['series'];
+  edition?: string;
+  translator?: string;
+}
+
+/**
+ * Per-section completion flags stored by earlier versions. Completeness is
+ * now derived from the book's fields (MetadataCompletenessReport); these are
+ * only read from old backups and storage.
  */
 export interface BookMetadataCompletionStatus {
   bookId: string;
@@ -261,6 +555,42 @@ export interface BookMetadataCompletionStatus {
   complexityAnalysisComplete: boolean;
 }
 
+/**
+ * Groups of fields the completeness report is organised in
+ */
+export type MetadataSection =
+  | 'basicInfo'
+  | 'publicationDetails'
+  | 'contentClassification'
+  | 'narrativeElements'
+  | 'contentAnalysis'
+  | 'culturalContext'
+  | 'complexityAnalysis';
+
+/**
+ * Whether one field of a book holds real data
+ */
+export interface FieldCompleteness {
+  field: keyof Book;
+  label: string;
+  section: MetadataSection;
+  weight: number;               // Share of the percentage the field is worth; 0 leaves it out
+  filled: boolean;
+  enrichable: boolean;          // AI enrichment can fill the field
+  reason?: string;              // Why the field counts as missing
+}
+
+/**
+ * How complete a book's metadata is, derived from its current contents
+ */
+export interface MetadataCompletenessReport {
+  bookId: string;
+  percentage: number;           // Weighted share of filled fields, 0-100
+  level: 'low' | 'medium' | 'high';
+  fields: FieldCompleteness[];
+  missing: FieldCompleteness[]; // Weighted fields that aren't filled, heaviest first
+}
+
 /**
  * Represents a response from an external book API
  */
@@ -307,10 +637,79 @@ export interface BookAIEnrichment {
   
   // Metadata
   enrichmentDate: string;
-  enrichmentSource: string;
+  enrichmentSource: string;     // Model that produced it, e.g. "perplexity/sonar", or "classic_literature_database", "library_import", "error"
   version: string;
+  failures?: EnrichmentFailure[]; // Sections the last run could not fill in, one entry per section
+}
+
+/**
+ * An enrichment section whose language model reply could not be used as-is,
+ * even after the model was asked to repair it
+ */
+export interface EnrichmentFailure {
+  section: string;              // Enrichable field, or "analysis" for the whole-book analysis
+  errors: string[];             // What was wrong with the reply, or why the request failed
+  partial: boolean;             // True if the valid part of the reply was still applied
+  recordedAt: string;
+  promptVersion?: string;
+  model?: string;
+}
+
+/**
+ * Lifecycle of an enrichment job: pending jobs wait for a free slot (and any
+ * backoff to pass), running ones are being enriched, the rest are finished
+ */
+export type EnrichmentJobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * One request to enrich a book, persisted so it survives reloads
+ */
+export interface EnrichmentJob {
+  id: string;
+  bookId: string;
+  isbn?: string;                // Normalized ISBN-13, used for the shared enriched database
+  title: string;                // Book title at the time the job was queued, for display
+  status: EnrichmentJobStatus;
+  attempts: number;             // Attempts started so far
+  maxAttempts: number;
+  createdAt: string;
+  updatedAt: string;
+  nextAttemptAt?: string;       // Earliest time a pending job may run, after a failed attempt
+  startedAt?: string;           // When the latest attempt started
+  finishedAt?: string;
+  lastError?: string;           // Why the latest attempt failed
 }
 
+/**
+ * A value enrichment proposed for one field of a book, waiting for the
+ * user to accept, edit or reject it
+ */
+export type FieldSuggestion = {
+  [F in EnrichableField]: {
+    field: F;
+    suggested: Book[F];
+    provenance: FieldProvenance; // Where the suggested value came from
+  }
+}[EnrichableField];
+
+/**
+ * Enrichment results for a book that are still under review; a book has at
+ * most one set, and a new run's suggestions replace older ones field by field
+ */
+export interface EnrichmentSuggestionSet {
+  bookId: string;
+  title: string;                // Book title at the time of the latest run, for display
+  createdAt: string;
+  updatedAt: string;
+  suggestions: FieldSuggestion[]; // One per field, in ENRICHABLE_FIELDS order
+}
+
+/**
+ * What happens to enrichment results: everything waits for review, or
+ * fields that were empty are filled straight away and the rest wait
+ */
+export type EnrichmentReviewPolicy = 'review_all' | 'auto_accept_empty';
+
 export interface BookSearchResult {
   id: string;
   title: string;
@@ -327,7 +726,6 @@ export interface BookSearchResult {
 // Define BookMetadataContextType interface for the provider
 export interface BookMetadataContextType {
   books: Book[];
-  metadataStatuses: Record<string, BookMetadataCompletionStatus>;
   loading: boolean;
   error: string | null;
   addBook: (googleBookId: string) => Promise<Book>;
@@ -335,6 +733,7 @@ export interface BookMetadataContextType {
   deleteBook: (id: string) => Promise<boolean>;
   getCompletionPercentage: (bookId: string) => number;
   getCompletionSuggestions: (bookId: string) => string[];
+  getCompleteness: (bookId: string) => MetadataCompletenessReport | null;
   updateBookSection: (bookId: string, section: keyof Book, data: any) => Promise<Book | null>;
   updateBookMetadata: (bookId: string, metadata: Partial<Book>) => Promise<void>;
   getBooksNeedingCompletion: (minPercentage?: number) => Book[];
@@ -1,16 +1,18 @@
 import React, { createContext, useContext, ReactNode, useState, useEffect } from 'react';
-import { Book, BookMetadataCompletionStatus, BookMetadataContextType } from '../models/BookTypes';
+import { Book, BookMetadataContextType, MetadataCompletenessReport } from '../models/BookTypes';
 import { bookMetadataService } from '../services/BookMetadataService';
+import { bookEnrichmentOrchestrator } from '../services/BookEnrichmentOrchestrator';
+import { enrichmentJobQueue } from '../services/EnrichmentJobQueue';
 
 // Create context with a default placeholder value
 const BookMetadataContext = createContext<BookMetadataContextType>({
   books: [],
-  metadataStatuses: {},
   loading: true,
   error: null,
   addBook: async () => ({} as Book),
   updateBook: () => Promise.resolve({} as Book),
   deleteBook: () => Promise.resolve(false),
+  getCompleteness: () => null,
   getCompletionPercentage: () => 0,
   getCompletionSuggestions: () => [],
   updateBookSection: () => Promise.resolve(null),
@@ -27,15 +29,31 @@ interface BookMetadataProviderProps {
 // Provider component
 export const BookMetadataProvider: React.FC<BookMetadataProviderProps> = ({ children }) => {
   const [books, setBooks] = useState<Book[]>([]);
-  const [metadataStatuses, setMetadataStatuses] = useState<Record<string, BookMetadataCompletionStatus>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Load books from storage on component mount
+  // Load books from storage once the storage backend is ready, then pick up
+  // the enrichment jobs the last session left behind
   useEffect(() => {
-    refreshBooks();
+    bookMetadataService.ready()
+      .then(() => {
+        refreshBooks();
+        bookEnrichmentOrchestrator.resumeEnrichment();
+      })
+      .catch(error => {
+        console.error('Error initializing book storage:', error);
+        setError('Failed to initialize book storage');
+        setLoading(false);
+      });
   }, []);
 
+  // Show what enrichment jobs saved as soon as they finish
+  useEffect(() => enrichmentJobQueue.subscribe(event => {
+    if (event.type === 'succeeded' || event.type === 'failed') {
+      setBooks(bookMetadataService.getAllBooks());
+    }
+  }), []);
+
   // Function to refresh books from storage
   const refreshBooks = () => {
     setLoading(true);
@@ -45,18 +63,6 @@ export const BookMetadataProvider: React.FC<BookMetadataProviderProps> = ({ chil
       // Get all books from the service
       const allBooks = bookMetadataService.getAllBooks();
       setBooks(allBooks);
-      
-      // Build a record of metadata statuses for easy lookup
-      const statuses: Record<string, BookMetadataCompletionStatus> = {};
-      
-      allBooks.forEach(book => {
-        const status = bookMetadataService.getMetadataStatus(book.id);
-        if (status) {
-          statuses[book.id] = status;
-        }
-      });
-      
-      setMetadataStatuses(statuses);
     } catch (error) {
       console.error('Error loading books:', error);
       setError('Failed to load books');
@@ -115,6 +121,11 @@ export const BookMetadataProvider: React.FC<BookMetadataProviderProps> = ({ chil
     }
   };
 
+  // Get the per-field completeness report for a book
+  const getCompleteness = (bookId: string): MetadataCompletenessReport | null => {
+    return bookMetadataService.getMetadataCompleteness(bookId);
+  };
+
   // Get completion percentage for a book
   const getCompletionPercentage = (bookId: string): number => {
     return bookMetadataService.calculateMetadataCompletionPercentage(bookId);
@@ -175,12 +186,12 @@ export const BookMetadataProvider: React.FC<BookMetadataProviderProps> = ({ chil
   // Provide context value
   const contextValue: BookMetadataContextType = {
     books,
-    metadataStatuses,
     loading,
     error,
     addBook,
     updateBook,
     deleteBook,
+    getCompleteness,
     getCompletionPercentage,
     getCompletionSuggestions,
     updateBookSection,
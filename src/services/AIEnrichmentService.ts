@@ -1,65 +1,136 @@
-import { Book, Theme, Character, Location, BookAIEnrichment } from '../models/BookTypes';
+import { Book, BookAIEnrichment, EnrichableField, EnrichmentFailure } from '../models/BookTypes';
+import { genreTaxonomyService } from './GenreTaxonomyService';
+import { metadataCompletenessService } from './MetadataCompletenessService';
+import { LLMMessage } from './llm/LLMProvider';
+import { llmService } from './llm/LLMService';
+import { applyChangedFields, applyFieldValues, createProvenance, isUserValue } from '../utils/provenance';
+import { EnrichmentSection, EnrichmentSectionValues, SchemaResult, isEnrichmentSection, validateEnrichment } from '../utils/enrichmentSchemas';
 
 /**
  * AIEnrichmentService
  * 
- * A service that uses AI (Perplexity API) to enhance book metadata
- * by filling in missing details and enriching existing information.
+ * A service that uses AI to enhance book metadata by filling in missing
+ * details and enriching existing information. Prompts go to whichever
+ * language model is configured in LLMService, and every reply is checked
+ * against its section's schema before it touches a book:
+ * 1. Parse the reply and validate it, coercing and clamping what fits
+ * 2. If anything is still wrong, send the errors back and ask for a corrected reply
+ * 3. Apply the valid part and record what could not be used as a failure
  */
 export class AIEnrichmentService {
-  // Use a predefined API key instead of requiring user input
-  // In a production environment, this would be a server-side secret
-  // For development/demo purposes, we're setting it here
-  private API_KEY: string = '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'; // <-- This is the Perplexity API key
-  private API_ENDPOINT = 'https://api.perplexity.ai/chat/completions';
+  private systemPrompt = 'You are a literary analysis expert providing accurate, detailed information about books. Provide rich, structured information in JSON format when requested.';
+  
+  // Version of each prompt template, recorded with the values it produces.
+  // Bump a version whenever its prompt changes.
+  private promptVersions: Partial<Record<keyof Book, string>> = {
+    themes: 'themes@1',
+    characters: 'characters@1',
+    locations: 'locations@1',
+    narrativeStructure: 'narrativeStructure@1',
+    genres: 'genres@2',
+    complexity: 'complexity@1',
+    culturalContext: 'culturalContext@1'
+  };
+  
+  // Version of the whole-book analysis prompt
+  readonly analysisPromptVersion = 'analysis@1';
+  
+  // How many times the model is asked to correct a reply that fails validation
+  private maxRepairAttempts = 1;
   
   /**
-   * Check if the API key is set and valid
-   * @returns True if API key is available
+   * Check if a language model is configured
+   * @returns True if the chosen provider has everything it needs, including a key where one is required
    */
   hasAPIKey(): boolean {
-    // We now always return true since the API key is hardcoded
-    return true;
+    return llmService.isConfigured();
   }
   
   /**
-   * Make a request to Perplexity API
-   * @param prompt The prompt to send to Perplexity
+   * Send a conversation to the configured language model
+   * @param messages The prompt, and any earlier replies and follow-ups
    * @returns Promise with the AI response
    */
-  private async queryPerplexity(prompt: string): Promise<string> {
-    if (!this.hasAPIKey()) {
-      throw new Error('Perplexity API key not set. Please set a valid API key first.');
-    }
+  private async queryModel(messages: LLMMessage[]): Promise<string> {
+    return llmService.complete([
+      { role: 'system', content: this.systemPrompt },
+      ...messages
+    ]);
+  }
+  
+  /**
+   * Ask the model for a section and validate its reply. A reply that does not
+   * fit the section's schema is sent back with the validation errors so the
+   * model can correct it.
+   * @param section Section the prompt asks for
+   * @param prompt The prompt to send
+   * @returns The best reply's usable values and the errors left in it
+   */
+  private async queryValidated<S extends EnrichmentSection>(
+    section: S,
+    prompt: string
+  ): Promise<SchemaResult<EnrichmentSectionValues[S]>> {
+    const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+    let best: SchemaResult<EnrichmentSectionValues[S]> | null = null;
     
-    try {
-      const response = await fetch(this.API_ENDPOINT, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.API_KEY}`
-        },
-        body: JSON.stringify({
-          model: 'pplx-7b-online', // Online model with web search capability
-          messages: [
-            { role: 'system', content: 'You are a literary analysis expert providing accurate, detailed information about books. Provide rich, structured information in JSON format when requested.' },
-            { role: 'user', content: prompt }
-          ],
-          max_tokens: 1024,
-          temperature: 0.2
-        })
-      });
+    for (let attempt = 0; attempt <= this.maxRepairAttempts; attempt++) {
+      const response = await this.queryModel(messages);
+      const data = this.parseJsonFromResponse(response);
+      const result: SchemaResult<EnrichmentSectionValues[S]> = data === null
+        ? { value: undefined, errors: ['reply: not valid JSON'] }
+        : validateEnrichment(section, data);
       
-      if (!response.ok) {
-        throw new Error(`Perplexity API returned ${response.status}: ${response.statusText}`);
+      // Keep whichever reply is more usable, in case the repair makes things worse
+      if (!best || (result.value !== undefined && best.value === undefined) ||
+          ((result.value !== undefined) === (best.value !== undefined) && result.errors.length < best.errors.length)) {
+        best = result;
       }
+      if (best.errors.length === 0) break;
       
-      const data = await response.json();
-      return data.choices[0].message.content;
-    } catch (error) {
-      console.error('Error querying Perplexity API:', error);
-      throw error;
+      if (attempt < this.maxRepairAttempts) {
+        console.log(`Asking the model to repair its "${section}" reply:`, result.errors);
+        messages.push(
+          { role: 'assistant', content: response },
+          { role: 'user', content: this.generateRepairPrompt(result.errors) }
+        );
+      }
     }
+    
+    return best as SchemaResult<EnrichmentSectionValues[S]>;
+  }
+  
+  /**
+   * Generate the follow-up prompt asking the model to fix its reply
+   * @param errors Validation errors found in the reply
+   * @returns Prompt listing the errors
+   */
+  private generateRepairPrompt(errors: string[]): string {
+    const listed = errors.slice(0, 20).map(error => `- ${error}`).join('\n');
+    const more = errors.length > 20 ? `\n- ...and ${errors.length - 20} more` : '';
+    
+    return `Your reply could not be used because it does not match the requested structure:
+${listed}${more}
+
+Reply again with only the corrected JSON, in exactly the structure requested above, using only the allowed values, and nothing else.`;
+  }
+  
+  /**
+   * Describe a section that could not be (fully) filled in
+   * @param section Enrichable field, or "analysis"
+   * @param errors What went wrong
+   * @param partial Whether the valid part of the reply was applied
+   * @param promptVersion Version of the prompt used
+   * @returns Failure record
+   */
+  private createFailure(section: string, errors: string[], partial: boolean, promptVersion?: string): EnrichmentFailure {
+    return {
+      section,
+      errors,
+      partial,
+      recordedAt: new Date().toISOString(),
+      promptVersion,
+      model: llmService.describeModel()
+    };
   }
   
   /**
@@ -68,52 +139,18 @@ export class AIEnrichmentService {
    * @returns Array of keys that need enrichment
    */
   identifyMissingData(book: Book): (keyof Book)[] {
-    const missingFields: (keyof Book)[] = [];
-    
-    // Check for empty arrays or undefined values in key fields
-    if (!book.themes || book.themes.length === 0) {
-      missingFields.push('themes');
-    }
-    
-    if (!book.characters || book.characters.length === 0) {
-      missingFields.push('characters');
-    }
-    
-    if (!book.locations || book.locations.length === 0) {
-      missingFields.push('locations');
-    }
-    
-    if (!book.narrativeStructure || !book.narrativeStructure.pov) {
-      missingFields.push('narrativeStructure');
-    }
-    
-    // Check for missing genre information
-    if (!book.genres || book.genres.length === 0) {
-      missingFields.push('genres');
-    }
-    
-    if (!book.subgenres || book.subgenres.length === 0) {
-      missingFields.push('subgenres');
-    }
-    
-    // Check for missing complexity information
-    if (!book.complexity || !book.complexity.conceptual) {
-      missingFields.push('complexity');
-    }
-    
-    // Check for missing cultural context
-    if (!book.culturalContext || !book.culturalContext.representation) {
-      missingFields.push('culturalContext');
-    }
-    
-    return missingFields;
+    // Enrichable fields the completeness engine counts as missing, most important
+    // first; fields the user filled in (or cleared) are theirs to keep
+    return metadataCompletenessService.evaluate(book).missing
+      .filter(field => field.enrichable && !isUserValue(book, field.field as EnrichableField))
+      .map(field => field.field);
   }
   
   /**
    * Generate a book analysis prompt based on available information
    * @param book The book data to analyze
    * @param section The section to focus on
-   * @returns Prompt for Perplexity
+   * @returns Prompt for the language model
    */
   private generatePrompt(book: Book, section: keyof Book): string {
     const baseInfo = `
@@ -238,7 +275,7 @@ export class AIEnrichmentService {
           Based on the book information above, search Goodreads shelves and categorizations to identify the most appropriate genres for "${book.title}" by ${book.authors.map(a => a.name).join(', ')}.
           
           Look at how readers have shelved this book on Goodreads to provide:
-          1. 1-3 primary genres that have the most shelves/categorizations on Goodreads
+          1. 1-3 primary genres that have the most shelves/categorizations on Goodreads, using these names where one fits: ${genreTaxonomyService.getTaxonomy().map(genre => genre.name).join(', ')}
           2. 2-4 more specific subgenres that readers commonly use in their bookshelves
           3. Determine if the book is fiction or non-fiction based on Goodreads classification
           4. Identify the target audience (children, middle-grade, young-adult, adult, or academic) based on reader demographics mentioned in reviews
@@ -312,20 +349,23 @@ export class AIEnrichmentService {
   }
   
   /**
-   * Parse JSON data from Perplexity API response
+   * Parse JSON data from a language model response. The result is untyped
+   * until it has been validated against a section's schema.
    * @param response Raw response from API
-   * @returns Parsed JSON data
+   * @returns Parsed JSON data, or null if the response holds none
    */
-  private parseJsonFromResponse(response: string): any {
+  private parseJsonFromResponse(response: string): unknown {
     try {
-      // Look for JSON pattern in the response
-      const jsonPattern = /```json\n([\s\S]*?)\n```|^\[([\s\S]*)\]$|^\{([\s\S]*)\}$/m;
-      const match = response.match(jsonPattern);
+      // Prefer a fenced code block, then the outermost array or object
+      const fenced = response.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+      if (fenced) {
+        return JSON.parse(fenced[1].trim());
+      }
       
-      if (match) {
-        // Use the matched JSON content
-        const jsonContent = match[1] || match[2] || match[3] || response;
-        return JSON.parse(jsonContent.trim());
+      const start = response.search(/[[{]/);
+      const end = Math.max(response.lastIndexOf(']'), response.lastIndexOf('}'));
+      if (start !== -1 && end > start) {
+        return JSON.parse(response.slice(start, end + 1));
       }
       
       // If no JSON pattern found, try parsing the whole response
@@ -346,7 +386,7 @@ export class AIEnrichmentService {
    */
   async enrichBookMetadata(book: Book): Promise<Book> {
     // Create a copy of the book to enrich
-    const enrichedBook: Book = { ...book };
+    let enrichedBook: Book = { ...book };
     
     // Identify missing data fields
     const missingFields = this.identifyMissingData(book);
@@ -359,7 +399,11 @@ export class AIEnrichmentService {
     }
 
     // Check if this is a well-known classic book we can provide premade data for
-    const enhancedBook = this.enhanceWithClassicBookData(enrichedBook);
+    const classicBook = this.enhanceWithClassicBookData(enrichedBook);
+    const enhancedBook: Book = {
+      ...applyChangedFields(enrichedBook, classicBook, createProvenance('classic_literature_database')).book,
+      enrichedData: classicBook.enrichedData
+    };
     if (enhancedBook.enrichedData?.aiAnalysis && 
         enhancedBook.enrichedData.aiAnalysis !== `This book is categorized as ${book.genres?.join(', ') || 'unknown genres'} and explores themes of ${book.themes?.map(t => t.name).join(', ') || 'various themes'}.`) {
       // If we've added enriched data for a classic book, return it immediately
@@ -372,77 +416,99 @@ export class AIEnrichmentService {
       enrichedBook.enrichedData = {
         themes: [],
         enrichmentDate: new Date().toISOString(),
-        enrichmentSource: 'perplexity_ai',
+        enrichmentSource: llmService.describeModel(),
         version: '1.0'
       };
     }
     
     // Process each missing field, limiting to 3 at a time to avoid rate limits
     const fieldsToProcess = missingFields.slice(0, 3);
+    const failures: EnrichmentFailure[] = [];
     
     for (const field of fieldsToProcess) {
+      // Fields without a prompt of their own (subgenres, fiction, audience) come with genres
+      if (!isEnrichmentSection(field)) {
+        continue;
+      }
+      
       try {
         console.log(`Enriching field "${field}" for book "${book.title}"...`);
         
         // Generate a prompt specific to this field
         const prompt = this.generatePrompt(book, field);
         
-        // Query Perplexity API
-        const response = await this.queryPerplexity(prompt);
+        // Query the language model and validate its reply
+        const result = await this.queryValidated(field, prompt);
         
-        // Parse the response JSON
-        const data = this.parseJsonFromResponse(response);
-        
-        if (!data) {
-          console.error(`Failed to parse response for field "${field}"`);
+        if (result.errors.length > 0) {
+          console.error(`Reply for field "${field}" failed validation:`, result.errors);
+          failures.push(this.createFailure(field, result.errors, result.value !== undefined, this.promptVersions[field]));
+        }
+        if (result.value === undefined) {
           continue;
         }
         
-        // Update the book with the enriched data
+        // Collect the values the response provides
+        let values: Partial<Pick<Book, EnrichableField>> = {};
         switch (field) {
-          case 'themes':
-            enrichedBook.themes = data as Theme[];
+          case 'themes': {
+            const themes = result.value as EnrichmentSectionValues['themes'];
+            values = { themes };
             if (enrichedBook.enrichedData) {
-              enrichedBook.enrichedData.themes = data.map((theme: Theme) => theme.name);
+              enrichedBook.enrichedData.themes = themes.map(theme => theme.name);
             }
             break;
+          }
             
           case 'characters':
-            enrichedBook.characters = data as Character[];
+            values = { characters: result.value as EnrichmentSectionValues['characters'] };
             break;
             
           case 'locations':
-            enrichedBook.locations = data as Location[];
+            values = { locations: result.value as EnrichmentSectionValues['locations'] };
             break;
             
-          case 'narrativeStructure':
-            enrichedBook.narrativeStructure = data;
+          case 'narrativeStructure': {
+            const narrativeStructure = result.value as EnrichmentSectionValues['narrativeStructure'];
+            values = { narrativeStructure };
             if (enrichedBook.enrichedData) {
-              enrichedBook.enrichedData.narrativeStyle = data.pov;
-              enrichedBook.enrichedData.mood = data.format || 'Unknown';
+              enrichedBook.enrichedData.narrativeStyle = narrativeStructure.pov;
+              enrichedBook.enrichedData.mood = narrativeStructure.format || 'Unknown';
             }
             break;
+          }
             
           case 'genres':
-            if (data.genres) enrichedBook.genres = data.genres;
-            if (data.subgenres) enrichedBook.subgenres = data.subgenres;
-            if (data.fiction !== undefined) enrichedBook.fiction = data.fiction;
-            if (data.audience) enrichedBook.audience = data.audience;
+            values = result.value as EnrichmentSectionValues['genres'];
             break;
             
-          case 'complexity':
-            enrichedBook.complexity = data;
-            if (enrichedBook.enrichedData && data.conceptual) {
-              enrichedBook.enrichedData.complexity = data.conceptual.toString();
+          case 'complexity': {
+            const complexity = result.value as EnrichmentSectionValues['complexity'];
+            values = { complexity };
+            if (enrichedBook.enrichedData && complexity.conceptual) {
+              enrichedBook.enrichedData.complexity = complexity.conceptual.toString();
             }
             break;
+          }
             
-          case 'culturalContext':
-            enrichedBook.culturalContext = data;
+          case 'culturalContext': {
+            const { culturalSignificance, ...culturalContext } = result.value as EnrichmentSectionValues['culturalContext'];
+            values = { culturalContext };
             if (enrichedBook.enrichedData) {
-              enrichedBook.enrichedData.culturalSignificance = data.representation?.join(', ') || 'Unknown';
+              enrichedBook.enrichedData.culturalSignificance = culturalSignificance || culturalContext.representation.join(', ') || 'Unknown';
             }
             break;
+          }
+        }
+        
+        // Apply them with their provenance, never over values the user entered
+        const applied = applyFieldValues(enrichedBook, values, createProvenance('ai_enrichment', {
+          promptVersion: this.promptVersions[field],
+          model: llmService.describeModel()
+        }));
+        enrichedBook = applied.book;
+        if (applied.skipped.length > 0) {
+          console.log(`Kept user-entered ${applied.skipped.join(', ')} for "${book.title}"`);
         }
         
         // Ensure we don't hit rate limits
@@ -450,13 +516,25 @@ export class AIEnrichmentService {
         
       } catch (error) {
         console.error(`Error enriching field "${field}":`, error);
+        failures.push(this.createFailure(field, [error instanceof Error ? error.message : String(error)], false, this.promptVersions[field]));
       }
     }
     
+    // Replace earlier failures of the sections this run attempted
+    if (enrichedBook.enrichedData) {
+      const remaining = (enrichedBook.enrichedData.failures || [])
+        .filter(failure => !fieldsToProcess.includes(failure.section as keyof Book));
+      const allFailures = [...remaining, ...failures];
+      enrichedBook.enrichedData = {
+        ...enrichedBook.enrichedData,
+        failures: allFailures.length > 0 ? allFailures : undefined
+      };
+    }
+    
     // Update the enrichment data with a meaningful analysis
     if (enrichedBook.enrichedData) {
       enrichedBook.enrichedData.enrichmentDate = new Date().toISOString();
-      enrichedBook.enrichedData.enrichmentSource = 'perplexity_ai';
+      enrichedBook.enrichedData.enrichmentSource = llmService.describeModel();
       
       // Generate a more meaningful AI analysis
       const title = enrichedBook.title || '';
@@ -490,7 +568,7 @@ export class AIEnrichmentService {
   }
   
   /**
-   * Generate a detailed book analysis using Perplexity API
+   * Generate a detailed book analysis using the configured language model
    * @param book The book to analyze
    * @returns Promise with a BookAIEnrichment object
    */
@@ -552,14 +630,11 @@ export class AIEnrichmentService {
         }
       `;
       
-      // Query Perplexity API
-      const response = await this.queryPerplexity(prompt);
-      
-      // Parse the response JSON
-      const data = this.parseJsonFromResponse(response);
+      // Query the language model and validate its reply
+      const { value: data, errors } = await this.queryValidated('analysis', prompt);
       
       if (!data) {
-        throw new Error('Failed to parse analysis response from Perplexity API');
+        throw new Error(`Analysis reply could not be used: ${errors.join('; ')}`);
       }
       
       // Construct the BookAIEnrichment object
@@ -574,13 +649,17 @@ export class AIEnrichmentService {
         culturalSignificance: data.culturalSignificance || 'Unknown',
         aiAnalysis: data.aiAnalysis || `This book is a ${data.complexity || 'medium'} complexity work in the ${book.genres?.join(', ') || 'unknown'} genre. ${data.overallRating ? `It has an average rating of ${data.overallRating} on Goodreads.` : ''}`,
         enrichmentDate: new Date().toISOString(),
-        enrichmentSource: 'goodreads_via_perplexity',
+        enrichmentSource: llmService.describeModel(),
         version: '1.0'
       };
+      if (errors.length > 0) {
+        enrichment.failures = [this.createFailure('analysis', errors, true, this.analysisPromptVersion)];
+      }
       
       return enrichment;
     } catch (error) {
       console.error('Error generating book analysis:', error);
+      const failure = this.createFailure('analysis', [error instanceof Error ? error.message : String(error)], false, this.analysisPromptVersion);
       
       // Check if we can provide a fallback for classic literature
       const classicAnalysis = this.getClassicBookAnalysis(book.title, book.authors.map(a => a.name).join(', '));
@@ -592,7 +671,8 @@ export class AIEnrichmentService {
             aiAnalysis: classicAnalysis,
             enrichmentDate: new Date().toISOString(),
             enrichmentSource: 'classic_literature_database',
-            version: '1.0'
+            version: '1.0',
+            failures: [failure]
           };
         }
       }
@@ -603,7 +683,8 @@ export class AIEnrichmentService {
         enrichmentDate: new Date().toISOString(),
         enrichmentSource: 'error',
         version: '1.0',
-        aiAnalysis: `Analysis is currently being generated for "${book.title}" by ${book.authors.map(a => a.name).join(', ')}. Check back soon for a complete analysis.`
+        aiAnalysis: `Analysis is currently being generated for "${book.title}" by ${book.authors.map(a => a.name).join(', ')}. Check back soon for a complete analysis.`,
+        failures: [failure]
       };
     }
   }
@@ -0,0 +1,334 @@
+import {
+  Author,
+  AuthorBibliographyEntry,
+  AuthorRecord,
+  AuthorSummary,
+  Book,
+  ExternalBookData,
+  OpenLibraryBookRecord,
+  Work
+} from '../models/BookTypes';
+import { libraryStore } from './storage/LibraryStore';
+import { workService } from './WorkService';
+import { openLibraryProvider } from './metadata/OpenLibraryProvider';
+import {
+  authorFieldsDiffer,
+  authorNamesMatch,
+  combineAuthorRecords,
+  isKnownAuthorName,
+  registerAuthorCredit,
+  summarizeAuthor,
+  toBookAuthor
+} from '../utils/authors';
+import { normalizeTitle } from '../utils/textMatching';
+
+/**
+ * Editable biographical fields of an author
+ */
+export type AuthorDetailsUpdate = Partial<Pick<AuthorRecord, 'name' | 'birth' | 'death' | 'nationality' | 'primaryGenres'>>;
+
+/**
+ * How many bibliography titles are copied into Author.otherBooks
+ */
+const MAX_OTHER_BOOKS = 20;
+
+/**
+ * AuthorRegistryService
+ *
+ * Keeps one canonical record per author. Every saved book's authors are
+ * resolved against the registry:
+ * 1. Match the credited name (or a known spelling of it) to a record
+ * 2. Register a new record with a stable id if none matches
+ * 3. Fill the record's empty fields from the credit and remember new spellings
+ * 4. Give the book the record's canonical copy, refreshing other books
+ *    that credit the author when the record changed
+ */
+export class AuthorRegistryService {
+  /**
+   * Get every registered author
+   * @returns Registry records
+   */
+  getAuthors(): AuthorRecord[] {
+    return libraryStore.getAll<AuthorRecord>('authors');
+  }
+
+  /**
+   * Get an author by id
+   * @param authorId Author id
+   * @returns The record or null if not found
+   */
+  getAuthor(authorId: string): AuthorRecord | null {
+    return libraryStore.get<AuthorRecord>('authors', authorId) || null;
+  }
+
+  /**
+   * Get the books in the library crediting an author
+   * @param authorId Author id
+   * @returns Books, oldest addition first
+   */
+  getBooks(authorId: string): Book[] {
+    return libraryStore.getAll<Book>('books')
+      .filter(book => book.authors.some(author => author.id === authorId))
+      .sort((a, b) => a.dateAdded.localeCompare(b.dateAdded));
+  }
+
+  /**
+   * Replace a book's authors with their canonical registry copies,
+   * registering authors seen for the first time
+   * @param book Book about to be saved
+   * @returns The book with canonical authors
+   */
+  resolveBookAuthors(book: Book): Book {
+    const resolved = book.authors.map(author => this.resolveAuthor(author, book.id));
+    // Two spellings of one name on the same book collapse into one credit
+    const authors = resolved.filter((author, index) =>
+      !isKnownAuthorName(author.name) || resolved.findIndex(other => other.id === author.id) === index
+    );
+    return { ...book, authors };
+  }
+
+  /**
+   * Register the authors of every book, e.g. after restoring a backup
+   * @returns Number of books whose authors changed
+   */
+  ensureAuthors(): number {
+    let updated = 0;
+
+    libraryStore.getAll<Book>('books')
+      .sort((a, b) => a.dateAdded.localeCompare(b.dateAdded))
+      .forEach(book => {
+        const resolved = this.resolveBookAuthors(book);
+        if (JSON.stringify(resolved.authors) !== JSON.stringify(book.authors)) {
+          libraryStore.put('books', book.id, resolved);
+          updated++;
+        }
+      });
+
+    return updated;
+  }
+
+  /**
+   * Edit an author's details; every book crediting them is updated
+   * @param authorId Author id
+   * @param changes Fields to change
+   * @returns The updated record, or null if the author doesn't exist
+   */
+  updateAuthor(authorId: string, changes: AuthorDetailsUpdate): AuthorRecord | null {
+    const record = this.getAuthor(authorId);
+    if (!record) return null;
+
+    const name = changes.name?.trim() || record.name;
+    const updated: AuthorRecord = {
+      ...record,
+      ...changes,
+      name,
+      // Keep the previous spelling so books crediting it still match
+      nameVariants: name !== record.name
+        ? Array.from(new Set([...record.nameVariants, record.name])).filter(variant => variant !== name)
+        : record.nameVariants,
+      lastModified: new Date().toISOString()
+    };
+
+    libraryStore.put('authors', authorId, updated);
+    this.syncCopies(updated);
+
+    return updated;
+  }
+
+  /**
+   * Fold one author record into another, for spellings too different to
+   * match automatically ("Dostoevsky" / "Dostojewski")
+   * @param survivorId Author that stays
+   * @param mergedId Author merged into it
+   * @returns The combined record, or null if either author doesn't exist
+   */
+  mergeAuthors(survivorId: string, mergedId: string): AuthorRecord | null {
+    const survivor = this.getAuthor(survivorId);
+    const merged = this.getAuthor(mergedId);
+    if (!survivor || !merged || survivorId === mergedId) return null;
+
+    const combined = combineAuthorRecords(survivor, merged);
+    libraryStore.put('authors', survivorId, combined);
+    libraryStore.delete('authors', mergedId);
+
+    const replace = (authors: Author[]) => {
+      const replaced = authors.map(author => author.id === mergedId ? toBookAuthor(combined, author.roles) : author);
+      // A book crediting both spellings keeps one
+      return replaced.filter((author, index) => replaced.findIndex(other => other.id === author.id) === index);
+    };
+
+    this.getBooks(mergedId).forEach(book => {
+      libraryStore.put('books', book.id, { ...book, authors: replace(book.authors) });
+    });
+    workService.getWorks()
+      .filter(work => work.authors.some(author => author.id === mergedId))
+      .forEach(work => libraryStore.put('works', work.id, { ...work, authors: replace(work.authors) }));
+
+    this.syncCopies(combined);
+
+    return combined;
+  }
+
+  /**
+   * Look an author up on Open Library and record their life dates and bibliography
+   * @param authorId Author id
+   * @returns Promise with the updated record, or null if the author doesn't exist
+   */
+  async refreshFromOpenLibrary(authorId: string): Promise<AuthorRecord | null> {
+    const record = this.getAuthor(authorId);
+    if (!record) return null;
+
+    try {
+      const openLibraryAuthorId = record.openLibraryAuthorId
+        || this.findOpenLibraryAuthorId(record)
+        || await this.searchOpenLibraryAuthorId(record);
+      if (!openLibraryAuthorId) return record;
+
+      const [author, works] = await Promise.all([
+        openLibraryProvider.fetchAuthor(openLibraryAuthorId),
+        openLibraryProvider.fetchAuthorWorks(openLibraryAuthorId)
+      ]);
+
+      const seen = new Set<string>();
+      const bibliography: AuthorBibliographyEntry[] = works
+        .filter(work => {
+          const title = normalizeTitle(work.title || '');
+          if (!title || seen.has(title)) return false;
+          seen.add(title);
+          return true;
+        })
+        .map(work => ({
+          title: work.title,
+          openLibraryWorkId: work.key.replace(/^\/works\//, ''),
+          firstPublishYear: Number(work.first_publish_date?.match(/\d{4}/)?.[0]) || undefined
+        }));
+
+      // The record may have changed while the requests were in flight
+      const current = this.getAuthor(authorId) || record;
+      const libraryGenres = this.getAuthorSummary(authorId)?.genres || [];
+      const updated: AuthorRecord = {
+        ...current,
+        openLibraryAuthorId,
+        birth: current.birth || author?.birth_date?.match(/\d{4}/)?.[0],
+        death: current.death || author?.death_date?.match(/\d{4}/)?.[0],
+        bibliography: bibliography.length > 0 ? bibliography : current.bibliography,
+        otherBooks: bibliography.length > 0
+          ? bibliography.slice(0, MAX_OTHER_BOOKS).map(entry => entry.title)
+          : current.otherBooks,
+        primaryGenres: current.primaryGenres?.length ? current.primaryGenres : libraryGenres.slice(0, 3),
+        lastModified: new Date().toISOString()
+      };
+
+      libraryStore.put('authors', authorId, updated);
+      this.syncCopies(updated);
+
+      return updated;
+    } catch (error) {
+      console.error(`Error looking up author ${record.name} on Open Library:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Aggregate the user's reading of an author across the library
+   * @param authorId Author id
+   * @returns Author summary, or null if the author doesn't exist
+   */
+  getAuthorSummary(authorId: string): AuthorSummary | null {
+    const author = this.getAuthor(authorId);
+    return author ? summarizeAuthor(author, workService.summarizeBooks(this.getBooks(authorId))) : null;
+  }
+
+  /**
+   * Resolve one credited author against the registry
+   * @param author Author as credited on a book
+   * @param bookId Book being saved; its stored copy is left to the caller
+   * @returns Canonical copy for the book
+   */
+  private resolveAuthor(author: Author, bookId: string): Author {
+    if (!isKnownAuthorName(author.name)) return author;
+
+    const record = registerAuthorCredit(author, this.getAuthors());
+    const previous = this.getAuthor(record.id);
+
+    if (!previous || previous.lastModified !== record.lastModified) {
+      libraryStore.put('authors', record.id, record);
+      if (previous && authorFieldsDiffer(previous, record)) {
+        this.syncCopies(record, bookId);
+      }
+    }
+
+    return toBookAuthor(record, author.roles);
+  }
+
+  /**
+   * Refresh the copies of an author held by books and works
+   * @param record Registry record
+   * @param skipBookId Book to leave alone, e.g. one about to be saved
+   */
+  private syncCopies(record: AuthorRecord, skipBookId?: string): void {
+    const refresh = (authors: Author[]) => authors.map(author =>
+      author.id === record.id ? toBookAuthor(record, author.roles) : author
+    );
+    const changed = (before: Author[], after: Author[]) =>
+      before.some((author, index) => authorFieldsDiffer(author, after[index]));
+
+    this.getBooks(record.id)
+      .filter(book => book.id !== skipBookId)
+      .forEach(book => {
+        const authors = refresh(book.authors);
+        if (changed(book.authors, authors)) {
+          libraryStore.put('books', book.id, { ...book, authors });
+        }
+      });
+
+    libraryStore.getAll<Work>('works')
+      .filter(work => work.authors.some(author => author.id === record.id))
+      .forEach(work => {
+        const authors = refresh(work.authors);
+        if (changed(work.authors, authors)) {
+          libraryStore.put('works', work.id, { ...work, authors });
+        }
+      });
+  }
+
+  /**
+   * Look up an author's Open Library id in the stored Open Library records of their books
+   * @param record Registry record
+   * @returns Author OLID, if a stored record names them
+   */
+  private findOpenLibraryAuthorId(record: AuthorRecord): string | undefined {
+    const names = [record.name, ...record.nameVariants];
+
+    for (const book of this.getBooks(record.id)) {
+      const editionId = book.identifiers.openLibraryId;
+      if (!editionId) continue;
+
+      const stored = libraryStore.get<ExternalBookData>('externalData', `open_library:${editionId}`);
+      const authors = (stored?.data as OpenLibraryBookRecord | undefined)?.authors || [];
+      const match = authors.find(author => names.some(name => authorNamesMatch(name, author.name)));
+      if (match) return match.key.replace(/^\/authors\//, '');
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Search Open Library for an author by name
+   * @param record Registry record
+   * @returns Author OLID of the best match whose name matches, if any
+   */
+  private async searchOpenLibraryAuthorId(record: AuthorRecord): Promise<string | undefined> {
+    const names = [record.name, ...record.nameVariants];
+    const results = await openLibraryProvider.searchAuthors(record.name);
+    const match = results.find(result =>
+      [result.name, ...(result.alternate_names || [])].some(candidate =>
+        names.some(name => authorNamesMatch(name, candidate))
+      )
+    );
+    return match?.key.replace(/^\/authors\//, '');
+  }
+}
+
+// Create and export a singleton instance
+export const authorRegistryService = new AuthorRegistryService();
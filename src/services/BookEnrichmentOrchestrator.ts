@@ -1,6 +1,14 @@
-import { Book, GoogleBooksVolume, BookAIEnrichment } from '../models/BookTypes';
+import { Book, BookAIEnrichment, EnrichmentFailure, EnrichmentJob } from '../models/BookTypes';
 import { bookMetadataService } from './BookMetadataService';
 import { aiEnrichmentService } from './AIEnrichmentService';
+import { enrichmentJobQueue } from './EnrichmentJobQueue';
+import { enrichmentSuggestionService } from './EnrichmentSuggestionService';
+import { llmService } from './llm/LLMService';
+import { genreTaxonomyService } from './GenreTaxonomyService';
+import { metadataCompletenessService } from './MetadataCompletenessService';
+import { libraryStore } from './storage/LibraryStore';
+import { normalizeIsbn } from '../utils/isbn';
+import { applyFieldValues, changedEnrichableFields, createProvenance } from '../utils/provenance';
 
 /**
  * BookEnrichmentOrchestrator
@@ -8,44 +16,27 @@ import { aiEnrichmentService } from './AIEnrichmentService';
  * This service orchestrates the enrichment process for books:
  * 1. When a user adds a book, we first get data from Google Books API
  * 2. We check if this book has already been enriched (in a shared database)
- * 3. If not enriched, we use Perplexity AI to fill in missing details
- * 4. We store the enriched metadata for all users to benefit from
+ * 3. If not enriched, we queue a job that uses the configured language model
+ *    to fill in missing details; EnrichmentJobQueue retries and resumes it
+ * 4. We store the enriched metadata for all users to benefit from; the
+ *    user's copy only gets suggestions, which they review before they apply
  * 
  * This ensures we only perform AI enrichment once per unique book.
  */
 export class BookEnrichmentOrchestrator {
-  // Storage key for enriched book metadata
-  private enrichedBooksKey = 'shared_enriched_books';
-  
-  // Storage key for tracking books that are in the enrichment process
-  private enrichmentQueueKey = 'enrichment_queue';
-  
   constructor() {
-    this.initializeStorage();
-  }
-  
-  /**
-   * Initialize storage keys if they don't exist
-   */
-  private initializeStorage(): void {
-    if (!localStorage.getItem(this.enrichedBooksKey)) {
-      localStorage.setItem(this.enrichedBooksKey, JSON.stringify({}));
-    }
-    
-    if (!localStorage.getItem(this.enrichmentQueueKey)) {
-      localStorage.setItem(this.enrichmentQueueKey, JSON.stringify([]));
-    }
+    enrichmentJobQueue.setHandler((job, signal) => this.runEnrichmentJob(job, signal));
   }
   
   /**
    * Get a book from the shared enriched database by ISBN
-   * @param isbn The ISBN to look up
+   * @param isbn The ISBN to look up, in ISBN-10 or ISBN-13 form
    * @returns The enriched book data if available, null otherwise
    */
   getEnrichedBookByISBN(isbn: string): Book | null {
     try {
-      const enrichedBooks = JSON.parse(localStorage.getItem(this.enrichedBooksKey) || '{}');
-      return enrichedBooks[isbn] || null;
+      const isbn13 = normalizeIsbn(isbn);
+      return isbn13 ? libraryStore.get<Book>('sharedEnrichedBooks', isbn13) || null : null;
     } catch (error) {
       console.error('Error retrieving enriched book:', error);
       return null;
@@ -58,22 +49,42 @@ export class BookEnrichmentOrchestrator {
    */
   saveEnrichedBook(book: Book): void {
     try {
-      if (!book.isbn) {
-        console.error('Cannot save enriched book without ISBN');
+      const isbn13 = normalizeIsbn(book.isbn);
+      if (!isbn13) {
+        console.error('Cannot save enriched book without a valid ISBN');
         return;
       }
       
-      const enrichedBooks = JSON.parse(localStorage.getItem(this.enrichedBooksKey) || '{}');
-      enrichedBooks[book.isbn] = book;
-      localStorage.setItem(this.enrichedBooksKey, JSON.stringify(enrichedBooks));
-      
-      // Remove from enrichment queue if present
-      this.removeFromEnrichmentQueue(book.isbn);
+      libraryStore.put('sharedEnrichedBooks', isbn13, book);
     } catch (error) {
       console.error('Error saving enriched book:', error);
     }
   }
   
+  /**
+   * Save an enrichment run's result. The user's copy of the book gets the
+   * run's analysis, while its field values become suggestions for the user
+   * to review (or fill empty fields straight away, if the review policy says so).
+   * The shared database gets the run's copy as is.
+   * @param enrichedBook The run's copy of the book
+   * @returns The user's book as saved
+   */
+  saveEnrichmentResult(enrichedBook: Book): Book {
+    // Suggest against whatever the user changed while enrichment was running
+    const current = bookMetadataService.getBookById(enrichedBook.id) || enrichedBook;
+    const savedBook = bookMetadataService.saveBook({
+      ...enrichmentSuggestionService.propose(current, enrichedBook),
+      enrichedData: enrichedBook.enrichedData
+    });
+    
+    // Save to shared enriched database for other users
+    if (enrichedBook.isbn) {
+      this.saveEnrichedBook(enrichedBook);
+    }
+    
+    return savedBook;
+  }
+  
   /**
    * Check if a book needs enrichment based on completion percentage
    * @param book The book to check
@@ -81,53 +92,39 @@ export class BookEnrichmentOrchestrator {
    */
   needsEnrichment(book: Book): boolean {
     // Consider a book needs enrichment if metadata is less than 80% complete
-    const completionPercentage = bookMetadataService.calculateMetadataCompletionPercentage(book.id);
-    return completionPercentage < 80;
+    // and enrichment can fill something that's missing
+    return metadataCompletenessService.needsCompletion(book)
+      && aiEnrichmentService.identifyMissingData(book).length > 0;
   }
   
   /**
-   * Check if a book is already in the enrichment queue
-   * @param isbn The ISBN to check
-   * @returns True if the book is in the queue
+   * Get a book's latest enrichment job
+   * @param bookId The book's ID
+   * @returns The newest job for the book, if it was ever queued
    */
-  isInEnrichmentQueue(isbn: string): boolean {
-    try {
-      const queue = JSON.parse(localStorage.getItem(this.enrichmentQueueKey) || '[]');
-      return queue.includes(isbn);
-    } catch (error) {
-      console.error('Error checking enrichment queue:', error);
-      return false;
-    }
+  getEnrichmentJob(bookId: string): EnrichmentJob | undefined {
+    return enrichmentJobQueue.getLatestJobForBook(bookId);
   }
   
   /**
-   * Add a book to the enrichment queue
-   * @param isbn The ISBN to add to the queue
+   * Cancel a book's queued or running enrichment
+   * @param bookId The book's ID
+   * @returns True if an active job was cancelled
    */
-  addToEnrichmentQueue(isbn: string): void {
-    try {
-      const queue = JSON.parse(localStorage.getItem(this.enrichmentQueueKey) || '[]');
-      if (!queue.includes(isbn)) {
-        queue.push(isbn);
-        localStorage.setItem(this.enrichmentQueueKey, JSON.stringify(queue));
-      }
-    } catch (error) {
-      console.error('Error adding to enrichment queue:', error);
-    }
+  cancelEnrichment(bookId: string): boolean {
+    const job = enrichmentJobQueue.getLatestJobForBook(bookId);
+    return job ? enrichmentJobQueue.cancel(job.id) : false;
   }
   
   /**
-   * Remove a book from the enrichment queue
-   * @param isbn The ISBN to remove from the queue
+   * Pick up the enrichment jobs left from the last session, once storage is ready
    */
-  removeFromEnrichmentQueue(isbn: string): void {
-    try {
-      const queue = JSON.parse(localStorage.getItem(this.enrichmentQueueKey) || '[]');
-      const updatedQueue = queue.filter((queuedIsbn: string) => queuedIsbn !== isbn);
-      localStorage.setItem(this.enrichmentQueueKey, JSON.stringify(updatedQueue));
-    } catch (error) {
-      console.error('Error removing from enrichment queue:', error);
+  resumeEnrichment(): void {
+    if (!aiEnrichmentService.hasAPIKey()) {
+      console.log('Enrichment jobs stay queued until a language model is configured');
+      return;
     }
+    enrichmentJobQueue.resume();
   }
   
   /**
@@ -137,37 +134,21 @@ export class BookEnrichmentOrchestrator {
    */
   async addBookToLibrary(googleBookId: string): Promise<Book> {
     try {
-      // First, fetch the book data from Google Books API
-      const response = await fetch(
-        `https://www.googleapis.com/books/v1/volumes/${googleBookId}`
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Google Books API error: ${response.status}`);
-      }
-      
-      const googleBook: GoogleBooksVolume = await response.json();
-      
-      // Convert to our minimal book format
-      const minimalData = bookMetadataService.convertGoogleBookToMinimalData(googleBook);
+      // Fetch the book from Google Books, merged with the other providers' data
+      const { data: minimalData } = await bookMetadataService.fetchMergedBookData('google_books', { id: googleBookId });
       
       // Check if we already have enriched data for this book (by ISBN)
       if (minimalData.isbn) {
         const enrichedBook = this.getEnrichedBookByISBN(minimalData.isbn);
         
         if (enrichedBook) {
-          // We already have enriched data, update the book ID and save to user's library
-          const bookForUser: Book = {
-            ...enrichedBook,
-            id: googleBookId, // Ensure the user's book has their specific Google Book ID
-            dateAdded: new Date().toISOString(),
-            readingStatus: 'to-read' as const,
-            userRating: 0,
-            lastModified: new Date().toISOString()
-          };
-          
-          // Save to user's library
-          return bookMetadataService.saveBook(bookForUser);
+          // We already have enriched data; it is suggested on top of the catalog
+          // record like a fresh enrichment run, so it goes through review too
+          const fullBook = bookMetadataService.createFullBookFromMinimalData(minimalData);
+          return bookMetadataService.saveBook({
+            ...enrichmentSuggestionService.propose(fullBook, { ...enrichedBook, id: fullBook.id }),
+            enrichedData: enrichedBook.enrichedData
+          });
         }
       }
       
@@ -176,12 +157,10 @@ export class BookEnrichmentOrchestrator {
       const fullBook = bookMetadataService.createFullBookFromMinimalData(minimalData);
       const savedBook = bookMetadataService.saveBook(fullBook);
       
-      // Automatically start enrichment process for all new books with ISBN
-      if (savedBook.isbn) {
-        // Start immediate enrichment in the background
-        this.processEnrichment(savedBook).catch(error => {
-          console.error('Background enrichment failed:', error);
-        });
+      // Automatically queue enrichment for all new books with ISBN,
+      // once a language model is configured
+      if (savedBook.isbn && aiEnrichmentService.hasAPIKey()) {
+        await this.scheduleEnrichment(savedBook);
       }
       
       return savedBook;
@@ -213,8 +192,9 @@ export class BookEnrichmentOrchestrator {
         culturalSignificance: 'Unknown',
         aiAnalysis: `This book is categorized as ${enrichedBook.genres?.join(', ')} and explores themes of ${enrichedBook.themes?.map(t => t.name).join(', ')}.`,
         enrichmentDate: new Date().toISOString(),
-        enrichmentSource: 'perplexity_ai',
-        version: '1.0'
+        enrichmentSource: enrichedBook.enrichedData?.enrichmentSource || llmService.describeModel(),
+        version: '1.0',
+        failures: enrichedBook.enrichedData?.failures
       };
       
       // If the book has an ISBN and we got enrichment data, save to shared database
@@ -248,41 +228,74 @@ export class BookEnrichmentOrchestrator {
   }
   
   /**
-   * Schedule a book for background enrichment using Perplexity AI
+   * Schedule a book for background enrichment using the configured language model
    * @param book The book to enrich
+   * @returns The book's queued job, or null if it cannot be enriched
    */
-  async scheduleEnrichment(book: Book): Promise<void> {
+  async scheduleEnrichment(book: Book): Promise<EnrichmentJob | null> {
     try {
       if (!book.isbn) {
         console.error('Cannot schedule enrichment for book without ISBN');
-        return;
+        return null;
       }
       
-      // Check if this book is already in the enrichment queue
-      if (this.isInEnrichmentQueue(book.isbn)) {
-        console.log(`Book "${book.title}" is already in the enrichment queue`);
-        return;
+      if (!aiEnrichmentService.hasAPIKey()) {
+        console.error('Cannot schedule enrichment until a language model is configured');
+        return null;
       }
       
-      // Add to the enrichment queue
-      this.addToEnrichmentQueue(book.isbn);
-      
-      console.log(`Scheduled enrichment for book "${book.title}" (ISBN: ${book.isbn})`);
-      
-      // Start the enrichment process asynchronously immediately
-      this.processEnrichment(book).catch(error => {
-        console.error(`Error during enrichment of "${book.title}":`, error);
-      });
+      // The queue hands back the book's active job if it already has one
+      const job = enrichmentJobQueue.enqueue(book);
+      console.log(`Scheduled enrichment for book "${book.title}" (ISBN: ${book.isbn}, job ${job.id})`);
+      return job;
     } catch (error) {
       console.error('Error scheduling enrichment:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Run one attempt of an enrichment job; called by the job queue
+   * @param job The job to run
+   * @param signal Aborted when the job is cancelled
+   */
+  private async runEnrichmentJob(job: EnrichmentJob, signal: AbortSignal): Promise<void> {
+    const book = bookMetadataService.getBookById(job.bookId);
+    if (!book) {
+      enrichmentJobQueue.cancel(job.id, 'The book is no longer in the library');
+      return;
+    }
+    if (!aiEnrichmentService.hasAPIKey()) {
+      throw new Error('No language model is configured');
+    }
+    
+    try {
+      await this.processEnrichment(book, signal);
+    } catch (error) {
+      // Once the last attempt has failed, say so on the book
+      if (job.attempts >= job.maxAttempts && !signal.aborted) {
+        const partialBook = { ...(bookMetadataService.getBookById(book.id) || book) };
+        if (!partialBook.enrichedData) {
+          partialBook.enrichedData = {
+            themes: [],
+            enrichmentDate: new Date().toISOString(),
+            enrichmentSource: 'error',
+            version: '1.0',
+            aiAnalysis: `We're currently experiencing difficulties analyzing "${book.title}". Refresh its metadata to try again.`
+          };
+          bookMetadataService.saveBook(partialBook);
+        }
+      }
+      throw error;
     }
   }
   
   /**
-   * Process book enrichment in the background
+   * Enrich a book and save the result
    * @param book The book to enrich
+   * @param signal Aborted when the enrichment is cancelled; nothing is saved then
    */
-  private async processEnrichment(book: Book): Promise<void> {
+  private async processEnrichment(book: Book, signal?: AbortSignal): Promise<void> {
     try {
       // Skip if no ISBN - we use ISBN to store in shared database
       if (!book.isbn) {
@@ -290,11 +303,6 @@ export class BookEnrichmentOrchestrator {
         return;
       }
       
-      // Add to queue if not already there
-      if (!this.isInEnrichmentQueue(book.isbn)) {
-        this.addToEnrichmentQueue(book.isbn);
-      }
-      
       console.log(`Starting enrichment process for book "${book.title}"...`);
       
       // Force refresh for all books to get the latest Goodreads data,
@@ -305,6 +313,8 @@ export class BookEnrichmentOrchestrator {
       // This is more likely to produce a coherent, comprehensive analysis
       let enrichedBook = { ...book };
       let enrichmentFailed = false;
+      // Why the analysis couldn't be used, kept if we fall back
+      let analysisFailures: EnrichmentFailure[] = [];
       
       try {
         console.log(`Generating detailed book analysis for "${book.title}" using Goodreads data...`);
@@ -318,42 +328,33 @@ export class BookEnrichmentOrchestrator {
             lastModified: new Date().toISOString()
           };
           
-          // If we have theme data, convert to proper theme objects
+          const provenance = analysisData.enrichmentSource === 'classic_literature_database'
+            ? createProvenance('classic_literature_database')
+            : createProvenance('ai_enrichment', {
+              promptVersion: aiEnrichmentService.analysisPromptVersion,
+              model: llmService.describeModel()
+            });
+          
+          // If we have theme data, convert to proper theme objects. The analysis
+          // only names themes, so they start mid-scale until the user reviews them
           if (analysisData.themes && analysisData.themes.length > 0) {
-            enrichedBook.themes = analysisData.themes.map(themeName => ({
-              name: themeName,
-              relevance: 5, // Default high relevance
-              userNotes: `A significant theme in ${book.title} according to Goodreads reviews`
-            }));
+            enrichedBook = applyFieldValues(enrichedBook, {
+              themes: analysisData.themes.map(themeName => ({
+                name: themeName,
+                relevance: 3
+              }))
+            }, provenance).book;
           }
           
-          // If analysis provided genre information that the book doesn't have
+          // If the book has no genres yet, take the taxonomy's genres the analysis names
           if (!book.genres || book.genres.length === 0) {
-            // Extract potential genres from the analysis
-            const genreKeywords = ['classic', 'psychological', 'philosophical', 'crime', 'drama', 
-                                  'historical', 'romance', 'social', 'political', 'thriller', 'mystery'];
-            
-            const analysisText = analysisData.aiAnalysis.toLowerCase();
-            const potentialGenres = genreKeywords
-              .filter(keyword => analysisText.includes(keyword))
-              .map(keyword => {
-                // Convert to proper genre name
-                if (keyword === 'classic') return 'Classic Literature';
-                if (keyword === 'psychological') return 'Psychological Fiction';
-                if (keyword === 'philosophical') return 'Philosophical Fiction';
-                if (keyword === 'crime') return 'Crime Fiction';
-                if (keyword === 'drama') return 'Drama';
-                if (keyword === 'historical') return 'Historical Fiction';
-                if (keyword === 'romance') return 'Romance';
-                if (keyword === 'social') return 'Social Commentary';
-                if (keyword === 'political') return 'Political Fiction';
-                if (keyword === 'thriller') return 'Thriller';
-                if (keyword === 'mystery') return 'Mystery';
-                return keyword.charAt(0).toUpperCase() + keyword.slice(1);
-              });
+            const potentialGenres = genreTaxonomyService.findGenresInText(analysisData.aiAnalysis);
             
             if (potentialGenres.length > 0) {
-              enrichedBook.genres = potentialGenres.slice(0, 3); // Take up to 3 genres
+              // Genres spotted in prose are a weaker signal than ones asked for
+              enrichedBook = applyFieldValues(enrichedBook, {
+                genres: potentialGenres.slice(0, 3) // Take up to 3 genres
+              }, { ...provenance, confidence: Math.min(provenance.confidence, 0.4) }).book;
             }
           }
           
@@ -361,6 +362,7 @@ export class BookEnrichmentOrchestrator {
         } else {
           // If the general analysis wasn't good enough, fall back to field-by-field enrichment
           enrichmentFailed = true;
+          analysisFailures = analysisData?.failures || [];
         }
       } catch (error) {
         console.error(`Error generating book analysis for "${book.title}":`, error);
@@ -382,136 +384,51 @@ export class BookEnrichmentOrchestrator {
           // to get the latest Goodreads information
           console.log(`Generating enriched metadata for "${book.title}" from Goodreads...`);
           enrichedBook = await aiEnrichmentService.enrichBookMetadata(book);
-        }
-      }
-      
-      // If the book has enriched data from AI, save it to the shared database
-      if (enrichedBook.enrichedData) {
-        // Mark the source as Goodreads
-        if (enrichedBook.enrichedData.enrichmentSource !== 'classic_literature_database') {
-          enrichedBook.enrichedData.enrichmentSource = 'goodreads_via_perplexity';
-        }
-        
-        console.log(`Saving enriched data for book "${enrichedBook.title}" to shared database...`);
-        
-        // Update user's copy of the book with enriched data
-        bookMetadataService.saveBook(enrichedBook);
-        
-        // Save to shared enriched database for other users
-        if (enrichedBook.isbn) {
-          this.saveEnrichedBook(enrichedBook);
-        }
-      }
-      
-      // Remove from the enrichment queue
-      if (book.isbn) {
-        this.removeFromEnrichmentQueue(book.isbn);
-      }
-      console.log(`Enrichment complete for book "${book.title}"`);
-      
-    } catch (error) {
-      console.error(`Error during enrichment process for book "${book.title}":`, error);
-      
-      // Add retry logic for intermittent failures
-      try {
-        if (book.isbn) {
-          // Get the current queue to check retry count
-          const queue = JSON.parse(localStorage.getItem(this.enrichmentQueueKey) || '[]');
-          
-          // Implementation of a simple retry counter using localStorage
-          const retryKey = `retry_count_${book.isbn}`;
-          const retryCount = parseInt(localStorage.getItem(retryKey) || '0');
           
-          if (retryCount < 3) { // Limit to 3 retries
-            // Increment retry counter
-            localStorage.setItem(retryKey, (retryCount + 1).toString());
-            
-            console.log(`Scheduling retry ${retryCount + 1}/3 for "${book.title}" in 5 seconds...`);
-            
-            // Wait 5 seconds and retry
-            setTimeout(() => {
-              this.processEnrichment(book).catch(err => {
-                console.error(`Retry failed for "${book.title}":`, err);
-              });
-            }, 5000);
-            
-            // Don't remove from queue yet since we're retrying
-            return;
-          } else {
-            // Clear retry counter on max retries
-            localStorage.removeItem(retryKey);
-            
-            // If all retries failed, update book with partial data or error message
-            const partialBook = { ...book };
-            if (!partialBook.enrichedData) {
-              partialBook.enrichedData = {
-                themes: [],
-                enrichmentDate: new Date().toISOString(),
-                enrichmentSource: 'error',
-                version: '1.0',
-                aiAnalysis: `We're currently experiencing difficulties analyzing "${book.title}". The analysis will be updated automatically when available.`
-              };
-              
-              // Save the book with the error message
-              bookMetadataService.saveBook(partialBook);
-            }
-            
-            // Remove from queue after max retries
-            this.removeFromEnrichmentQueue(book.isbn);
+          // Fail the attempt, so it is retried, if no section could be filled in
+          const failures = enrichedBook.enrichedData?.failures || [];
+          if (failures.length > 0 && changedEnrichableFields(book, enrichedBook).length === 0) {
+            throw new Error(`No metadata could be enriched: ${failures.map(failure => `${failure.section}: ${failure.errors[0]}`).join('; ')}`);
           }
         }
-      } catch (retryError) {
-        console.error(`Error setting up retry for "${book.title}":`, retryError);
         
-        // Remove from queue if retry setup fails
-        if (book.isbn) {
-          this.removeFromEnrichmentQueue(book.isbn);
+        // The fallback's result replaces the analysis, so carry its failure over
+        if (analysisFailures.length > 0 && enrichedBook.enrichedData) {
+          enrichedBook = {
+            ...enrichedBook,
+            enrichedData: {
+              ...enrichedBook.enrichedData,
+              failures: [
+                ...(enrichedBook.enrichedData.failures || []).filter(failure => failure.section !== 'analysis'),
+                ...analysisFailures
+              ]
+            }
+          };
         }
       }
-    }
-  }
-  
-  /**
-   * Process all books in the enrichment queue
-   */
-  async processEnrichmentQueue(): Promise<void> {
-    try {
-      // Get the current queue
-      const queue = JSON.parse(localStorage.getItem(this.enrichmentQueueKey) || '[]');
       
-      if (queue.length === 0) {
-        console.log('Enrichment queue is empty');
+      if (signal?.aborted) {
+        console.log(`Enrichment of "${book.title}" was cancelled; discarding the result`);
         return;
       }
       
-      console.log(`Processing enrichment queue. ${queue.length} books in queue.`);
-      
-      // Process each book in the queue
-      for (const isbn of queue) {
-        // Find the book in the user's library using the ISBN
-        const userBooks = bookMetadataService.getAllBooks();
-        const bookToEnrich = userBooks.find(book => book.isbn === isbn);
-        
-        if (bookToEnrich) {
-          // Process this book
-          await this.processEnrichment(bookToEnrich);
-          
-          // Wait a bit before processing the next book to avoid API rate limits
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        } else {
-          // If book not found, remove it from the queue
-          this.removeFromEnrichmentQueue(isbn);
-        }
+      // If the book has enriched data from AI, save it to the shared database
+      if (enrichedBook.enrichedData) {
+        console.log(`Saving enriched data for book "${enrichedBook.title}" to shared database...`);
+        this.saveEnrichmentResult(enrichedBook);
       }
+      
+      console.log(`Enrichment complete for book "${book.title}"`);
     } catch (error) {
-      console.error('Error processing enrichment queue:', error);
+      console.error(`Error during enrichment process for book "${book.title}":`, error);
+      throw error;
     }
   }
   
   /**
    * Force re-enrichment of a specific book
    * @param bookId The ID of the book to re-enrich
-   * @returns Promise with success status
+   * @returns Promise with whether the book is now queued
    */
   async forceReenrichBook(bookId: string): Promise<boolean> {
     try {
@@ -526,15 +443,8 @@ export class BookEnrichmentOrchestrator {
       
       console.log(`Forcing re-enrichment for book "${bookToReenrich.title}" (ID: ${bookId})`);
       
-      // Add the book to the enrichment queue (if it has an ISBN)
-      if (bookToReenrich.isbn) {
-        this.addToEnrichmentQueue(bookToReenrich.isbn);
-      }
-      
-      // Immediately start the enrichment process
-      await this.processEnrichment(bookToReenrich);
-      
-      return true;
+      // Queue it; the job starts as soon as a slot is free
+      return (await this.scheduleEnrichment(bookToReenrich)) !== null;
     } catch (error) {
       console.error(`Error forcing re-enrichment for book ID "${bookId}":`, error);
       return false;
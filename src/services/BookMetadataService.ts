@@ -1,13 +1,35 @@
 import { 
+  Author,
   Book, 
-  Author, 
+  BookSearchQuery,
+  BookSearchResponse,
   GoogleBooksVolume, 
   MinimalBookData, 
-  BookMetadataCompletionStatus,
   BookEnrichmentSource,
   ExternalBookData,
-  BookAIEnrichment
+  BookAIEnrichment,
+  BookIdentifiers,
+  ManualBookInput,
+  MetadataCompletenessReport,
+  EnrichableField
 } from '../models/BookTypes';
+import { libraryStore } from './storage/LibraryStore';
+import { MigrationReport } from './storage/migrations';
+import { createAuthorFromName, createDefaultBookFields } from '../utils/bookDefaults';
+import { isValidIsbn } from '../utils/isbn';
+import { buildBookIdentifiers, identifiersMatch, normalizeBookIdentifiers } from '../utils/bookIdentifiers';
+import { matchesBookSearchQuery } from '../utils/catalogSearch';
+import { changedEnrichableFields, createProvenance, recordProvenance } from '../utils/provenance';
+import { GoogleBooksSearchOptions, googleBooksProvider } from './metadata/GoogleBooksProvider';
+import { networkStatusService } from './NetworkStatusService';
+import { workService } from './WorkService';
+import { coverService } from './CoverService';
+import { authorRegistryService } from './AuthorRegistryService';
+import { genreTaxonomyService } from './GenreTaxonomyService';
+import { metadataCompletenessService } from './MetadataCompletenessService';
+import { metadataProviderRegistry } from './metadata/MetadataProviderRegistry';
+import { MERGEABLE_FIELDS, MetadataResult } from './metadata/MetadataProvider';
+import { MergedMetadata, isEmptyFieldValue } from './metadata/metadataMerge';
 
 /**
  * BookMetadataService
@@ -17,32 +39,28 @@ import {
  * information about books over time.
  */
 export class BookMetadataService {
-  private bookStorageKey = 'enhanced_books';
-  private metadataStatusKey = 'metadata_completion_status';
-  private externalDataKey = 'external_book_data';
+  /**
+   * Wait until the library storage backend is loaded
+   * @returns Promise that resolves once books can be read
+   */
+  ready(): Promise<void> {
+    return libraryStore.ready();
+  }
   
   /**
-   * Initialize the service and ensure storage is ready
+   * Get the report of schema migrations run when storage was loaded
+   * @returns Migration report, including records that failed to migrate
    */
-  constructor() {
-    this.initializeStorage();
+  getMigrationReport(): MigrationReport | null {
+    return libraryStore.getMigrationReport();
   }
   
   /**
-   * Ensure required local storage keys exist
+   * Try again to migrate the records earlier migrations could not upgrade
+   * @returns Migration report listing the records still failing
    */
-  private initializeStorage(): void {
-    if (!localStorage.getItem(this.bookStorageKey)) {
-      localStorage.setItem(this.bookStorageKey, JSON.stringify([]));
-    }
-    
-    if (!localStorage.getItem(this.metadataStatusKey)) {
-      localStorage.setItem(this.metadataStatusKey, JSON.stringify([]));
-    }
-    
-    if (!localStorage.getItem(this.externalDataKey)) {
-      localStorage.setItem(this.externalDataKey, JSON.stringify([]));
-    }
+  retryFailedMigrations(): Promise<MigrationReport> {
+    return libraryStore.retryMigrations();
   }
   
   /**
@@ -53,22 +71,71 @@ export class BookMetadataService {
    */
   async searchGoogleBooks(query: string, maxResults: number = 10): Promise<GoogleBooksVolume[]> {
     try {
-      const response = await fetch(
-        `https://www.googleapis.com/books/v1/volumes?q=${encodeURIComponent(query)}&maxResults=${maxResults}`
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Google Books API returned ${response.status}: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      return data.items || [];
+      return await googleBooksProvider.searchVolumes(query, maxResults);
     } catch (error) {
       console.error('Error searching Google Books:', error);
       throw error;
     }
   }
   
+  /**
+   * Search for books, falling back to earlier results and the library when offline:
+   * 1. Ask the cache or Google Books for the query
+   * 2. If the network is unavailable and the query was never cached, search
+   *    the volumes of every cached response and the library instead
+   * Library matches are only returned with the first page.
+   * @param query Structured search
+   * @param options Page to fetch and abort signal
+   * @returns Promise with one page of results and whether they were served offline
+   */
+  async searchBooks(query: BookSearchQuery, options: GoogleBooksSearchOptions = {}): Promise<BookSearchResponse> {
+    const firstPage = !options.startIndex;
+    
+    try {
+      const result = await googleBooksProvider.searchCatalog(query, options);
+      const offline = result.source === 'stale';
+      return {
+        volumes: result.data.volumes,
+        totalItems: result.data.totalItems,
+        libraryBooks: offline && firstPage ? this.searchLibrary(query) : [],
+        offline,
+        fetchedAt: result.source === 'network' ? undefined : result.fetchedAt
+      };
+    } catch (error) {
+      if (networkStatusService.isAbortError(error)) {
+        throw error;
+      }
+      if (networkStatusService.isOnline()) {
+        console.error('Error searching Google Books:', error);
+        throw error;
+      }
+      
+      const page = googleBooksProvider.searchCachedVolumes(query, options);
+      return {
+        ...page,
+        libraryBooks: firstPage ? this.searchLibrary(query) : [],
+        offline: true
+      };
+    }
+  }
+  
+  /**
+   * Search the library with the same fields as a catalog search
+   * @param query Structured search
+   * @returns Books matching every field of the search
+   */
+  searchLibrary(query: BookSearchQuery): Book[] {
+    return this.getAllBooks().filter(book => matchesBookSearchQuery(query, {
+      title: book.title,
+      subtitle: book.subtitle,
+      authors: book.authors.map(author => author.name),
+      isbns: [book.isbn, book.identifiers.isbn13, book.identifiers.isbn10].filter((isbn): isbn is string => !!isbn),
+      publisher: book.publisher,
+      subjects: [...book.genres, ...book.subjects],
+      language: book.language
+    }));
+  }
+  
   /**
    * Fetch detailed book information from Google Books API by ISBN
    * @param isbn ISBN identifier
@@ -76,21 +143,7 @@ export class BookMetadataService {
    */
   async fetchBookByISBN(isbn: string): Promise<GoogleBooksVolume | null> {
     try {
-      const response = await fetch(
-        `https://www.googleapis.com/books/v1/volumes?q=isbn:${isbn}`
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Google Books API returned ${response.status}: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      
-      if (data.totalItems > 0 && data.items && data.items.length > 0) {
-        return data.items[0];
-      }
-      
-      return null;
+      return await googleBooksProvider.fetchVolumeByISBN(isbn);
     } catch (error) {
       console.error(`Error fetching book by ISBN ${isbn}:`, error);
       throw error;
@@ -103,37 +156,75 @@ export class BookMetadataService {
    * @returns Minimal book data compatible with our model
    */
   convertGoogleBookToMinimalData(googleBook: GoogleBooksVolume): MinimalBookData {
-    const volumeInfo = googleBook.volumeInfo;
+    return googleBooksProvider.convertVolumeToMinimalData(googleBook);
+  }
+  
+  /**
+   * Fetch a book from one provider, look its ISBN up in every other
+   * registered provider, and merge the results field by field.
+   * Raw responses are stored as external book data.
+   * @param providerId Provider the book was picked from
+   * @param lookup The book's id in that provider, or its ISBN
+   * @param userValues Values the user entered, which always win
+   * @param refetch Fetch the primary record even if its response is already stored
+   * @returns Promise with the merged data, keeping the primary provider's id
+   */
+  async fetchMergedBookData(
+    providerId: string,
+    lookup: { id: string } | { isbn: string },
+    userValues?: Partial<MinimalBookData>,
+    refetch: boolean = false
+  ): Promise<MergedMetadata> {
+    const provider = metadataProviderRegistry.getProvider(providerId);
+    if (!provider) {
+      throw new Error(`No metadata provider registered as "${providerId}"`);
+    }
     
-    // Extract ISBN-13 if available, otherwise ISBN-10, or generate a placeholder
-    let isbn = '';
-    if (volumeInfo.industryIdentifiers && volumeInfo.industryIdentifiers.length > 0) {
-      const isbn13 = volumeInfo.industryIdentifiers.find(id => id.type === 'ISBN_13');
-      const isbn10 = volumeInfo.industryIdentifiers.find(id => id.type === 'ISBN_10');
-      
-      isbn = isbn13 ? isbn13.identifier : (isbn10 ? isbn10.identifier : `placeholder-${Date.now()}`);
-    } else {
-      isbn = `placeholder-${Date.now()}`;
+    const stored = 'id' in lookup && !refetch ? this.getStoredProviderResult(providerId, lookup.id) : null;
+    const primary = stored
+      || ('id' in lookup
+        ? await provider.lookupById(lookup.id)
+        : await provider.lookupByIsbn(lookup.isbn));
+    
+    if (!primary) {
+      throw new Error(`${provider.name} has no book for ${'id' in lookup ? lookup.id : lookup.isbn}`);
     }
     
-    // Create minimal authors array
-    const authors: Author[] = (volumeInfo.authors || ['Unknown Author']).map(name => ({
-      id: `author-${name.replace(/\s+/g, '-').toLowerCase()}-${Date.now()}`,
-      name
-    }));
+    const isbn = primary.data.isbn;
+    const others = isbn && !isEmptyFieldValue('isbn', isbn)
+      ? await metadataProviderRegistry.lookupByIsbnInAll(isbn, [providerId])
+      : [];
     
-    return {
-      id: googleBook.id,
-      title: volumeInfo.title,
-      authors,
-      publisher: volumeInfo.publisher || 'Unknown Publisher',
-      publishedDate: volumeInfo.publishedDate || new Date().toISOString().split('T')[0],
-      pageCount: volumeInfo.pageCount || 0,
-      language: volumeInfo.language || 'en',
-      description: volumeInfo.description || '',
-      coverImage: volumeInfo.imageLinks?.thumbnail || undefined,
-      isbn
-    };
+    // Save the raw provider responses
+    [primary, ...others].forEach(result => this.saveProviderResult(result));
+    
+    return metadataProviderRegistry.merge([primary, ...others], userValues);
+  }
+  
+  /**
+   * Rebuild a provider result from its stored raw response
+   * @param providerId Provider that returned the record
+   * @param id The record's id in that provider
+   * @returns Provider result, or null if no response is stored
+   */
+  private getStoredProviderResult(providerId: string, id: string): MetadataResult | null {
+    const provider = metadataProviderRegistry.getProvider(providerId);
+    if (!provider?.externalSource) return null;
+    
+    const stored = libraryStore.get<ExternalBookData>('externalData', `${provider.externalSource}:${id}`);
+    const data = stored ? provider.toMinimalData(stored.data) : null;
+    return data ? { providerId, id, data, raw: stored!.data } : null;
+  }
+  
+  /**
+   * Store a provider's raw response as external book data
+   * @param result Provider result
+   */
+  private saveProviderResult(result: MetadataResult): void {
+    const provider = metadataProviderRegistry.getProvider(result.providerId);
+    if (provider?.externalSource) {
+      this.saveExternalBookData(result.id, provider.externalSource, result.raw);
+    }
   }
   
   /**
@@ -144,95 +235,33 @@ export class BookMetadataService {
   createFullBookFromMinimalData(minimalData: MinimalBookData): Book {
     const currentDate = new Date().toISOString();
     
-    // Infer whether the book is fiction based on categories (if available)
-    // This is a heuristic approach and might not be accurate
-    const inferFiction = (categories?: string[]): boolean => {
-      if (!categories || categories.length === 0) return true; // Default to fiction
-      
-      const nonFictionKeywords = [
-        'biography', 'autobiography', 'memoir', 'history', 'science', 'academic',
-        'reference', 'self-help', 'business', 'economics', 'philosophy', 'religion',
-        'politics', 'true crime', 'travel', 'essay'
-      ];
-      
-      for (const category of categories) {
-        const lowerCategory = category.toLowerCase();
-        for (const keyword of nonFictionKeywords) {
-          if (lowerCategory.includes(keyword)) {
-            return false;
-          }
-        }
-      }
-      
-      return true;
-    };
-    
-    // Attempt to determine audience from categories or default to 'adult'
-    const inferAudience = (categories?: string[]): Book['audience'] => {
-      if (!categories || categories.length === 0) return 'adult';
-      
-      const lowerCategories = categories.map(c => c.toLowerCase());
-      
-      if (lowerCategories.some(c => c.includes('children') || c.includes('juvenile'))) {
-        return 'children';
-      }
-      
-      if (lowerCategories.some(c => c.includes('middle grade') || c.includes('middle-grade'))) {
-        return 'middle-grade';
-      }
-      
-      if (lowerCategories.some(c => c.includes('young adult') || c.includes('ya') || c.includes('teen'))) {
-        return 'young-adult';
-      }
-      
-      if (lowerCategories.some(c => c.includes('academic') || c.includes('textbook') || c.includes('scholarly'))) {
-        return 'academic';
-      }
-      
-      return 'adult';
-    };
+    // Genres, fiction and audience come from the catalog's categories
+    const classification = genreTaxonomyService.classify(minimalData.categories);
+    const hasCategories = !!minimalData.categories && minimalData.categories.length > 0;
     
-    return {
+    const book = normalizeBookIdentifiers({
       ...minimalData,
-      format: 'paperback', // Default format
-      genres: [], // Empty array for now
-      subgenres: [],
-      subjects: [],
-      contentTags: [],
-      audience: 'adult', // Default audience
-      fiction: true, // Default to fiction
-      narrativeStructure: {
-        pov: 'third-person-limited', // Common default
-        tense: 'past',
-        timeline: 'linear'
-      },
-      themes: [],
-      locations: [],
-      characters: [],
-      userRating: 0,
-      readingStatus: 'to-read',
-      dateAdded: currentDate,
-      isFavorite: false,
-      isReread: false,
-      readCount: 0,
-      readingSessions: [],
-      annotations: [],
-      userNotes: '',
-      userTags: [],
-      emotionalResponse: {
-        overall: 'neutral',
-        emotions: {},
-        impactRating: 0,
-        memorability: 0
-      },
-      awards: [],
-      culturalContext: {
-        representation: [],
-        diversityElements: []
-      },
-      complexity: {},
-      lastModified: currentDate
-    };
+      ...createDefaultBookFields(currentDate),
+      genres: classification.genres,
+      subgenres: classification.subgenres,
+      fiction: classification.fiction,
+      audience: classification.audience,
+      identifiers: minimalData.identifiers || {}
+    });
+    
+    // Mark what is placeholder and what the catalog said, so neither passes for the other
+    const catalogFields: EnrichableField[] = (['genres', 'subgenres'] as const)
+      .filter(field => classification[field].length > 0);
+    if (hasCategories) catalogFields.push('fiction', 'audience');
+    const defaultFields: EnrichableField[] = hasCategories
+      ? ['narrativeStructure']
+      : ['narrativeStructure', 'fiction', 'audience'];
+    
+    return recordProvenance(
+      recordProvenance(book, defaultFields, createProvenance('default')),
+      catalogFields,
+      createProvenance('catalog')
+    );
   }
   
   /**
@@ -241,40 +270,47 @@ export class BookMetadataService {
    * @returns The saved book
    */
   saveBook(book: Book): Book {
-    // Update last modified date
+    // Keep the identifier set normalized, resolve authors against the registry,
+    // link the edition to its work and update last modified date
     const updatedBook = {
-      ...book,
+      ...workService.assignWork(authorRegistryService.resolveBookAuthors(normalizeBookIdentifiers(book))),
       lastModified: new Date().toISOString()
     };
     
-    // Get current books
-    const books = this.getAllBooks();
-    
-    // Find and update existing book or add new one
-    const existingIndex = books.findIndex(b => b.id === book.id);
-    
-    if (existingIndex >= 0) {
-      books[existingIndex] = updatedBook;
-    } else {
-      books.push(updatedBook);
-      // Initialize metadata completion status for new book
-      this.initializeMetadataStatus(book.id);
-    }
-    
-    // Save updated books
-    localStorage.setItem(this.bookStorageKey, JSON.stringify(books));
+    // Persist only this book's record
+    libraryStore.put('books', book.id, updatedBook);
     
     return updatedBook;
   }
   
+  /**
+   * Find the library book sharing any identifier with the given set
+   * @param identifiers Identifiers to match (ISBN-13, ISBN-10, Google Books ID, Open Library ID)
+   * @returns The matching book or null if none
+   */
+  findBookByIdentifiers(identifiers: BookIdentifiers): Book | null {
+    const normalized = buildBookIdentifiers({ identifiers });
+    if (Object.keys(normalized).length === 0) return null;
+    
+    return this.getAllBooks().find(book => identifiersMatch(normalized, book.identifiers)) || null;
+  }
+  
+  /**
+   * Find the library book with an ISBN, in either ISBN-10 or ISBN-13 form
+   * @param isbn ISBN in any formatting
+   * @returns The matching book or null if none or the ISBN is invalid
+   */
+  findBookByIsbn(isbn: string): Book | null {
+    return this.findBookByIdentifiers({ isbn13: isbn });
+  }
+  
   /**
    * Get all books from storage
    * @returns Array of books
    */
   getAllBooks(): Book[] {
     try {
-      const books = localStorage.getItem(this.bookStorageKey);
-      return books ? JSON.parse(books) : [];
+      return libraryStore.getAll<Book>('books');
     } catch (error) {
       console.error('Error retrieving books from storage:', error);
       return [];
@@ -287,8 +323,7 @@ export class BookMetadataService {
    * @returns The book or null if not found
    */
   getBookById(id: string): Book | null {
-    const books = this.getAllBooks();
-    return books.find(book => book.id === id) || null;
+    return libraryStore.get<Book>('books', id) || null;
   }
   
   /**
@@ -297,16 +332,16 @@ export class BookMetadataService {
    * @returns True if deleted, false if not found
    */
   deleteBook(id: string): boolean {
-    const books = this.getAllBooks();
-    const initialLength = books.length;
-    
-    const filteredBooks = books.filter(book => book.id !== id);
+    const book = this.getBookById(id);
     
-    if (filteredBooks.length !== initialLength) {
-      localStorage.setItem(this.bookStorageKey, JSON.stringify(filteredBooks));
+    if (book) {
+      libraryStore.delete('books', id);
       
-      // Also remove metadata status
-      this.deleteMetadataStatus(id);
+      // Also remove the stored cover, any suggestions under review,
+      // and the work if this was its last edition
+      coverService.removeCover(id);
+      libraryStore.delete('enrichmentSuggestions', id);
+      workService.removeEmptyWork(book.workId);
       
       return true;
     }
@@ -314,78 +349,6 @@ export class BookMetadataService {
     return false;
   }
   
-  /**
-   * Initialize metadata completion status for a new book
-   * @param bookId ID of the book
-   */
-  private initializeMetadataStatus(bookId: string): void {
-    const status: BookMetadataCompletionStatus = {
-      bookId,
-      basicInfoComplete: true, // Basic info is complete on creation
-      publicationDetailsComplete: false,
-      contentClassificationComplete: false,
-      narrativeElementsComplete: false,
-      contentAnalysisComplete: false,
-      readingExperienceComplete: false,
-      culturalContextComplete: false,
-      complexityAnalysisComplete: false
-    };
-    
-    const allStatuses = this.getAllMetadataStatuses();
-    allStatuses.push(status);
-    
-    localStorage.setItem(this.metadataStatusKey, JSON.stringify(allStatuses));
-  }
-  
-  /**
-   * Get metadata completion status for a specific book
-   * @param bookId ID of the book
-   * @returns Metadata completion status or null if not found
-   */
-  getMetadataStatus(bookId: string): BookMetadataCompletionStatus | null {
-    const allStatuses = this.getAllMetadataStatuses();
-    return allStatuses.find(status => status.bookId === bookId) || null;
-  }
-  
-  /**
-   * Get all metadata completion statuses
-   * @returns Array of all metadata completion statuses
-   */
-  private getAllMetadataStatuses(): BookMetadataCompletionStatus[] {
-    try {
-      const statuses = localStorage.getItem(this.metadataStatusKey);
-      return statuses ? JSON.parse(statuses) : [];
-    } catch (error) {
-      console.error('Error retrieving metadata statuses from storage:', error);
-      return [];
-    }
-  }
-  
-  /**
-   * Update metadata completion status for a book
-   * @param status Updated metadata completion status
-   */
-  updateMetadataStatus(status: BookMetadataCompletionStatus): void {
-    const allStatuses = this.getAllMetadataStatuses();
-    const existingIndex = allStatuses.findIndex(s => s.bookId === status.bookId);
-    
-    if (existingIndex >= 0) {
-      allStatuses[existingIndex] = status;
-      localStorage.setItem(this.metadataStatusKey, JSON.stringify(allStatuses));
-    }
-  }
-  
-  /**
-   * Delete metadata completion status for a book
-   * @param bookId ID of the book
-   */
-  private deleteMetadataStatus(bookId: string): void {
-    const allStatuses = this.getAllMetadataStatuses();
-    const filteredStatuses = allStatuses.filter(status => status.bookId !== bookId);
-    
-    localStorage.setItem(this.metadataStatusKey, JSON.stringify(filteredStatuses));
-  }
-  
   /**
    * Save external book data from an API
    * @param bookId ID of the book
@@ -399,17 +362,8 @@ export class BookMetadataService {
       retrievedAt: new Date().toISOString()
     };
     
-    const allExternalData = this.getAllExternalData();
-    
-    // Remove any existing data for this book/source combination
-    const filteredData = allExternalData.filter(
-      item => !(item.data.id === bookId && item.source === source)
-    );
-    
-    // Add the new data
-    filteredData.push(externalData);
-    
-    localStorage.setItem(this.externalDataKey, JSON.stringify(filteredData));
+    // Replaces any existing data for this book/source combination
+    libraryStore.put('externalData', `${source}:${bookId}`, externalData);
   }
   
   /**
@@ -418,8 +372,7 @@ export class BookMetadataService {
    */
   private getAllExternalData(): ExternalBookData[] {
     try {
-      const data = localStorage.getItem(this.externalDataKey);
-      return data ? JSON.parse(data) : [];
+      return libraryStore.getAll<ExternalBookData>('externalData');
     } catch (error) {
       console.error('Error retrieving external data from storage:', error);
       return [];
@@ -446,25 +399,23 @@ export class BookMetadataService {
     });
   }
   
+  /**
+   * Judge how complete a book's metadata is
+   * @param bookId ID of the book
+   * @returns Per-field completeness report or null if the book doesn't exist
+   */
+  getMetadataCompleteness(bookId: string): MetadataCompletenessReport | null {
+    const book = this.getBookById(bookId);
+    return book ? metadataCompletenessService.evaluate(book) : null;
+  }
+  
   /**
    * Calculate the overall completion percentage of a book's metadata
    * @param bookId ID of the book
-   * @returns Percentage of metadata fields completed (0-100)
+   * @returns Weighted percentage of metadata fields filled (0-100)
    */
   calculateMetadataCompletionPercentage(bookId: string): number {
-    const status = this.getMetadataStatus(bookId);
-    
-    if (!status) return 0;
-    
-    // Count completed sections
-    const completedSections = Object.entries(status)
-      .filter(([key, value]) => key !== 'bookId' && value === true)
-      .length;
-    
-    // Total number of sections (excluding the bookId field)
-    const totalSections = Object.keys(status).length - 1;
-    
-    return Math.round((completedSections / totalSections) * 100);
+    return this.getMetadataCompleteness(bookId)?.percentage ?? 0;
   }
   
   /**
@@ -474,21 +425,32 @@ export class BookMetadataService {
    */
   async addBookFromGoogleBooks(googleBookId: string): Promise<Book> {
     try {
-      const response = await fetch(
-        `https://www.googleapis.com/books/v1/volumes/${googleBookId}`
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Google Books API returned ${response.status}: ${response.statusText}`);
-      }
+      // Fetch from Google Books and merge in the other providers' data
+      const { data: minimalData } = await this.fetchMergedBookData('google_books', { id: googleBookId });
       
-      const googleBook: GoogleBooksVolume = await response.json();
-      
-      // Save the raw Google Books data
-      this.saveExternalBookData(googleBookId, 'google_books', googleBook);
+      // Create a full book with default values
+      const fullBook = this.createFullBookFromMinimalData(minimalData);
       
-      // Convert to our minimal book format
-      const minimalData = this.convertGoogleBookToMinimalData(googleBook);
+      // Save the book
+      return this.saveBook(fullBook);
+    } catch (error) {
+      console.error('Error adding book from Google Books:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Add a book from Open Library
+   * @param isbnOrEditionId ISBN, or Open Library edition id (e.g. "OL7353617M")
+   * @returns Promise with the saved book
+   */
+  async addBookFromOpenLibrary(isbnOrEditionId: string): Promise<Book> {
+    try {
+      // Fetch from Open Library and merge in the other providers' data
+      const { data: minimalData } = await this.fetchMergedBookData(
+        'open_library',
+        /^OL\d+M$/i.test(isbnOrEditionId) ? { id: isbnOrEditionId } : { isbn: isbnOrEditionId }
+      );
       
       // Create a full book with default values
       const fullBook = this.createFullBookFromMinimalData(minimalData);
@@ -496,11 +458,240 @@ export class BookMetadataService {
       // Save the book
       return this.saveBook(fullBook);
     } catch (error) {
-      console.error('Error adding book from Google Books:', error);
+      console.error('Error adding book from Open Library:', error);
       throw error;
     }
   }
   
+  /**
+   * Check hand-entered book details before they are saved
+   * @param input Details from the book form
+   * @returns Problems to fix; empty if the details can be saved
+   */
+  validateManualBook(input: ManualBookInput): string[] {
+    const errors: string[] = [];
+    
+    if (!input.title.trim()) {
+      errors.push('Title is required');
+    }
+    if (input.isbn.trim() && !isValidIsbn(input.isbn)) {
+      errors.push(`"${input.isbn}" is not a valid ISBN`);
+    }
+    if (input.publishedDate.trim() && !/^\d{4}/.test(input.publishedDate.trim())) {
+      errors.push('Published date must start with a year, e.g. 1999 or 1999-04-21');
+    }
+    if (!Number.isInteger(input.pageCount) || input.pageCount < 0) {
+      errors.push('Page count must be a whole number');
+    }
+    if (input.series && (!input.series.name.trim() || !(input.series.position > 0))) {
+      errors.push('A series needs a name and a position above zero');
+    }
+    
+    return errors;
+  }
+  
+  /**
+   * Add a book no catalog has, from hand-entered details. The book gets the
+   * same defaults, author registry entries and work as catalog books.
+   * @param input Details from the book form
+   * @returns The saved book
+   */
+  addManualBook(input: ManualBookInput): Book {
+    const errors = this.validateManualBook(input);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+    
+    const id = `manual-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    const fullBook = this.createFullBookFromMinimalData(this.manualInputToMinimalData(id, input, []));
+    
+    // Keep the entered details as the book's source record, like a catalog response;
+    // backups key source records by their id
+    this.saveExternalBookData(id, 'manual', { id, ...input });
+    
+    return this.saveBook(this.applyManualDetails(fullBook, input));
+  }
+  
+  /**
+   * Replace a book's catalog fields with edited details. Works for any book;
+   * edits to catalog books are kept when the book is refreshed.
+   * @param bookId ID of the book to edit
+   * @param input Details from the book form
+   * @returns The saved book, or null if the book doesn't exist
+   */
+  updateManualBookDetails(bookId: string, input: ManualBookInput): Book | null {
+    const book = this.getBookById(bookId);
+    if (!book) return null;
+    
+    const errors = this.validateManualBook(input);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+    
+    if (libraryStore.has('externalData', `manual:${bookId}`)) {
+      this.saveExternalBookData(bookId, 'manual', { id: bookId, ...input });
+    }
+    
+    const minimalData = this.manualInputToMinimalData(bookId, input, book.authors);
+    return this.saveBook(this.applyManualDetails({
+      ...book,
+      ...minimalData,
+      // Identifiers from catalogs stay; the ISBNs follow what was entered
+      identifiers: { ...book.identifiers, isbn13: undefined, isbn10: undefined, ...minimalData.identifiers }
+    }, input));
+  }
+  
+  /**
+   * Fill the book form from an existing book
+   * @param book Book to edit
+   * @returns The book's editable details
+   */
+  getManualBookInput(book: Book): ManualBookInput {
+    return {
+      title: book.title,
+      subtitle: book.subtitle,
+      authors: book.authors.map(author => author.name),
+      publisher: book.publisher,
+      publishedDate: book.publishedDate,
+      pageCount: book.pageCount,
+      language: book.language,
+      description: book.description,
+      isbn: book.isbn,
+      coverImage: book.coverImage,
+      genres: book.genres,
+      format: book.format,
+      series: book.series,
+      edition: book.edition,
+      translator: book.translator
+    };
+  }
+  
+  /**
+   * Convert hand-entered details to minimal book data
+   * @param id Book id
+   * @param input Details from the book form
+   * @param currentAuthors The book's current authors, reused when their names are unchanged
+   * @returns Minimal book data
+   */
+  private manualInputToMinimalData(id: string, input: ManualBookInput, currentAuthors: Author[]): MinimalBookData {
+    const names = input.authors.map(name => name.trim()).filter(Boolean);
+    const identifiers = buildBookIdentifiers({ isbn: input.isbn });
+    
+    return {
+      id,
+      title: input.title.trim(),
+      authors: (names.length > 0 ? names : ['Unknown Author']).map(name =>
+        currentAuthors.find(author => author.name === name) || createAuthorFromName(name)
+      ),
+      publisher: input.publisher.trim() || 'Unknown Publisher',
+      publishedDate: input.publishedDate.trim(),
+      pageCount: input.pageCount,
+      language: input.language.trim() || 'en',
+      description: input.description.trim(),
+      coverImage: input.coverImage || undefined,
+      isbn: identifiers.isbn13 || '',
+      identifiers,
+      series: input.series ? { name: input.series.name.trim(), position: input.series.position } : undefined
+    };
+  }
+  
+  /**
+   * Apply the hand-entered fields that minimal book data doesn't carry
+   * @param book Book to update
+   * @param input Details from the book form
+   * @returns Updated book
+   */
+  private applyManualDetails(book: Book, input: ManualBookInput): Book {
+    const updated: Book = {
+      ...book,
+      subtitle: input.subtitle?.trim() || undefined,
+      genres: input.genres.map(genre => genre.trim()).filter(Boolean),
+      format: input.format,
+      edition: input.edition?.trim() || undefined,
+      translator: input.translator?.trim() || undefined
+    };
+    
+    // Enrichable fields the user changed are theirs from now on
+    return recordProvenance(updated, changedEnrichableFields(book, updated), createProvenance('user'));
+  }
+  
+  /**
+   * Re-fetch a book's catalog fields from every provider and merge them in.
+   * Values that differ from what the providers supplied when the book was
+   * last fetched are treated as user edits and kept.
+   * @param bookId ID of the book to refresh
+   * @returns Promise with the updated book, or null if the book or its catalog record is unknown
+   */
+  async refreshBookMetadata(bookId: string): Promise<Book | null> {
+    const book = this.getBookById(bookId);
+    if (!book) return null;
+    
+    // Use the first provider holding a record for the book
+    const provider = metadataProviderRegistry.getProviders()
+      .find(p => p.identifierKey && book.identifiers[p.identifierKey]);
+    if (!provider || !provider.identifierKey) return null;
+    
+    // Detect edits before the stored responses are replaced by fresh ones
+    const userValues = this.detectUserEdits(book);
+    const { data } = await this.fetchMergedBookData(
+      provider.id,
+      { id: book.identifiers[provider.identifierKey]! },
+      userValues,
+      true
+    );
+    
+    // New categories reclassify the book unless its genres were changed since
+    return this.saveBook({
+      ...genreTaxonomyService.applyCategories(book, data.categories || []),
+      ...data,
+      id: book.id,
+      identifiers: { ...book.identifiers, ...data.identifiers },
+      lastModified: new Date().toISOString()
+    });
+  }
+  
+  /**
+   * Compare a book's catalog fields with the merge of its stored provider responses
+   * @param book Book to inspect
+   * @returns Fields whose value the user changed
+   */
+  private detectUserEdits(book: Book): Partial<MinimalBookData> {
+    const stored: MetadataResult[] = [];
+    
+    metadataProviderRegistry.getProviders().forEach(provider => {
+      if (!provider.externalSource) return;
+      
+      this.getAllExternalData()
+        .filter(item => item.source === provider.externalSource)
+        .forEach(item => {
+          const data = provider.toMinimalData(item.data);
+          if (data && identifiersMatch(data.identifiers || {}, book.identifiers)) {
+            stored.push({ providerId: provider.id, id: data.id, data, raw: item.data });
+          }
+        });
+    });
+    
+    if (stored.length === 0) return {};
+    
+    const previous = metadataProviderRegistry.merge(stored).data;
+    const edits: Partial<MinimalBookData> = {};
+    
+    MERGEABLE_FIELDS.forEach(field => {
+      const current = field === 'authors'
+        ? book.authors.map(author => author.name).join('|')
+        : field === 'series' || field === 'categories' ? JSON.stringify(book[field]) : book[field];
+      const supplied = field === 'authors'
+        ? previous.authors.map(author => author.name).join('|')
+        : field === 'series' || field === 'categories' ? JSON.stringify(previous[field]) : previous[field];
+      
+      if (current !== supplied && !isEmptyFieldValue(field, book[field])) {
+        Object.assign(edits, { [field]: book[field] });
+      }
+    });
+    
+    return edits;
+  }
+  
   /**
    * Update a specific section of a book's metadata
    * @param bookId ID of the book to update
@@ -527,79 +718,7 @@ export class BookMetadataService {
     };
     
     // Save the updated book
-    this.saveBook(updatedBook);
-    
-    // Update metadata completion status based on the section updated
-    this.updateMetadataCompletionForSection(bookId, section);
-    
-    return updatedBook;
-  }
-  
-  /**
-   * Update metadata completion status based on updated section
-   * @param bookId ID of the book
-   * @param section The section that was updated
-   */
-  private updateMetadataCompletionForSection(bookId: string, section: keyof Book): void {
-    const status = this.getMetadataStatus(bookId);
-    
-    if (!status) {
-      return;
-    }
-    
-    // Map section names to metadata status fields
-    const sectionToStatusField: Partial<Record<keyof Book, keyof BookMetadataCompletionStatus>> = {
-      authors: 'basicInfoComplete',
-      title: 'basicInfoComplete',
-      subtitle: 'basicInfoComplete',
-      
-      publisher: 'publicationDetailsComplete',
-      publishedDate: 'publicationDetailsComplete',
-      edition: 'publicationDetailsComplete',
-      language: 'publicationDetailsComplete',
-      translator: 'publicationDetailsComplete',
-      pageCount: 'publicationDetailsComplete',
-      format: 'publicationDetailsComplete',
-      series: 'publicationDetailsComplete',
-      
-      genres: 'contentClassificationComplete',
-      subgenres: 'contentClassificationComplete',
-      subjects: 'contentClassificationComplete',
-      contentTags: 'contentClassificationComplete',
-      audience: 'contentClassificationComplete',
-      fiction: 'contentClassificationComplete',
-      
-      narrativeStructure: 'narrativeElementsComplete',
-      
-      themes: 'contentAnalysisComplete',
-      locations: 'contentAnalysisComplete',
-      historicalPeriod: 'contentAnalysisComplete',
-      characters: 'contentAnalysisComplete',
-      
-      readingSessions: 'readingExperienceComplete',
-      annotations: 'readingExperienceComplete',
-      userNotes: 'readingExperienceComplete',
-      userTags: 'readingExperienceComplete',
-      emotionalResponse: 'readingExperienceComplete',
-      
-      awards: 'culturalContextComplete',
-      culturalContext: 'culturalContextComplete',
-      
-      complexity: 'complexityAnalysisComplete'
-    };
-    
-    // Get the corresponding status field
-    const statusField = sectionToStatusField[section];
-    
-    if (statusField) {
-      // Update the status
-      const updatedStatus = {
-        ...status,
-        [statusField]: true
-      };
-      
-      this.updateMetadataStatus(updatedStatus);
-    }
+    return this.saveBook(updatedBook);
   }
   
   /**
@@ -610,56 +729,22 @@ export class BookMetadataService {
   getBooksNeedingMetadataCompletion(minCompletionPercentage: number = 80): Book[] {
     const books = this.getAllBooks();
     
-    return books.filter(book => {
-      const completionPercentage = this.calculateMetadataCompletionPercentage(book.id);
-      return completionPercentage < minCompletionPercentage;
-    });
+    return books.filter(book => metadataCompletenessService.needsCompletion(book, minCompletionPercentage));
   }
   
   /**
-   * Get suggestions for the next metadata sections to complete for a book
+   * Get suggestions for the next metadata fields to complete for a book
    * @param bookId ID of the book
-   * @returns Array of section names that need completion
+   * @returns Missing fields with why they count as missing, most important first
    */
   getMetadataCompletionSuggestions(bookId: string): string[] {
-    const status = this.getMetadataStatus(bookId);
+    const report = this.getMetadataCompleteness(bookId);
     
-    if (!status) {
+    if (!report) {
       return [];
     }
     
-    // Map status fields to user-friendly section names
-    const incompleteFields: string[] = [];
-    
-    if (!status.publicationDetailsComplete) {
-      incompleteFields.push('Publication Details');
-    }
-    
-    if (!status.contentClassificationComplete) {
-      incompleteFields.push('Content Classification');
-    }
-    
-    if (!status.narrativeElementsComplete) {
-      incompleteFields.push('Narrative Elements');
-    }
-    
-    if (!status.contentAnalysisComplete) {
-      incompleteFields.push('Content Analysis');
-    }
-    
-    if (!status.readingExperienceComplete) {
-      incompleteFields.push('Reading Experience');
-    }
-    
-    if (!status.culturalContextComplete) {
-      incompleteFields.push('Cultural Context');
-    }
-    
-    if (!status.complexityAnalysisComplete) {
-      incompleteFields.push('Complexity Analysis');
-    }
-    
-    return incompleteFields;
+    return report.missing.map(field => `${field.label}: ${field.reason}`);
   }
   
   /**
@@ -688,11 +773,7 @@ export class BookMetadataService {
   saveBookEnrichment(googleBooksId: string, enrichmentData: BookAIEnrichment): void {
     try {
       // Save to enriched books storage
-      const enrichedBooksStr = localStorage.getItem('enriched_books_metadata') || '{}';
-      const enrichedBooks = JSON.parse(enrichedBooksStr);
-      
-      enrichedBooks[googleBooksId] = enrichmentData;
-      localStorage.setItem('enriched_books_metadata', JSON.stringify(enrichedBooks));
+      libraryStore.put('enrichmentMetadata', googleBooksId, enrichmentData);
       
       // Update the book in our library if it exists
       const book = this.getBookById(googleBooksId);
@@ -707,8 +788,8 @@ export class BookMetadataService {
 
   async getBookByGoogleId(googleBooksId: string): Promise<Book | undefined> {
     try {
-      const books = await this.getAllBooks();
-      return books.find(book => book.googleBooksId === googleBooksId);
+      const [book] = await libraryStore.findByIndex<Book>('books', 'googleBooksId', googleBooksId);
+      return book;
     } catch (error) {
       console.error('Error getting book by Google Books ID:', error);
       return undefined;
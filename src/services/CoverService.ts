@@ -0,0 +1,292 @@
+import { Book, ExternalBookData, GoogleBooksVolume } from '../models/BookTypes';
+import { libraryStore } from './storage/LibraryStore';
+import { googleBooksProvider } from './metadata/GoogleBooksProvider';
+import { networkStatusService } from './NetworkStatusService';
+import { blobToDataUrl, dataUrlToBlob, resizeCoverImage } from '../utils/images';
+
+/**
+ * A cover image kept in the covers collection
+ */
+export interface StoredCover {
+  bookId: string;
+  blob?: Blob;
+  dataUrl?: string;             // Instead of the blob on backends that can't hold binary data
+  source: 'catalog' | 'upload';
+  sourceUrl?: string;           // Where a catalog cover was downloaded from
+  storedAt: string;
+}
+
+/**
+ * An uploaded cover as written to a backup file
+ */
+export interface CoverBackup {
+  bookId: string;
+  dataUrl: string;
+  storedAt: string;
+}
+
+/**
+ * Called with the id of a book whose cover was stored, replaced or removed
+ */
+export type CoverListener = (bookId: string) => void;
+
+/**
+ * CoverService
+ *
+ * Keeps book covers on the device so they survive offline and don't depend
+ * on catalog hot links:
+ * 1. Find the largest cover the catalogs offer for a book
+ * 2. Download it once and store the image in the covers collection
+ * 3. Serve stored covers through object URLs
+ * Uploaded covers are stored the same way and always win over catalog ones.
+ * The localStorage fallback can't hold Blobs, so uploads are kept there as
+ * data URLs and catalog covers are not stored at all.
+ */
+export class CoverService {
+  private objectUrls = new Map<string, { blob: Blob; url: string }>();
+  private pending = new Map<string, Promise<void>>();
+  private failedUrls = new Set<string>();
+  private listeners = new Set<CoverListener>();
+
+  /**
+   * Get the URL to display a book's cover from
+   * @param book Book to show
+   * @returns Local object URL when the cover is stored, otherwise the largest
+   *          catalog image; undefined if the book has no cover at all
+   */
+  getCoverUrl(book: Book): string | undefined {
+    const stored = this.getStoredCover(book);
+    return stored ? this.toObjectUrl(stored) : this.getBestRemoteUrl(book);
+  }
+
+  /**
+   * Check whether a book's cover was uploaded by the user
+   * @param bookId ID of the book
+   * @returns True if the book has a custom cover
+   */
+  hasCustomCover(bookId: string): boolean {
+    return this.readCover(bookId)?.source === 'upload';
+  }
+
+  /**
+   * Find the largest cover image the catalogs offer for a book
+   * @param book Book to look up
+   * @returns Image URL, or undefined if no catalog has a cover
+   */
+  getBestRemoteUrl(book: Book): string | undefined {
+    const coverImage = book.coverImage;
+
+    // Any image other than a Google one was picked deliberately; Open Library
+    // serves every cover in three sizes
+    if (coverImage && !/books\.google|googleusercontent/.test(coverImage)) {
+      return coverImage.replace(/(covers\.openlibrary\.org\/.+)-[SM]\.jpg/, '$1-L.jpg');
+    }
+
+    // Older records hold a Google thumbnail; the stored volume has the larger sizes
+    const googleId = book.identifiers.googleBooksId || book.googleBooksId;
+    const volume = googleId
+      ? libraryStore.get<ExternalBookData>('externalData', `google_books:${googleId}`)?.data as GoogleBooksVolume | undefined
+      : undefined;
+    return (volume?.volumeInfo ? googleBooksProvider.getCoverUrl(volume) : undefined) || coverImage;
+  }
+
+  /**
+   * Download and store a book's catalog cover, unless it is stored already.
+   * Covers that can't be downloaded (offline, or blocked by the image host)
+   * keep being shown from the catalog.
+   * @param book Book whose cover to store
+   * @returns Promise that resolves once the cover is stored or skipped
+   */
+  cacheCover(book: Book): Promise<void> {
+    const url = this.getBestRemoteUrl(book);
+    if (!url || url.startsWith('data:') || this.failedUrls.has(url) || this.getStoredCover(book)
+      || networkStatusService.isBrowserOffline() || !libraryStore.supportsBinary()) {
+      return Promise.resolve();
+    }
+
+    const pending = this.pending.get(book.id);
+    if (pending) return pending;
+
+    const request = this.download(book.id, url).finally(() => {
+      this.pending.delete(book.id);
+    });
+    this.pending.set(book.id, request);
+    return request;
+  }
+
+  /**
+   * Store an uploaded cover, replacing any other
+   * @param bookId ID of the book
+   * @param image Image file chosen by the user
+   * @returns Promise that resolves once the cover is stored
+   */
+  async setCustomCover(bookId: string, image: Blob): Promise<void> {
+    try {
+      await this.storeUpload(bookId, await resizeCoverImage(image), new Date().toISOString());
+    } catch (error) {
+      console.error('Error storing cover image:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Collect the uploaded covers for a backup. Catalog covers are left out;
+   * they are downloaded again after a restore.
+   * @returns Promise with every uploaded cover as a data URL
+   */
+  async exportCustomCovers(): Promise<CoverBackup[]> {
+    await libraryStore.ready();
+
+    const uploads = libraryStore.getAll<StoredCover>('covers')
+      .filter(cover => cover.source === 'upload' && this.readCover(cover.bookId));
+    return Promise.all(uploads.map(async cover => ({
+      bookId: cover.bookId,
+      dataUrl: cover.dataUrl || await blobToDataUrl(cover.blob!),
+      storedAt: cover.storedAt
+    })));
+  }
+
+  /**
+   * Store an uploaded cover read from a backup, replacing any other
+   * @param cover Cover from the backup, with the library id of its book
+   * @returns Promise that resolves once the cover is stored
+   */
+  async restoreCustomCover(cover: CoverBackup): Promise<void> {
+    try {
+      await this.storeUpload(cover.bookId, await dataUrlToBlob(cover.dataUrl), cover.storedAt);
+    } catch (error) {
+      console.error('Error restoring cover image:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a book's stored cover
+   * @param bookId ID of the book
+   */
+  removeCover(bookId: string): void {
+    if (libraryStore.delete('covers', bookId)) {
+      this.releaseObjectUrl(bookId);
+      this.notify(bookId);
+    }
+  }
+
+  /**
+   * Listen for covers being stored, replaced or removed
+   * @param listener Called with the book's id
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: CoverListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get the stored cover that is current for a book: an upload, or the
+   * catalog cover downloaded from the book's current image URL
+   * @param book Book to look up
+   * @returns Stored cover, or undefined if none is current
+   */
+  private getStoredCover(book: Book): StoredCover | undefined {
+    const stored = this.readCover(book.id);
+    if (!stored) return undefined;
+    return stored.source === 'upload' || stored.sourceUrl === this.getBestRemoteUrl(book) ? stored : undefined;
+  }
+
+  /**
+   * Read a cover record, ignoring records whose image didn't survive storage
+   * (Blobs written before the data URL fallback came back from localStorage empty)
+   * @param bookId ID of the book
+   * @returns Stored cover or undefined
+   */
+  private readCover(bookId: string): StoredCover | undefined {
+    const stored = libraryStore.get<StoredCover>('covers', bookId);
+    return stored && (stored.blob instanceof Blob || typeof stored.dataUrl === 'string') ? stored : undefined;
+  }
+
+  /**
+   * Store an uploaded image as a book's cover, as a data URL if the backend
+   * can't hold binary data
+   * @param bookId ID of the book
+   * @param image Image to store
+   * @param storedAt When the cover was first stored
+   */
+  private async storeUpload(bookId: string, image: Blob, storedAt: string): Promise<void> {
+    await libraryStore.ready();
+
+    const cover: StoredCover = libraryStore.supportsBinary()
+      ? { bookId, blob: image, source: 'upload', storedAt }
+      : { bookId, dataUrl: await blobToDataUrl(image), source: 'upload', storedAt };
+    libraryStore.put('covers', bookId, cover);
+    this.notify(bookId);
+  }
+
+  /**
+   * Download a catalog cover and store it
+   * @param bookId ID of the book
+   * @param url Image URL
+   */
+  private async download(bookId: string, url: string): Promise<void> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Cover download returned ${response.status}: ${response.statusText}`);
+      }
+
+      const blob = await response.blob();
+      if (!blob.type.startsWith('image/')) {
+        throw new Error(`Cover download returned ${blob.type || 'an unknown type'} instead of an image`);
+      }
+
+      const cover: StoredCover = { bookId, blob, source: 'catalog', sourceUrl: url, storedAt: new Date().toISOString() };
+      libraryStore.put('covers', bookId, cover);
+      this.notify(bookId);
+    } catch (error) {
+      // Don't retry this session; the catalog URL is still shown directly
+      this.failedUrls.add(url);
+      console.error(`Error caching cover ${url}:`, error);
+    }
+  }
+
+  /**
+   * Get an object URL for a stored cover, reusing it while the image is unchanged
+   * @param cover Stored cover
+   * @returns Object URL, or the data URL of a cover stored as one
+   */
+  private toObjectUrl(cover: StoredCover): string {
+    if (!cover.blob) return cover.dataUrl!;
+
+    const existing = this.objectUrls.get(cover.bookId);
+    if (existing?.blob === cover.blob) return existing.url;
+
+    this.releaseObjectUrl(cover.bookId);
+    const url = URL.createObjectURL(cover.blob);
+    this.objectUrls.set(cover.bookId, { blob: cover.blob, url });
+    return url;
+  }
+
+  /**
+   * Free the object URL of a book's cover
+   * @param bookId ID of the book
+   */
+  private releaseObjectUrl(bookId: string): void {
+    const existing = this.objectUrls.get(bookId);
+    if (existing) {
+      URL.revokeObjectURL(existing.url);
+      this.objectUrls.delete(bookId);
+    }
+  }
+
+  /**
+   * Tell listeners a book's cover changed
+   * @param bookId ID of the book
+   */
+  private notify(bookId: string): void {
+    this.listeners.forEach(listener => listener(bookId));
+  }
+}
+
+// Create and export a singleton instance
+export const coverService = new CoverService();
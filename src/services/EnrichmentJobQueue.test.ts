@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Book, EnrichmentJob } from '../models/BookTypes';
+import { EnrichmentJobEventType, EnrichmentJobQueue } from './EnrichmentJobQueue';
+
+// Jobs kept in memory instead of IndexedDB
+const jobs = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('./storage/LibraryStore', () => ({
+  libraryStore: {
+    getAll: () => Array.from(jobs.values()),
+    get: (_collection: string, key: string) => jobs.get(key),
+    put: (_collection: string, key: string, value: unknown) => {
+      jobs.set(key, value);
+    },
+    delete: (_collection: string, key: string) => jobs.delete(key)
+  }
+}));
+
+const book = (id: string) => ({ id, title: `Book ${id}`, isbn: '9780441013593' }) as Book;
+
+/**
+ * Create a queue that records the type of every event
+ */
+const createQueue = () => {
+  const queue = new EnrichmentJobQueue({ concurrency: 1, baseDelayMs: 1000, maxDelayMs: 1500 });
+  const events: EnrichmentJobEventType[] = [];
+  queue.subscribe(event => events.push(event.type));
+  return { queue, events };
+};
+
+describe('EnrichmentJobQueue', () => {
+  beforeEach(() => {
+    jobs.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs a queued job and marks it succeeded', async () => {
+    const { queue, events } = createQueue();
+    queue.setHandler(async () => {});
+
+    const job = queue.enqueue(book('a'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'succeeded', attempts: 1 });
+    expect(events).toEqual(['queued', 'started', 'succeeded']);
+  });
+
+  it('keeps one active job per book', () => {
+    const { queue } = createQueue();
+
+    const job = queue.enqueue(book('a'));
+
+    expect(queue.enqueue(book('a')).id).toBe(job.id);
+    expect(queue.getJobs()).toHaveLength(1);
+  });
+
+  it('retries failed attempts with backoff until the job runs out of attempts', async () => {
+    const { queue, events } = createQueue();
+    const handler = vi.fn(async () => {
+      throw new Error('Rate limited');
+    });
+    queue.setHandler(handler);
+
+    const job = queue.enqueue(book('a'), 3);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(queue.getJob(job.id)).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'Rate limited',
+      nextAttemptAt: '2026-01-01T00:00:01.000Z'
+    });
+
+    // Not due before its backoff has passed
+    await vi.advanceTimersByTimeAsync(999);
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+    // The second delay is capped at maxDelayMs
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'pending', attempts: 2, nextAttemptAt: '2026-01-01T00:00:02.500Z' });
+
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'failed', attempts: 3, lastError: 'Rate limited' });
+    expect(events).toEqual(['queued', 'started', 'retrying', 'started', 'retrying', 'started', 'failed']);
+  });
+
+  it('cancels a running job and discards its outcome', async () => {
+    const { queue, events } = createQueue();
+    let signal: AbortSignal | undefined;
+    queue.setHandler((_job: EnrichmentJob, jobSignal: AbortSignal) => {
+      signal = jobSignal;
+      return new Promise<void>(resolve => setTimeout(resolve, 5000));
+    });
+
+    const job = queue.enqueue(book('a'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getJob(job.id)?.status).toBe('running');
+
+    expect(queue.cancel(job.id, 'No longer needed')).toBe(true);
+    expect(signal?.aborted).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'cancelled', lastError: 'No longer needed' });
+    expect(events).toEqual(['queued', 'started', 'cancelled']);
+    expect(queue.cancel(job.id)).toBe(false);
+  });
+
+  it('runs no more jobs at once than its concurrency allows', async () => {
+    const { queue } = createQueue();
+    queue.setHandler(() => new Promise<void>(resolve => setTimeout(resolve, 1000)));
+
+    const first = queue.enqueue(book('a'));
+    const second = queue.enqueue(book('b'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(queue.getJob(first.id)?.status).toBe('running');
+    expect(queue.getJob(second.id)?.status).toBe('pending');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(queue.getJob(first.id)?.status).toBe('succeeded');
+    expect(queue.getJob(second.id)?.status).toBe('running');
+  });
+
+  it('puts failed jobs back in the queue with fresh attempts', async () => {
+    const { queue } = createQueue();
+    queue.setHandler(async () => {
+      throw new Error('Offline');
+    });
+
+    const job = queue.enqueue(book('a'), 1);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getJob(job.id)?.status).toBe('failed');
+
+    queue.setHandler(async () => {});
+    expect(queue.retry(job.id)).toMatchObject({ status: 'pending', attempts: 0, lastError: undefined });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'succeeded', attempts: 1 });
+    expect(queue.retry(job.id)).toBeNull();
+  });
+
+  it('queues jobs interrupted by a reload again on resume', () => {
+    const { queue } = createQueue();
+    const job = queue.enqueue(book('a'));
+    jobs.set(job.id, { ...job, status: 'running', attempts: 1 });
+
+    queue.resume();
+
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'pending', attempts: 1 });
+  });
+});
@@ -0,0 +1,357 @@
+import { Book, EnrichmentJob } from '../models/BookTypes';
+import { libraryStore } from './storage/LibraryStore';
+import { createEnrichmentJob, getBackoffDelay, isActiveJob, isJobDue } from '../utils/enrichmentJobs';
+
+/**
+ * What happened to a job
+ */
+export type EnrichmentJobEventType =
+  | 'queued'                    // Added, or put back in the queue
+  | 'started'                   // An attempt started
+  | 'retrying'                  // An attempt failed; the job waits out its backoff
+  | 'succeeded'
+  | 'failed'                    // The last attempt failed
+  | 'cancelled'
+  | 'removed';                  // Cleared from the list
+
+/**
+ * A change to a job, as published to subscribers
+ */
+export interface EnrichmentJobEvent {
+  type: EnrichmentJobEventType;
+  job: EnrichmentJob;           // The job after the change
+}
+
+/**
+ * Called for every job change
+ */
+export type EnrichmentJobListener = (event: EnrichmentJobEvent) => void;
+
+/**
+ * Runs one attempt of a job and throws if it failed. The signal is aborted
+ * when the job is cancelled; the handler should then stop without saving.
+ */
+export type EnrichmentJobHandler = (job: EnrichmentJob, signal: AbortSignal) => Promise<void>;
+
+/**
+ * Scheduling limits of the queue
+ */
+export interface EnrichmentJobQueueOptions {
+  concurrency: number;          // Jobs running at the same time
+  baseDelayMs: number;          // Wait after the first failed attempt; doubles with each further one
+  maxDelayMs: number;           // Longest wait between attempts
+  retentionMs: number;          // How long finished jobs stay listed
+}
+
+const DEFAULT_OPTIONS: EnrichmentJobQueueOptions = {
+  concurrency: 2,
+  baseDelayMs: 5000,
+  maxDelayMs: 10 * 60 * 1000,
+  retentionMs: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * EnrichmentJobQueue
+ *
+ * Persistent queue of enrichment jobs:
+ * 1. Jobs are stored in the enrichmentJobs collection as soon as they are queued
+ * 2. Up to `concurrency` due jobs run at once through the handler
+ * 3. A failed attempt is retried with exponential backoff until the job runs out of attempts
+ * 4. After a reload, resume() picks up pending jobs and the ones the reload interrupted
+ * Every change is published to subscribers, so views can show live progress.
+ */
+export class EnrichmentJobQueue {
+  private options: EnrichmentJobQueueOptions;
+  private handler: EnrichmentJobHandler | null = null;
+  private listeners = new Set<EnrichmentJobListener>();
+  // Abort controllers of the jobs running in this session
+  private running = new Map<string, AbortController>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param options Scheduling limits, overriding the defaults
+   */
+  constructor(options: Partial<EnrichmentJobQueueOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Set the function that enriches a job's book, and start any due jobs
+   * @param handler Job handler
+   */
+  setHandler(handler: EnrichmentJobHandler): void {
+    this.handler = handler;
+    this.pump();
+  }
+
+  /**
+   * Listen for job changes
+   * @param listener Called with every change
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: EnrichmentJobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get every job
+   * @returns Jobs, newest first
+   */
+  getJobs(): EnrichmentJob[] {
+    return libraryStore.getAll<EnrichmentJob>('enrichmentJobs')
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Get a job by id
+   * @param jobId Job id
+   * @returns The job or undefined
+   */
+  getJob(jobId: string): EnrichmentJob | undefined {
+    return libraryStore.get<EnrichmentJob>('enrichmentJobs', jobId);
+  }
+
+  /**
+   * Get a book's latest job
+   * @param bookId Book id
+   * @returns The book's newest job, if it has one
+   */
+  getLatestJobForBook(bookId: string): EnrichmentJob | undefined {
+    return this.getJobs().find(job => job.bookId === bookId);
+  }
+
+  /**
+   * Queue a book for enrichment. A book has at most one active job; queueing
+   * it again returns that job.
+   * @param book Book to enrich
+   * @param maxAttempts Attempts the job gets before it fails
+   * @returns The new or already active job
+   */
+  enqueue(book: Book, maxAttempts?: number): EnrichmentJob {
+    const active = this.getJobs().find(job => job.bookId === book.id && isActiveJob(job));
+    if (active) {
+      return active;
+    }
+
+    const job = createEnrichmentJob(book, maxAttempts);
+    libraryStore.put('enrichmentJobs', job.id, job);
+    this.emit('queued', job);
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Cancel a pending or running job. A running attempt is told to stop and
+   * its result is discarded.
+   * @param jobId Job to cancel
+   * @param reason Why, if not cancelled by the user
+   * @returns True if the job was active
+   */
+  cancel(jobId: string, reason?: string): boolean {
+    const job = this.getJob(jobId);
+    if (!job || !isActiveJob(job)) {
+      return false;
+    }
+
+    this.running.get(jobId)?.abort();
+    this.running.delete(jobId);
+
+    const cancelled = this.update(job, {
+      status: 'cancelled',
+      finishedAt: new Date().toISOString(),
+      nextAttemptAt: undefined,
+      lastError: reason ?? job.lastError
+    });
+    this.emit('cancelled', cancelled);
+    this.pump();
+    return true;
+  }
+
+  /**
+   * Put a failed or cancelled job back in the queue with fresh attempts
+   * @param jobId Job to retry
+   * @returns The queued job, or null if it cannot be retried
+   */
+  retry(jobId: string): EnrichmentJob | null {
+    const job = this.getJob(jobId);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) {
+      return null;
+    }
+    if (this.getJobs().some(other => other.bookId === job.bookId && isActiveJob(other))) {
+      return null;
+    }
+
+    const queued = this.update(job, {
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: undefined,
+      startedAt: undefined,
+      finishedAt: undefined,
+      lastError: undefined
+    });
+    this.emit('queued', queued);
+    this.pump();
+    return queued;
+  }
+
+  /**
+   * Remove every finished job from the list
+   * @returns Number of jobs removed
+   */
+  clearFinished(): number {
+    const finished = this.getJobs().filter(job => !isActiveJob(job));
+    finished.forEach(job => {
+      libraryStore.delete('enrichmentJobs', job.id);
+      this.emit('removed', job);
+    });
+    return finished.length;
+  }
+
+  /**
+   * Pick the queue up after a reload: jobs that were running when the page
+   * went away are queued again, old finished jobs are dropped, and due jobs start
+   */
+  resume(): void {
+    const cutoff = Date.now() - this.options.retentionMs;
+
+    this.getJobs().forEach(job => {
+      if (job.status === 'running' && !this.running.has(job.id)) {
+        this.emit('queued', this.update(job, { status: 'pending' }));
+      } else if (!isActiveJob(job) && new Date(job.finishedAt || job.updatedAt).getTime() < cutoff) {
+        libraryStore.delete('enrichmentJobs', job.id);
+      }
+    });
+
+    this.pump();
+  }
+
+  /**
+   * Start due jobs while there are free slots, and wake up again when the
+   * next backed-off job becomes due
+   */
+  private pump(): void {
+    if (!this.handler) return;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const pending = this.getJobs()
+      .filter(job => job.status === 'pending')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const now = Date.now();
+
+    pending
+      .filter(job => isJobDue(job, now))
+      .slice(0, Math.max(0, this.options.concurrency - this.running.size))
+      .forEach(job => {
+        this.run(job).catch(error => {
+          console.error(`Error running enrichment job "${job.id}":`, error);
+        });
+      });
+
+    const waiting = pending
+      .filter(job => !isJobDue(job, now))
+      .map(job => new Date(job.nextAttemptAt!).getTime());
+    if (waiting.length > 0) {
+      this.timer = setTimeout(() => this.pump(), Math.max(0, Math.min(...waiting) - now));
+    }
+  }
+
+  /**
+   * Run one attempt of a job and record its outcome
+   * @param pendingJob Job to run
+   */
+  private async run(pendingJob: EnrichmentJob): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(pendingJob.id, controller);
+
+    const job = this.update(pendingJob, {
+      status: 'running',
+      attempts: pendingJob.attempts + 1,
+      startedAt: new Date().toISOString(),
+      nextAttemptAt: undefined
+    });
+    this.emit('started', job);
+
+    try {
+      await this.handler!(job, controller.signal);
+
+      if (!this.isCurrentAttempt(job, controller)) return;
+      this.emit('succeeded', this.update(job, {
+        status: 'succeeded',
+        finishedAt: new Date().toISOString(),
+        lastError: undefined
+      }));
+    } catch (error) {
+      if (!this.isCurrentAttempt(job, controller)) return;
+
+      const lastError = error instanceof Error ? error.message : String(error);
+      if (job.attempts < job.maxAttempts) {
+        const delay = getBackoffDelay(job.attempts, this.options.baseDelayMs, this.options.maxDelayMs);
+        console.log(`Enrichment of "${job.title}" failed (attempt ${job.attempts}/${job.maxAttempts}); retrying in ${Math.ceil(delay / 1000)}s`);
+        this.emit('retrying', this.update(job, {
+          status: 'pending',
+          nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+          lastError
+        }));
+      } else {
+        this.emit('failed', this.update(job, {
+          status: 'failed',
+          finishedAt: new Date().toISOString(),
+          lastError
+        }));
+      }
+    } finally {
+      if (this.running.get(job.id) === controller) {
+        this.running.delete(job.id);
+      }
+      this.pump();
+    }
+  }
+
+  /**
+   * Check whether an attempt's outcome still counts: not if the job was
+   * cancelled or cleared while it ran
+   * @param job Job as the attempt started it
+   * @param controller The attempt's abort controller
+   * @returns True if the outcome should be recorded
+   */
+  private isCurrentAttempt(job: EnrichmentJob, controller: AbortController): boolean {
+    return !controller.signal.aborted && this.getJob(job.id)?.status === 'running';
+  }
+
+  /**
+   * Store changes to a job
+   * @param job Job to change
+   * @param changes Fields to change
+   * @returns The stored job
+   */
+  private update(job: EnrichmentJob, changes: Partial<EnrichmentJob>): EnrichmentJob {
+    const updated: EnrichmentJob = { ...job, ...changes, updatedAt: new Date().toISOString() };
+    libraryStore.put('enrichmentJobs', updated.id, updated);
+    return updated;
+  }
+
+  /**
+   * Tell listeners about a job change
+   * @param type What happened
+   * @param job The job after the change
+   */
+  private emit(type: EnrichmentJobEventType, job: EnrichmentJob): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener({ type, job });
+      } catch (error) {
+        console.error('Error in enrichment job listener:', error);
+      }
+    });
+  }
+}
+
+// Create and export a singleton instance
+export const enrichmentJobQueue = new EnrichmentJobQueue();
@@ -0,0 +1,242 @@
+import {
+  Book,
+  EnrichableField,
+  EnrichmentReviewPolicy,
+  EnrichmentSuggestionSet,
+  FieldSuggestion
+} from '../models/BookTypes';
+import { bookMetadataService } from './BookMetadataService';
+import { libraryStore } from './storage/LibraryStore';
+import { createProvenance, recordProvenance } from '../utils/provenance';
+import { createSuggestions, isEmptyField, mergeSuggestions } from '../utils/enrichmentSuggestions';
+
+/**
+ * Called with the id of the book whose suggestions changed
+ */
+export type EnrichmentSuggestionListener = (bookId: string) => void;
+
+/**
+ * EnrichmentSuggestionService
+ *
+ * Keeps enrichment results out of the user's books until they are reviewed:
+ * 1. propose() turns an enrichment run into suggestions, one per changed field
+ * 2. Under the auto-accept policy, fields that were empty are filled straight away
+ * 3. The rest are stored in the enrichmentSuggestions collection, one set per book
+ * 4. The user accepts (possibly edited), or rejects, each suggestion
+ * Fields the user entered are never suggested over.
+ */
+export class EnrichmentSuggestionService {
+  private policySettingKey = 'enrichment_review_policy';
+  private listeners = new Set<EnrichmentSuggestionListener>();
+
+  /**
+   * Listen for changes to any book's suggestions
+   * @param listener Called with the book id
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: EnrichmentSuggestionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get what happens to enrichment results
+   * @returns The review policy; everything is reviewed unless configured otherwise
+   */
+  getPolicy(): EnrichmentReviewPolicy {
+    return libraryStore.getSetting<EnrichmentReviewPolicy>(this.policySettingKey) || 'review_all';
+  }
+
+  /**
+   * Set what happens to enrichment results from now on
+   * @param policy Review policy
+   */
+  setPolicy(policy: EnrichmentReviewPolicy): void {
+    libraryStore.setSetting(this.policySettingKey, policy);
+  }
+
+  /**
+   * Get a book's suggestions under review
+   * @param bookId Book id
+   * @returns The book's suggestion set, if it has one
+   */
+  getSuggestionSet(bookId: string): EnrichmentSuggestionSet | undefined {
+    return libraryStore.get<EnrichmentSuggestionSet>('enrichmentSuggestions', bookId);
+  }
+
+  /**
+   * Get every book's suggestions under review
+   * @returns Suggestion sets, most recently updated first
+   */
+  getSuggestionSets(): EnrichmentSuggestionSet[] {
+    return libraryStore.getAll<EnrichmentSuggestionSet>('enrichmentSuggestions')
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Turn an enrichment run into suggestions for a book. The book is not saved;
+   * the caller saves the returned copy along with the run's other results.
+   * @param current Book as stored now
+   * @param enriched The run's copy of the book
+   * @returns The current book, with the fields the policy accepted filled in
+   */
+  propose(current: Book, enriched: Book): Book {
+    const suggestions = createSuggestions(current, enriched);
+
+    // Filling a field that holds nothing yet loses nothing the user curated
+    const accepted = this.getPolicy() === 'auto_accept_empty'
+      ? suggestions.filter(suggestion => isEmptyField(current, suggestion.field))
+      : [];
+    const book = accepted.reduce((updated, suggestion) => this.applySuggestion(updated, suggestion), current);
+
+    const pending = suggestions.filter(suggestion => !accepted.includes(suggestion));
+    const existing = this.getSuggestionSet(current.id);
+    this.store(book.id, book.title, mergeSuggestions(book, existing?.suggestions || [], pending), existing);
+
+    if (accepted.length > 0) {
+      console.log(`Filled ${accepted.map(suggestion => suggestion.field).join(', ')} of "${book.title}" without review`);
+    }
+    return book;
+  }
+
+  /**
+   * Accept a suggestion and save the book
+   * @param bookId Book id
+   * @param field Field to accept
+   * @param value Value to use instead of the suggested one, e.g. with some list items left out
+   * @param edited True if the user changed the value; it is then recorded as the user's own
+   * @returns The saved book, or null if there is no such suggestion
+   */
+  acceptSuggestion<F extends EnrichableField>(bookId: string, field: F, value?: Book[F], edited = false): Book | null {
+    try {
+      const book = bookMetadataService.getBookById(bookId);
+      const set = this.getSuggestionSet(bookId);
+      const suggestion = set?.suggestions.find(candidate => candidate.field === field);
+      if (!book || !set || !suggestion) {
+        return null;
+      }
+
+      const accepted = {
+        ...suggestion,
+        suggested: value === undefined ? suggestion.suggested : value,
+        provenance: edited ? createProvenance('user') : suggestion.provenance
+      } as FieldSuggestion;
+      const saved = bookMetadataService.saveBook(this.applySuggestion(book, accepted));
+
+      this.store(bookId, saved.title, set.suggestions.filter(candidate => candidate.field !== field), set);
+      return saved;
+    } catch (error) {
+      console.error('Error accepting enrichment suggestion:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Accept every suggestion for a book as suggested, and save it
+   * @param bookId Book id
+   * @returns The saved book, or null if it has no suggestions
+   */
+  acceptAll(bookId: string): Book | null {
+    try {
+      const book = bookMetadataService.getBookById(bookId);
+      const set = this.getSuggestionSet(bookId);
+      if (!book || !set) {
+        return null;
+      }
+
+      const saved = bookMetadataService.saveBook(
+        set.suggestions.reduce((updated, suggestion) => this.applySuggestion(updated, suggestion), book)
+      );
+      this.store(bookId, saved.title, [], set);
+      return saved;
+    } catch (error) {
+      console.error('Error accepting enrichment suggestions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reject a suggestion; the book keeps its value
+   * @param bookId Book id
+   * @param field Field to reject
+   * @returns True if there was such a suggestion
+   */
+  rejectSuggestion(bookId: string, field: EnrichableField): boolean {
+    const set = this.getSuggestionSet(bookId);
+    if (!set || !set.suggestions.some(suggestion => suggestion.field === field)) {
+      return false;
+    }
+
+    this.store(bookId, set.title, set.suggestions.filter(suggestion => suggestion.field !== field), set);
+    return true;
+  }
+
+  /**
+   * Reject every suggestion for a book
+   * @param bookId Book id
+   * @returns Number of suggestions rejected
+   */
+  rejectAll(bookId: string): number {
+    const set = this.getSuggestionSet(bookId);
+    if (!set) {
+      return 0;
+    }
+
+    this.store(bookId, set.title, [], set);
+    return set.suggestions.length;
+  }
+
+  /**
+   * Set a suggested value on a book and record where it came from
+   * @param book Book to update
+   * @param suggestion Suggestion to apply
+   * @returns Updated copy of the book
+   */
+  private applySuggestion(book: Book, suggestion: FieldSuggestion): Book {
+    return recordProvenance({ ...book, [suggestion.field]: suggestion.suggested }, [suggestion.field], suggestion.provenance);
+  }
+
+  /**
+   * Store a book's remaining suggestions, or remove its set once none are left
+   * @param bookId Book id
+   * @param title Book title, for display
+   * @param suggestions Suggestions still under review
+   * @param existing The set stored so far, if any
+   */
+  private store(bookId: string, title: string, suggestions: FieldSuggestion[], existing?: EnrichmentSuggestionSet): void {
+    if (suggestions.length === 0) {
+      if (!existing) return;
+      libraryStore.delete('enrichmentSuggestions', bookId);
+    } else {
+      const now = new Date().toISOString();
+      libraryStore.put<EnrichmentSuggestionSet>('enrichmentSuggestions', bookId, {
+        bookId,
+        title,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        suggestions
+      });
+    }
+
+    this.emit(bookId);
+  }
+
+  /**
+   * Tell listeners a book's suggestions changed
+   * @param bookId Book id
+   */
+  private emit(bookId: string): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(bookId);
+      } catch (error) {
+        console.error('Error in enrichment suggestion listener:', error);
+      }
+    });
+  }
+}
+
+// Create and export a singleton instance
+export const enrichmentSuggestionService = new EnrichmentSuggestionService();
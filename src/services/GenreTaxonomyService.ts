@@ -0,0 +1,265 @@
+import { Book, EnrichableField } from '../models/BookTypes';
+import { libraryStore } from './storage/LibraryStore';
+import {
+  DEFAULT_GENRE_MAPPINGS,
+  GENRE_TAXONOMY,
+  GenreClassification,
+  GenreDefinition,
+  GenreMapping,
+  categoryKey,
+  classifyCategories
+} from '../utils/genres';
+import { createProvenance, isUserValue, recordProvenance } from '../utils/provenance';
+
+/**
+ * A catalog category found on library books, with what it maps to
+ */
+export interface CategoryUsage {
+  category: string;             // Category key
+  label: string;                // Category as first seen on a book
+  bookCount: number;
+  mapping?: GenreMapping;       // Mapping for exactly this category, if any
+  classification: GenreClassification; // Result of classifying this category alone
+}
+
+/**
+ * GenreTaxonomyService
+ *
+ * Turns catalog categories into the library's controlled genres:
+ * 1. Look each category up in the mapping table, most specific path first
+ * 2. Take genres, subgenres, fiction and audience from the mappings found
+ * 3. Fall back to keyword guesses for fiction and audience when nothing maps
+ * Users curate the table; their entries replace the defaults for the same
+ * category, and books whose classification came from the table follow along.
+ */
+export class GenreTaxonomyService {
+  // Settings key for the user's mapping entries
+  private mappingsSettingKey = 'genre_mappings';
+
+  /**
+   * Get the genres books are classified into
+   * @returns The built-in taxonomy, plus genres only named in user mappings
+   */
+  getTaxonomy(): GenreDefinition[] {
+    const taxonomy = GENRE_TAXONOMY.map(genre => ({ ...genre, subgenres: [...genre.subgenres] }));
+
+    this.getUserMappings().forEach(mapping => {
+      if (!mapping.genre) return;
+
+      let genre = taxonomy.find(definition => definition.name === mapping.genre);
+      if (!genre) {
+        genre = { name: mapping.genre, subgenres: [] };
+        taxonomy.push(genre);
+      }
+      if (mapping.subgenre && !genre.subgenres.includes(mapping.subgenre)) {
+        genre.subgenres.push(mapping.subgenre);
+      }
+    });
+
+    return taxonomy;
+  }
+
+  /**
+   * Get the mapping table in effect
+   * @returns Default mappings overlaid with the user's, by category
+   */
+  getMappings(): GenreMapping[] {
+    const mappings = new Map(DEFAULT_GENRE_MAPPINGS.map(mapping => [mapping.category, mapping]));
+    this.getUserMappings().forEach(mapping => mappings.set(mapping.category, mapping));
+    return Array.from(mappings.values()).sort((a, b) => a.category.localeCompare(b.category));
+  }
+
+  /**
+   * Check whether the user has changed the mapping of a category
+   * @param category Category in any spelling
+   * @returns True if the user's entry is in effect
+   */
+  isCustomized(category: string): boolean {
+    const key = categoryKey(category);
+    return this.getUserMappings().some(mapping => mapping.category === key);
+  }
+
+  /**
+   * Classify a book from its catalog categories
+   * @param categories Catalog categories, most relevant first
+   * @returns Genres, subgenres, fiction and audience
+   */
+  classify(categories: string[] = []): GenreClassification {
+    return classifyCategories(categories, this.getMappings(), this.getTaxonomy());
+  }
+
+  /**
+   * Find the genres a piece of text names, e.g. an AI analysis of a book
+   * @param text Text to scan
+   * @returns Taxonomy genres named in the text, in taxonomy order
+   */
+  findGenresInText(text: string): string[] {
+    const names = (phrase: string) =>
+      new RegExp(`\\b${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text);
+
+    return this.getTaxonomy()
+      .map(genre => genre.name)
+      .filter(names);
+  }
+
+  /**
+   * Give a book new catalog categories, reclassifying the genre fields
+   * that still hold what its previous categories gave it
+   * @param book Book to update
+   * @param categories New catalog categories
+   * @returns The book with the categories and any reclassified fields
+   */
+  applyCategories(book: Book, categories: string[]): Book {
+    const before = this.classify(book.categories);
+    const after = this.classify(categories);
+    return { ...this.reclassify(book, this.reclassifiedFields(book, before, after)), categories };
+  }
+
+  /**
+   * Map a category, replacing its default mapping. A mapping that sets
+   * nothing makes the category ignored.
+   * @param mapping Category and what it maps to
+   * @returns Number of library books reclassified
+   */
+  setMapping(mapping: GenreMapping): number {
+    const key = categoryKey(mapping.category);
+    if (!key) {
+      throw new Error('A category is required');
+    }
+
+    const entry: GenreMapping = { category: key };
+    if (mapping.genre?.trim()) {
+      entry.genre = mapping.genre.trim();
+      if (mapping.subgenre?.trim()) entry.subgenre = mapping.subgenre.trim();
+    }
+    if (mapping.fiction !== undefined) entry.fiction = mapping.fiction;
+    if (mapping.audience) entry.audience = mapping.audience;
+
+    return this.updateUserMappings(mappings => [...mappings.filter(m => m.category !== key), entry]);
+  }
+
+  /**
+   * Restore a category's default mapping, or unmap it if it has none
+   * @param category Category in any spelling
+   * @returns Number of library books reclassified
+   */
+  resetMapping(category: string): number {
+    const key = categoryKey(category);
+    return this.updateUserMappings(mappings => mappings.filter(m => m.category !== key));
+  }
+
+  /**
+   * List the categories on library books, for curating the table
+   * @param books Books to scan, defaults to the whole library
+   * @returns Categories with their book counts, unmapped ones first, then by count
+   */
+  getLibraryCategories(books: Book[] = libraryStore.getAll<Book>('books')): CategoryUsage[] {
+    const usage = new Map<string, { label: string; bookCount: number }>();
+    books.forEach(book => {
+      new Set((book.categories || []).map(categoryKey)).forEach(key => {
+        if (!key) return;
+        const label = book.categories!.find(category => categoryKey(category) === key)!;
+        const entry = usage.get(key) || { label, bookCount: 0 };
+        entry.bookCount++;
+        usage.set(key, entry);
+      });
+    });
+
+    const mappings = this.getMappings();
+    const taxonomy = this.getTaxonomy();
+
+    return Array.from(usage.entries())
+      .map(([category, { label, bookCount }]) => ({
+        category,
+        label,
+        bookCount,
+        mapping: mappings.find(mapping => mapping.category === category),
+        classification: classifyCategories([label], mappings, taxonomy)
+      }))
+      .sort((a, b) =>
+        (b.classification.unmapped.length - a.classification.unmapped.length)
+        || (b.bookCount - a.bookCount)
+        || a.category.localeCompare(b.category));
+  }
+
+  /**
+   * Get the user's mapping entries
+   * @returns Entries as stored
+   */
+  private getUserMappings(): GenreMapping[] {
+    return libraryStore.getSetting<GenreMapping[]>(this.mappingsSettingKey) || [];
+  }
+
+  /**
+   * Change the user's entries and reclassify the books affected
+   * @param change Returns the new entries from the current ones
+   * @returns Number of library books reclassified
+   */
+  private updateUserMappings(change: (mappings: GenreMapping[]) => GenreMapping[]): number {
+    const previousMappings = this.getMappings();
+    const previousTaxonomy = this.getTaxonomy();
+
+    libraryStore.setSetting(this.mappingsSettingKey, change(this.getUserMappings()));
+
+    return this.reclassifyLibrary(previousMappings, previousTaxonomy);
+  }
+
+  /**
+   * Reclassify the books whose genre fields still hold what the previous table gave them
+   * @param previousMappings Mapping table before the change
+   * @param previousTaxonomy Taxonomy before the change
+   * @returns Number of books updated
+   */
+  private reclassifyLibrary(previousMappings: GenreMapping[], previousTaxonomy: GenreDefinition[]): number {
+    let updated = 0;
+    libraryStore.getAll<Book>('books').forEach(book => {
+      if (!book.categories || book.categories.length === 0) return;
+
+      const before = classifyCategories(book.categories, previousMappings, previousTaxonomy);
+      const changes = this.reclassifiedFields(book, before, this.classify(book.categories));
+
+      if (Object.keys(changes).length > 0) {
+        libraryStore.put('books', book.id, { ...this.reclassify(book, changes), lastModified: new Date().toISOString() });
+        updated++;
+      }
+    });
+
+    return updated;
+  }
+
+  /**
+   * Apply reclassified fields to a book, recording the catalog as their source
+   * @param book Book being reclassified
+   * @param changes Fields from reclassifiedFields
+   * @returns Updated book
+   */
+  private reclassify(book: Book, changes: Partial<Book>): Book {
+    return recordProvenance({ ...book, ...changes }, Object.keys(changes) as EnrichableField[], createProvenance('catalog'));
+  }
+
+  /**
+   * Work out which genre fields follow a change of classification: the ones
+   * that still hold the previous result. Fields the user or enrichment
+   * changed are kept.
+   * @param book Book being reclassified
+   * @param before Classification its fields were set from
+   * @param after New classification
+   * @returns Fields to update
+   */
+  private reclassifiedFields(book: Book, before: GenreClassification, after: GenreClassification): Partial<Book> {
+    const sameList = (a: string[] = [], b: string[]) =>
+      a.length === b.length && a.every(item => b.includes(item));
+    const changes: Partial<Book> = {};
+    const follows = (field: EnrichableField) => !isUserValue(book, field);
+
+    if (follows('genres') && sameList(book.genres, before.genres) && !sameList(book.genres, after.genres)) changes.genres = after.genres;
+    if (follows('subgenres') && sameList(book.subgenres, before.subgenres) && !sameList(book.subgenres, after.subgenres)) changes.subgenres = after.subgenres;
+    if (follows('fiction') && book.fiction === before.fiction && book.fiction !== after.fiction) changes.fiction = after.fiction;
+    if (follows('audience') && book.audience === before.audience && book.audience !== after.audience) changes.audience = after.audience;
+
+    return changes;
+  }
+}
+
+// Create and export a singleton instance
+export const genreTaxonomyService = new GenreTaxonomyService();
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExternalBookData, ManualBookInput } from '../models/BookTypes';
+import { libraryBackupService } from './LibraryBackupService';
+import { bookMetadataService } from './BookMetadataService';
+import { libraryStore } from './storage/LibraryStore';
+
+// A real store over an in-memory backend instead of IndexedDB
+vi.mock('./storage/LibraryStore', async importOriginal => {
+  const actual = await importOriginal<typeof import('./storage/LibraryStore')>();
+  const { MemoryStorageAdapter } = await import('../test/MemoryStorageAdapter');
+  return { ...actual, libraryStore: new actual.LibraryStore([new MemoryStorageAdapter()]) };
+});
+
+const input: ManualBookInput = {
+  title: 'The Notebook of Small Things',
+  authors: ['Ada Marsh'],
+  publisher: 'Self-published',
+  publishedDate: '2019',
+  pageCount: 120,
+  language: 'en',
+  description: 'A family history printed for relatives.',
+  isbn: '',
+  genres: ['Memoir'],
+  format: 'paperback'
+};
+
+describe('LibraryBackupService', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await libraryStore.ready();
+  });
+
+  it('round-trips a manually added book and its source record', async () => {
+    const book = bookMetadataService.addManualBook(input);
+    const externalKey = `manual:${book.id}`;
+    expect(libraryStore.get<ExternalBookData>('externalData', externalKey)?.data.id).toBe(book.id);
+
+    const contents = JSON.stringify(await libraryBackupService.createBackup());
+    const parsed = libraryBackupService.parseBackup(contents);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.valid).toBe(true);
+
+    const summary = await libraryBackupService.restoreBackup(parsed.bundle!, 'replace');
+
+    expect(summary.booksAdded).toBe(1);
+    expect(libraryStore.get('books', book.id)).toMatchObject({ id: book.id, title: input.title });
+    expect(libraryStore.get<ExternalBookData>('externalData', externalKey)?.data)
+      .toMatchObject({ id: book.id, title: input.title });
+    expect(libraryStore.has('externalData', 'manual:undefined')).toBe(false);
+  });
+
+  it('keeps the source record id when manual details are edited', () => {
+    const book = bookMetadataService.addManualBook(input);
+
+    bookMetadataService.updateManualBookDetails(book.id, { ...input, title: 'The Notebook of Smaller Things' });
+
+    expect(libraryStore.get<ExternalBookData>('externalData', `manual:${book.id}`)?.data)
+      .toMatchObject({ id: book.id, title: 'The Notebook of Smaller Things' });
+  });
+});
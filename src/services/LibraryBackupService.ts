@@ -0,0 +1,553 @@
+import { Layouts } from 'react-grid-layout';
+import {
+  AuthorRecord,
+  Book,
+  BookAIEnrichment,
+  BookMetadataCompletionStatus,
+  EnrichmentJob,
+  EnrichmentReviewPolicy,
+  EnrichmentSuggestionSet,
+  ExternalBookData,
+  Work
+} from '../models/BookTypes';
+import { libraryStore } from './storage/LibraryStore';
+import { workService } from './WorkService';
+import { authorRegistryService } from './AuthorRegistryService';
+import { CoverBackup, coverService } from './CoverService';
+import { libraryDuplicateService } from './duplicates/LibraryDuplicateService';
+import { CURRENT_SCHEMA_VERSION, fillMissingBookFields } from './storage/migrations';
+import { loadLayouts, saveLayouts } from '../utils/storage';
+import { downloadTextFile } from '../utils/download';
+import { identifiersMatch, normalizeBookIdentifiers } from '../utils/bookIdentifiers';
+import { normalizeIsbn } from '../utils/isbn';
+import { createEnrichmentJob, isActiveJob } from '../utils/enrichmentJobs';
+import { FieldPrecedenceRules } from './metadata/MetadataProvider';
+import { GenreMapping } from '../utils/genres';
+import { CompletenessWeights } from '../utils/completeness';
+import { llmService, StoredLLMSettings } from './llm/LLMService';
+
+/**
+ * Preferences kept in the settings store, keyed by their setting keys
+ */
+export interface LibraryBackupSettings {
+  metadata_field_precedence?: FieldPrecedenceRules;
+  dismissed_duplicate_pairs?: string[]; // "bookId|bookId" keys of pairs marked as not duplicates
+  genre_mappings?: GenreMapping[];
+  completeness_weights?: CompletenessWeights;
+  llm_settings?: StoredLLMSettings; // Without API keys
+  enrichment_review_policy?: EnrichmentReviewPolicy;
+}
+
+// Settings copied as they are stored
+const BACKUP_SETTING_KEYS: (keyof LibraryBackupSettings)[] = [
+  'metadata_field_precedence',
+  'genre_mappings',
+  'completeness_weights',
+  'enrichment_review_policy'
+];
+
+/**
+ * Everything the app persists, keyed by the names users know from localStorage
+ */
+export interface LibraryBackupData {
+  enhanced_books: Book[];
+  works?: Work[];               // Absent in backups made before editions were grouped into works
+  authors?: AuthorRecord[];     // Absent in backups made before the author registry
+  metadata_completion_status?: BookMetadataCompletionStatus[]; // Only in backups made before completeness was derived; ignored on restore
+  external_book_data: ExternalBookData[];
+  shared_enriched_books: Record<string, Book>;
+  enriched_books_metadata: Record<string, BookAIEnrichment>;
+  enrichment_jobs?: EnrichmentJob[]; // Absent in backups made before the enrichment job queue
+  enrichment_queue?: string[];  // ISBNs; only in backups made before the job queue, queued as new jobs on restore
+  enrichment_suggestions?: EnrichmentSuggestionSet[]; // Absent in backups made before enrichment results were reviewed
+  covers?: CoverBackup[];       // Uploaded covers as data URLs; absent in backups made before covers were stored
+  settings?: LibraryBackupSettings; // Absent in backups made before preferences were backed up
+  dashboard_layouts: Layouts | null;
+}
+
+/**
+ * A single-file backup of the whole library
+ */
+export interface LibraryBackupBundle {
+  format: 'bookanalytics-backup';
+  formatVersion: number;
+  schemaVersion: number;        // Library schema version the data was written with
+  exportedAt: string;
+  data: LibraryBackupData;
+}
+
+/**
+ * How a restored bundle is combined with the current library
+ */
+export type RestoreMode = 'replace' | 'merge';
+
+/**
+ * Result of validating a candidate bundle
+ */
+export interface BackupValidationResult {
+  valid: boolean;
+  errors: string[];
+  bundle?: LibraryBackupBundle;
+}
+
+/**
+ * Counts reported after a restore
+ */
+export interface RestoreSummary {
+  mode: RestoreMode;
+  booksAdded: number;
+  booksUpdated: number;
+  booksSkipped: number;
+}
+
+const BACKUP_FORMAT = 'bookanalytics-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * LibraryBackupService
+ *
+ * Exports every persisted collection into one JSON bundle and restores
+ * such bundles, either replacing the library or merging into it by id/ISBN.
+ */
+export class LibraryBackupService {
+  /**
+   * Collect the current library into a backup bundle
+   * @returns Promise with the backup bundle
+   */
+  async createBackup(): Promise<LibraryBackupBundle> {
+    return {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      data: {
+        enhanced_books: libraryStore.getAll<Book>('books'),
+        works: libraryStore.getAll<Work>('works'),
+        authors: libraryStore.getAll<AuthorRecord>('authors'),
+        external_book_data: libraryStore.getAll<ExternalBookData>('externalData'),
+        shared_enriched_books: this.entriesToRecord<Book>('sharedEnrichedBooks'),
+        enriched_books_metadata: this.entriesToRecord<BookAIEnrichment>('enrichmentMetadata'),
+        enrichment_jobs: libraryStore.getAll<EnrichmentJob>('enrichmentJobs'),
+        enrichment_suggestions: libraryStore.getAll<EnrichmentSuggestionSet>('enrichmentSuggestions'),
+        covers: await coverService.exportCustomCovers(),
+        settings: this.collectSettings(),
+        dashboard_layouts: loadLayouts()
+      }
+    };
+  }
+
+  /**
+   * Serialize the current library and offer it as a file download
+   * @param fileName Name of the downloaded file
+   * @returns Promise that resolves once the download was offered
+   */
+  async downloadBackup(fileName: string = `book-analytics-backup-${new Date().toISOString().split('T')[0]}.json`): Promise<void> {
+    downloadTextFile(JSON.stringify(await this.createBackup(), null, 2), fileName, 'application/json');
+  }
+
+  /**
+   * Collect the preferences to back up
+   * @returns Every backed-up setting the user has configured
+   */
+  private collectSettings(): LibraryBackupSettings {
+    const settings: Record<string, unknown> = {};
+    [...BACKUP_SETTING_KEYS, 'dismissed_duplicate_pairs'].forEach(key => {
+      const value = libraryStore.getSetting(key);
+      if (value !== undefined) {
+        settings[key] = value;
+      }
+    });
+
+    const llmSettings = llmService.getBackupSettings();
+    if (llmSettings) {
+      settings.llm_settings = llmSettings;
+    }
+    return settings as LibraryBackupSettings;
+  }
+
+  /**
+   * Convert a map-shaped collection into a plain object
+   * @param collection Collection keyed by ISBN or Google Books ID
+   * @returns Object keyed like the legacy localStorage value
+   */
+  private entriesToRecord<T>(collection: 'sharedEnrichedBooks' | 'enrichmentMetadata'): Record<string, T> {
+    return Object.fromEntries(
+      libraryStore.getEntries<T>(collection).map(entry => [entry.key, entry.value])
+    );
+  }
+
+  /**
+   * Parse and validate a backup file's contents
+   * @param contents Raw file contents
+   * @returns Validation result with the parsed bundle when valid
+   */
+  parseBackup(contents: string): BackupValidationResult {
+    try {
+      return this.validateBackup(JSON.parse(contents));
+    } catch (error) {
+      return { valid: false, errors: [`File is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+  }
+
+  /**
+   * Validate the structure of a backup bundle
+   * @param candidate Parsed JSON value
+   * @returns Validation result with the typed bundle when valid
+   */
+  validateBackup(candidate: unknown): BackupValidationResult {
+    const errors: string[] = [];
+
+    if (!candidate || typeof candidate !== 'object') {
+      return { valid: false, errors: ['Backup must be a JSON object'] };
+    }
+
+    const bundle = candidate as Partial<LibraryBackupBundle>;
+
+    if (bundle.format !== BACKUP_FORMAT) {
+      errors.push(`Unrecognized backup format "${String(bundle.format)}"`);
+    }
+
+    if (typeof bundle.formatVersion !== 'number' || bundle.formatVersion > BACKUP_FORMAT_VERSION) {
+      errors.push(`Unsupported backup format version ${String(bundle.formatVersion)}`);
+    }
+
+    if (typeof bundle.schemaVersion !== 'number') {
+      errors.push('Backup is missing its schema version');
+    } else if (bundle.schemaVersion > CURRENT_SCHEMA_VERSION) {
+      errors.push(`Backup was written by a newer version of the app (schema ${bundle.schemaVersion}, this app supports ${CURRENT_SCHEMA_VERSION})`);
+    }
+
+    const data = bundle.data as Partial<LibraryBackupData> | undefined;
+
+    if (!data || typeof data !== 'object') {
+      errors.push('Backup has no data section');
+      return { valid: false, errors };
+    }
+
+    const arraySections: (keyof LibraryBackupData)[] = [
+      'enhanced_books', 'external_book_data'
+    ];
+    arraySections.forEach(section => {
+      if (!Array.isArray(data[section])) {
+        errors.push(`Section "${section}" must be an array`);
+      }
+    });
+
+    const mapSections: (keyof LibraryBackupData)[] = ['shared_enriched_books', 'enriched_books_metadata'];
+    mapSections.forEach(section => {
+      const value = data[section];
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`Section "${section}" must be an object`);
+      }
+    });
+
+    if (data.works !== undefined && !Array.isArray(data.works)) {
+      errors.push('Section "works" must be an array');
+    }
+
+    if (data.authors !== undefined && !Array.isArray(data.authors)) {
+      errors.push('Section "authors" must be an array');
+    }
+
+    if (data.enrichment_jobs !== undefined && !Array.isArray(data.enrichment_jobs)) {
+      errors.push('Section "enrichment_jobs" must be an array');
+    }
+
+    if (data.enrichment_queue !== undefined && !Array.isArray(data.enrichment_queue)) {
+      errors.push('Section "enrichment_queue" must be an array');
+    }
+
+    if (data.enrichment_suggestions !== undefined && !Array.isArray(data.enrichment_suggestions)) {
+      errors.push('Section "enrichment_suggestions" must be an array');
+    }
+
+    if (data.covers !== undefined && !Array.isArray(data.covers)) {
+      errors.push('Section "covers" must be an array');
+    }
+
+    if (data.metadata_completion_status !== undefined && !Array.isArray(data.metadata_completion_status)) {
+      errors.push('Section "metadata_completion_status" must be an array');
+    }
+
+    if (data.dashboard_layouts !== null && data.dashboard_layouts !== undefined && typeof data.dashboard_layouts !== 'object') {
+      errors.push('Section "dashboard_layouts" must be an object or null');
+    }
+
+    if (data.settings !== undefined && (!data.settings || typeof data.settings !== 'object' || Array.isArray(data.settings))) {
+      errors.push('Section "settings" must be an object');
+    } else if (data.settings?.dismissed_duplicate_pairs !== undefined && !Array.isArray(data.settings.dismissed_duplicate_pairs)) {
+      errors.push('Setting "dismissed_duplicate_pairs" must be an array');
+    } else if (data.settings?.llm_settings !== undefined
+      && (typeof data.settings.llm_settings?.providerId !== 'string' || !data.settings.llm_settings.providers
+        || typeof data.settings.llm_settings.providers !== 'object')) {
+      errors.push('Setting "llm_settings" is missing its provider');
+    }
+
+    (Array.isArray(data.enhanced_books) ? data.enhanced_books : []).forEach((book, index) => {
+      if (!book || typeof book.id !== 'string' || typeof book.title !== 'string') {
+        errors.push(`Book #${index + 1} is missing its id or title`);
+      }
+    });
+
+    (Array.isArray(data.metadata_completion_status) ? data.metadata_completion_status : []).forEach((status, index) => {
+      if (!status || typeof status.bookId !== 'string') {
+        errors.push(`Completion status #${index + 1} is missing its bookId`);
+      }
+    });
+
+    (Array.isArray(data.enrichment_jobs) ? data.enrichment_jobs : []).forEach((job, index) => {
+      if (!job || typeof job.id !== 'string' || typeof job.bookId !== 'string' || typeof job.status !== 'string') {
+        errors.push(`Enrichment job #${index + 1} is missing its id, book or status`);
+      }
+    });
+
+    (Array.isArray(data.enrichment_suggestions) ? data.enrichment_suggestions : []).forEach((set, index) => {
+      if (!set || typeof set.bookId !== 'string' || !Array.isArray(set.suggestions)) {
+        errors.push(`Suggestion set #${index + 1} is missing its book or suggestions`);
+      }
+    });
+
+    (Array.isArray(data.covers) ? data.covers : []).forEach((cover, index) => {
+      if (!cover || typeof cover.bookId !== 'string' || typeof cover.dataUrl !== 'string' || !cover.dataUrl.startsWith('data:image/')) {
+        errors.push(`Cover #${index + 1} is missing its book or image`);
+      }
+    });
+
+    (Array.isArray(data.external_book_data) ? data.external_book_data : []).forEach((item, index) => {
+      if (!item || typeof item.source !== 'string' || !item.data || item.data.id === undefined) {
+        errors.push(`External data entry #${index + 1} is missing its source or id`);
+      }
+    });
+
+    return errors.length > 0
+      ? { valid: false, errors }
+      : { valid: true, errors, bundle: bundle as LibraryBackupBundle };
+  }
+
+  /**
+   * Restore a validated bundle into the library
+   * @param bundle Bundle returned by validateBackup
+   * @param mode "replace" wipes the library first; "merge" matches books by id or ISBN
+   * @returns Counts of books added, updated and skipped
+   */
+  async restoreBackup(bundle: LibraryBackupBundle, mode: RestoreMode): Promise<RestoreSummary> {
+    await libraryStore.ready();
+
+    const summary: RestoreSummary = { mode, booksAdded: 0, booksUpdated: 0, booksSkipped: 0 };
+    const { data } = bundle;
+
+    if (mode === 'replace') {
+      libraryStore.clear('books');
+      libraryStore.clear('works');
+      libraryStore.clear('authors');
+      libraryStore.clear('externalData');
+      libraryStore.clear('sharedEnrichedBooks');
+      libraryStore.clear('enrichmentMetadata');
+      libraryStore.clear('enrichmentJobs');
+      libraryStore.clear('enrichmentSuggestions');
+      libraryStore.clear('covers');
+    }
+
+    const incomingWorks = data.works || [];
+    incomingWorks.forEach(work => {
+      if (mode === 'replace' || !libraryStore.has('works', work.id)) {
+        libraryStore.put('works', work.id, work);
+      }
+    });
+
+    (data.authors || []).forEach(author => {
+      if (mode === 'replace' || !libraryStore.has('authors', author.id)) {
+        libraryStore.put('authors', author.id, author);
+      }
+    });
+
+    // Library id of each incoming book, for the jobs and suggestions that refer to it
+    const bookIds = new Map<string, string>();
+
+    data.enhanced_books.forEach(incoming => {
+      // Bundles from older versions may carry unnormalized or missing identifiers
+      const book = normalizeBookIdentifiers(fillMissingBookFields(incoming));
+      const existing = mode === 'merge' ? this.findExistingBook(book) : null;
+      bookIds.set(incoming.id, existing ? existing.id : book.id);
+
+      if (!existing) {
+        libraryStore.put('books', book.id, book);
+        summary.booksAdded++;
+        return;
+      }
+
+      // The most recently modified copy wins
+      if (new Date(book.lastModified).getTime() > new Date(existing.lastModified).getTime()) {
+        libraryStore.put('books', existing.id, { ...book, id: existing.id, workId: existing.workId });
+        summary.booksUpdated++;
+      } else {
+        summary.booksSkipped++;
+      }
+    });
+
+    data.external_book_data.forEach(item => {
+      const key = `${item.source}:${item.data.id}`;
+      if (mode === 'replace' || !libraryStore.has('externalData', key)) {
+        libraryStore.put('externalData', key, item);
+      }
+    });
+
+    Object.entries(data.shared_enriched_books).forEach(([rawIsbn, book]) => {
+      const isbn = normalizeIsbn(rawIsbn);
+      if (!isbn) return;
+
+      const existing = libraryStore.get<Book>('sharedEnrichedBooks', isbn);
+      if (!existing || new Date(book.lastModified).getTime() > new Date(existing.lastModified).getTime()) {
+        libraryStore.put('sharedEnrichedBooks', isbn, book);
+      }
+    });
+
+    Object.entries(data.enriched_books_metadata).forEach(([googleBooksId, enrichment]) => {
+      if (mode === 'replace' || !libraryStore.has('enrichmentMetadata', googleBooksId)) {
+        libraryStore.put('enrichmentMetadata', googleBooksId, enrichment);
+      }
+    });
+
+    this.restoreEnrichmentJobs(data, bookIds);
+
+    // Suggestions follow their book; a book already under review keeps its own
+    (data.enrichment_suggestions || []).forEach(set => {
+      const bookId = bookIds.get(set.bookId);
+      if (bookId && !libraryStore.has('enrichmentSuggestions', bookId)) {
+        libraryStore.put('enrichmentSuggestions', bookId, { ...set, bookId });
+      }
+    });
+
+    await this.restoreCovers(data, bookIds);
+
+    if (data.dashboard_layouts && (mode === 'replace' || !loadLayouts())) {
+      saveLayouts(data.dashboard_layouts);
+    }
+
+    this.restoreSettings(data.settings || {}, mode);
+    this.restoreDismissedDuplicates(data.settings?.dismissed_duplicate_pairs || [], mode, bookIds);
+
+    // Drop incoming works no restored book ended up in, then link any
+    // book from an older backup (or with a dangling workId) to a work
+    incomingWorks.forEach(work => workService.removeEmptyWork(work.id));
+    authorRegistryService.ensureAuthors();
+    workService.ensureWorks();
+
+    await libraryStore.flush();
+
+    return summary;
+  }
+
+  /**
+   * Restore the bundle's enrichment jobs for the books it restored. Jobs that
+   * were running when the backup was made are queued again; a book that
+   * already has an active job keeps it. The queue picks them up on its next resume.
+   * @param data Bundle data
+   * @param bookIds Library id of each incoming book id
+   */
+  private restoreEnrichmentJobs(data: LibraryBackupData, bookIds: Map<string, string>): void {
+    const hasActiveJob = (bookId: string) =>
+      libraryStore.getAll<EnrichmentJob>('enrichmentJobs').some(job => job.bookId === bookId && isActiveJob(job));
+
+    (data.enrichment_jobs || []).forEach(job => {
+      const bookId = bookIds.get(job.bookId);
+      if (!bookId || libraryStore.has('enrichmentJobs', job.id)) return;
+      if (isActiveJob(job) && hasActiveJob(bookId)) return;
+
+      libraryStore.put('enrichmentJobs', job.id, {
+        ...job,
+        bookId,
+        status: job.status === 'running' ? 'pending' : job.status
+      });
+    });
+
+    // Backups from before the job queue list the queued books by ISBN
+    (data.enrichment_queue || []).forEach(rawIsbn => {
+      const isbn = normalizeIsbn(rawIsbn);
+      const book = isbn
+        ? libraryStore.getAll<Book>('books').find(candidate => candidate.identifiers?.isbn13 === isbn)
+        : undefined;
+      if (book && !hasActiveJob(book.id)) {
+        const job = createEnrichmentJob(book);
+        libraryStore.put('enrichmentJobs', job.id, job);
+      }
+    });
+  }
+
+  /**
+   * Restore the bundle's uploaded covers for the books it restored; a book
+   * that already has an uploaded cover keeps it. A cover that can't be
+   * decoded is skipped rather than failing the restore.
+   * @param data Bundle data
+   * @param bookIds Library id of each incoming book id
+   */
+  private async restoreCovers(data: LibraryBackupData, bookIds: Map<string, string>): Promise<void> {
+    for (const cover of data.covers || []) {
+      const bookId = bookIds.get(cover.bookId);
+      if (!bookId || coverService.hasCustomCover(bookId)) continue;
+
+      try {
+        await coverService.restoreCustomCover({ ...cover, bookId });
+      } catch {
+        // Already logged; the book falls back to its catalog cover
+      }
+    }
+  }
+
+  /**
+   * Restore the bundle's preferences. Like the dashboard layouts, a merge
+   * only fills in settings the user hasn't configured.
+   * @param settings Bundle settings
+   * @param mode Restore mode
+   */
+  private restoreSettings(settings: LibraryBackupSettings, mode: RestoreMode): void {
+    BACKUP_SETTING_KEYS.forEach(key => {
+      const value = settings[key];
+      if (value !== undefined && (mode === 'replace' || libraryStore.getSetting(key) === undefined)) {
+        libraryStore.setSetting(key, value);
+      }
+    });
+
+    if (settings.llm_settings && (mode === 'replace' || llmService.getBackupSettings() === undefined)) {
+      llmService.restoreBackupSettings(settings.llm_settings);
+    }
+  }
+
+  /**
+   * Restore the pairs marked as not duplicates. Pairs are keyed by book id,
+   * so like jobs and suggestions they follow their books; a merge keeps the
+   * library's own pairs as well.
+   * @param pairs Pair keys from the bundle
+   * @param mode Restore mode
+   * @param bookIds Library id of each incoming book id
+   */
+  private restoreDismissedDuplicates(pairs: string[], mode: RestoreMode, bookIds: Map<string, string>): void {
+    if (pairs.length === 0) return;
+
+    if (mode === 'replace') {
+      libraryStore.removeSetting('dismissed_duplicate_pairs');
+    }
+
+    pairs.forEach(pair => {
+      const [a, b] = pair.split('|').map(id => bookIds.get(id));
+      if (a && b && a !== b) {
+        libraryDuplicateService.dismissGroup([a, b]);
+      }
+    });
+  }
+
+  /**
+   * Find the library book an incoming book should merge into
+   * @param book Incoming book
+   * @returns Matching book by id, then by any shared identifier, or null
+   */
+  private findExistingBook(book: Book): Book | null {
+    const byId = libraryStore.get<Book>('books', book.id);
+    if (byId) return byId;
+
+    return libraryStore.getAll<Book>('books').find(existing => identifiersMatch(existing.identifiers, book.identifiers)) || null;
+  }
+}
+
+// Create and export a singleton instance
+export const libraryBackupService = new LibraryBackupService();
@@ -0,0 +1,87 @@
+import { Book, MetadataCompletenessReport } from '../models/BookTypes';
+import { libraryStore } from './storage/LibraryStore';
+import { COMPLETENESS_RULES, CompletenessRule, CompletenessWeights, evaluateCompleteness } from '../utils/completeness';
+
+/**
+ * MetadataCompletenessService
+ *
+ * Judges how complete a book's metadata is:
+ * 1. Check every field against its rule, from what the book holds now
+ * 2. Weigh the filled fields with the configured weights
+ * 3. Explain each missing field, so the UI and enrichment know what to fill
+ * Nothing is stored, so the result can't drift from the book's contents.
+ */
+export class MetadataCompletenessService {
+  // Settings key for user-configured field weights
+  private weightsSettingKey = 'completeness_weights';
+
+  /**
+   * Get the fields completeness is judged on
+   * @returns Rules with their default weights
+   */
+  getRules(): CompletenessRule[] {
+    return [...COMPLETENESS_RULES];
+  }
+
+  /**
+   * Get the field weights in effect
+   * @returns Default weights overlaid with the user's configuration
+   */
+  getWeights(): CompletenessWeights {
+    const defaults: CompletenessWeights = {};
+    COMPLETENESS_RULES.forEach(rule => {
+      defaults[rule.field] = rule.weight;
+    });
+
+    return {
+      ...defaults,
+      ...(libraryStore.getSetting<CompletenessWeights>(this.weightsSettingKey) || {})
+    };
+  }
+
+  /**
+   * Set how much a field counts towards completeness
+   * @param field Field to configure
+   * @param weight New weight, 0 to leave the field out; null restores the default
+   */
+  setWeight(field: keyof Book, weight: number | null): void {
+    if (!COMPLETENESS_RULES.some(rule => rule.field === field)) {
+      throw new Error(`Completeness isn't judged on ${String(field)}`);
+    }
+    if (weight !== null && (!Number.isFinite(weight) || weight < 0)) {
+      throw new Error('Weight must be a number of at least 0');
+    }
+
+    const configured = { ...(libraryStore.getSetting<CompletenessWeights>(this.weightsSettingKey) || {}) };
+
+    if (weight !== null) {
+      configured[field] = weight;
+    } else {
+      delete configured[field];
+    }
+
+    libraryStore.setSetting(this.weightsSettingKey, configured);
+  }
+
+  /**
+   * Judge a book's metadata
+   * @param book Book to judge
+   * @returns Percentage, level and the state of every field
+   */
+  evaluate(book: Book): MetadataCompletenessReport {
+    return evaluateCompleteness(book, this.getWeights());
+  }
+
+  /**
+   * Check whether a book's metadata is below a completeness threshold
+   * @param book Book to check
+   * @param threshold Percentage considered complete
+   * @returns True if the book needs more metadata
+   */
+  needsCompletion(book: Book, threshold: number = 80): boolean {
+    return this.evaluate(book).percentage < threshold;
+  }
+}
+
+// Create and export a singleton instance
+export const metadataCompletenessService = new MetadataCompletenessService();
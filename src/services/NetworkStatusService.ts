@@ -0,0 +1,101 @@
+/**
+ * Called whenever the app goes online or offline
+ */
+export type NetworkStatusListener = (online: boolean) => void;
+
+/**
+ * NetworkStatusService
+ *
+ * Tracks whether the catalogs are reachable. The browser's online/offline
+ * events are a first hint; the outcome of real requests is the final word,
+ * since a connected machine can still fail to reach the network.
+ */
+export class NetworkStatusService {
+  private online: boolean;
+  private listeners = new Set<NetworkStatusListener>();
+
+  constructor() {
+    this.online = typeof navigator === 'undefined' ? true : navigator.onLine;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.setOnline(true));
+      window.addEventListener('offline', () => this.setOnline(false));
+    }
+  }
+
+  /**
+   * Check whether the network is believed to be available
+   * @returns True unless the browser or the last request said otherwise
+   */
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  /**
+   * Check whether the browser itself reports no connection, in which case
+   * requests aren't worth attempting
+   * @returns True if the browser is offline
+   */
+  isBrowserOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+
+  /**
+   * Listen for changes of the network status
+   * @param listener Called with the new status
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: NetworkStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Record that a request reached the network
+   */
+  reportSuccess(): void {
+    this.setOnline(true);
+  }
+
+  /**
+   * Record that a request failed because the network was unreachable
+   */
+  reportFailure(): void {
+    this.setOnline(false);
+  }
+
+  /**
+   * Check whether an error means the network was unreachable rather than
+   * the server answering with an error
+   * @param error Error thrown by fetch
+   * @returns True for connection failures
+   */
+  isNetworkError(error: unknown): boolean {
+    // fetch rejects with a TypeError when no response arrives at all
+    return error instanceof TypeError;
+  }
+
+  /**
+   * Check whether an error means the request was cancelled on purpose
+   * @param error Error thrown by fetch
+   * @returns True for aborted requests
+   */
+  isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+  }
+
+  /**
+   * Update the status and notify listeners of changes
+   * @param online New status
+   */
+  private setOnline(online: boolean): void {
+    if (online === this.online) return;
+    this.online = online;
+    this.listeners.forEach(listener => listener(online));
+  }
+}
+
+// Create and export a singleton instance
+export const networkStatusService = new NetworkStatusService();
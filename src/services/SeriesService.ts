@@ -0,0 +1,128 @@
+import { Book, SeriesEntry, SeriesSummary } from '../models/BookTypes';
+import { libraryStore } from './storage/LibraryStore';
+import { bookMetadataService } from './BookMetadataService';
+import { googleBooksProvider } from './metadata/GoogleBooksProvider';
+import { openLibraryProvider } from './metadata/OpenLibraryProvider';
+import { MetadataResult } from './metadata/MetadataProvider';
+import { BookSeries, seriesKey, summarizeSeries } from '../utils/series';
+import { normalizePersonName, surnameOf } from '../utils/textMatching';
+
+/**
+ * The entry that follows a book in its series
+ */
+export interface NextSeriesEntry {
+  series: SeriesSummary;
+  position: number;
+  books: Book[];                // Editions in the library; empty if the entry isn't owned
+}
+
+/**
+ * SeriesService
+ *
+ * Groups the library's books by the series detected when they were added
+ * and finds the entry to read next. Entries the library lacks are looked up
+ * in the catalogs:
+ * 1. Search each catalog for the series name, position and author
+ * 2. Keep the first result whose detected series and position match
+ * 3. Add it to the library as a To Read book
+ */
+export class SeriesService {
+  /**
+   * Get every series in the library
+   * @param books Books to group, defaults to the whole library
+   * @returns Series summaries, by name
+   */
+  getAllSeries(books: Book[] = libraryStore.getAll<Book>('books')): SeriesSummary[] {
+    return summarizeSeries(books);
+  }
+
+  /**
+   * Get one series
+   * @param name Series name, in any spelling that normalizes the same
+   * @param books Books to group, defaults to the whole library
+   * @returns Series summary, or null if no book is in the series
+   */
+  getSeries(name: string, books?: Book[]): SeriesSummary | null {
+    const key = seriesKey(name);
+    return this.getAllSeries(books).find(series => series.key === key) || null;
+  }
+
+  /**
+   * Find the entry after a book in its series
+   * @param book Book in a series
+   * @param books Books to group, defaults to the whole library
+   * @returns The next owned or missing entry, or the next whole position
+   *          after the highest one known; null if the book isn't in a series
+   */
+  getNextEntry(book: Book, books?: Book[]): NextSeriesEntry | null {
+    if (!book.series) return null;
+
+    const series = this.getSeries(book.series.name, books);
+    if (!series) return null;
+
+    const next: SeriesEntry | undefined = series.entries.find(entry => entry.position > book.series!.position);
+    return next
+      ? { series, position: next.position, books: next.books }
+      : { series, position: Math.floor(book.series.position) + 1, books: [] };
+  }
+
+  /**
+   * Look a series entry up in the catalogs
+   * @param series Series name and the position wanted
+   * @param authors Author names of the series, to narrow the search
+   * @returns Promise with the matching catalog result, or null if none matches
+   */
+  async findCatalogEntry(series: BookSeries, authors: string[]): Promise<MetadataResult | null> {
+    const key = seriesKey(series.name);
+    const surname = authors.length > 0 ? surnameOf(normalizePersonName(authors[0])) : '';
+    const matches = (result: MetadataResult) =>
+      result.data.series !== undefined
+      && seriesKey(result.data.series.name) === key
+      && result.data.series.position === series.position;
+
+    const searches: (() => Promise<MetadataResult[]>)[] = [
+      () => googleBooksProvider.search(`"${series.name}" ${series.position}${surname ? ` inauthor:${surname}` : ''}`, 20),
+      () => openLibraryProvider.search(`${series.name} ${series.position} ${surname}`.trim(), 20)
+    ];
+
+    for (const search of searches) {
+      try {
+        const match = (await search()).find(matches);
+        if (match) return match;
+      } catch (error) {
+        console.error(`Error searching for ${series.name} #${series.position}:`, error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Put a series entry on the To Read list: owned editions are marked To Read,
+   * a missing entry is looked up in the catalogs and added
+   * @param next Entry to add
+   * @returns Promise with the To Read book, or null if the catalogs don't have the entry
+   */
+  async addToReadingList(next: NextSeriesEntry): Promise<Book | null> {
+    const owned = next.books[0];
+    if (owned) {
+      return owned.readingStatus === 'to-read'
+        ? owned
+        : bookMetadataService.updateBookSection(owned.id, 'readingStatus', 'to-read');
+    }
+
+    const series: BookSeries = { name: next.series.name, position: next.position };
+    const result = await this.findCatalogEntry(series, next.series.authors);
+    if (!result) return null;
+
+    const added = result.providerId === 'open_library'
+      ? await bookMetadataService.addBookFromOpenLibrary(result.id)
+      : await bookMetadataService.addBookFromGoogleBooks(result.id);
+
+    // The full record may not repeat the series the search result named
+    return added.series ? added : bookMetadataService.saveBook({ ...added, series });
+  }
+}
+
+// Create and export a singleton instance
+export const seriesService = new SeriesService();
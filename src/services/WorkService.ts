@@ -0,0 +1,182 @@
+import { Book, ExternalBookData, OpenLibraryBookRecord, Work, WorkSummary } from '../models/BookTypes';
+import { libraryStore } from './storage/LibraryStore';
+import {
+  addEditionToWork,
+  createWorkFromBook,
+  getOpenLibraryWorkId,
+  summarizeWork,
+  workMatchesBook
+} from '../utils/works';
+
+/**
+ * WorkService
+ *
+ * Groups editions (Books) into works. Every saved book is linked to a work:
+ * the one sharing its Open Library work, or one with the same title by the
+ * same author, or a new work. Users can move editions between works when
+ * the automatic grouping is wrong.
+ */
+export class WorkService {
+  /**
+   * Get every work
+   * @returns Works in the library
+   */
+  getWorks(): Work[] {
+    return libraryStore.getAll<Work>('works');
+  }
+
+  /**
+   * Get a work by id
+   * @param workId Work id
+   * @returns The work or null if not found
+   */
+  getWork(workId: string): Work | null {
+    return libraryStore.get<Work>('works', workId) || null;
+  }
+
+  /**
+   * Get the editions of a work that are in the library
+   * @param workId Work id
+   * @returns Editions, oldest addition first
+   */
+  getEditions(workId: string): Book[] {
+    return libraryStore.getAll<Book>('books')
+      .filter(book => book.workId === workId)
+      .sort((a, b) => a.dateAdded.localeCompare(b.dateAdded));
+  }
+
+  /**
+   * Link a book to its work, creating the work if none matches.
+   * Books already linked to an existing work are returned unchanged.
+   * @param book Edition to link
+   * @returns The book with its workId set
+   */
+  assignWork(book: Book): Book {
+    if (book.workId && libraryStore.has('works', book.workId)) {
+      return book;
+    }
+
+    const openLibraryWorkId = this.findOpenLibraryWorkId(book);
+    const match = this.getWorks().find(work => workMatchesBook(work, book, openLibraryWorkId));
+    const work = match
+      ? addEditionToWork(match, book, openLibraryWorkId)
+      : createWorkFromBook(book, openLibraryWorkId);
+
+    libraryStore.put('works', work.id, work);
+
+    return { ...book, workId: work.id };
+  }
+
+  /**
+   * Link every book without a valid work, e.g. after restoring a backup
+   * @returns Number of books linked
+   */
+  ensureWorks(): number {
+    let linked = 0;
+
+    libraryStore.getAll<Book>('books').forEach(book => {
+      const assigned = this.assignWork(book);
+      if (assigned.workId !== book.workId) {
+        libraryStore.put('books', book.id, assigned);
+        linked++;
+      }
+    });
+
+    return linked;
+  }
+
+  /**
+   * Move an edition to another work
+   * @param bookId Edition to move
+   * @param workId Target work
+   * @returns The updated book, or null if the book or work doesn't exist
+   */
+  moveEdition(bookId: string, workId: string): Book | null {
+    const book = libraryStore.get<Book>('books', bookId);
+    const target = this.getWork(workId);
+    if (!book || !target) return null;
+
+    const previousWorkId = book.workId;
+    const updated = { ...book, workId, lastModified: new Date().toISOString() };
+
+    libraryStore.put('works', workId, addEditionToWork(target, book));
+    libraryStore.put('books', bookId, updated);
+    this.removeEmptyWork(previousWorkId);
+
+    return updated;
+  }
+
+  /**
+   * Split an edition off into a work of its own
+   * @param bookId Edition to split off
+   * @returns The updated book, or null if the book doesn't exist
+   */
+  detachEdition(bookId: string): Book | null {
+    const book = libraryStore.get<Book>('books', bookId);
+    if (!book) return null;
+
+    const work = createWorkFromBook(book);
+    const updated = { ...book, workId: work.id, lastModified: new Date().toISOString() };
+
+    libraryStore.put('works', work.id, work);
+    libraryStore.put('books', bookId, updated);
+    this.removeEmptyWork(book.workId);
+
+    return updated;
+  }
+
+  /**
+   * Delete a work once no edition refers to it
+   * @param workId Work id
+   */
+  removeEmptyWork(workId: string | undefined): void {
+    if (workId && this.getEditions(workId).length === 0) {
+      libraryStore.delete('works', workId);
+    }
+  }
+
+  /**
+   * Summarize one work across its editions
+   * @param workId Work id
+   * @returns Work summary, or null if the work doesn't exist
+   */
+  getWorkSummary(workId: string): WorkSummary | null {
+    const work = this.getWork(workId);
+    return work ? summarizeWork(work, this.getEditions(workId)) : null;
+  }
+
+  /**
+   * Group books by work and summarize each work
+   * @param books Editions to group
+   * @returns One summary per work; books without a work count as a work of their own
+   */
+  summarizeBooks(books: Book[]): WorkSummary[] {
+    const editionsByWork = new Map<string, Book[]>();
+
+    books.forEach(book => {
+      const key = book.workId && libraryStore.has('works', book.workId) ? book.workId : `book:${book.id}`;
+      editionsByWork.set(key, [...(editionsByWork.get(key) || []), book]);
+    });
+
+    return Array.from(editionsByWork.entries()).map(([key, editions]) => {
+      const work = key.startsWith('book:') ? createWorkFromBook(editions[0]) : this.getWork(key)!;
+      return summarizeWork(work, editions);
+    });
+  }
+
+  /**
+   * Look up the Open Library work of a book from its stored Open Library record
+   * @param book Edition
+   * @returns Work OLID, if known
+   */
+  private findOpenLibraryWorkId(book: Book): string | undefined {
+    const editionId = book.identifiers.openLibraryId;
+    if (!editionId) return undefined;
+
+    const stored = libraryStore.get<ExternalBookData>('externalData', `open_library:${editionId}`);
+    return getOpenLibraryWorkId(stored?.data as OpenLibraryBookRecord | undefined);
+  }
+}
+
+// Create and export a singleton instance
+export const workService = new WorkService();
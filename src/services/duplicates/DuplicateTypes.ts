@@ -0,0 +1,41 @@
+import { Book } from '../../models/BookTypes';
+
+/**
+ * Books the detector believes are the same work
+ */
+export interface DuplicateGroup {
+  id: string;                   // Stable key derived from the member ids
+  bookIds: string[];
+  score: number;                // Highest pair similarity in the group, 0-1
+  reasons: string[];            // Why the books were grouped, for display
+}
+
+/**
+ * Sections a merge picks values for as a unit
+ */
+export type MergeSectionId =
+  | 'basicInfo'
+  | 'publicationDetails'
+  | 'coverAndDescription'
+  | 'contentClassification'
+  | 'narrativeElements'
+  | 'contentAnalysis'
+  | 'culturalContext'
+  | 'complexityAnalysis'
+  | 'externalRatings'
+  | 'userData';
+
+export interface MergeSection {
+  id: MergeSectionId;
+  label: string;
+  fields: (keyof Book)[];
+}
+
+/**
+ * How a group of duplicates is merged
+ */
+export interface MergePlan {
+  survivorId: string;           // Book whose id the merged record keeps
+  bookIds: string[];            // Every book in the merge, survivor included
+  sources: Record<MergeSectionId, string>; // Book each section's values are taken from
+}
@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Book, BookAIEnrichment, ExternalBookData } from '../../models/BookTypes';
+import { createAuthorFromName } from '../../utils/bookDefaults';
+import { bookMetadataService } from '../BookMetadataService';
+import { libraryStore } from '../storage/LibraryStore';
+import { fillMissingBookFields } from '../storage/migrations';
+import { libraryDuplicateService } from './LibraryDuplicateService';
+
+// A real store over an in-memory backend instead of IndexedDB
+vi.mock('../storage/LibraryStore', async importOriginal => {
+  const actual = await importOriginal<typeof import('../storage/LibraryStore')>();
+  const { MemoryStorageAdapter } = await import('../../test/MemoryStorageAdapter');
+  return { ...actual, libraryStore: new actual.LibraryStore([new MemoryStorageAdapter()]) };
+});
+
+/**
+ * Save a book to the library
+ */
+const addBook = (id: string, title: string, authors: string[], fields: Partial<Book> = {}): Book =>
+  bookMetadataService.saveBook(fillMissingBookFields({
+    id,
+    title,
+    authors: authors.map(createAuthorFromName),
+    dateAdded: '2025-01-01T00:00:00.000Z',
+    ...fields
+  }));
+
+/**
+ * Store a provider response
+ */
+const addExternalData = (source: ExternalBookData['source'], id: string) =>
+  libraryStore.put<ExternalBookData>('externalData', `${source}:${id}`, {
+    source,
+    data: { id },
+    retrievedAt: '2025-01-01T00:00:00.000Z'
+  });
+
+const groupedIds = () => libraryDuplicateService.findDuplicates().map(group => [...group.bookIds].sort());
+
+describe('LibraryDuplicateService', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await libraryStore.ready();
+    (['books', 'works', 'authors', 'externalData', 'enrichmentMetadata', 'settings'] as const)
+      .forEach(collection => libraryStore.clear(collection));
+  });
+
+  describe('findDuplicates', () => {
+    it('groups books linked through a chain of matches', () => {
+      // a~b share an ISBN and b~c share title and author; a and c don't match directly
+      addBook('a', "Frank Herbert's Dune Saga Collection", [], { isbn: '9780441013593' });
+      addBook('b', 'Dune', ['Frank Herbert'], { isbn: '978-0-441-01359-3' });
+      addBook('c', 'Dune', ['Frank Herbert'], { isbn: '9780441172719' });
+      addBook('d', 'Children of Dune', ['Frank Herbert']);
+
+      const groups = libraryDuplicateService.findDuplicates();
+
+      expect(groups).toHaveLength(1);
+      expect([...groups[0].bookIds].sort()).toEqual(['a', 'b', 'c']);
+      expect(groups[0].score).toBe(1);
+      expect(groups[0].reasons).toEqual(expect.arrayContaining(['Same ISBN', 'Same title', 'Same author']));
+    });
+
+    it('matches author names that differ in initials', () => {
+      addBook('a', 'The Hobbit', ['J. R. R. Tolkien']);
+      addBook('b', 'The Hobbit', ['John Ronald Reuel Tolkien']);
+
+      expect(groupedIds()).toEqual([['a', 'b']]);
+    });
+
+    it('does not group titles that differ only by a number', () => {
+      addBook('a', 'The Expanse Volume 1', ['James S. A. Corey']);
+      addBook('b', 'The Expanse Volume 2', ['James S. A. Corey']);
+
+      expect(groupedIds()).toEqual([]);
+    });
+
+    it('requires an exact title when an author is unknown', () => {
+      addBook('a', 'Beowulf', []);
+      addBook('b', 'Beowulf', ['Unknown Author']);
+      addBook('c', 'Beowulfs', []);
+
+      expect(groupedIds()).toEqual([['a', 'b']]);
+    });
+
+    it('leaves out pairs marked as not duplicates', () => {
+      addBook('a', 'Dune', ['Frank Herbert']);
+      addBook('b', 'Dune', ['Frank Herbert']);
+      addBook('c', 'Dune', ['Frank Herbert']);
+
+      libraryDuplicateService.dismissGroup(['b', 'a']);
+      expect(libraryStore.getSetting('dismissed_duplicate_pairs')).toEqual(['a|b']);
+      // c still matches both, so all three stay together
+      expect(groupedIds()).toEqual([['a', 'b', 'c']]);
+
+      libraryDuplicateService.dismissGroup(['a', 'b', 'c']);
+      expect(groupedIds()).toEqual([]);
+    });
+  });
+
+  describe('mergeBooks', () => {
+    it('unions reading history into the survivor and cleans up what the removed book left', () => {
+      addBook('keep', 'Dune', ['Frank Herbert'], {
+        identifiers: { googleBooksId: 'g-keep', openLibraryId: 'OL1M' },
+        readingSessions: [
+          { date: '2025-02-01', pagesRead: 40 },
+          { date: '2025-02-03', pagesRead: 25 },
+          { date: '2025-02-05', pagesRead: 30 },
+          { date: '2025-02-07', pagesRead: 35 }
+        ],
+        userTags: ['Classic']
+      });
+      addBook('drop', 'Dune', ['Frank Herbert'], {
+        identifiers: { googleBooksId: 'g-drop', openLibraryId: 'OL2M' },
+        dateAdded: '2024-06-01T00:00:00.000Z',
+        readingSessions: [
+          { date: '2025-02-03', pagesRead: 25 },
+          { date: '2025-01-15', pagesRead: 10 }
+        ],
+        annotations: [{ page: 12, text: 'Fear is the mind-killer', type: 'highlight', dateAdded: '2025-01-15' }],
+        userTags: ['classic', 'Desert']
+      });
+      // Another edition still uses the Open Library record of the removed book
+      addBook('other', 'Dune Messiah', ['Frank Herbert'], { identifiers: { openLibraryId: 'OL2M' } });
+      ['g-keep', 'g-drop'].forEach(id => addExternalData('google_books', id));
+      ['OL1M', 'OL2M'].forEach(id => addExternalData('open_library', id));
+      libraryStore.put('enrichmentMetadata', 'drop', { themes: ['ecology'] } as unknown as BookAIEnrichment);
+
+      // The book with the most reading history survives
+      const plan = libraryDuplicateService.createMergePlan(['drop', 'keep'])!;
+      expect(plan.survivorId).toBe('keep');
+
+      const merged = libraryDuplicateService.mergeBooks(plan);
+
+      expect(merged.id).toBe('keep');
+      expect(merged.dateAdded).toBe('2024-06-01T00:00:00.000Z');
+      expect(merged.readingSessions.map(session => session.date)).toEqual([
+        '2025-01-15', '2025-02-01', '2025-02-03', '2025-02-05', '2025-02-07'
+      ]);
+      expect(merged.annotations).toHaveLength(1);
+      expect(merged.userTags).toEqual(['Classic', 'Desert']);
+      expect(merged.identifiers).toMatchObject({ googleBooksId: 'g-keep', openLibraryId: 'OL1M' });
+
+      expect(bookMetadataService.getBookById('drop')).toBeNull();
+      expect(libraryStore.get('books', 'keep')).toMatchObject({ readingSessions: merged.readingSessions });
+
+      expect(libraryStore.get('enrichmentMetadata', 'keep')).toEqual({ themes: ['ecology'] });
+      expect(libraryStore.has('enrichmentMetadata', 'drop')).toBe(false);
+
+      expect(libraryStore.has('externalData', 'google_books:g-drop')).toBe(false);
+      expect(libraryStore.has('externalData', 'google_books:g-keep')).toBe(true);
+      expect(libraryStore.has('externalData', 'open_library:OL1M')).toBe(true);
+      expect(libraryStore.has('externalData', 'open_library:OL2M')).toBe(true);
+    });
+
+    it('keeps enrichment the survivor already has', () => {
+      addBook('keep', 'Dune', ['Frank Herbert'], { readingSessions: [{ date: '2025-02-01', pagesRead: 40 }] });
+      addBook('drop', 'Dune', ['Frank Herbert']);
+      libraryStore.put('enrichmentMetadata', 'keep', { themes: ['power'] } as unknown as BookAIEnrichment);
+      libraryStore.put('enrichmentMetadata', 'drop', { themes: ['ecology'] } as unknown as BookAIEnrichment);
+
+      libraryDuplicateService.mergeBooks(libraryDuplicateService.createMergePlan(['keep', 'drop'])!);
+
+      expect(libraryStore.get('enrichmentMetadata', 'keep')).toEqual({ themes: ['power'] });
+      expect(libraryStore.has('enrichmentMetadata', 'drop')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,412 @@
+import {
+  Annotation,
+  Book,
+  BookAIEnrichment,
+  EnrichableField,
+  ReadingSession
+} from '../../models/BookTypes';
+import { bookMetadataService } from '../BookMetadataService';
+import { libraryStore } from '../storage/LibraryStore';
+import { metadataProviderRegistry } from '../metadata/MetadataProviderRegistry';
+import { buildBookIdentifiers } from '../../utils/bookIdentifiers';
+import { normalizePersonName, normalizeTitle, surnameOf, textSimilarity } from '../../utils/textMatching';
+import { DuplicateGroup, MergePlan, MergeSection, MergeSectionId } from './DuplicateTypes';
+
+/**
+ * Sections offered in the merge tool, in display order.
+ * readingSessions, annotations and userTags are not listed: they are
+ * always unioned across every merged book.
+ */
+export const MERGE_SECTIONS: MergeSection[] = [
+  { id: 'basicInfo', label: 'Title, Authors & ISBN', fields: ['title', 'subtitle', 'originalTitle', 'authors', 'isbn'] },
+  {
+    id: 'publicationDetails',
+    label: 'Publication Details',
+    fields: ['publisher', 'publishedDate', 'edition', 'language', 'translatedFrom', 'translator', 'pageCount', 'format', 'series']
+  },
+  { id: 'coverAndDescription', label: 'Cover & Description', fields: ['coverImage', 'description'] },
+  {
+    id: 'contentClassification',
+    label: 'Content Classification',
+    fields: ['genres', 'subgenres', 'subjects', 'contentTags', 'audience', 'fiction']
+  },
+  { id: 'narrativeElements', label: 'Narrative Elements', fields: ['narrativeStructure'] },
+  {
+    id: 'contentAnalysis',
+    label: 'Content Analysis',
+    fields: ['themes', 'locations', 'historicalPeriod', 'characters', 'enrichedData']
+  },
+  { id: 'culturalContext', label: 'Cultural Context', fields: ['awards', 'culturalContext'] },
+  { id: 'complexityAnalysis', label: 'Complexity', fields: ['complexity'] },
+  {
+    id: 'externalRatings',
+    label: 'External Ratings',
+    fields: ['amazonRating', 'goodreadsRating', 'averageRating', 'nytBestseller', 'recommendedBy']
+  },
+  {
+    id: 'userData',
+    label: 'Your Rating & Reading Status',
+    fields: [
+      'userRating', 'readingStatus', 'startDate', 'finishDate', 'abandonedReason',
+      'isFavorite', 'isReread', 'readCount', 'userNotes', 'emotionalResponse'
+    ]
+  }
+];
+
+// Minimum title similarity for two books with matching authors to count as duplicates
+const TITLE_THRESHOLD = 0.88;
+// Minimum author similarity; bigram similarity of transliteration variants is ~0.8
+const AUTHOR_THRESHOLD = 0.7;
+
+/**
+ * Comparison keys computed once per book
+ */
+interface BookKeys {
+  book: Book;
+  title: string;
+  authors: string[];            // Normalized names; empty when unknown
+}
+
+/**
+ * LibraryDuplicateService
+ *
+ * Finds books that were added more than once (different editions, or the
+ * same edition under two catalog ids) and merges them into one record:
+ * 1. Books sharing an ISBN, or with similar normalized titles and authors, are grouped
+ * 2. The user picks which book each section's values come from
+ * 3. The merge unions reading sessions, annotations and tags, keeps the
+ *    survivor's id and moves completion status and stored data onto it
+ */
+export class LibraryDuplicateService {
+  // Settings key for pairs the user marked as not duplicates
+  private dismissedSettingKey = 'dismissed_duplicate_pairs';
+
+  /**
+   * Find groups of likely duplicates in the library
+   * @returns Groups with two or more books, most certain first
+   */
+  findDuplicates(): DuplicateGroup[] {
+    const keys = bookMetadataService.getAllBooks().map(book => this.toKeys(book));
+    const dismissed = new Set(libraryStore.getSetting<string[]>(this.dismissedSettingKey) || []);
+
+    // Union-find over matching pairs, so A~B and B~C form one group
+    const parent = new Map<string, string>(keys.map(k => [k.book.id, k.book.id]));
+    const find = (id: string): string => {
+      const root = parent.get(id)!;
+      if (root === id) return id;
+      const top = find(root);
+      parent.set(id, top);
+      return top;
+    };
+
+    const pairScores = new Map<string, { score: number; reasons: Set<string> }>();
+
+    for (let i = 0; i < keys.length; i++) {
+      for (let j = i + 1; j < keys.length; j++) {
+        if (dismissed.has(this.pairKey(keys[i].book.id, keys[j].book.id))) continue;
+
+        const match = this.compare(keys[i], keys[j]);
+        if (!match) continue;
+
+        const rootA = find(keys[i].book.id);
+        const rootB = find(keys[j].book.id);
+        const merged = pairScores.get(rootA) || pairScores.get(rootB) || { score: 0, reasons: new Set<string>() };
+        const other = rootA === rootB ? undefined : pairScores.get(rootB);
+
+        merged.score = Math.max(merged.score, match.score, other?.score || 0);
+        match.reasons.forEach(reason => merged.reasons.add(reason));
+        other?.reasons.forEach(reason => merged.reasons.add(reason));
+
+        parent.set(rootB, rootA);
+        pairScores.delete(rootB);
+        pairScores.set(rootA, merged);
+      }
+    }
+
+    const members = new Map<string, string[]>();
+    keys.forEach(k => {
+      const root = find(k.book.id);
+      members.set(root, [...(members.get(root) || []), k.book.id]);
+    });
+
+    return Array.from(members.entries())
+      .filter(([, bookIds]) => bookIds.length > 1)
+      .map(([root, bookIds]) => ({
+        id: [...bookIds].sort().join('|'),
+        bookIds,
+        score: pairScores.get(root)?.score || 0,
+        reasons: Array.from(pairScores.get(root)?.reasons || [])
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Remember that a group's books are not duplicates of each other
+   * @param bookIds Books in the group
+   */
+  dismissGroup(bookIds: string[]): void {
+    const dismissed = new Set(libraryStore.getSetting<string[]>(this.dismissedSettingKey) || []);
+
+    bookIds.forEach((a, i) => bookIds.slice(i + 1).forEach(b => dismissed.add(this.pairKey(a, b))));
+
+    libraryStore.setSetting(this.dismissedSettingKey, Array.from(dismissed));
+  }
+
+  /**
+   * Propose a merge for a group: the book with the most reading history
+   * survives, and each section comes from the book with the most filled-in values
+   * @param bookIds Books to merge
+   * @returns Merge plan, or null if fewer than two of the books still exist
+   */
+  createMergePlan(bookIds: string[]): MergePlan | null {
+    const books = bookIds
+      .map(id => bookMetadataService.getBookById(id))
+      .filter((book): book is Book => book !== null);
+    if (books.length < 2) return null;
+
+    const historySize = (book: Book) => book.readingSessions.length + book.annotations.length;
+    const survivor = [...books].sort((a, b) =>
+      historySize(b) - historySize(a)
+      || Number(!!b.googleBooksId) - Number(!!a.googleBooksId)
+      || a.dateAdded.localeCompare(b.dateAdded)
+    )[0];
+
+    const sources = Object.fromEntries(MERGE_SECTIONS.map(section => {
+      // Ties go to the survivor
+      const ranked = [survivor, ...books.filter(book => book !== survivor)];
+      const best = ranked.reduce((winner, book) =>
+        this.countFilledFields(book, section) > this.countFilledFields(winner, section) ? book : winner
+      );
+      return [section.id, best.id];
+    })) as Record<MergeSectionId, string>;
+
+    return { survivorId: survivor.id, bookIds: books.map(book => book.id), sources };
+  }
+
+  /**
+   * Build the merged book without saving anything
+   * @param plan Merge plan
+   * @returns Merged book
+   */
+  previewMerge(plan: MergePlan): Book {
+    const books = this.getPlanBooks(plan);
+    const survivor = books.find(book => book.id === plan.survivorId);
+    if (!survivor) {
+      throw new Error('The book chosen to keep is no longer in the library');
+    }
+
+    const merged: Book = { ...survivor, provenance: {} };
+
+    MERGE_SECTIONS.forEach(section => {
+      const source = books.find(book => book.id === plan.sources[section.id]) || survivor;
+      section.fields.forEach(field => {
+        Object.assign(merged, { [field]: source[field] });
+        // Provenance follows the value it describes
+        const provenance = source.provenance?.[field as EnrichableField];
+        if (provenance) merged.provenance![field as EnrichableField] = provenance;
+      });
+    });
+
+    // ISBNs follow the chosen title/authors; catalog ids fill in from any book
+    const isbnSource = books.find(book => book.id === plan.sources.basicInfo) || survivor;
+    merged.identifiers = buildBookIdentifiers({ isbn: isbnSource.isbn }, {
+      googleBooksId: survivor.identifiers.googleBooksId
+        || books.map(book => book.identifiers.googleBooksId).find(Boolean),
+      openLibraryId: isbnSource.identifiers.openLibraryId
+        || books.map(book => book.identifiers.openLibraryId).find(Boolean)
+    });
+
+    merged.id = survivor.id;
+    merged.dateAdded = books.map(book => book.dateAdded).sort()[0];
+    merged.readingSessions = this.unionBy(
+      books.flatMap(book => book.readingSessions),
+      (session: ReadingSession) => `${session.date}|${session.startTime || ''}|${session.endTime || ''}|${session.pagesRead}`
+    ).sort((a, b) => a.date.localeCompare(b.date));
+    merged.annotations = this.unionBy(
+      books.flatMap(book => book.annotations),
+      (annotation: Annotation) => `${annotation.page}|${annotation.type}|${annotation.text}`
+    );
+    merged.userTags = this.unionBy(books.flatMap(book => book.userTags), tag => tag.toLowerCase());
+
+    return merged;
+  }
+
+  /**
+   * Merge a group of books into one record and delete the others
+   * @param plan Merge plan
+   * @returns The saved, merged book
+   */
+  mergeBooks(plan: MergePlan): Book {
+    const merged = this.previewMerge(plan);
+    const removed = this.getPlanBooks(plan).filter(book => book.id !== plan.survivorId);
+
+    const saved = bookMetadataService.saveBook(merged);
+
+    removed.forEach(book => {
+      this.moveEnrichmentMetadata(book.id, saved.id);
+      bookMetadataService.deleteBook(book.id);
+    });
+
+    this.removeOrphanedExternalData(removed, saved);
+
+    return saved;
+  }
+
+  /**
+   * Compare two books
+   * @param a First book's keys
+   * @param b Second book's keys
+   * @returns Similarity and reasons, or null if they don't look like the same work
+   */
+  private compare(a: BookKeys, b: BookKeys): { score: number; reasons: string[] } | null {
+    const isbnA = a.book.identifiers.isbn13;
+    if (isbnA && isbnA === b.book.identifiers.isbn13) {
+      return { score: 1, reasons: ['Same ISBN'] };
+    }
+
+    // Cheap length check before computing bigrams
+    const shorter = Math.min(a.title.length, b.title.length);
+    const longer = Math.max(a.title.length, b.title.length);
+    if (shorter === 0 || shorter / longer < 0.6) return null;
+
+    // "Volume 1" and "Volume 2" are near-identical strings but different books
+    if ((a.title.match(/\d+/g) || []).join() !== (b.title.match(/\d+/g) || []).join()) return null;
+
+    const titleSimilarity = textSimilarity(a.title, b.title);
+    if (titleSimilarity < TITLE_THRESHOLD) return null;
+
+    // Unknown authors neither confirm nor rule out a match; require an exact title
+    if (a.authors.length === 0 || b.authors.length === 0) {
+      return titleSimilarity === 1 ? { score: 0.6, reasons: ['Same title', 'Author unknown'] } : null;
+    }
+
+    let authorSimilarity = 0;
+    a.authors.forEach(nameA => b.authors.forEach(nameB => {
+      // Initials vary between catalogs ("J. R. R. Tolkien" / "John Ronald Reuel Tolkien"),
+      // so surnames are compared on their own too
+      const full = textSimilarity(nameA, nameB);
+      const surname = textSimilarity(surnameOf(nameA), surnameOf(nameB)) * 0.9;
+      authorSimilarity = Math.max(authorSimilarity, full, surname);
+    }));
+    if (authorSimilarity < AUTHOR_THRESHOLD) return null;
+
+    return {
+      score: Math.round((titleSimilarity * 0.6 + authorSimilarity * 0.4) * 100) / 100,
+      reasons: [
+        titleSimilarity === 1 ? 'Same title' : 'Similar title',
+        authorSimilarity === 1 ? 'Same author' : 'Similar author name'
+      ]
+    };
+  }
+
+  /**
+   * Compute a book's comparison keys
+   * @param book Book
+   * @returns Normalized title and author names
+   */
+  private toKeys(book: Book): BookKeys {
+    return {
+      book,
+      title: normalizeTitle(book.title),
+      authors: book.authors
+        .map(author => author.name)
+        .filter(name => name && name !== 'Unknown Author')
+        .map(normalizePersonName)
+    };
+  }
+
+  /**
+   * Build an order-independent key for a pair of books
+   * @param a First book id
+   * @param b Second book id
+   * @returns Pair key
+   */
+  private pairKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+
+  /**
+   * Count the fields of a section that hold a value
+   * @param book Book
+   * @param section Merge section
+   * @returns Number of filled fields
+   */
+  private countFilledFields(book: Book, section: MergeSection): number {
+    return section.fields.filter(field => {
+      const value = book[field];
+      if (value === undefined || value === null || value === '' || value === 0) return false;
+      if (Array.isArray(value)) return value.length > 0;
+      if (typeof value === 'object') return Object.values(value).some(v => v !== undefined && v !== '');
+      return true;
+    }).length;
+  }
+
+  /**
+   * Get the books in a plan, survivor first
+   * @param plan Merge plan
+   * @returns Books still in the library
+   */
+  private getPlanBooks(plan: MergePlan): Book[] {
+    return [plan.survivorId, ...plan.bookIds.filter(id => id !== plan.survivorId)]
+      .map(id => bookMetadataService.getBookById(id))
+      .filter((book): book is Book => book !== null);
+  }
+
+  /**
+   * Remove duplicate items, keeping the first occurrence
+   * @param items Items in order of preference
+   * @param keyOf Identity of an item
+   * @returns Distinct items
+   */
+  private unionBy<T>(items: T[], keyOf: (item: T) => string): T[] {
+    const seen = new Set<string>();
+    return items.filter(item => {
+      const key = keyOf(item);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Move AI enrichment stored under a removed book's id to the survivor,
+   * unless the survivor has its own
+   * @param fromId Removed book id
+   * @param toId Surviving book id
+   */
+  private moveEnrichmentMetadata(fromId: string, toId: string): void {
+    const enrichment = libraryStore.get<BookAIEnrichment>('enrichmentMetadata', fromId);
+    if (!enrichment) return;
+
+    if (!libraryStore.has('enrichmentMetadata', toId)) {
+      libraryStore.put('enrichmentMetadata', toId, enrichment);
+    }
+    libraryStore.delete('enrichmentMetadata', fromId);
+  }
+
+  /**
+   * Delete stored provider responses of removed books that the merged book
+   * and the rest of the library no longer reference
+   * @param removed Books deleted by the merge
+   * @param merged Surviving book
+   */
+  private removeOrphanedExternalData(removed: Book[], merged: Book): void {
+    const remaining = bookMetadataService.getAllBooks();
+
+    metadataProviderRegistry.getProviders().forEach(provider => {
+      const key = provider.identifierKey;
+      if (!provider.externalSource || !key) return;
+
+      removed.forEach(book => {
+        const recordId = book.identifiers[key];
+        if (!recordId || merged.identifiers[key] === recordId) return;
+        if (remaining.some(other => other.identifiers[key] === recordId)) return;
+
+        libraryStore.delete('externalData', `${provider.externalSource}:${recordId}`);
+      });
+    });
+  }
+}
+
+// Create and export a singleton instance
+export const libraryDuplicateService = new LibraryDuplicateService();
@@ -0,0 +1,43 @@
+import { Book } from '../../models/BookTypes';
+import { formatDelimited } from '../../utils/csv';
+import { ExportOptions, LibraryExporter } from './ExportTypes';
+import { FLAT_EXPORT_COLUMNS } from './bookFlattening';
+
+/**
+ * CsvExporter
+ *
+ * Writes one row per book with the columns the user selected,
+ * flattening nested fields as described in bookFlattening.
+ */
+export class CsvExporter implements LibraryExporter {
+  id = 'csv';
+  name = 'CSV';
+  description = 'Spreadsheet with the columns you choose';
+  fileExtension = 'csv';
+  mimeType = 'text/csv';
+  supportsColumns = true;
+
+  /**
+   * Export books to CSV
+   * @param books Books to export
+   * @param options Columns to include; defaults to the default selection
+   * @returns CSV text
+   */
+  export(books: Book[], options: ExportOptions = {}): string {
+    const columns = options.columns
+      ? FLAT_EXPORT_COLUMNS.filter(column => options.columns!.includes(column.id))
+      : FLAT_EXPORT_COLUMNS.filter(column => column.defaultSelected);
+
+    if (columns.length === 0) {
+      throw new Error('Select at least one column to export');
+    }
+
+    return formatDelimited([
+      columns.map(column => column.id),
+      ...books.map(book => columns.map(column => column.getValue(book)))
+    ]);
+  }
+}
+
+// Create and export a singleton instance
+export const csvExporter = new CsvExporter();
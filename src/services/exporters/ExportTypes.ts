@@ -0,0 +1,32 @@
+import { Book } from '../../models/BookTypes';
+
+/**
+ * A column of the flat CSV export
+ */
+export interface ExportColumn {
+  id: string;                   // Column header, a dot path into Book (e.g. "series.name")
+  group: string;                // Section the column is listed under when choosing columns
+  description: string;          // How the value is produced
+  defaultSelected: boolean;     // Whether the column is selected by default
+  getValue(book: Book): string;
+}
+
+/**
+ * Options a user can pass to an exporter
+ */
+export interface ExportOptions {
+  columns?: string[];           // Column ids to include, for exporters that support them
+}
+
+/**
+ * Serializes library books into a file format
+ */
+export interface LibraryExporter {
+  id: string;                   // Stable identifier, e.g. "goodreads"
+  name: string;                 // Display name
+  description: string;          // Short explanation shown next to the option
+  fileExtension: string;        // Extension of the downloaded file, without a dot
+  mimeType: string;
+  supportsColumns: boolean;     // Whether the user can choose columns
+  export(books: Book[], options?: ExportOptions): string;
+}
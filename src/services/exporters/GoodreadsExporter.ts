@@ -0,0 +1,144 @@
+import { Book, ReadingStatus } from '../../models/BookTypes';
+import { formatDelimited } from '../../utils/csv';
+import { LibraryExporter } from './ExportTypes';
+
+/**
+ * Columns of Goodreads' library export, which its importer also reads
+ */
+const GOODREADS_COLUMNS = [
+  'Book Id',
+  'Title',
+  'Author',
+  'Author l-f',
+  'Additional Authors',
+  'ISBN',
+  'ISBN13',
+  'My Rating',
+  'Average Rating',
+  'Publisher',
+  'Binding',
+  'Number of Pages',
+  'Year Published',
+  'Original Publication Year',
+  'Date Read',
+  'Date Added',
+  'Bookshelves',
+  'Bookshelves with positions',
+  'Exclusive Shelf',
+  'My Review',
+  'Spoiler',
+  'Private Notes',
+  'Read Count',
+  'Owned Copies'
+];
+
+/**
+ * Reading statuses and the Goodreads exclusive shelf they map to
+ */
+const STATUS_TO_SHELF: Record<ReadingStatus, string> = {
+  'completed': 'read',
+  'reading': 'currently-reading',
+  'to-read': 'to-read',
+  'abandoned': 'did-not-finish',
+  'reference': 'to-read'
+};
+
+/**
+ * Book formats and the Goodreads binding they map to
+ */
+const FORMAT_TO_BINDING: Record<Book['format'], string> = {
+  'hardcover': 'Hardcover',
+  'paperback': 'Paperback',
+  'ebook': 'Kindle Edition',
+  'audiobook': 'Audiobook',
+  'other': ''
+};
+
+/**
+ * GoodreadsExporter
+ *
+ * Writes the library in the layout of Goodreads' own CSV export, so it
+ * can be imported back into Goodreads (or any tool that reads its export).
+ */
+export class GoodreadsExporter implements LibraryExporter {
+  id = 'goodreads';
+  name = 'Goodreads CSV';
+  description = 'Import into Goodreads or any tool that reads its export';
+  fileExtension = 'csv';
+  mimeType = 'text/csv';
+  supportsColumns = false;
+
+  /**
+   * Export books in Goodreads' CSV layout
+   * @param books Books to export
+   * @returns CSV text
+   */
+  export(books: Book[]): string {
+    return formatDelimited([GOODREADS_COLUMNS, ...books.map(book => this.toRow(book))]);
+  }
+
+  /**
+   * Map a book onto a Goodreads export row
+   * @param book Book to export
+   * @returns Field values in GOODREADS_COLUMNS order
+   */
+  private toRow(book: Book): string[] {
+    const [author, ...additionalAuthors] = book.authors.map(a => a.name);
+    const exclusiveShelf = STATUS_TO_SHELF[book.readingStatus];
+    const year = (book.publishedDate || '').slice(0, 4);
+
+    return [
+      book.id.startsWith('goodreads-') ? book.id.slice('goodreads-'.length) : '',
+      book.title,
+      author || '',
+      author ? this.toLastFirst(author) : '',
+      additionalAuthors.join(', '),
+      // Goodreads wraps ISBNs in ="..." so spreadsheets keep leading zeros
+      `="${book.identifiers.isbn10 || ''}"`,
+      `="${book.identifiers.isbn13 || ''}"`,
+      String(Math.round(book.userRating || 0)),
+      book.averageRating !== undefined ? book.averageRating.toFixed(2) : '',
+      book.publisher,
+      FORMAT_TO_BINDING[book.format] || '',
+      book.pageCount ? String(book.pageCount) : '',
+      year,
+      year,
+      this.toGoodreadsDate(book.finishDate),
+      this.toGoodreadsDate(book.dateAdded),
+      [...book.userTags.filter(tag => tag !== exclusiveShelf), exclusiveShelf].join(', '),
+      '',
+      exclusiveShelf,
+      book.userNotes,
+      '',
+      '',
+      String(book.readCount || (book.readingStatus === 'completed' ? 1 : 0)),
+      book.userTags.includes('owned') ? '1' : '0'
+    ];
+  }
+
+  /**
+   * Turn "First Last" into Goodreads' "Last, First"
+   * @param name Author display name
+   * @returns Name in last-first order
+   */
+  private toLastFirst(name: string): string {
+    const parts = name.trim().split(/\s+/);
+    if (parts.length < 2) return name;
+
+    const last = parts.pop();
+    return `${last}, ${parts.join(' ')}`;
+  }
+
+  /**
+   * Convert an ISO date to Goodreads' YYYY/MM/DD
+   * @param value ISO date or timestamp
+   * @returns Goodreads date, or empty when missing
+   */
+  private toGoodreadsDate(value?: string): string {
+    const match = (value || '').match(/^(\d{4})-(\d{2})-(\d{2})/);
+    return match ? `${match[1]}/${match[2]}/${match[3]}` : '';
+  }
+}
+
+// Create and export a singleton instance
+export const goodreadsExporter = new GoodreadsExporter();
@@ -0,0 +1,29 @@
+import { Book } from '../../models/BookTypes';
+import { LibraryExporter } from './ExportTypes';
+
+/**
+ * JsonLinesExporter
+ *
+ * Writes each book as a complete JSON object on its own line, so the
+ * export is lossless and can be streamed by tools like jq.
+ */
+export class JsonLinesExporter implements LibraryExporter {
+  id = 'jsonl';
+  name = 'JSON Lines';
+  description = 'One complete book record per line, for scripting';
+  fileExtension = 'jsonl';
+  mimeType = 'application/x-ndjson';
+  supportsColumns = false;
+
+  /**
+   * Export books to JSON Lines
+   * @param books Books to export
+   * @returns One JSON object per line
+   */
+  export(books: Book[]): string {
+    return books.map(book => JSON.stringify(book)).join('\n') + (books.length > 0 ? '\n' : '');
+  }
+}
+
+// Create and export a singleton instance
+export const jsonLinesExporter = new JsonLinesExporter();
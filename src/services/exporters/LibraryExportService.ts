@@ -0,0 +1,61 @@
+import { Book } from '../../models/BookTypes';
+import { bookMetadataService } from '../BookMetadataService';
+import { downloadTextFile } from '../../utils/download';
+import { ExportColumn, ExportOptions, LibraryExporter } from './ExportTypes';
+import { FLAT_EXPORT_COLUMNS } from './bookFlattening';
+import { goodreadsExporter } from './GoodreadsExporter';
+import { csvExporter } from './CsvExporter';
+import { jsonLinesExporter } from './JsonLinesExporter';
+
+/**
+ * LibraryExportService
+ *
+ * Runs a LibraryExporter over the library and offers the result as a download
+ */
+export class LibraryExportService {
+  // Exporters available to the user, in display order
+  private exporters: LibraryExporter[] = [goodreadsExporter, csvExporter, jsonLinesExporter];
+
+  /**
+   * Get every available exporter
+   * @returns Exporters in display order
+   */
+  getExporters(): LibraryExporter[] {
+    return this.exporters;
+  }
+
+  /**
+   * Get the columns available to exporters that support column selection
+   * @returns Columns in output order
+   */
+  getColumns(): ExportColumn[] {
+    return FLAT_EXPORT_COLUMNS;
+  }
+
+  /**
+   * Export books with the given exporter
+   * @param exporter Exporter for the target format
+   * @param books Books to export; defaults to the whole library
+   * @param options Exporter options
+   * @returns File contents
+   */
+  exportBooks(exporter: LibraryExporter, books: Book[] = bookMetadataService.getAllBooks(), options?: ExportOptions): string {
+    return exporter.export(books, options);
+  }
+
+  /**
+   * Export books and offer the result as a file download
+   * @param exporter Exporter for the target format
+   * @param books Books to export; defaults to the whole library
+   * @param options Exporter options
+   */
+  downloadExport(exporter: LibraryExporter, books?: Book[], options?: ExportOptions): void {
+    const contents = this.exportBooks(exporter, books, options);
+    const fileName = `book-analytics-${exporter.id}-${new Date().toISOString().split('T')[0]}.${exporter.fileExtension}`;
+
+    downloadTextFile(contents, fileName, exporter.mimeType);
+  }
+}
+
+// Create and export a singleton instance
+export const libraryExportService = new LibraryExportService();
@@ -0,0 +1,221 @@
+import { Book } from '../../models/BookTypes';
+import { ExportColumn } from './ExportTypes';
+
+/**
+ * Flattening scheme for writing Book records to a single CSV row
+ *
+ * - Scalars are written as-is; booleans as "true"/"false"; missing values as ""
+ * - Nested objects become one column per field, named by dot path
+ *   (series.name, narrativeStructure.pov, complexity.vocabulary, ...)
+ * - Arrays of strings are joined with "; " (genres, subjects, userTags, ...)
+ * - Arrays of objects are joined with "; ", each item written as its name
+ *   followed by its key attribute in parentheses:
+ *     authors          "Name"                       e.g. "Ursula K. Le Guin; Ted Chiang"
+ *     themes           "Name (relevance)"           e.g. "Identity (5); Memory (3)"
+ *     locations        "Name (type)"                e.g. "Anarres (planet)"
+ *     characters       "Name (role)"                e.g. "Shevek (protagonist)"
+ *     awards           "Name year (winner|nominee)" e.g. "Hugo Award 1975 (winner)"
+ *     emotions         "emotion:intensity"          e.g. "joy:4; dread:2"
+ * - readingSessions and annotations are summarized (count, pages, first and
+ *   last date) since a row cannot hold them; use the JSON Lines export for
+ *   a lossless copy
+ */
+
+export const LIST_SEPARATOR = '; ';
+
+/**
+ * Write a scalar value as a CSV field
+ * @param value Value to write
+ * @returns Field text
+ */
+export const flattenScalar = (value: string | number | boolean | undefined | null): string => {
+  if (value === undefined || value === null) return '';
+  return String(value);
+};
+
+/**
+ * Write a list as a single CSV field
+ * @param items List items
+ * @param format Formats one item, defaults to String()
+ * @returns Items joined with the list separator
+ */
+export const flattenList = <T>(items: T[] | undefined, format: (item: T) => string = item => String(item)): string => {
+  return (items || []).map(format).join(LIST_SEPARATOR);
+};
+
+/**
+ * Build a column reading a scalar field
+ * @param id Column header
+ * @param group Column group
+ * @param description How the value is produced
+ * @param getValue Reads the value from a book
+ * @param defaultSelected Whether the column is selected by default
+ * @returns Export column
+ */
+const scalarColumn = (
+  id: string,
+  group: string,
+  description: string,
+  getValue: (book: Book) => string | number | boolean | undefined,
+  defaultSelected: boolean = false
+): ExportColumn => ({
+  id,
+  group,
+  description,
+  defaultSelected,
+  getValue: book => flattenScalar(getValue(book))
+});
+
+/**
+ * Every column of the flat CSV export, in output order
+ */
+export const FLAT_EXPORT_COLUMNS: ExportColumn[] = [
+  // Identification
+  scalarColumn('id', 'Identification', 'Library id', book => book.id, true),
+  scalarColumn('isbn', 'Identification', 'ISBN', book => book.isbn, true),
+  scalarColumn('googleBooksId', 'Identification', 'Google Books volume id', book => book.googleBooksId),
+  scalarColumn('title', 'Identification', 'Title', book => book.title, true),
+  scalarColumn('subtitle', 'Identification', 'Subtitle', book => book.subtitle),
+  scalarColumn('originalTitle', 'Identification', 'Original title if translated', book => book.originalTitle),
+  {
+    id: 'authors',
+    group: 'Identification',
+    description: 'Author names, "; "-separated',
+    defaultSelected: true,
+    getValue: book => flattenList(book.authors, author => author.name)
+  },
+
+  // Publication
+  scalarColumn('publisher', 'Publication', 'Publisher', book => book.publisher, true),
+  scalarColumn('publishedDate', 'Publication', 'Publication date', book => book.publishedDate, true),
+  scalarColumn('edition', 'Publication', 'Edition', book => book.edition),
+  scalarColumn('language', 'Publication', 'ISO language code', book => book.language),
+  scalarColumn('translatedFrom', 'Publication', 'Original language', book => book.translatedFrom),
+  scalarColumn('translator', 'Publication', 'Translator', book => book.translator),
+  scalarColumn('pageCount', 'Publication', 'Page count', book => book.pageCount, true),
+  scalarColumn('format', 'Publication', 'hardcover, paperback, ebook, audiobook or other', book => book.format, true),
+  scalarColumn('series.name', 'Publication', 'Series name', book => book.series?.name),
+  scalarColumn('series.position', 'Publication', 'Position in the series', book => book.series?.position),
+
+  // Classification
+  {
+    id: 'genres',
+    group: 'Classification',
+    description: 'Genres, "; "-separated',
+    defaultSelected: true,
+    getValue: book => flattenList(book.genres)
+  },
+  { id: 'subgenres', group: 'Classification', description: 'Subgenres, "; "-separated', defaultSelected: false, getValue: book => flattenList(book.subgenres) },
+  { id: 'subjects', group: 'Classification', description: 'Subjects, "; "-separated', defaultSelected: false, getValue: book => flattenList(book.subjects) },
+  { id: 'categories', group: 'Classification', description: 'Catalog categories, "; "-separated', defaultSelected: false, getValue: book => flattenList(book.categories) },
+  { id: 'contentTags', group: 'Classification', description: 'Content tags, "; "-separated', defaultSelected: false, getValue: book => flattenList(book.contentTags) },
+  scalarColumn('audience', 'Classification', 'Target audience', book => book.audience),
+  scalarColumn('fiction', 'Classification', 'true for fiction', book => book.fiction),
+
+  // Narrative
+  scalarColumn('narrativeStructure.pov', 'Narrative', 'Point of view', book => book.narrativeStructure.pov),
+  scalarColumn('narrativeStructure.tense', 'Narrative', 'Tense', book => book.narrativeStructure.tense),
+  scalarColumn('narrativeStructure.timeline', 'Narrative', 'Timeline structure', book => book.narrativeStructure.timeline),
+  scalarColumn('narrativeStructure.format', 'Narrative', 'Prose, verse, epistolary...', book => book.narrativeStructure.format),
+
+  // Content
+  {
+    id: 'themes',
+    group: 'Content',
+    description: 'Themes as "Name (relevance)", "; "-separated',
+    defaultSelected: false,
+    getValue: book => flattenList(book.themes, theme => `${theme.name} (${theme.relevance})`)
+  },
+  {
+    id: 'locations',
+    group: 'Content',
+    description: 'Settings as "Name (type)", "; "-separated',
+    defaultSelected: false,
+    getValue: book => flattenList(book.locations, location => `${location.name} (${location.type})`)
+  },
+  { id: 'historicalPeriod', group: 'Content', description: 'Time periods, "; "-separated', defaultSelected: false, getValue: book => flattenList(book.historicalPeriod) },
+  {
+    id: 'characters',
+    group: 'Content',
+    description: 'Characters as "Name (role)", "; "-separated',
+    defaultSelected: false,
+    getValue: book => flattenList(book.characters, character => `${character.name} (${character.role})`)
+  },
+
+  // Reading
+  scalarColumn('readingStatus', 'Reading', 'to-read, reading, completed, abandoned or reference', book => book.readingStatus, true),
+  scalarColumn('userRating', 'Reading', 'Rating, 0-5 with half points', book => book.userRating, true),
+  scalarColumn('dateAdded', 'Reading', 'Date added to the library', book => book.dateAdded, true),
+  scalarColumn('startDate', 'Reading', 'Date started', book => book.startDate),
+  scalarColumn('finishDate', 'Reading', 'Date finished', book => book.finishDate, true),
+  scalarColumn('abandonedReason', 'Reading', 'Why the book was abandoned', book => book.abandonedReason),
+  scalarColumn('isFavorite', 'Reading', 'true for favorites', book => book.isFavorite),
+  scalarColumn('isReread', 'Reading', 'true when read more than once', book => book.isReread),
+  scalarColumn('readCount', 'Reading', 'Times read', book => book.readCount),
+  scalarColumn('readingSessions.count', 'Reading', 'Number of reading sessions', book => book.readingSessions.length),
+  scalarColumn(
+    'readingSessions.pagesRead',
+    'Reading',
+    'Pages read across all sessions',
+    book => book.readingSessions.reduce((total, session) => total + session.pagesRead, 0)
+  ),
+  scalarColumn('readingSessions.first', 'Reading', 'Date of the earliest session', book => book.readingSessions.map(s => s.date).sort()[0]),
+  scalarColumn('readingSessions.last', 'Reading', 'Date of the latest session', book => book.readingSessions.map(s => s.date).sort().pop()),
+
+  // Experience
+  scalarColumn('userNotes', 'Experience', 'Notes', book => book.userNotes),
+  { id: 'userTags', group: 'Experience', description: 'Your tags, "; "-separated', defaultSelected: true, getValue: book => flattenList(book.userTags) },
+  scalarColumn('annotations.count', 'Experience', 'Number of annotations', book => book.annotations.length),
+  scalarColumn('emotionalResponse.overall', 'Experience', 'positive, negative, mixed or neutral', book => book.emotionalResponse.overall),
+  {
+    id: 'emotionalResponse.emotions',
+    group: 'Experience',
+    description: 'Emotions as "emotion:intensity", "; "-separated',
+    defaultSelected: false,
+    getValue: book => flattenList(
+      Object.entries(book.emotionalResponse.emotions),
+      ([emotion, intensity]) => `${emotion}:${intensity}`
+    )
+  },
+  scalarColumn('emotionalResponse.impactRating', 'Experience', 'Emotional impact, 1-5', book => book.emotionalResponse.impactRating),
+  scalarColumn('emotionalResponse.memorability', 'Experience', 'Memorability, 1-5', book => book.emotionalResponse.memorability),
+  scalarColumn('emotionalResponse.resonance', 'Experience', 'Why the book resonated', book => book.emotionalResponse.resonance),
+
+  // Cultural context
+  {
+    id: 'awards',
+    group: 'Cultural Context',
+    description: 'Awards as "Name year (winner|nominee)", "; "-separated',
+    defaultSelected: false,
+    getValue: book => flattenList(book.awards, award => `${award.name} ${award.year} (${award.winner ? 'winner' : 'nominee'})`)
+  },
+  {
+    id: 'culturalContext.representation',
+    group: 'Cultural Context',
+    description: 'Groups represented, "; "-separated',
+    defaultSelected: false,
+    getValue: book => flattenList(book.culturalContext.representation)
+  },
+  {
+    id: 'culturalContext.diversityElements',
+    group: 'Cultural Context',
+    description: 'Diversity elements, "; "-separated',
+    defaultSelected: false,
+    getValue: book => flattenList(book.culturalContext.diversityElements)
+  },
+  scalarColumn('culturalContext.sensitivity', 'Cultural Context', 'Content warnings', book => book.culturalContext.sensitivity),
+  scalarColumn('recommendedBy', 'Cultural Context', 'Who recommended the book', book => book.recommendedBy),
+  scalarColumn('averageRating', 'Cultural Context', 'Average rating across platforms', book => book.averageRating),
+  scalarColumn('nytBestseller', 'Cultural Context', 'true for NYT bestsellers', book => book.nytBestseller),
+
+  // Complexity
+  scalarColumn('complexity.readability', 'Complexity', 'Readability score', book => book.complexity.readability),
+  scalarColumn('complexity.vocabulary', 'Complexity', 'Vocabulary difficulty, 1-5', book => book.complexity.vocabulary),
+  scalarColumn('complexity.conceptual', 'Complexity', 'Conceptual difficulty, 1-5', book => book.complexity.conceptual),
+  scalarColumn('complexity.structural', 'Complexity', 'Structural complexity, 1-5', book => book.complexity.structural),
+
+  // Metadata
+  scalarColumn('description', 'Metadata', 'Description', book => book.description),
+  scalarColumn('coverImage', 'Metadata', 'Cover image URL', book => book.coverImage),
+  scalarColumn('lastModified', 'Metadata', 'Last time the record changed', book => book.lastModified)
+];
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { goodreadsImporter } from './GoodreadsImporter';
+
+const HEADER = 'Book Id,Title,Author,Additional Authors,ISBN,ISBN13,My Rating,Publisher,Binding,Number of Pages,'
+  + 'Year Published,Original Publication Year,Date Read,Date Added,Bookshelves,Exclusive Shelf,My Review,Read Count';
+
+describe('GoodreadsImporter', () => {
+  it('maps a Goodreads export row onto an import row', () => {
+    const csv = [
+      HEADER,
+      '234225,Dune,Frank Herbert,"Brian Herbert, Kevin J. Anderson","=""0441013597""","=""9780441013593""",5,Ace,'
+        + 'Mass Market Paperback,658,2005,1965,2021/03/14,2020/11/02,"favorites, read, sci-fi",read,Great<br/>book,2'
+    ].join('\n');
+
+    expect(goodreadsImporter.parse(csv)).toEqual([{
+      rowNumber: 1,
+      sourceId: '234225',
+      title: 'Dune',
+      authors: ['Frank Herbert', 'Brian Herbert', 'Kevin J. Anderson'],
+      isbn13: '9780441013593',
+      isbn10: '0441013597',
+      publisher: 'Ace',
+      pageCount: 658,
+      publishedYear: '1965',
+      format: 'paperback',
+      userRating: 5,
+      readingStatus: 'completed',
+      dateAdded: '2020-11-02',
+      finishDate: '2021-03-14',
+      readCount: 2,
+      userNotes: 'Great\nbook',
+      userTags: ['favorites', 'sci-fi']
+    }]);
+  });
+
+  it('maps shelves to reading statuses and counts a read book once by default', () => {
+    const csv = [
+      HEADER,
+      '1,Reading,A,,,,0,,,,,,,,,currently-reading,,0',
+      '2,Dropped,B,,,,0,,,,,,,,,did-not-finish,,0',
+      '3,Custom,C,,,,0,,,,,,,,,owned-books,,0',
+      '4,Finished,D,,,,0,,,,,,,,,read,,'
+    ].join('\n');
+
+    const rows = goodreadsImporter.parse(csv);
+
+    expect(rows.map(row => row.readingStatus)).toEqual(['reading', 'abandoned', 'to-read', 'completed']);
+    expect(rows.map(row => row.readCount)).toEqual([0, 0, 0, 1]);
+    expect(rows[0].isbn13).toBeUndefined();
+    expect(rows[0].pageCount).toBeUndefined();
+  });
+
+  it('skips rows without a title', () => {
+    const csv = [HEADER, '1,,Nobody,,,,0,,,,,,,,,to-read,,0'].join('\n');
+    expect(goodreadsImporter.parse(csv)).toEqual([]);
+  });
+
+  it('rejects files that are not Goodreads exports', () => {
+    expect(() => goodreadsImporter.parse('Title,Authors\nDune,Frank Herbert')).toThrow(/Goodreads/);
+  });
+});
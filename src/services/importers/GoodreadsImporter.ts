@@ -0,0 +1,106 @@
+import { Book, ReadingStatus } from '../../models/BookTypes';
+import { parseDelimitedRecords } from '../../utils/csv';
+import { ImportRow, LibraryImporter } from './ImportTypes';
+import { cleanExportedIsbn, normalizeExportDate, parseExportNumber } from './importHelpers';
+
+/**
+ * Goodreads exclusive shelves and the reading status they map to.
+ * Custom exclusive shelves not listed here are treated as "to-read".
+ */
+const SHELF_TO_STATUS: Record<string, ReadingStatus> = {
+  'read': 'completed',
+  'currently-reading': 'reading',
+  'to-read': 'to-read',
+  'did-not-finish': 'abandoned',
+  'dnf': 'abandoned',
+  'abandoned': 'abandoned'
+};
+
+/**
+ * Goodreads "Binding" values and the format they map to
+ */
+const BINDING_TO_FORMAT: Record<string, Book['format']> = {
+  'hardcover': 'hardcover',
+  'paperback': 'paperback',
+  'mass market paperback': 'paperback',
+  'trade paperback': 'paperback',
+  'kindle edition': 'ebook',
+  'ebook': 'ebook',
+  'nook': 'ebook',
+  'audiobook': 'audiobook',
+  'audible audio': 'audiobook',
+  'audio cd': 'audiobook'
+};
+
+/**
+ * GoodreadsImporter
+ *
+ * Reads the `goodreads_library_export.csv` produced by Goodreads'
+ * "Export Library" tool into normalized import rows.
+ */
+export class GoodreadsImporter implements LibraryImporter {
+  id = 'goodreads';
+  name = 'Goodreads';
+  accept = '.csv,text/csv';
+
+  /**
+   * Parse a Goodreads export
+   * @param contents CSV file contents
+   * @returns Normalized rows
+   */
+  parse(contents: string): ImportRow[] {
+    const records = parseDelimitedRecords(contents);
+
+    if (records.length > 0 && !('Exclusive Shelf' in records[0])) {
+      throw new Error('This does not look like a Goodreads library export (missing "Exclusive Shelf" column)');
+    }
+
+    return records
+      .map((record, index) => this.toImportRow(record, index + 1))
+      .filter(row => row.title !== '');
+  }
+
+  /**
+   * Map one Goodreads CSV record onto an import row
+   * @param record CSV record keyed by column name
+   * @param rowNumber 1-based row number
+   * @returns Normalized row
+   */
+  private toImportRow(record: Record<string, string>, rowNumber: number): ImportRow {
+    const exclusiveShelf = (record['Exclusive Shelf'] || 'to-read').toLowerCase();
+    const readCount = parseExportNumber(record['Read Count']);
+
+    const authors = [record['Author'], ...(record['Additional Authors'] || '').split(',')]
+      .map(name => (name || '').trim())
+      .filter(name => name !== '');
+
+    // Bookshelves also lists the exclusive shelf; only keep the user's own tags
+    const userTags = (record['Bookshelves'] || '')
+      .split(',')
+      .map(shelf => shelf.trim())
+      .filter(shelf => shelf !== '' && !(shelf in SHELF_TO_STATUS) && shelf !== exclusiveShelf);
+
+    return {
+      rowNumber,
+      sourceId: record['Book Id'] || undefined,
+      title: record['Title'] || '',
+      authors,
+      isbn13: cleanExportedIsbn(record['ISBN13']),
+      isbn10: cleanExportedIsbn(record['ISBN']),
+      publisher: record['Publisher'] || undefined,
+      pageCount: parseExportNumber(record['Number of Pages']) || undefined,
+      publishedYear: record['Original Publication Year'] || record['Year Published'] || undefined,
+      format: BINDING_TO_FORMAT[(record['Binding'] || '').toLowerCase()],
+      userRating: parseExportNumber(record['My Rating']),
+      readingStatus: SHELF_TO_STATUS[exclusiveShelf] || 'to-read',
+      dateAdded: normalizeExportDate(record['Date Added']),
+      finishDate: normalizeExportDate(record['Date Read']),
+      readCount: readCount || (exclusiveShelf === 'read' ? 1 : 0),
+      userNotes: (record['My Review'] || '').replace(/<br\s*\/?>/gi, '\n').trim(),
+      userTags
+    };
+  }
+}
+
+// Create and export a singleton instance
+export const goodreadsImporter = new GoodreadsImporter();
@@ -0,0 +1,78 @@
+import { Book, GoogleBooksVolume, ReadingStatus } from '../../models/BookTypes';
+
+/**
+ * A library export row, normalized from any source format
+ * before it is matched against catalog data
+ */
+export interface ImportRow {
+  rowNumber: number;            // 1-based row number in the source file (excluding header)
+  sourceId?: string;            // Record id in the source service
+  title: string;
+  authors: string[];
+  isbn13?: string;
+  isbn10?: string;
+  publisher?: string;
+  pageCount?: number;
+  publishedYear?: string;
+  format?: Book['format'];
+  userRating: number;           // 0 when unrated
+  readingStatus: ReadingStatus;
+  dateAdded?: string;           // ISO date
+  finishDate?: string;          // ISO date
+  readCount: number;
+  userNotes: string;
+  userTags: string[];
+  moods?: string[];             // Reader-reported moods (StoryGraph)
+  pace?: string;                // Reader-reported pace (StoryGraph)
+  contentWarnings?: string;     // Content warnings, as free text
+  owned?: boolean;              // Whether the user owns a copy
+}
+
+/**
+ * Parses a source-specific export file into normalized rows
+ */
+export interface LibraryImporter {
+  id: string;                   // Stable identifier, e.g. "goodreads"
+  name: string;                 // Display name
+  accept: string;               // File input accept attribute
+  parse(contents: string): ImportRow[];
+}
+
+/**
+ * How an import row relates to the catalog
+ * - matched: the row's ISBN resolved to a Google Books volume
+ * - ambiguous: no ISBN match, but a title/author search found candidates to choose from
+ * - unmatched: nothing found; the row can still be imported from its own data
+ * - duplicate: the row's ISBN is already in the library (or earlier in the same file)
+ */
+export type ImportMatchStatus = 'matched' | 'ambiguous' | 'unmatched' | 'duplicate';
+
+/**
+ * A row in the import preview
+ */
+export interface ImportPreviewItem {
+  row: ImportRow;
+  status: ImportMatchStatus;
+  candidates: GoogleBooksVolume[];   // Catalog volumes the row may correspond to
+  selectedVolumeId: string | null;   // Volume to import from, null to use the row's own data
+  existingBookId?: string;           // Library book a duplicate row is merged into
+  include: boolean;                  // Whether the row will be imported on commit
+}
+
+/**
+ * Preview of a whole import, shown before anything is saved
+ */
+export interface ImportPreview {
+  importerId: string;
+  items: ImportPreviewItem[];
+}
+
+/**
+ * Counts reported after an import is committed
+ */
+export interface ImportSummary {
+  imported: number;
+  updated: number;
+  skipped: number;
+  failed: { row: ImportRow; reason: string }[];
+}
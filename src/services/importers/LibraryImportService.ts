@@ -0,0 +1,289 @@
+import { Book, GoogleBooksVolume, MinimalBookData } from '../../models/BookTypes';
+import { bookMetadataService } from '../BookMetadataService';
+import { createAuthorFromName } from '../../utils/bookDefaults';
+import { buildGoogleBooksQuery } from '../../utils/catalogSearch';
+import { createProvenance, isUserValue } from '../../utils/provenance';
+import {
+  ImportPreview,
+  ImportPreviewItem,
+  ImportRow,
+  ImportSummary,
+  LibraryImporter
+} from './ImportTypes';
+import { goodreadsImporter } from './GoodreadsImporter';
+import { storyGraphImporter } from './StoryGraphImporter';
+import { libraryThingImporter } from './LibraryThingImporter';
+
+/**
+ * LibraryImportService
+ *
+ * Turns rows parsed by a LibraryImporter into Book records:
+ * 1. Rows whose ISBN is already in the library (or earlier in the file) are flagged as duplicates
+ * 2. Every other row is matched against Google Books by ISBN, falling back to a title/author search
+ * 3. The user reviews the preview and picks candidates for ambiguous rows
+ * 4. Committing saves every included row, merging into books already in the library
+ */
+export class LibraryImportService {
+  // Importers available to the user, in display order
+  private importers: LibraryImporter[] = [goodreadsImporter, storyGraphImporter, libraryThingImporter];
+  
+  /**
+   * Get every available importer
+   * @returns Importers in display order
+   */
+  getImporters(): LibraryImporter[] {
+    return this.importers;
+  }
+  
+  /**
+   * Parse a file and match every row against the catalog
+   * @param importer Importer for the file's source format
+   * @param contents Raw file contents
+   * @param onProgress Called after each row is matched
+   * @returns Preview of the import
+   */
+  async buildPreview(
+    importer: LibraryImporter,
+    contents: string,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<ImportPreview> {
+    const rows = importer.parse(contents);
+    const items: ImportPreviewItem[] = [];
+    const libraryIsbns = this.indexLibraryIsbns();
+    const fileIsbns = new Set<string>();
+
+    for (const row of rows) {
+      // Rows carry normalized ISBN-13s, so one key covers both forms
+      const existingBookId = row.isbn13 ? libraryIsbns.get(row.isbn13) : undefined;
+      const repeatedInFile = row.isbn13 !== undefined && fileIsbns.has(row.isbn13);
+      if (row.isbn13) fileIsbns.add(row.isbn13);
+
+      if (existingBookId) {
+        items.push({ row, status: 'duplicate', candidates: [], selectedVolumeId: null, existingBookId, include: true });
+      } else if (repeatedInFile) {
+        items.push({ row, status: 'duplicate', candidates: [], selectedVolumeId: null, include: false });
+      } else {
+        items.push(await this.matchRow(row));
+      }
+      onProgress?.(items.length, rows.length);
+    }
+
+    return { importerId: importer.id, items };
+  }
+
+  /**
+   * Map every ISBN-13 in the library to the id of the book carrying it
+   * @returns ISBN-13 to book id
+   */
+  private indexLibraryIsbns(): Map<string, string> {
+    const index = new Map<string, string>();
+
+    bookMetadataService.getAllBooks().forEach(book => {
+      const isbn = book.identifiers.isbn13;
+      if (isbn && !index.has(isbn)) {
+        index.set(isbn, book.id);
+      }
+    });
+
+    return index;
+  }
+
+  /**
+   * Match a single row against Google Books
+   * @param row Import row
+   * @returns Preview item with its match status and candidates
+   */
+  private async matchRow(row: ImportRow): Promise<ImportPreviewItem> {
+    const isbn = row.isbn13 || row.isbn10;
+
+    if (isbn) {
+      try {
+        const volume = await bookMetadataService.fetchBookByISBN(isbn);
+        if (volume) {
+          return { row, status: 'matched', candidates: [volume], selectedVolumeId: volume.id, include: true };
+        }
+      } catch (error) {
+        console.error(`Error matching import row ${row.rowNumber} by ISBN:`, error);
+      }
+    }
+
+    try {
+      const query = buildGoogleBooksQuery({ title: row.title, author: row.authors[0] });
+
+      const candidates = await bookMetadataService.searchGoogleBooks(query, 5);
+      if (candidates.length > 0) {
+        return { row, status: 'ambiguous', candidates, selectedVolumeId: null, include: true };
+      }
+    } catch (error) {
+      console.error(`Error matching import row ${row.rowNumber} by title:`, error);
+    }
+
+    return { row, status: 'unmatched', candidates: [], selectedVolumeId: null, include: true };
+  }
+
+  /**
+   * Save every included preview row to the library
+   * @param preview Preview as reviewed by the user
+   * @returns Counts of imported, updated, skipped and failed rows
+   */
+  commitImport(preview: ImportPreview): ImportSummary {
+    const summary: ImportSummary = { imported: 0, updated: 0, skipped: 0, failed: [] };
+
+    preview.items.forEach(item => {
+      if (!item.include) {
+        summary.skipped++;
+        return;
+      }
+
+      try {
+        if (item.existingBookId) {
+          const duplicateOf = bookMetadataService.getBookById(item.existingBookId);
+          if (!duplicateOf) {
+            throw new Error('The matching library book no longer exists');
+          }
+
+          bookMetadataService.saveBook(this.mergeIntoExisting(duplicateOf, item.row));
+          summary.updated++;
+          return;
+        }
+
+        const volume = item.candidates.find(candidate => candidate.id === item.selectedVolumeId);
+        const imported = this.applyRowUserData(this.createBaseBook(preview.importerId, item.row, volume), item.row);
+        const existing = bookMetadataService.getBookById(imported.id);
+
+        if (existing) {
+          bookMetadataService.saveBook(this.mergeIntoExisting(existing, item.row));
+          summary.updated++;
+        } else {
+          bookMetadataService.saveBook(imported);
+          summary.imported++;
+        }
+      } catch (error) {
+        summary.failed.push({
+          row: item.row,
+          reason: error instanceof Error ? error.message : String(error)
+        });
+      }
+    });
+
+    return summary;
+  }
+
+  /**
+   * Build the catalog part of a book from the selected volume or the row itself
+   * @param importerId Source importer id, used to namespace ids of unmatched rows
+   * @param row Import row
+   * @param volume Selected Google Books volume, if any
+   * @returns Book with default user data
+   */
+  private createBaseBook(importerId: string, row: ImportRow, volume?: GoogleBooksVolume): Book {
+    if (volume) {
+      bookMetadataService.saveExternalBookData(volume.id, 'google_books', volume);
+
+      const minimalData = bookMetadataService.convertGoogleBookToMinimalData(volume);
+      return {
+        ...bookMetadataService.createFullBookFromMinimalData(minimalData),
+        googleBooksId: volume.id
+      };
+    }
+
+    const minimalData: MinimalBookData = {
+      id: `${importerId}-${row.sourceId || row.rowNumber}`,
+      title: row.title,
+      authors: (row.authors.length > 0 ? row.authors : ['Unknown Author']).map(createAuthorFromName),
+      publisher: row.publisher || 'Unknown Publisher',
+      publishedDate: row.publishedYear || '',
+      pageCount: row.pageCount || 0,
+      language: 'en',
+      description: '',
+      isbn: row.isbn13 || ''
+    };
+
+    return bookMetadataService.createFullBookFromMinimalData(minimalData);
+  }
+
+  /**
+   * Overlay the user's own data from the row onto a book
+   * @param book Base book
+   * @param row Import row
+   * @returns Book carrying the row's rating, status, dates, notes, tags and reading experience
+   */
+  private applyRowUserData(book: Book, row: ImportRow): Book {
+    return {
+      ...book,
+      ...this.mapReadingExperience(book, row),
+      format: row.format || book.format,
+      pageCount: book.pageCount || row.pageCount || 0,
+      userRating: row.userRating,
+      readingStatus: row.readingStatus,
+      dateAdded: row.dateAdded ? new Date(row.dateAdded).toISOString() : book.dateAdded,
+      finishDate: row.finishDate || book.finishDate,
+      readCount: row.readCount,
+      isReread: row.readCount > 1,
+      userNotes: row.userNotes,
+      userTags: row.userTags
+    };
+  }
+
+  /**
+   * Merge a row into a book that is already in the library,
+   * keeping everything the user recorded in the app
+   * @param existing Book already in the library
+   * @param row Import row
+   * @returns Merged book
+   */
+  private mergeIntoExisting(existing: Book, row: ImportRow): Book {
+    return {
+      ...existing,
+      userRating: existing.userRating || row.userRating,
+      readingStatus: existing.readingStatus === 'to-read' ? row.readingStatus : existing.readingStatus,
+      finishDate: existing.finishDate || row.finishDate,
+      readCount: Math.max(existing.readCount, row.readCount),
+      isReread: existing.isReread || row.readCount > 1,
+      userNotes: existing.userNotes || row.userNotes,
+      userTags: Array.from(new Set([...existing.userTags, ...row.userTags])),
+      ...this.mapReadingExperience(existing, row)
+    };
+  }
+
+  /**
+   * Map the reader-reported moods, pace and content warnings of a row onto book fields,
+   * without replacing values the book already has
+   * @param book Book the row is applied to
+   * @param row Import row
+   * @returns Fields to overlay onto the book
+   */
+  private mapReadingExperience(book: Book, row: ImportRow): Partial<Book> {
+    const fields: Partial<Book> = {};
+
+    if (row.moods && row.moods.length > 0) {
+      const emotions = { ...book.emotionalResponse.emotions };
+      row.moods.forEach(mood => {
+        emotions[mood] = emotions[mood] || 3;
+      });
+      fields.emotionalResponse = { ...book.emotionalResponse, emotions };
+    }
+
+    if (row.pace && !book.enrichedData?.pacing) {
+      fields.enrichedData = book.enrichedData
+        ? { ...book.enrichedData, pacing: row.pace }
+        : {
+          pacing: row.pace,
+          mood: row.moods?.join(', ') || undefined,
+          enrichmentDate: new Date().toISOString(),
+          enrichmentSource: 'library_import',
+          version: '1.0'
+        };
+    }
+
+    if (row.contentWarnings && !book.culturalContext.sensitivity && !isUserValue(book, 'culturalContext')) {
+      fields.culturalContext = { ...book.culturalContext, sensitivity: row.contentWarnings };
+      fields.provenance = { ...book.provenance, culturalContext: createProvenance('library_import') };
+    }
+
+    return fields;
+  }
+}
+
+// Create and export a singleton instance
+export const libraryImportService = new LibraryImportService();
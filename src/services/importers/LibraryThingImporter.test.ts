@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { libraryThingImporter } from './LibraryThingImporter';
+
+describe('LibraryThingImporter', () => {
+  it('maps a tab-delimited export row onto an import row', () => {
+    const header = ['Book Id', 'Title', 'Primary Author', 'Secondary Author', 'Publication', 'Date', 'ISBNs', 'ISBN',
+      'Page Count', 'Media', 'Rating', 'Entry Date', 'Date Read', 'Review', 'Tags', 'Collections'];
+    const row = ['101', 'The Left Hand of Darkness', 'Le Guin, Ursula K.', '', 'Ace (1976), Paperback, 304 pages', '1969',
+      '0441478123', '[0441478123]', '304', 'Paper Book, Paperback', '4.5', '2019-06-01', '2019-07-15', 'Classic',
+      'sf, favorites', 'Your library'];
+    const tsv = [header.join('\t'), row.join('\t')].join('\n');
+
+    expect(libraryThingImporter.parse(tsv)).toEqual([{
+      rowNumber: 1,
+      sourceId: '101',
+      title: 'The Left Hand of Darkness',
+      authors: ['Ursula K. Le Guin'],
+      isbn13: '9780441478125',
+      isbn10: '0441478123',
+      publisher: 'Ace',
+      pageCount: 304,
+      publishedYear: '1969',
+      format: 'paperback',
+      userRating: 4.5,
+      readingStatus: 'completed',
+      dateAdded: '2019-06-01',
+      finishDate: '2019-07-15',
+      readCount: 1,
+      userNotes: 'Classic',
+      userTags: ['sf', 'favorites']
+    }]);
+  });
+
+  it('maps the JSON export', () => {
+    const json = JSON.stringify({
+      '202': {
+        title: 'Kindred',
+        authors: [{ lf: 'Butler, Octavia E.', fl: 'Octavia E. Butler' }],
+        isbn: { '0': '0807083690', '2': '9780807083697' },
+        publication: 'Beacon Press (2003), Edition: 25th Anniversary',
+        date: '1979',
+        rating: '5',
+        tags: ['classic'],
+        collections: ['Currently Reading'],
+        entrydate: '2023-01-02',
+        pages: '264 ',
+        format: [{ text: 'Paperback' }]
+      }
+    });
+
+    expect(libraryThingImporter.parse(json)).toEqual([{
+      rowNumber: 1,
+      sourceId: '202',
+      title: 'Kindred',
+      authors: ['Octavia E. Butler'],
+      isbn13: '9780807083697',
+      isbn10: '0807083690',
+      publisher: 'Beacon Press',
+      pageCount: 264,
+      publishedYear: '1979',
+      format: 'paperback',
+      userRating: 5,
+      readingStatus: 'reading',
+      dateAdded: '2023-01-02',
+      finishDate: undefined,
+      readCount: 0,
+      userNotes: '',
+      userTags: ['classic']
+    }]);
+  });
+
+  it('treats books without a read date or reading collection as to-read', () => {
+    const tsv = 'Book Id\tTitle\tCollections\n1\tUnread\tWishlist';
+    expect(libraryThingImporter.parse(tsv)[0].readingStatus).toBe('to-read');
+  });
+
+  it('rejects files that are not LibraryThing exports', () => {
+    expect(() => libraryThingImporter.parse('Title\tAuthor\nDune\tHerbert')).toThrow(/LibraryThing/);
+    expect(() => libraryThingImporter.parse('{ not json')).toThrow(/not valid JSON/);
+  });
+});
@@ -0,0 +1,202 @@
+import { Book, ReadingStatus } from '../../models/BookTypes';
+import { parseDelimitedRecords } from '../../utils/csv';
+import { ImportRow, LibraryImporter } from './ImportTypes';
+import {
+  normalizeExportDate,
+  parseExportNumber,
+  pickExportedIsbns,
+  roundRatingToHalf,
+  splitExportList
+} from './importHelpers';
+
+/**
+ * Book record in LibraryThing's JSON export, keyed by books_id
+ */
+interface LibraryThingJsonBook {
+  books_id?: string;
+  title?: string;
+  primaryauthor?: string;
+  authors?: { fl?: string; lf?: string }[] | Record<string, never>;
+  date?: string;
+  publication?: string;
+  isbn?: Record<string, string> | string[] | string;
+  originalisbn?: string;
+  rating?: number | string;
+  review?: string;
+  tags?: string[];
+  collections?: string[];
+  entrydate?: string;
+  datestarted?: string;
+  datefinished?: string;
+  dateread?: string;
+  pages?: string | number;
+  format?: { text?: string }[] | { text?: string };
+}
+
+/**
+ * LibraryThing "Media" values and the format they map to
+ */
+const MEDIA_TO_FORMAT: Record<string, Book['format']> = {
+  'hardcover': 'hardcover',
+  'paperback': 'paperback',
+  'ebook': 'ebook',
+  'audiobook': 'audiobook'
+};
+
+/**
+ * LibraryThingImporter
+ *
+ * Reads LibraryThing's "Export your library" output, either the
+ * tab-delimited file or the JSON file, into normalized import rows.
+ * Reading status is derived from the collections a book belongs to.
+ */
+export class LibraryThingImporter implements LibraryImporter {
+  id = 'librarything';
+  name = 'LibraryThing';
+  accept = '.tsv,.txt,.json,text/tab-separated-values,application/json';
+
+  /**
+   * Parse a LibraryThing export
+   * @param contents TSV or JSON file contents
+   * @returns Normalized rows
+   */
+  parse(contents: string): ImportRow[] {
+    const rows = contents.trimStart().startsWith('{')
+      ? this.parseJson(contents)
+      : this.parseTsv(contents);
+
+    return rows.filter(row => row.title !== '');
+  }
+
+  /**
+   * Parse the tab-delimited export
+   * @param contents TSV file contents
+   * @returns Normalized rows
+   */
+  private parseTsv(contents: string): ImportRow[] {
+    const records = parseDelimitedRecords(contents, '\t');
+
+    if (records.length > 0 && !('Book Id' in records[0])) {
+      throw new Error('This does not look like a LibraryThing export (missing "Book Id" column)');
+    }
+
+    return records.map((record, index) => {
+      const collections = splitExportList(record['Collections']);
+      const dateRead = normalizeExportDate(record['Date Read']);
+
+      return {
+        rowNumber: index + 1,
+        sourceId: record['Book Id'] || undefined,
+        title: record['Title'] || '',
+        authors: [record['Primary Author'], record['Secondary Author']]
+          .map(name => this.toDisplayName(name || ''))
+          .filter(name => name !== ''),
+        ...pickExportedIsbns([...splitExportList(record['ISBNs']), record['ISBN']]),
+        publisher: this.publisherFromPublication(record['Publication']),
+        pageCount: parseExportNumber(record['Page Count']) || undefined,
+        publishedYear: record['Date'] || undefined,
+        format: this.formatFromMedia(record['Media']),
+        userRating: roundRatingToHalf(parseExportNumber(record['Rating'])),
+        readingStatus: this.statusFromCollections(collections, dateRead),
+        dateAdded: normalizeExportDate(record['Entry Date'] || record['Date Entered']),
+        finishDate: dateRead,
+        readCount: dateRead ? 1 : 0,
+        userNotes: (record['Review'] || '').trim(),
+        userTags: splitExportList(record['Tags'])
+      };
+    });
+  }
+
+  /**
+   * Parse the JSON export
+   * @param contents JSON file contents
+   * @returns Normalized rows
+   */
+  private parseJson(contents: string): ImportRow[] {
+    let parsed: Record<string, LibraryThingJsonBook>;
+    try {
+      parsed = JSON.parse(contents);
+    } catch {
+      throw new Error('This LibraryThing export is not valid JSON');
+    }
+
+    return Object.entries(parsed).map(([booksId, book], index) => {
+      const collections = book.collections || [];
+      const dateRead = normalizeExportDate(book.datefinished || book.dateread);
+      const authors = Array.isArray(book.authors)
+        ? book.authors.map(author => author.fl || this.toDisplayName(author.lf || ''))
+        : [this.toDisplayName(book.primaryauthor || '')];
+      const isbns = Array.isArray(book.isbn)
+        ? book.isbn
+        : book.isbn && typeof book.isbn === 'object' ? Object.values(book.isbn) : [book.isbn];
+      const format = Array.isArray(book.format) ? book.format[0] : book.format;
+
+      return {
+        rowNumber: index + 1,
+        sourceId: book.books_id || booksId,
+        title: book.title || '',
+        authors: authors.filter(name => name !== ''),
+        ...pickExportedIsbns([...isbns, book.originalisbn]),
+        publisher: this.publisherFromPublication(book.publication),
+        pageCount: parseExportNumber(String(book.pages ?? '')) || undefined,
+        publishedYear: book.date || undefined,
+        format: this.formatFromMedia(format?.text),
+        userRating: roundRatingToHalf(parseExportNumber(String(book.rating ?? ''))),
+        readingStatus: this.statusFromCollections(collections, dateRead),
+        dateAdded: normalizeExportDate(book.entrydate),
+        finishDate: dateRead,
+        readCount: dateRead ? 1 : 0,
+        userNotes: (book.review || '').trim(),
+        userTags: book.tags || []
+      };
+    });
+  }
+
+  /**
+   * Derive the reading status from LibraryThing collections
+   * @param collections Collections the book belongs to
+   * @param dateRead Date the book was finished, if recorded
+   * @returns Reading status
+   */
+  private statusFromCollections(collections: string[], dateRead?: string): ReadingStatus {
+    const lowered = collections.map(collection => collection.toLowerCase());
+
+    if (lowered.includes('currently reading')) return 'reading';
+    if (lowered.includes('read but unowned') || dateRead) return 'completed';
+    return 'to-read';
+  }
+
+  /**
+   * Map a LibraryThing media description onto a book format
+   * @param media Media cell, e.g. "Paper Book, Hardcover"
+   * @returns Book format, if recognized
+   */
+  private formatFromMedia(media?: string): Book['format'] | undefined {
+    const lowered = (media || '').toLowerCase();
+    const match = Object.keys(MEDIA_TO_FORMAT).find(key => lowered.includes(key));
+    return match ? MEDIA_TO_FORMAT[match] : undefined;
+  }
+
+  /**
+   * Extract the publisher from a publication line like "Penguin (2003), Paperback, 320 pages"
+   * @param publication Publication cell
+   * @returns Publisher name, if present
+   */
+  private publisherFromPublication(publication?: string): string | undefined {
+    const publisher = (publication || '').split(/[(,]/)[0].trim();
+    return publisher || undefined;
+  }
+
+  /**
+   * Turn a "Last, First" author name into "First Last"
+   * @param name Author name as exported
+   * @returns Display name
+   */
+  private toDisplayName(name: string): string {
+    const [last, first] = name.split(',').map(part => part.trim());
+    return first ? `${first} ${last}` : (last || '');
+  }
+}
+
+// Create and export a singleton instance
+export const libraryThingImporter = new LibraryThingImporter();
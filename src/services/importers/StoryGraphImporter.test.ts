@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { storyGraphImporter } from './StoryGraphImporter';
+
+const HEADER = 'Title,Authors,Contributors,ISBN/UID,Format,Read Status,Date Added,Last Date Read,Dates Read,Read Count,'
+  + 'Moods,Pace,Character- or Plot-Driven?,Strong Character Development?,Loveable Characters?,Diverse Characters?,'
+  + 'Flawed Characters?,Star Rating,Review,Content Warnings,Content Warning Description,Tags,Owned?';
+
+describe('StoryGraphImporter', () => {
+  it('maps a StoryGraph export row onto an import row', () => {
+    const csv = [
+      HEADER,
+      'Piranesi,Susanna Clarke,,9781635575637,hardcover,read,2021/01/05,2021/02/10,2021/02/01-2021/02/10,,'
+        + '"mysterious, reflective",medium,Plot,,,,,4.25,Lovely,Graphic: Death,Some violence,"fantasy, 2021",Yes'
+    ].join('\n');
+
+    expect(storyGraphImporter.parse(csv)).toEqual([{
+      rowNumber: 1,
+      sourceId: undefined,
+      title: 'Piranesi',
+      authors: ['Susanna Clarke'],
+      isbn13: '9781635575637',
+      isbn10: '163557563X',
+      format: 'hardcover',
+      userRating: 4.5,
+      readingStatus: 'completed',
+      dateAdded: '2021-01-05',
+      finishDate: '2021-02-10',
+      readCount: 1,
+      userNotes: 'Lovely',
+      userTags: ['fantasy', '2021', 'owned'],
+      moods: ['mysterious', 'reflective'],
+      pace: 'medium',
+      contentWarnings: 'Graphic: Death. Some violence',
+      owned: true
+    }]);
+  });
+
+  it('keeps StoryGraph ids of books without an ISBN and ignores the format of unowned books', () => {
+    const csv = [
+      HEADER,
+      'Zine,Someone,,sg-1234,digital,did-not-finish,2022/03/01,2022/04/01,,,,,,,,,,,,,,,No'
+    ].join('\n');
+
+    const [row] = storyGraphImporter.parse(csv);
+
+    expect(row.sourceId).toBe('sg-1234');
+    expect(row.isbn13).toBeUndefined();
+    expect(row.format).toBeUndefined();
+    expect(row.readingStatus).toBe('abandoned');
+    expect(row.finishDate).toBeUndefined();
+    expect(row.readCount).toBe(0);
+    expect(row.userRating).toBe(0);
+  });
+
+  it('rejects files that are not StoryGraph exports', () => {
+    expect(() => storyGraphImporter.parse('Title,Exclusive Shelf\nDune,read')).toThrow(/StoryGraph/);
+  });
+});
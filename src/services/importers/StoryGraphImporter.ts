@@ -0,0 +1,110 @@
+import { Book, ReadingStatus } from '../../models/BookTypes';
+import { parseDelimitedRecords } from '../../utils/csv';
+import { ImportRow, LibraryImporter } from './ImportTypes';
+import {
+  normalizeExportDate,
+  parseExportNumber,
+  pickExportedIsbns,
+  roundRatingToHalf,
+  splitExportList
+} from './importHelpers';
+
+/**
+ * StoryGraph "Read Status" values and the reading status they map to
+ */
+const READ_STATUS_TO_STATUS: Record<string, ReadingStatus> = {
+  'read': 'completed',
+  'currently-reading': 'reading',
+  'to-read': 'to-read',
+  'paused': 'reading',
+  'did-not-finish': 'abandoned'
+};
+
+/**
+ * StoryGraph "Format" values and the format they map to
+ */
+const FORMAT_TO_FORMAT: Record<string, Book['format']> = {
+  'hardcover': 'hardcover',
+  'paperback': 'paperback',
+  'digital': 'ebook',
+  'audio': 'audiobook'
+};
+
+/**
+ * StoryGraphImporter
+ *
+ * Reads the CSV produced by StoryGraph's "Export StoryGraph Library"
+ * tool into normalized import rows, including the reader's moods,
+ * pace and content warnings.
+ */
+export class StoryGraphImporter implements LibraryImporter {
+  id = 'storygraph';
+  name = 'StoryGraph';
+  accept = '.csv,text/csv';
+
+  /**
+   * Parse a StoryGraph export
+   * @param contents CSV file contents
+   * @returns Normalized rows
+   */
+  parse(contents: string): ImportRow[] {
+    const records = parseDelimitedRecords(contents);
+
+    if (records.length > 0 && !('Read Status' in records[0])) {
+      throw new Error('This does not look like a StoryGraph library export (missing "Read Status" column)');
+    }
+
+    return records
+      .map((record, index) => this.toImportRow(record, index + 1))
+      .filter(row => row.title !== '');
+  }
+
+  /**
+   * Map one StoryGraph CSV record onto an import row
+   * @param record CSV record keyed by column name
+   * @param rowNumber 1-based row number
+   * @returns Normalized row
+   */
+  private toImportRow(record: Record<string, string>, rowNumber: number): ImportRow {
+    const readStatus = (record['Read Status'] || 'to-read').toLowerCase();
+    const readCount = parseExportNumber(record['Read Count']);
+    const owned = (record['Owned?'] || '').toLowerCase() === 'yes';
+
+    // "ISBN/UID" holds either an ISBN or StoryGraph's own id for books without one
+    const { isbn13, isbn10 } = pickExportedIsbns([record['ISBN/UID']]);
+
+    const contentWarnings = [record['Content Warnings'], record['Content Warning Description']]
+      .map(value => (value || '').trim())
+      .filter(value => value !== '')
+      .join('. ');
+
+    const userTags = splitExportList(record['Tags']);
+    if (owned && !userTags.includes('owned')) {
+      userTags.push('owned');
+    }
+
+    return {
+      rowNumber,
+      sourceId: isbn13 || isbn10 ? undefined : record['ISBN/UID'] || undefined,
+      title: record['Title'] || '',
+      authors: splitExportList(record['Authors']),
+      isbn13,
+      isbn10,
+      format: owned ? FORMAT_TO_FORMAT[(record['Format'] || '').toLowerCase()] : undefined,
+      userRating: roundRatingToHalf(parseExportNumber(record['Star Rating'])),
+      readingStatus: READ_STATUS_TO_STATUS[readStatus] || 'to-read',
+      dateAdded: normalizeExportDate(record['Date Added']),
+      finishDate: readStatus === 'read' ? normalizeExportDate(record['Last Date Read']) : undefined,
+      readCount: readCount || (readStatus === 'read' ? 1 : 0),
+      userNotes: (record['Review'] || '').trim(),
+      userTags,
+      moods: splitExportList(record['Moods']),
+      pace: (record['Pace'] || '').trim() || undefined,
+      contentWarnings: contentWarnings || undefined,
+      owned
+    };
+  }
+}
+
+// Create and export a singleton instance
+export const storyGraphImporter = new StoryGraphImporter();
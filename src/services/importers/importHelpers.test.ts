@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import {
+  cleanExportedIsbn,
+  normalizeExportDate,
+  parseExportNumber,
+  pickExportedIsbns,
+  roundRatingToHalf,
+  splitExportList
+} from './importHelpers';
+
+describe('importHelpers', () => {
+  it('strips the wrappers export tools put around ISBNs', () => {
+    expect(cleanExportedIsbn('="0441013597"')).toBe('0441013597');
+    expect(cleanExportedIsbn('[0-14-032872-x]')).toBe('014032872X');
+    expect(cleanExportedIsbn('=""')).toBeUndefined();
+  });
+
+  it('picks the first valid ISBN and derives both forms', () => {
+    expect(pickExportedIsbns(['sg-1234', '0441013598', '0441013597'])).toEqual({
+      isbn13: '9780441013593',
+      isbn10: '0441013597'
+    });
+    expect(pickExportedIsbns(['9791090636071'])).toEqual({ isbn13: '9791090636071', isbn10: undefined });
+    expect(pickExportedIsbns([undefined, 'none'])).toEqual({});
+  });
+
+  it('normalizes export dates to ISO dates', () => {
+    expect(normalizeExportDate('2021/3/4')).toBe('2021-03-04');
+    expect(normalizeExportDate('2021-11')).toBe('2021-11-01');
+    expect(normalizeExportDate('March 2021')).toBeUndefined();
+  });
+
+  it('parses numbers with a fallback', () => {
+    expect(parseExportNumber(' 42 ')).toBe(42);
+    expect(parseExportNumber('', 7)).toBe(7);
+  });
+
+  it('splits list cells', () => {
+    expect(splitExportList(' a, ,b ,')).toEqual(['a', 'b']);
+    expect(splitExportList(undefined)).toEqual([]);
+  });
+
+  it('rounds ratings to half points on a 1-5 scale', () => {
+    expect(roundRatingToHalf(4.25)).toBe(4.5);
+    expect(roundRatingToHalf(3.7)).toBe(3.5);
+    expect(roundRatingToHalf(0.1)).toBe(0.5);
+    expect(roundRatingToHalf(6)).toBe(5);
+    expect(roundRatingToHalf(0)).toBe(0);
+  });
+});
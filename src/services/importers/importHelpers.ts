@@ -0,0 +1,72 @@
+import { isbn13To10, normalizeIsbn } from '../../utils/isbn';
+
+/**
+ * Strip the wrappers and punctuation export tools put around ISBNs
+ * (Goodreads' ="...", LibraryThing's [...], hyphens)
+ * @param value Raw ISBN cell
+ * @returns Digits (and a trailing X for ISBN-10) or undefined if empty
+ */
+export const cleanExportedIsbn = (value: string | undefined): string | undefined => {
+  const cleaned = (value || '').replace(/[^0-9Xx]/g, '').toUpperCase();
+  return cleaned.length > 0 ? cleaned : undefined;
+};
+
+/**
+ * Convert an export date (YYYY/MM/DD, YYYY-MM-DD or YYYY/MM) to ISO format
+ * @param value Raw date cell
+ * @returns ISO date (YYYY-MM-DD) or undefined if empty or unparseable
+ */
+export const normalizeExportDate = (value: string | undefined): string | undefined => {
+  const match = (value || '').trim().match(/^(\d{4})[/-](\d{1,2})(?:[/-](\d{1,2}))?/);
+  if (!match) return undefined;
+
+  const [, year, month, day] = match;
+  return `${year}-${month.padStart(2, '0')}-${(day || '1').padStart(2, '0')}`;
+};
+
+/**
+ * Parse an integer cell, falling back when empty
+ * @param value Raw cell
+ * @param fallback Value to use when the cell is empty or invalid
+ * @returns Parsed number
+ */
+export const parseExportNumber = (value: string | undefined, fallback: number = 0): number => {
+  const parsed = parseFloat((value || '').trim());
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/**
+ * Pick the first valid ISBN from a list of raw values and derive both forms
+ * @param values Raw ISBN values in order of preference
+ * @returns Normalized ISBN-13 and, for 978 ISBNs, ISBN-10; empty if none is valid
+ */
+export const pickExportedIsbns = (values: (string | undefined)[]): { isbn13?: string; isbn10?: string } => {
+  const isbn13 = values
+    .map(value => normalizeIsbn(cleanExportedIsbn(value)))
+    .find((isbn): isbn is string => isbn !== null);
+
+  return isbn13 ? { isbn13, isbn10: isbn13To10(isbn13) || undefined } : {};
+};
+
+/**
+ * Split a delimited list cell into trimmed, non-empty values
+ * @param value Raw cell
+ * @param separator List separator
+ * @returns List values
+ */
+export const splitExportList = (value: string | undefined, separator: string | RegExp = ','): string[] => {
+  return (value || '')
+    .split(separator)
+    .map(item => item.trim())
+    .filter(item => item !== '');
+};
+
+/**
+ * Round a rating onto the Book model's 1-5 scale with half points
+ * @param rating Rating from the export (e.g. StoryGraph quarter stars)
+ * @returns Rating rounded to the nearest half point, 0 when unrated
+ */
+export const roundRatingToHalf = (rating: number): number => {
+  if (!rating || rating <= 0) return 0;
+  return Math.min(5, Math.max(0.5, Math.round(rating * 2) / 2));
+};
@@ -0,0 +1,37 @@
+/**
+ * One message of a chat completion request
+ */
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Connection and sampling settings for a provider
+ */
+export interface LLMSettings {
+  providerId: string;           // Provider the settings are for
+  endpoint: string;             // Chat completions URL
+  model: string;
+  apiKey: string;               // Stored on this device only; '' when the endpoint needs none
+  temperature: number;          // 0-2
+  maxTokens: number;            // Upper bound on the length of a reply
+}
+
+/**
+ * Fetch function used for every request; swap it for one that serves
+ * recorded responses to exercise a provider without the network
+ */
+export type LLMFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * A chat model service enrichment can send prompts to (Perplexity, a
+ * locally hosted OpenAI-compatible server...)
+ */
+export interface LLMProvider {
+  id: string;                   // Stable identifier, e.g. "perplexity"
+  name: string;                 // Display name
+  requiresApiKey: boolean;      // False for servers that accept anonymous requests
+  defaults: Omit<LLMSettings, 'providerId' | 'apiKey'>; // Used until the user configures the provider
+  complete(messages: LLMMessage[], settings: LLMSettings): Promise<string>;
+}
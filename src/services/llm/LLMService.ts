@@ -0,0 +1,220 @@
+import { libraryStore } from '../storage/LibraryStore';
+import { LLMMessage, LLMProvider, LLMSettings } from './LLMProvider';
+import { openAICompatibleProvider } from './OpenAICompatibleProvider';
+import { perplexityProvider } from './PerplexityProvider';
+
+/**
+ * What is stored under the settings key
+ */
+export interface StoredLLMSettings {
+  providerId: string;           // Provider enrichment uses
+  providers: Record<string, Partial<Omit<LLMSettings, 'providerId'>>>; // Each provider's configuration
+}
+
+/**
+ * LLMService
+ *
+ * Sends enrichment prompts to the configured chat model:
+ * 1. Pick the provider chosen in settings
+ * 2. Overlay the provider's defaults with the user's endpoint, model, key,
+ *    temperature and token limit
+ * 3. Send the conversation and return the reply
+ * Keys live in the on-device settings store only; nothing is built in.
+ */
+export class LLMService {
+  // Settings key for the provider choice and per-provider configuration
+  private settingsKey = 'llm_settings';
+  private providers: LLMProvider[] = [];
+
+  /**
+   * @param providers Available providers; the first is used until one is chosen
+   */
+  constructor(providers: LLMProvider[] = []) {
+    providers.forEach(provider => this.register(provider));
+  }
+
+  /**
+   * Add a provider, replacing any provider with the same id
+   * @param provider Provider to add
+   */
+  register(provider: LLMProvider): void {
+    this.providers = [...this.providers.filter(p => p.id !== provider.id), provider];
+  }
+
+  /**
+   * Get every registered provider
+   * @returns Providers in registration order
+   */
+  getProviders(): LLMProvider[] {
+    return [...this.providers];
+  }
+
+  /**
+   * Get the provider enrichment uses
+   * @returns The chosen provider, or the first one if the choice is unknown
+   */
+  getProvider(): LLMProvider {
+    const { providerId } = this.getStoredSettings();
+    const provider = this.providers.find(p => p.id === providerId) || this.providers[0];
+    if (!provider) {
+      throw new Error('No language model providers are registered');
+    }
+    return provider;
+  }
+
+  /**
+   * Get the settings in effect for a provider
+   * @param providerId Provider to read, defaults to the chosen one
+   * @returns The provider's defaults overlaid with the user's configuration
+   */
+  getSettings(providerId: string = this.getProvider().id): LLMSettings {
+    const provider = this.providers.find(p => p.id === providerId) || this.getProvider();
+    const configured = this.getStoredSettings().providers[provider.id] || {};
+
+    return {
+      ...provider.defaults,
+      apiKey: '',
+      ...configured,
+      providerId: provider.id
+    };
+  }
+
+  /**
+   * Configure a provider and make it the one enrichment uses
+   * @param settings Provider id and the settings to change
+   */
+  updateSettings(settings: Partial<LLMSettings> & { providerId: string }): void {
+    const provider = this.providers.find(p => p.id === settings.providerId);
+    if (!provider) {
+      throw new Error(`Unknown language model provider "${settings.providerId}"`);
+    }
+
+    const { providerId, ...changes } = settings;
+    const next = { ...this.getSettings(providerId), ...changes };
+
+    if (!next.endpoint.trim() || !/^https?:\/\//i.test(next.endpoint.trim())) {
+      throw new Error('Endpoint must be an http(s) URL');
+    }
+    if (!next.model.trim()) {
+      throw new Error('A model is required');
+    }
+    if (!(next.temperature >= 0 && next.temperature <= 2)) {
+      throw new Error('Temperature must be between 0 and 2');
+    }
+    if (!Number.isInteger(next.maxTokens) || next.maxTokens < 1) {
+      throw new Error('Max tokens must be a whole number above zero');
+    }
+
+    const stored = this.getStoredSettings();
+    libraryStore.setSetting<StoredLLMSettings>(this.settingsKey, {
+      providerId,
+      providers: {
+        ...stored.providers,
+        [providerId]: {
+          ...stored.providers[providerId],
+          ...changes,
+          endpoint: next.endpoint.trim(),
+          model: next.model.trim(),
+          ...(changes.apiKey !== undefined ? { apiKey: changes.apiKey.trim() } : {})
+        }
+      }
+    });
+  }
+
+  /**
+   * Check whether enrichment can send prompts
+   * @returns True if the chosen provider has an endpoint, a model and, where needed, a key
+   */
+  isConfigured(): boolean {
+    if (this.providers.length === 0) return false;
+
+    const provider = this.getProvider();
+    const settings = this.getSettings(provider.id);
+    return !!settings.endpoint && !!settings.model && (!provider.requiresApiKey || !!settings.apiKey);
+  }
+
+  /**
+   * Get the stored configuration for a backup. API keys are left out so
+   * backup files can be shared without leaking them.
+   * @returns The configuration without keys, or undefined if nothing was configured
+   */
+  getBackupSettings(): StoredLLMSettings | undefined {
+    const stored = libraryStore.getSetting<StoredLLMSettings>(this.settingsKey);
+    if (!stored) return undefined;
+
+    return {
+      providerId: stored.providerId,
+      providers: Object.fromEntries(
+        Object.entries(stored.providers).map(([providerId, settings]) => [providerId, this.withoutApiKey(settings)])
+      )
+    };
+  }
+
+  /**
+   * Restore a configuration from a backup, keeping the keys entered on this device
+   * @param settings Configuration returned by getBackupSettings
+   */
+  restoreBackupSettings(settings: StoredLLMSettings): void {
+    const stored = this.getStoredSettings();
+    libraryStore.setSetting<StoredLLMSettings>(this.settingsKey, {
+      providerId: settings.providerId,
+      providers: Object.fromEntries(
+        Object.entries(settings.providers).map(([providerId, configured]) => {
+          const apiKey = stored.providers[providerId]?.apiKey;
+          return [providerId, { ...this.withoutApiKey(configured), ...(apiKey ? { apiKey } : {}) }];
+        })
+      )
+    });
+  }
+
+  /**
+   * Identify the model replies come from, for provenance records
+   * @returns Provider id and model, e.g. "perplexity/sonar"
+   */
+  describeModel(): string {
+    const settings = this.getSettings();
+    return `${settings.providerId}/${settings.model}`;
+  }
+
+  /**
+   * Send a conversation to the configured model
+   * @param messages Conversation to complete
+   * @returns Promise with the text of the reply
+   */
+  async complete(messages: LLMMessage[]): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new Error('No language model is configured. Choose a provider and enter its settings first.');
+    }
+
+    const provider = this.getProvider();
+    try {
+      return await provider.complete(messages, this.getSettings(provider.id));
+    } catch (error) {
+      console.error(`Error querying ${provider.name}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copy a provider's configuration without its API key
+   * @param settings Provider configuration
+   * @returns Configuration without the key
+   */
+  private withoutApiKey(settings: StoredLLMSettings['providers'][string]): StoredLLMSettings['providers'][string] {
+    const copy = { ...settings };
+    delete copy.apiKey;
+    return copy;
+  }
+
+  /**
+   * Read the stored configuration
+   * @returns Stored settings, or an empty configuration
+   */
+  private getStoredSettings(): StoredLLMSettings {
+    return libraryStore.getSetting<StoredLLMSettings>(this.settingsKey)
+      || { providerId: this.providers[0]?.id || '', providers: {} };
+  }
+}
+
+// Create and export a singleton instance
+export const llmService = new LLMService([perplexityProvider, openAICompatibleProvider]);
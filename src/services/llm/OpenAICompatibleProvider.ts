@@ -0,0 +1,74 @@
+import { LLMFetch, LLMMessage, LLMProvider, LLMSettings } from './LLMProvider';
+
+/**
+ * Shape of an OpenAI-style chat completion response, as far as it is read
+ */
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+/**
+ * OpenAICompatibleProvider
+ *
+ * Client for any server speaking the OpenAI chat completions API: OpenAI
+ * itself, or a locally hosted model server (Ollama, llama.cpp, vLLM,
+ * LM Studio). The defaults point at a local Ollama install.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  id = 'openai_compatible';
+  name = 'OpenAI-compatible';
+  requiresApiKey = false;
+  defaults = {
+    endpoint: 'http://localhost:11434/v1/chat/completions',
+    model: 'llama3.1',
+    temperature: 0.2,
+    maxTokens: 1024
+  };
+  protected fetchFn: LLMFetch;
+
+  /**
+   * @param fetchFn Fetch function, defaults to the global fetch
+   */
+  constructor(fetchFn: LLMFetch = (url, init) => fetch(url, init)) {
+    this.fetchFn = fetchFn;
+  }
+
+  /**
+   * Send a chat completion request
+   * @param messages Conversation to complete
+   * @param settings Endpoint, model, key and sampling settings
+   * @returns Promise with the text of the reply
+   */
+  async complete(messages: LLMMessage[], settings: LLMSettings): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      headers.Authorization = `Bearer ${settings.apiKey}`;
+    }
+
+    const response = await this.fetchFn(settings.endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        messages,
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} endpoint returned ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error(`${this.name} endpoint returned no message`);
+    }
+
+    return content;
+  }
+}
+
+// Create and export a singleton instance
+export const openAICompatibleProvider = new OpenAICompatibleProvider();
@@ -0,0 +1,23 @@
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+/**
+ * PerplexityProvider
+ *
+ * Client for the Perplexity API. Its chat completions API follows OpenAI's;
+ * the online models search the web before answering, which the enrichment
+ * prompts rely on to read reviews.
+ */
+export class PerplexityProvider extends OpenAICompatibleProvider {
+  id = 'perplexity';
+  name = 'Perplexity';
+  requiresApiKey = true;
+  defaults = {
+    endpoint: 'https://api.perplexity.ai/chat/completions',
+    model: 'sonar',
+    temperature: 0.2,
+    maxTokens: 1024
+  };
+}
+
+// Create and export a singleton instance
+export const perplexityProvider = new PerplexityProvider();
@@ -0,0 +1,312 @@
+import { Author, BookSearchQuery, GoogleBooksVolume, MinimalBookData } from '../../models/BookTypes';
+import { createAuthorFromName } from '../../utils/bookDefaults';
+import { detectSeries } from '../../utils/series';
+import { buildBookIdentifiers } from '../../utils/bookIdentifiers';
+import { buildGoogleBooksQuery, matchesBookSearchQuery } from '../../utils/catalogSearch';
+import { networkStatusService } from '../NetworkStatusService';
+import { MetadataProvider, MetadataResult } from './MetadataProvider';
+import { ResponseCache, ResponseCacheResult } from './ResponseCache';
+
+/**
+ * Shape of a volumes search response
+ */
+interface GoogleBooksSearchResponse {
+  totalItems?: number;
+  items?: GoogleBooksVolume[];
+}
+
+/**
+ * Paging and cancellation of a catalog search
+ */
+export interface GoogleBooksSearchOptions {
+  startIndex?: number;          // Offset of the first result
+  maxResults?: number;          // Page size; Google allows at most 40
+  signal?: AbortSignal;         // Cancels the request
+}
+
+/**
+ * One page of search results
+ */
+export interface GoogleBooksSearchPage {
+  volumes: GoogleBooksVolume[];
+  totalItems: number;           // Matches across all pages
+}
+
+/**
+ * GoogleBooksProvider
+ *
+ * Client for the Google Books volumes API. This is the only place
+ * the app talks to Google Books. Responses are cached, so repeated searches
+ * and lookups of volumes seen before don't reach the network, and can still
+ * be answered offline.
+ */
+export class GoogleBooksProvider implements MetadataProvider {
+  id = 'google_books';
+  name = 'Google Books';
+  externalSource = 'google_books' as const;
+  identifierKey = 'googleBooksId' as const;
+  private baseUrl: string;
+  private cache: ResponseCache;
+
+  /**
+   * @param baseUrl Google Books volumes endpoint
+   * @param cache Cache for the endpoint's responses
+   */
+  constructor(
+    baseUrl: string = 'https://www.googleapis.com/books/v1/volumes',
+    cache: ResponseCache = new ResponseCache('google_books')
+  ) {
+    this.baseUrl = baseUrl;
+    this.cache = cache;
+  }
+
+  /**
+   * Search for volumes
+   * @param query Search query string (supports intitle:, inauthor:, isbn: ...)
+   * @param maxResults Maximum number of results to return
+   * @returns Promise with matching volumes
+   */
+  async searchVolumes(query: string, maxResults: number = 10): Promise<GoogleBooksVolume[]> {
+    return (await this.searchCatalog({ text: query }, { maxResults })).data.volumes;
+  }
+
+  /**
+   * Run a structured search, reporting whether the results came from the cache
+   * @param query Structured search; language and print type become request filters
+   * @param options Page to fetch and abort signal
+   * @returns Promise with one page of volumes and its source
+   */
+  async searchCatalog(
+    query: BookSearchQuery,
+    options: GoogleBooksSearchOptions = {}
+  ): Promise<ResponseCacheResult<GoogleBooksSearchPage>> {
+    const params = [
+      `q=${encodeURIComponent(buildGoogleBooksQuery(query))}`,
+      `startIndex=${options.startIndex || 0}`,
+      `maxResults=${Math.min(options.maxResults || 10, 40)}`,
+      query.language ? `langRestrict=${encodeURIComponent(query.language)}` : '',
+      query.printType && query.printType !== 'all' ? `printType=${query.printType}` : ''
+    ].filter(Boolean);
+
+    const result = await this.getCachedJson<GoogleBooksSearchResponse>(`?${params.join('&')}`, options.signal);
+    return {
+      ...result,
+      data: { volumes: result.data.items || [], totalItems: result.data.totalItems || 0 }
+    };
+  }
+
+  /**
+   * Search the volumes of every cached response, for when the network is unavailable
+   * @param query Structured search
+   * @param options Page to return
+   * @returns One page of the cached volumes that match the search
+   */
+  searchCachedVolumes(query: BookSearchQuery, options: GoogleBooksSearchOptions = {}): GoogleBooksSearchPage {
+    const printType = query.printType === 'magazines' ? 'MAGAZINE' : query.printType === 'books' ? 'BOOK' : undefined;
+    const matches = this.getCachedVolumes().filter(volume => {
+      const info = volume.volumeInfo;
+      return (!printType || !info.printType || info.printType === printType)
+        && matchesBookSearchQuery(query, {
+          title: info.title,
+          subtitle: info.subtitle,
+          authors: info.authors || [],
+          isbns: (info.industryIdentifiers || []).map(id => id.identifier),
+          publisher: info.publisher,
+          subjects: info.categories || [],
+          language: info.language
+        });
+    });
+
+    const start = options.startIndex || 0;
+    return {
+      volumes: matches.slice(start, start + (options.maxResults || 10)),
+      totalItems: matches.length
+    };
+  }
+
+  /**
+   * Fetch the first volume carrying an ISBN
+   * @param isbn ISBN identifier
+   * @returns Promise with the volume, or null if none matches
+   */
+  async fetchVolumeByISBN(isbn: string): Promise<GoogleBooksVolume | null> {
+    const data = await this.getJson<GoogleBooksSearchResponse>(`?q=isbn:${isbn}`);
+
+    if (data.totalItems && data.totalItems > 0 && data.items && data.items.length > 0) {
+      return data.items[0];
+    }
+
+    return null;
+  }
+
+  /**
+   * Fetch a volume by its Google Books id. Offline, a volume seen in an
+   * earlier search is used instead.
+   * @param volumeId Google Books volume ID
+   * @returns Promise with the full volume
+   */
+  async fetchVolume(volumeId: string): Promise<GoogleBooksVolume> {
+    try {
+      return await this.getJson<GoogleBooksVolume>(`/${encodeURIComponent(volumeId)}`);
+    } catch (error) {
+      const cached = networkStatusService.isOnline()
+        ? undefined
+        : this.getCachedVolumes().find(volume => volume.id === volumeId);
+      if (!cached) throw error;
+      return cached;
+    }
+  }
+
+  /**
+   * Search for books
+   * @param query Search query string
+   * @param maxResults Maximum number of results to return
+   * @returns Promise with one result per volume
+   */
+  async search(query: string, maxResults: number = 10): Promise<MetadataResult[]> {
+    const volumes = await this.searchVolumes(query, maxResults);
+    return volumes.map(volume => this.toResult(volume));
+  }
+
+  /**
+   * Look a book up by ISBN
+   * @param isbn ISBN identifier
+   * @returns Promise with the result, or null if none matches
+   */
+  async lookupByIsbn(isbn: string): Promise<MetadataResult | null> {
+    const volume = await this.fetchVolumeByISBN(isbn);
+    return volume ? this.toResult(volume) : null;
+  }
+
+  /**
+   * Look a book up by Google Books volume ID
+   * @param id Google Books volume ID
+   * @returns Promise with the result
+   */
+  async lookupById(id: string): Promise<MetadataResult | null> {
+    return this.toResult(await this.fetchVolume(id));
+  }
+
+  /**
+   * Convert a stored Google Books volume to our minimal book model
+   * @param raw Stored volume
+   * @returns Minimal book data, or null if the value is not a volume
+   */
+  toMinimalData(raw: unknown): MinimalBookData | null {
+    const volume = raw as GoogleBooksVolume;
+    return volume && volume.volumeInfo ? this.convertVolumeToMinimalData(volume) : null;
+  }
+
+  /**
+   * Convert Google Books API data to our minimal book model
+   * @param googleBook Google Books volume data
+   * @returns Minimal book data compatible with our model
+   */
+  convertVolumeToMinimalData(googleBook: GoogleBooksVolume): MinimalBookData {
+    const volumeInfo = googleBook.volumeInfo;
+
+    // Normalize the ISBNs; volumes without one (or with only OTHER identifiers) get none
+    const industryIdentifiers = volumeInfo.industryIdentifiers || [];
+    const identifiers = buildBookIdentifiers({
+      identifiers: {
+        isbn13: industryIdentifiers.find(id => id.type === 'ISBN_13')?.identifier,
+        isbn10: industryIdentifiers.find(id => id.type === 'ISBN_10')?.identifier,
+        googleBooksId: googleBook.id
+      }
+    });
+
+    // Create minimal authors array; ids are stable so the author registry can match them
+    const authors: Author[] = (volumeInfo.authors || ['Unknown Author']).map(createAuthorFromName);
+
+    return {
+      id: googleBook.id,
+      title: volumeInfo.title,
+      authors,
+      publisher: volumeInfo.publisher || 'Unknown Publisher',
+      publishedDate: volumeInfo.publishedDate || new Date().toISOString().split('T')[0],
+      pageCount: volumeInfo.pageCount || 0,
+      language: volumeInfo.language || 'en',
+      description: volumeInfo.description || '',
+      coverImage: this.getCoverUrl(googleBook),
+      isbn: identifiers.isbn13 || '',
+      identifiers,
+      series: detectSeries({ title: volumeInfo.title, subtitle: volumeInfo.subtitle }),
+      categories: volumeInfo.categories
+    };
+  }
+
+  /**
+   * Get the largest cover image of a volume. Search results only carry
+   * thumbnails; full volume lookups add the larger sizes.
+   * @param volume Google Books volume
+   * @returns HTTPS image URL, or undefined if the volume has no cover
+   */
+  getCoverUrl(volume: GoogleBooksVolume): string | undefined {
+    const links = volume.volumeInfo.imageLinks;
+    const url = links && (links.extraLarge || links.large || links.medium || links.small || links.thumbnail || links.smallThumbnail);
+    return url ? url.replace(/^http:/, 'https:') : undefined;
+  }
+
+  /**
+   * Wrap a volume as a provider result
+   * @param volume Google Books volume
+   * @returns Provider result
+   */
+  private toResult(volume: GoogleBooksVolume): MetadataResult {
+    return {
+      providerId: this.id,
+      id: volume.id,
+      data: this.convertVolumeToMinimalData(volume),
+      raw: volume
+    };
+  }
+
+  /**
+   * Every volume in the cached responses, newest first
+   * @returns Volumes from searches and volume lookups, one per id
+   */
+  private getCachedVolumes(): GoogleBooksVolume[] {
+    const volumes = new Map<string, GoogleBooksVolume>();
+
+    this.cache.entries<GoogleBooksSearchResponse | GoogleBooksVolume>().forEach(entry => {
+      const found = 'volumeInfo' in entry.data ? [entry.data] : entry.data.items || [];
+      found.forEach(volume => {
+        if (volume?.volumeInfo && !volumes.has(volume.id)) {
+          volumes.set(volume.id, volume);
+        }
+      });
+    });
+
+    return Array.from(volumes.values());
+  }
+
+  /**
+   * GET a JSON document from the volumes endpoint
+   * @param path Path and query below the endpoint
+   * @returns Parsed JSON
+   */
+  private async getJson<T>(path: string): Promise<T> {
+    return (await this.getCachedJson<T>(path)).data;
+  }
+
+  /**
+   * GET a JSON document through the response cache
+   * @param path Path and query below the endpoint
+   * @param signal Cancels the request
+   * @returns Parsed JSON and where it came from
+   */
+  private getCachedJson<T>(path: string, signal?: AbortSignal): Promise<ResponseCacheResult<T>> {
+    return this.cache.fetch(path, async requestSignal => {
+      const response = await fetch(`${this.baseUrl}${path}`, { signal: requestSignal });
+
+      if (!response.ok) {
+        throw new Error(`Google Books API returned ${response.status}: ${response.statusText}`);
+      }
+
+      return response.json() as Promise<T>;
+    }, signal);
+  }
+}
+
+// Create and export a singleton instance
+export const googleBooksProvider = new GoogleBooksProvider();
@@ -0,0 +1,55 @@
+import { BookEnrichmentSource, BookIdentifiers, MinimalBookData } from '../../models/BookTypes';
+
+/**
+ * Catalog fields providers supply and the merge engine combines
+ */
+export type MergeableField = Exclude<keyof MinimalBookData, 'id' | 'identifiers'>;
+
+export const MERGEABLE_FIELDS: MergeableField[] = [
+  'title',
+  'authors',
+  'publisher',
+  'publishedDate',
+  'pageCount',
+  'language',
+  'description',
+  'coverImage',
+  'isbn',
+  'series',
+  'categories'
+];
+
+/**
+ * A book as returned by one provider
+ */
+export interface MetadataResult {
+  providerId: string;           // Provider that produced the result
+  id: string;                   // Record id in the provider's catalog
+  data: MinimalBookData;
+  raw: unknown;                 // Raw response, stored as external book data
+}
+
+/**
+ * A source of catalog metadata (Google Books, Open Library, an internal catalog...)
+ */
+export interface MetadataProvider {
+  id: string;                   // Stable identifier, e.g. "google_books"
+  name: string;                 // Display name
+  externalSource?: BookEnrichmentSource; // Source raw responses are stored under; omit to not store them
+  identifierKey?: keyof BookIdentifiers; // Identifier holding this provider's record id, if any
+  search(query: string, maxResults?: number): Promise<MetadataResult[]>;
+  lookupByIsbn(isbn: string): Promise<MetadataResult | null>;
+  lookupById(id: string): Promise<MetadataResult | null>;
+  toMinimalData(raw: unknown): MinimalBookData | null; // Convert a stored raw response
+}
+
+/**
+ * Provider ids in order of precedence, per field.
+ * Fields without a rule use the registry's provider order.
+ */
+export type FieldPrecedenceRules = Partial<Record<MergeableField, string[]>>;
+
+/**
+ * Id used for user-entered values in merge results; they always win
+ */
+export const USER_SOURCE_ID = 'user';
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MinimalBookData } from '../../models/BookTypes';
+import { MetadataProvider, MetadataResult } from './MetadataProvider';
+import { DEFAULT_FIELD_PRECEDENCE, MetadataProviderRegistry } from './MetadataProviderRegistry';
+
+// Settings kept in memory instead of IndexedDB
+const settings = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('../storage/LibraryStore', () => ({
+  libraryStore: {
+    getSetting: (key: string) => settings.get(key),
+    setSetting: (key: string, value: unknown) => {
+      settings.set(key, value);
+    }
+  }
+}));
+
+const provider = (id: string) => ({ id, name: id }) as MetadataProvider;
+
+const result = (providerId: string, data: Partial<MinimalBookData>): MetadataResult => ({
+  providerId,
+  id: `${providerId}-id`,
+  data: {
+    id: `${providerId}-id`,
+    title: '',
+    authors: [],
+    publisher: '',
+    publishedDate: '',
+    pageCount: 0,
+    language: '',
+    description: '',
+    isbn: '',
+    ...data
+  },
+  raw: {}
+});
+
+describe('MetadataProviderRegistry', () => {
+  let registry: MetadataProviderRegistry;
+
+  beforeEach(() => {
+    settings.clear();
+    registry = new MetadataProviderRegistry([provider('google_books'), provider('open_library'), provider('internal')]);
+  });
+
+  it('uses the default precedence until a field is configured', () => {
+    expect(registry.getFieldPrecedence()).toEqual(DEFAULT_FIELD_PRECEDENCE);
+
+    registry.setFieldPrecedence('pageCount', ['internal']);
+    registry.setFieldPrecedence('publisher', ['open_library', 'google_books']);
+    expect(registry.getFieldPrecedence()).toEqual({
+      ...DEFAULT_FIELD_PRECEDENCE,
+      pageCount: ['internal'],
+      publisher: ['open_library', 'google_books']
+    });
+
+    registry.setFieldPrecedence('pageCount', null);
+    expect(registry.getFieldPrecedence().pageCount).toEqual(DEFAULT_FIELD_PRECEDENCE.pageCount);
+    expect(settings.get('metadata_field_precedence')).toEqual({ publisher: ['open_library', 'google_books'] });
+  });
+
+  it('keeps the primary result first and orders the rest by registration', () => {
+    const merged = registry.merge([
+      result('internal', { isbn: '9780441013593' }),
+      result('open_library', { title: 'Dune (Deluxe)', publisher: 'Ace' }),
+      result('google_books', { title: 'Dune', publisher: 'Chilton' })
+    ]);
+
+    expect(merged.data.id).toBe('internal-id');
+    // google_books is registered before open_library
+    expect(merged.sources).toMatchObject({ isbn: 'internal', title: 'google_books', publisher: 'google_books' });
+  });
+
+  it('applies the default and configured rules', () => {
+    const results = [
+      result('google_books', { pageCount: 412, description: 'Google description' }),
+      result('open_library', { pageCount: 604, description: 'Open Library description' })
+    ];
+
+    expect(registry.merge(results).data).toMatchObject({ pageCount: 604, description: 'Google description' });
+
+    registry.setFieldPrecedence('description', ['open_library']);
+    expect(registry.merge(results).data.description).toBe('Open Library description');
+  });
+
+  it('lets user values win over every provider', () => {
+    const merged = registry.merge([result('google_books', { title: 'Dune' })], { title: 'Dune: Deluxe Edition' });
+
+    expect(merged.data.title).toBe('Dune: Deluxe Edition');
+    expect(merged.sources.title).toBe('user');
+  });
+
+  it('replaces a provider registered twice and places it where asked', () => {
+    registry.register(provider('internal'), 0);
+
+    expect(registry.getProviders().map(p => p.id)).toEqual(['internal', 'google_books', 'open_library']);
+
+    registry.unregister('google_books');
+    expect(registry.getProvider('google_books')).toBeUndefined();
+  });
+});
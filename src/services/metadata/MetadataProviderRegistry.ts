@@ -0,0 +1,146 @@
+import { MinimalBookData } from '../../models/BookTypes';
+import { libraryStore } from '../storage/LibraryStore';
+import { FieldPrecedenceRules, MergeableField, MetadataProvider, MetadataResult } from './MetadataProvider';
+import { MergedMetadata, mergeMetadata } from './metadataMerge';
+import { googleBooksProvider } from './GoogleBooksProvider';
+import { openLibraryProvider } from './OpenLibraryProvider';
+
+/**
+ * Field precedence used unless overridden: Open Library's page counts are
+ * per edition and more reliable, as are its explicit series labels;
+ * Google's descriptions are more complete.
+ * Fields not listed follow the registration order.
+ */
+export const DEFAULT_FIELD_PRECEDENCE: FieldPrecedenceRules = {
+  pageCount: ['open_library', 'google_books'],
+  description: ['google_books', 'open_library'],
+  series: ['open_library', 'google_books']
+};
+
+/**
+ * MetadataProviderRegistry
+ *
+ * Holds the catalog providers in precedence order and the per-field rules
+ * used to merge their results. Additional providers (e.g. an internal
+ * catalog) are added with register() without changing any service.
+ */
+export class MetadataProviderRegistry {
+  // Settings key for user-configured field precedence
+  private precedenceSettingKey = 'metadata_field_precedence';
+  private providers: MetadataProvider[] = [];
+
+  /**
+   * @param providers Providers in default precedence order
+   */
+  constructor(providers: MetadataProvider[] = []) {
+    providers.forEach(provider => this.register(provider));
+  }
+
+  /**
+   * Add a provider, replacing any provider with the same id
+   * @param provider Provider to add
+   * @param position Index to insert at; appended (lowest precedence) by default
+   */
+  register(provider: MetadataProvider, position: number = this.providers.length): void {
+    this.providers = this.providers.filter(p => p.id !== provider.id);
+    this.providers.splice(position, 0, provider);
+  }
+
+  /**
+   * Remove a provider
+   * @param providerId Id of the provider to remove
+   */
+  unregister(providerId: string): void {
+    this.providers = this.providers.filter(p => p.id !== providerId);
+  }
+
+  /**
+   * Get a provider by id
+   * @param providerId Provider id
+   * @returns The provider, or undefined if not registered
+   */
+  getProvider(providerId: string): MetadataProvider | undefined {
+    return this.providers.find(p => p.id === providerId);
+  }
+
+  /**
+   * Get every registered provider
+   * @returns Providers in default precedence order
+   */
+  getProviders(): MetadataProvider[] {
+    return [...this.providers];
+  }
+
+  /**
+   * Get the per-field precedence rules in effect
+   * @returns Defaults overlaid with the user's configuration
+   */
+  getFieldPrecedence(): FieldPrecedenceRules {
+    return {
+      ...DEFAULT_FIELD_PRECEDENCE,
+      ...(libraryStore.getSetting<FieldPrecedenceRules>(this.precedenceSettingKey) || {})
+    };
+  }
+
+  /**
+   * Set the provider precedence for a field
+   * @param field Field to configure
+   * @param providerIds Provider ids, highest precedence first; null restores the default
+   */
+  setFieldPrecedence(field: MergeableField, providerIds: string[] | null): void {
+    const configured = { ...(libraryStore.getSetting<FieldPrecedenceRules>(this.precedenceSettingKey) || {}) };
+
+    if (providerIds) {
+      configured[field] = providerIds;
+    } else {
+      delete configured[field];
+    }
+
+    libraryStore.setSetting(this.precedenceSettingKey, configured);
+  }
+
+  /**
+   * Look a book up by ISBN in every provider except the ones given
+   * @param isbn ISBN to look up
+   * @param excludeProviderIds Providers already consulted
+   * @returns Promise with the results of every provider that knows the ISBN
+   */
+  async lookupByIsbnInAll(isbn: string, excludeProviderIds: string[] = []): Promise<MetadataResult[]> {
+    const lookups = this.providers
+      .filter(provider => !excludeProviderIds.includes(provider.id))
+      .map(async provider => {
+        try {
+          return await provider.lookupByIsbn(isbn);
+        } catch (error) {
+          // One provider failing shouldn't block the others
+          console.error(`Error looking up ISBN ${isbn} in ${provider.name}:`, error);
+          return null;
+        }
+      });
+
+    const results = await Promise.all(lookups);
+    return results.filter((result): result is MetadataResult => result !== null);
+  }
+
+  /**
+   * Merge results from several providers using the configured precedence
+   * @param results Provider results; the first is the primary record
+   * @param userValues Values the user entered, which always win
+   * @returns Merged data and the source of every field
+   */
+  merge(results: MetadataResult[], userValues?: Partial<MinimalBookData>): MergedMetadata {
+    // Results follow the registry order unless a field rule says otherwise,
+    // but the primary record (whose id the book keeps) stays first
+    const [primary, ...others] = results;
+    const rank = (result: MetadataResult) => {
+      const index = this.providers.findIndex(p => p.id === result.providerId);
+      return index === -1 ? this.providers.length : index;
+    };
+    const ordered = [primary, ...others.sort((a, b) => rank(a) - rank(b))];
+
+    return mergeMetadata(ordered, this.getFieldPrecedence(), userValues);
+  }
+}
+
+// Create and export a singleton instance
+export const metadataProviderRegistry = new MetadataProviderRegistry([googleBooksProvider, openLibraryProvider]);
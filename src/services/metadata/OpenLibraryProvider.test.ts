@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { OpenLibraryProvider } from './OpenLibraryProvider';
+
+/**
+ * Serve recorded Open Library responses by path; anything else is a 404
+ */
+const recordedFetch = (responses: Record<string, unknown>) => async (url: string): Promise<Response> => {
+  const path = new URL(url).pathname;
+  return path in responses
+    ? new Response(JSON.stringify(responses[path]), { status: 200 })
+    : new Response('Not found', { status: 404, statusText: 'Not Found' });
+};
+
+const RESPONSES = {
+  '/isbn/0441013597.json': {
+    key: '/books/OL7353617M',
+    title: 'Dune',
+    publishers: ['Ace Books'],
+    publish_date: 'August 2005',
+    number_of_pages: 528,
+    isbn_10: ['0441013597'],
+    isbn_13: ['9780441013593'],
+    covers: [-1, 6979861],
+    works: [{ key: '/works/OL893415W' }],
+    languages: [{ key: '/languages/eng' }]
+  },
+  '/works/OL893415W.json': {
+    key: '/works/OL893415W',
+    title: 'Dune',
+    description: { type: '/type/text', value: 'A desert planet.' },
+    authors: [{ author: { key: '/authors/OL79034A' } }],
+    subjects: ['Science fiction', 'Deserts']
+  },
+  '/authors/OL79034A.json': {
+    key: '/authors/OL79034A',
+    name: 'Frank Herbert',
+    birth_date: '8 October 1920',
+    death_date: '11 February 1986'
+  }
+};
+
+describe('OpenLibraryProvider', () => {
+  it('looks a book up by ISBN and fills in the work and authors', async () => {
+    const provider = new OpenLibraryProvider(recordedFetch(RESPONSES));
+
+    const result = await provider.lookupByIsbn('0-441-01359-7');
+
+    expect(result?.id).toBe('OL7353617M');
+    expect(result?.data).toMatchObject({
+      id: 'OL7353617M',
+      title: 'Dune',
+      authors: [{ name: 'Frank Herbert', birth: '1920', death: '1986' }],
+      publisher: 'Ace Books',
+      publishedDate: '2005-08-01',
+      pageCount: 528,
+      language: 'en',
+      description: 'A desert planet.',
+      coverImage: 'https://covers.openlibrary.org/b/id/6979861-L.jpg',
+      isbn: '9780441013593',
+      identifiers: { isbn13: '9780441013593', isbn10: '0441013597', openLibraryId: 'OL7353617M' },
+      categories: ['Science fiction', 'Deserts']
+    });
+  });
+
+  it('returns null for ISBNs Open Library does not know', async () => {
+    const provider = new OpenLibraryProvider(recordedFetch({}));
+    expect(await provider.lookupByIsbn('9780441013593')).toBeNull();
+  });
+
+  it('rebuilds minimal data from a stored record', async () => {
+    const provider = new OpenLibraryProvider(recordedFetch(RESPONSES));
+    const result = await provider.lookupByIsbn('0441013597');
+
+    expect(provider.toMinimalData(result?.raw)).toEqual(result?.data);
+    expect(provider.toMinimalData({ id: 'not a record' })).toBeNull();
+  });
+
+  it('raises API errors other than 404', async () => {
+    const provider = new OpenLibraryProvider(async () => new Response('', { status: 503, statusText: 'Service Unavailable' }));
+    await expect(provider.lookupByIsbn('0441013597')).rejects.toThrow('Open Library API returned 503');
+  });
+});
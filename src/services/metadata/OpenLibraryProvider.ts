@@ -0,0 +1,438 @@
+import {
+  MinimalBookData,
+  OpenLibraryAuthor,
+  OpenLibraryAuthorSearchDoc,
+  OpenLibraryBookRecord,
+  OpenLibraryEdition,
+  OpenLibrarySearchDoc,
+  OpenLibraryText,
+  OpenLibraryWork
+} from '../../models/BookTypes';
+import { createAuthorFromName } from '../../utils/bookDefaults';
+import { buildBookIdentifiers } from '../../utils/bookIdentifiers';
+import { detectSeries } from '../../utils/series';
+import { MetadataProvider, MetadataResult } from './MetadataProvider';
+
+/**
+ * Fetch function used for every request; swap it for one that serves
+ * recorded responses to exercise the provider without the network
+ */
+export type OpenLibraryFetch = (url: string) => Promise<Response>;
+
+export type OpenLibraryCoverSize = 'S' | 'M' | 'L';
+
+/**
+ * ISO 639-2 codes used by Open Library and the ISO 639-1 codes the Book model uses
+ */
+const LANGUAGE_CODES: Record<string, string> = {
+  eng: 'en', fre: 'fr', fra: 'fr', ger: 'de', deu: 'de', spa: 'es', ita: 'it',
+  por: 'pt', rus: 'ru', jpn: 'ja', chi: 'zh', zho: 'zh', kor: 'ko', ara: 'ar',
+  dut: 'nl', nld: 'nl', swe: 'sv', nor: 'no', dan: 'da', fin: 'fi', pol: 'pl',
+  cze: 'cs', ces: 'cs', gre: 'el', ell: 'el', heb: 'he', hin: 'hi', tur: 'tr',
+  hun: 'hu', lat: 'la', ukr: 'uk', per: 'fa', fas: 'fa'
+};
+
+// Open Library lists dozens of subjects per book, the most relevant first
+const MAX_SUBJECTS = 10;
+
+/**
+ * OpenLibraryProvider
+ *
+ * Client for the Open Library APIs: search, ISBN lookup, works, editions,
+ * authors and covers. Results are converted to MinimalBookData the same way
+ * Google Books volumes are, so either source can create a book.
+ */
+export class OpenLibraryProvider implements MetadataProvider {
+  id = 'open_library';
+  name = 'Open Library';
+  externalSource = 'open_library' as const;
+  identifierKey = 'openLibraryId' as const;
+  private fetchFn: OpenLibraryFetch;
+  private baseUrl: string;
+  private coversUrl: string;
+
+  /**
+   * @param fetchFn Fetch function, defaults to the global fetch
+   * @param baseUrl Open Library API root
+   * @param coversUrl Open Library covers root
+   */
+  constructor(
+    fetchFn: OpenLibraryFetch = url => fetch(url),
+    baseUrl: string = 'https://openlibrary.org',
+    coversUrl: string = 'https://covers.openlibrary.org'
+  ) {
+    this.fetchFn = fetchFn;
+    this.baseUrl = baseUrl;
+    this.coversUrl = coversUrl;
+  }
+
+  /**
+   * Search for books
+   * @param query Search query string
+   * @param maxResults Maximum number of results to return
+   * @returns Promise with one result per matching work
+   */
+  async search(query: string, maxResults: number = 10): Promise<MetadataResult[]> {
+    const docs = await this.searchWorks(query, maxResults);
+    return docs.map(doc => {
+      const data = this.convertSearchDocToMinimalData(doc);
+      return { providerId: this.id, id: data.id, data, raw: doc };
+    });
+  }
+
+  /**
+   * Look a book up by ISBN
+   * @param isbn ISBN-10 or ISBN-13
+   * @returns Promise with the result, or null if Open Library doesn't know the ISBN
+   */
+  async lookupByIsbn(isbn: string): Promise<MetadataResult | null> {
+    const record = await this.fetchBookByISBN(isbn);
+    return record ? this.toResult(record) : null;
+  }
+
+  /**
+   * Look a book up by edition id
+   * @param id Edition OLID or key
+   * @returns Promise with the result, or null if not found
+   */
+  async lookupById(id: string): Promise<MetadataResult | null> {
+    const record = await this.fetchBookByEditionId(id);
+    return record ? this.toResult(record) : null;
+  }
+
+  /**
+   * Convert stored Open Library records to our minimal book model
+   * @param raw Stored edition record
+   * @returns Minimal book data, or null if the value is not an edition record
+   */
+  toMinimalData(raw: unknown): MinimalBookData | null {
+    const record = raw as OpenLibraryBookRecord;
+    return record && record.edition ? this.convertOpenLibraryBookToMinimalData(record) : null;
+  }
+
+  /**
+   * Search Open Library works
+   * @param query Search query string
+   * @param limit Maximum number of results to return
+   * @returns Promise with one search document per matching work
+   */
+  async searchWorks(query: string, limit: number = 10): Promise<OpenLibrarySearchDoc[]> {
+    try {
+      const data = await this.getJson<{ docs?: OpenLibrarySearchDoc[] }>(
+        `/search.json?q=${encodeURIComponent(query)}&limit=${limit}`
+      );
+      return data?.docs || [];
+    } catch (error) {
+      console.error('Error searching Open Library:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch an edition by ISBN
+   * @param isbn ISBN-10 or ISBN-13
+   * @returns Promise with the edition, or null if Open Library doesn't know it
+   */
+  async fetchEditionByISBN(isbn: string): Promise<OpenLibraryEdition | null> {
+    return this.getJson<OpenLibraryEdition>(`/isbn/${encodeURIComponent(isbn.replace(/[^0-9Xx]/g, ''))}.json`);
+  }
+
+  /**
+   * Fetch an edition by its Open Library id
+   * @param editionId Edition OLID ("OL7353617M") or key ("/books/OL7353617M")
+   * @returns Promise with the edition, or null if not found
+   */
+  async fetchEdition(editionId: string): Promise<OpenLibraryEdition | null> {
+    return this.getJson<OpenLibraryEdition>(`/books/${this.toOlid(editionId)}.json`);
+  }
+
+  /**
+   * Fetch a work by its Open Library id
+   * @param workId Work OLID ("OL45804W") or key ("/works/OL45804W")
+   * @returns Promise with the work, or null if not found
+   */
+  async fetchWork(workId: string): Promise<OpenLibraryWork | null> {
+    return this.getJson<OpenLibraryWork>(`/works/${this.toOlid(workId)}.json`);
+  }
+
+  /**
+   * Fetch the editions of a work
+   * @param workId Work OLID or key
+   * @param limit Maximum number of editions to return
+   * @returns Promise with the work's editions
+   */
+  async fetchWorkEditions(workId: string, limit: number = 50): Promise<OpenLibraryEdition[]> {
+    const data = await this.getJson<{ entries?: OpenLibraryEdition[] }>(
+      `/works/${this.toOlid(workId)}/editions.json?limit=${limit}`
+    );
+    return data?.entries || [];
+  }
+
+  /**
+   * Fetch an author by their Open Library id
+   * @param authorId Author OLID ("OL34184A") or key ("/authors/OL34184A")
+   * @returns Promise with the author, or null if not found
+   */
+  async fetchAuthor(authorId: string): Promise<OpenLibraryAuthor | null> {
+    return this.getJson<OpenLibraryAuthor>(`/authors/${this.toOlid(authorId)}.json`);
+  }
+
+  /**
+   * Search for authors by name
+   * @param name Author name
+   * @param limit Maximum number of results to return
+   * @returns Promise with matching authors, best match first
+   */
+  async searchAuthors(name: string, limit: number = 5): Promise<OpenLibraryAuthorSearchDoc[]> {
+    const data = await this.getJson<{ docs?: OpenLibraryAuthorSearchDoc[] }>(
+      `/search/authors.json?q=${encodeURIComponent(name)}&limit=${limit}`
+    );
+    return data?.docs || [];
+  }
+
+  /**
+   * Fetch the works of an author
+   * @param authorId Author OLID or key
+   * @param limit Maximum number of works to return
+   * @returns Promise with the author's works
+   */
+  async fetchAuthorWorks(authorId: string, limit: number = 100): Promise<OpenLibraryWork[]> {
+    const data = await this.getJson<{ entries?: OpenLibraryWork[] }>(
+      `/authors/${this.toOlid(authorId)}/works.json?limit=${limit}`
+    );
+    return data?.entries || [];
+  }
+
+  /**
+   * Fetch an edition by ISBN along with its work and authors
+   * @param isbn ISBN-10 or ISBN-13
+   * @returns Promise with the raw records, or null if Open Library doesn't know the ISBN
+   */
+  async fetchBookByISBN(isbn: string): Promise<OpenLibraryBookRecord | null> {
+    try {
+      const edition = await this.fetchEditionByISBN(isbn);
+      return edition ? this.completeRecord(edition) : null;
+    } catch (error) {
+      console.error(`Error fetching Open Library book by ISBN ${isbn}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch an edition by id along with its work and authors
+   * @param editionId Edition OLID or key
+   * @returns Promise with the raw records, or null if not found
+   */
+  async fetchBookByEditionId(editionId: string): Promise<OpenLibraryBookRecord | null> {
+    try {
+      const edition = await this.fetchEdition(editionId);
+      return edition ? this.completeRecord(edition) : null;
+    } catch (error) {
+      console.error(`Error fetching Open Library edition ${editionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a cover image URL
+   * @param cover Cover id, or an ISBN / edition OLID to look the cover up by
+   * @param size S, M or L
+   * @returns Cover URL
+   */
+  getCoverUrl(cover: { coverId?: number; isbn?: string; olid?: string }, size: OpenLibraryCoverSize = 'M'): string | undefined {
+    if (cover.coverId && cover.coverId > 0) {
+      return `${this.coversUrl}/b/id/${cover.coverId}-${size}.jpg`;
+    }
+    if (cover.isbn) {
+      return `${this.coversUrl}/b/isbn/${cover.isbn}-${size}.jpg?default=false`;
+    }
+    if (cover.olid) {
+      return `${this.coversUrl}/b/olid/${this.toOlid(cover.olid)}-${size}.jpg?default=false`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Convert Open Library records to our minimal book model
+   * @param record Edition with its work and authors
+   * @returns Minimal book data compatible with our model
+   */
+  convertOpenLibraryBookToMinimalData(record: OpenLibraryBookRecord): MinimalBookData {
+    const { edition, work } = record;
+
+    const authors = record.authors.length > 0
+      ? record.authors.map(author => ({
+        ...createAuthorFromName(author.name),
+        birth: author.birth_date?.match(/\d{4}/)?.[0],
+        death: author.death_date?.match(/\d{4}/)?.[0]
+      }))
+      : [createAuthorFromName(edition.by_statement || 'Unknown Author')];
+
+    const coverId = edition.covers?.find(id => id > 0) ?? work?.covers?.find(id => id > 0);
+    const identifiers = buildBookIdentifiers({
+      identifiers: {
+        isbn13: edition.isbn_13?.[0],
+        isbn10: edition.isbn_10?.[0],
+        openLibraryId: record.id
+      }
+    });
+
+    return {
+      id: record.id,
+      title: edition.title || work?.title || '',
+      authors,
+      publisher: edition.publishers?.[0] || 'Unknown Publisher',
+      publishedDate: this.normalizePublishDate(edition.publish_date || work?.first_publish_date),
+      pageCount: edition.number_of_pages || 0,
+      language: this.toLanguageCode(edition.languages?.[0]?.key),
+      description: this.readText(edition.description) || this.readText(work?.description),
+      coverImage: this.getCoverUrl({ coverId }, 'L'),
+      isbn: identifiers.isbn13 || '',
+      identifiers,
+      series: detectSeries({
+        title: edition.title || work?.title || '',
+        subtitle: edition.subtitle || work?.subtitle,
+        seriesLabels: edition.series
+      }),
+      categories: (edition.subjects || work?.subjects)?.slice(0, MAX_SUBJECTS)
+    };
+  }
+
+  /**
+   * Convert a search document to our minimal book model
+   * @param doc Open Library search document
+   * @returns Minimal book data; descriptions are not part of search results
+   */
+  convertSearchDocToMinimalData(doc: OpenLibrarySearchDoc): MinimalBookData {
+    const editionId = doc.cover_edition_key || doc.edition_key?.[0];
+    const identifiers = buildBookIdentifiers({
+      identifiers: {
+        isbn13: doc.isbn?.find(isbn => isbn.length === 13),
+        isbn10: doc.isbn?.find(isbn => isbn.length === 10),
+        openLibraryId: editionId
+      }
+    });
+
+    return {
+      id: editionId || this.toOlid(doc.key),
+      title: doc.title,
+      authors: (doc.author_name || ['Unknown Author']).map(createAuthorFromName),
+      publisher: doc.publisher?.[0] || 'Unknown Publisher',
+      publishedDate: doc.first_publish_year ? String(doc.first_publish_year) : '',
+      pageCount: doc.number_of_pages_median || 0,
+      language: this.toLanguageCode(doc.language?.[0]),
+      description: '',
+      coverImage: this.getCoverUrl({ coverId: doc.cover_i }, 'L'),
+      isbn: identifiers.isbn13 || '',
+      identifiers,
+      series: detectSeries({ title: doc.title, subtitle: doc.subtitle }),
+      categories: doc.subject?.slice(0, MAX_SUBJECTS)
+    };
+  }
+
+  /**
+   * Wrap edition records as a provider result
+   * @param record Edition with its work and authors
+   * @returns Provider result
+   */
+  private toResult(record: OpenLibraryBookRecord): MetadataResult {
+    return {
+      providerId: this.id,
+      id: record.id,
+      data: this.convertOpenLibraryBookToMinimalData(record),
+      raw: record
+    };
+  }
+
+  /**
+   * Fetch the work and authors an edition points to
+   * @param edition Edition record
+   * @returns Raw records for the edition
+   */
+  private async completeRecord(edition: OpenLibraryEdition): Promise<OpenLibraryBookRecord> {
+    const workKey = edition.works?.[0]?.key;
+    const work = workKey ? await this.fetchWork(workKey) : null;
+
+    // Editions often omit authors and leave them to the work
+    const authorKeys = edition.authors?.map(author => author.key)
+      || work?.authors?.map(author => author.author.key)
+      || [];
+    const authors = await Promise.all(authorKeys.map(key => this.fetchAuthor(key)));
+
+    return {
+      id: this.toOlid(edition.key),
+      edition,
+      work: work || undefined,
+      authors: authors.filter((author): author is OpenLibraryAuthor => author !== null)
+    };
+  }
+
+  /**
+   * GET a JSON document from the Open Library API
+   * @param path Path and query below the API root
+   * @returns Parsed JSON, or null on 404
+   */
+  private async getJson<T>(path: string): Promise<T | null> {
+    const response = await this.fetchFn(`${this.baseUrl}${path}`);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Open Library API returned ${response.status}: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Strip the type prefix from an Open Library key
+   * @param key Key like "/works/OL45804W" or a bare OLID
+   * @returns Bare OLID
+   */
+  private toOlid(key: string): string {
+    return key.split('/').filter(Boolean).pop() || key;
+  }
+
+  /**
+   * Read an Open Library text field
+   * @param text Plain string or typed text object
+   * @returns Text content, or an empty string
+   */
+  private readText(text?: OpenLibraryText): string {
+    if (!text) return '';
+    return typeof text === 'string' ? text : text.value || '';
+  }
+
+  /**
+   * Convert an Open Library language key or code to ISO 639-1
+   * @param language Key like "/languages/eng" or code like "eng"
+   * @returns Two-letter code, the original code if unknown, or "en" if missing
+   */
+  private toLanguageCode(language?: string): string {
+    if (!language) return 'en';
+    const code = this.toOlid(language);
+    return LANGUAGE_CODES[code] || code;
+  }
+
+  /**
+   * Normalize Open Library's free-form publish dates
+   * @param value Date like "1990", "March 1990" or "Mar 05, 1990"
+   * @returns ISO date, a bare year, or an empty string
+   */
+  private normalizePublishDate(value?: string): string {
+    const text = (value || '').trim();
+    if (text === '' || /^\d{4}$/.test(text)) return text;
+
+    const parsed = new Date(`${text} UTC`);
+    if (!isNaN(parsed.getTime())) {
+      return parsed.toISOString().split('T')[0];
+    }
+
+    return text.match(/\d{4}/)?.[0] || '';
+  }
+}
+
+// Create and export a singleton instance
+export const openLibraryProvider = new OpenLibraryProvider();
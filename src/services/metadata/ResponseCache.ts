@@ -0,0 +1,261 @@
+import { libraryStore } from '../storage/LibraryStore';
+import { networkStatusService } from '../NetworkStatusService';
+
+/**
+ * A catalog response kept in the apiCache collection
+ */
+export interface CachedResponse<T = unknown> {
+  key: string;                  // Request path, without the namespace
+  data: T;
+  fetchedAt: string;            // ISO date of the network fetch
+  expiresAt: string;            // ISO date after which the network is asked again
+}
+
+/**
+ * Where a response came from
+ * - network: fetched just now
+ * - cache: an entry still within its TTL
+ * - stale: an expired entry, served because the network is unavailable
+ */
+export type ResponseSource = 'network' | 'cache' | 'stale';
+
+/**
+ * A response along with where it came from
+ */
+export interface ResponseCacheResult<T> {
+  data: T;
+  source: ResponseSource;
+  fetchedAt: string;
+}
+
+export interface ResponseCacheOptions {
+  ttlMs: number;                // How long a response is served without asking the network
+  maxEntries: number;           // Oldest entries are pruned beyond this
+}
+
+/**
+ * A network request shared by every caller asking for the same response
+ */
+interface InFlightRequest {
+  promise: Promise<ResponseCacheResult<unknown>>;
+  controller: AbortController;
+  waiters: number;              // Callers that haven't cancelled
+}
+
+const DEFAULT_OPTIONS: ResponseCacheOptions = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxEntries: 500
+};
+
+/**
+ * ResponseCache
+ *
+ * Persistent cache for one catalog's GET responses:
+ * 1. Serve an entry that hasn't expired
+ * 2. Otherwise join an identical request already in flight, or fetch
+ * 3. If the network is unavailable, serve the expired entry instead
+ * Entries survive reloads, so searches made earlier can be answered offline.
+ */
+export class ResponseCache {
+  private namespace: string;
+  private options: ResponseCacheOptions;
+  private inFlight = new Map<string, InFlightRequest>();
+
+  /**
+   * @param namespace Prefix separating this catalog's entries from others'
+   * @param options TTL and size limit
+   */
+  constructor(namespace: string, options: Partial<ResponseCacheOptions> = {}) {
+    this.namespace = namespace;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Get a response, from the cache when possible
+   * @param key Request path identifying the response
+   * @param load Fetches the response from the network, honouring the abort signal
+   * @param signal Cancels this caller's wait; the request itself is only
+   *               aborted once every caller sharing it has cancelled
+   * @returns Promise with the response and where it came from
+   */
+  async fetch<T>(
+    key: string,
+    load: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<ResponseCacheResult<T>> {
+    const cached = this.peek<T>(key);
+    if (cached && new Date(cached.expiresAt).getTime() > Date.now()) {
+      return { data: cached.data, source: 'cache', fetchedAt: cached.fetchedAt };
+    }
+
+    // Keystrokes and parallel lookups often ask for the same thing at once
+    let request = this.inFlight.get(key);
+    if (!request) {
+      const controller = new AbortController();
+      const shared: InFlightRequest = {
+        promise: this.load(key, () => load(controller.signal), cached).finally(() => {
+          this.forget(key, shared);
+        }),
+        controller,
+        waiters: 0
+      };
+      // Nobody may be left waiting if every caller cancelled
+      shared.promise.catch(() => undefined);
+
+      request = shared;
+      this.inFlight.set(key, request);
+    }
+
+    request.waiters++;
+    return this.wait(key, request, signal) as Promise<ResponseCacheResult<T>>;
+  }
+
+  /**
+   * Read an entry regardless of its age
+   * @param key Request path
+   * @returns The cached entry or undefined
+   */
+  peek<T>(key: string): CachedResponse<T> | undefined {
+    return libraryStore.get<CachedResponse<T>>('apiCache', this.storageKey(key));
+  }
+
+  /**
+   * List every entry of this cache
+   * @returns Cached entries, newest first
+   */
+  entries<T>(): CachedResponse<T>[] {
+    const prefix = `${this.namespace}:`;
+    return libraryStore.getEntries<CachedResponse<T>>('apiCache')
+      .filter(entry => entry.key.startsWith(prefix))
+      .map(entry => entry.value)
+      .sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt));
+  }
+
+  /**
+   * Remove every entry of this cache
+   */
+  clear(): void {
+    const prefix = `${this.namespace}:`;
+    libraryStore.getEntries('apiCache')
+      .filter(entry => entry.key.startsWith(prefix))
+      .forEach(entry => libraryStore.delete('apiCache', entry.key));
+  }
+
+  /**
+   * Wait for a shared request until it settles or the caller cancels
+   * @param key Request path
+   * @param request Shared request
+   * @param signal Caller's abort signal
+   * @returns Promise with the shared request's result
+   */
+  private wait(key: string, request: InFlightRequest, signal?: AbortSignal): Promise<ResponseCacheResult<unknown>> {
+    if (!signal) return request.promise;
+
+    return new Promise((resolve, reject) => {
+      const cancel = () => {
+        request.waiters--;
+        if (request.waiters === 0) {
+          // Later callers start a fresh request rather than join the aborted one
+          this.forget(key, request);
+          request.controller.abort();
+        }
+        reject(new DOMException('The request was cancelled', 'AbortError'));
+      };
+
+      if (signal.aborted) {
+        cancel();
+        return;
+      }
+
+      signal.addEventListener('abort', cancel, { once: true });
+      request.promise.then(
+        result => {
+          signal.removeEventListener('abort', cancel);
+          resolve(result);
+        },
+        error => {
+          signal.removeEventListener('abort', cancel);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Stop sharing a request with new callers
+   * @param key Request path
+   * @param request The request to forget, if it is still the one in flight
+   */
+  private forget(key: string, request: InFlightRequest): void {
+    if (this.inFlight.get(key) === request) {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Fetch from the network, falling back to an expired entry when offline
+   * @param key Request path
+   * @param load Fetches the response from the network
+   * @param cached Expired entry, if any
+   * @returns Promise with the response and where it came from
+   */
+  private async load<T>(
+    key: string,
+    load: () => Promise<T>,
+    cached: CachedResponse<T> | undefined
+  ): Promise<ResponseCacheResult<T>> {
+    if (networkStatusService.isBrowserOffline()) {
+      networkStatusService.reportFailure();
+      if (cached) {
+        return { data: cached.data, source: 'stale', fetchedAt: cached.fetchedAt };
+      }
+      throw new Error('You are offline and this request has not been cached');
+    }
+
+    let data: T;
+    try {
+      data = await load();
+    } catch (error) {
+      if (!networkStatusService.isNetworkError(error)) {
+        throw error;
+      }
+
+      networkStatusService.reportFailure();
+      if (cached) {
+        return { data: cached.data, source: 'stale', fetchedAt: cached.fetchedAt };
+      }
+      throw error;
+    }
+
+    networkStatusService.reportSuccess();
+
+    const now = new Date();
+    const entry: CachedResponse<T> = {
+      key,
+      data,
+      fetchedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.options.ttlMs).toISOString()
+    };
+    libraryStore.put('apiCache', this.storageKey(key), entry);
+    this.prune();
+
+    return { data, source: 'network', fetchedAt: entry.fetchedAt };
+  }
+
+  /**
+   * Drop the oldest entries beyond the size limit
+   */
+  private prune(): void {
+    const stale = this.entries().slice(this.options.maxEntries);
+    stale.forEach(entry => libraryStore.delete('apiCache', this.storageKey(entry.key)));
+  }
+
+  /**
+   * Key of an entry in the apiCache collection
+   * @param key Request path
+   * @returns Namespaced key
+   */
+  private storageKey(key: string): string {
+    return `${this.namespace}:${key}`;
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { MinimalBookData } from '../../models/BookTypes';
+import { createAuthorFromName } from '../../utils/bookDefaults';
+import { MetadataResult } from './MetadataProvider';
+import { isEmptyFieldValue, mergeMetadata } from './metadataMerge';
+
+/**
+ * Build a provider result, with every field empty unless given
+ */
+const result = (providerId: string, data: Partial<MinimalBookData>): MetadataResult => ({
+  providerId,
+  id: `${providerId}-id`,
+  data: {
+    id: `${providerId}-id`,
+    title: '',
+    authors: [],
+    publisher: '',
+    publishedDate: '',
+    pageCount: 0,
+    language: '',
+    description: '',
+    isbn: '',
+    ...data
+  },
+  raw: {}
+});
+
+describe('isEmptyFieldValue', () => {
+  it('treats missing values and converter placeholders as empty', () => {
+    expect(isEmptyFieldValue('pageCount', 0)).toBe(true);
+    expect(isEmptyFieldValue('categories', [])).toBe(true);
+    expect(isEmptyFieldValue('publisher', 'Unknown Publisher')).toBe(true);
+    expect(isEmptyFieldValue('authors', [createAuthorFromName('Unknown Author')])).toBe(true);
+  });
+
+  it('keeps real values', () => {
+    expect(isEmptyFieldValue('publisher', 'Ace')).toBe(false);
+    expect(isEmptyFieldValue('authors', [createAuthorFromName('Frank Herbert')])).toBe(false);
+    expect(isEmptyFieldValue('series', { name: 'Dune', position: 1 })).toBe(false);
+  });
+});
+
+describe('mergeMetadata', () => {
+  const google = result('google_books', {
+    title: 'Dune',
+    publisher: 'Unknown Publisher',
+    pageCount: 412,
+    description: 'Short blurb',
+    isbn: '9780441013593',
+    identifiers: { googleBooksId: 'g-dune' }
+  });
+  const openLibrary = result('open_library', {
+    title: 'Dune (Deluxe)',
+    publisher: 'Ace',
+    pageCount: 604,
+    description: 'Long description',
+    isbn: '9780441172719',
+    identifiers: { openLibraryId: 'OL1M', isbn13: '9780441172719' }
+  });
+
+  it('takes each field from the first result that has it', () => {
+    const merged = mergeMetadata([google, openLibrary]);
+
+    expect(merged.data).toMatchObject({ title: 'Dune', publisher: 'Ace', pageCount: 412, description: 'Short blurb' });
+    expect(merged.sources).toMatchObject({
+      title: 'google_books',
+      publisher: 'open_library',
+      pageCount: 'google_books'
+    });
+    // Fields no result has are left out of the sources
+    expect(merged.sources.coverImage).toBeUndefined();
+  });
+
+  it('follows a field rule, then the default order for providers it leaves out', () => {
+    const internal = result('internal', { pageCount: 600, description: 'Internal notes' });
+
+    const merged = mergeMetadata([google, openLibrary, internal], {
+      pageCount: ['open_library'],
+      description: ['internal', 'missing_provider'],
+      // internal has no title, so google_books is next by default order
+      title: ['internal']
+    });
+
+    expect(merged.sources).toMatchObject({ pageCount: 'open_library', description: 'internal', title: 'google_books' });
+    expect(merged.data).toMatchObject({ pageCount: 604, description: 'Internal notes' });
+  });
+
+  it('skips a preferred provider whose value is empty', () => {
+    const merged = mergeMetadata([google, result('open_library', { publisher: 'Ace' })], {
+      pageCount: ['open_library', 'google_books']
+    });
+
+    expect(merged.sources.pageCount).toBe('google_books');
+    expect(merged.data.pageCount).toBe(412);
+  });
+
+  it('lets values the user entered win unless they are empty', () => {
+    const merged = mergeMetadata([google, openLibrary], { pageCount: ['open_library'] }, {
+      pageCount: 500,
+      description: ''
+    });
+
+    expect(merged.data.pageCount).toBe(500);
+    expect(merged.sources.pageCount).toBe('user');
+    expect(merged.sources.description).toBe('google_books');
+  });
+
+  it('keeps every provider id and derives the ISBNs from the winning isbn', () => {
+    const merged = mergeMetadata([google, openLibrary]);
+
+    expect(merged.data.identifiers).toEqual({
+      isbn13: '9780441013593',
+      isbn10: '0441013597',
+      googleBooksId: 'g-dune',
+      openLibraryId: 'OL1M'
+    });
+  });
+
+  it('keeps the primary record id', () => {
+    expect(mergeMetadata([openLibrary, google]).data.id).toBe('open_library-id');
+  });
+
+  it('needs at least one result', () => {
+    expect(() => mergeMetadata([])).toThrow('Cannot merge metadata without at least one provider result');
+  });
+});
@@ -0,0 +1,104 @@
+import { BookIdentifiers, MinimalBookData } from '../../models/BookTypes';
+import { buildBookIdentifiers } from '../../utils/bookIdentifiers';
+import {
+  FieldPrecedenceRules,
+  MERGEABLE_FIELDS,
+  MergeableField,
+  MetadataResult,
+  USER_SOURCE_ID
+} from './MetadataProvider';
+
+/**
+ * Outcome of merging provider results
+ */
+export interface MergedMetadata {
+  data: MinimalBookData;
+  sources: Partial<Record<MergeableField, string>>; // Provider id each field came from
+}
+
+/**
+ * Check whether a field value carries information.
+ * Placeholders converters write for missing data count as empty.
+ * @param field Field name
+ * @param value Field value
+ * @returns True when the value should not be chosen over another provider's
+ */
+export const isEmptyFieldValue = (field: MergeableField, value: unknown): boolean => {
+  if (value === undefined || value === null || value === '' || value === 0) return true;
+  if (Array.isArray(value) && value.length === 0) return true;
+  if (field === 'publisher') return value === 'Unknown Publisher';
+  if (field === 'authors') {
+    const authors = value as MinimalBookData['authors'];
+    return authors.length === 0 || authors.every(author => author.name === 'Unknown Author');
+  }
+  return false;
+};
+
+/**
+ * Order results for one field: providers named by the field's rule first,
+ * in rule order, then the rest in the default order
+ * @param results Results in default provider order
+ * @param rule Provider ids for the field, if configured
+ * @returns Results in precedence order
+ */
+const orderForField = (results: MetadataResult[], rule?: string[]): MetadataResult[] => {
+  if (!rule) return results;
+
+  const rank = (result: MetadataResult) => {
+    const index = rule.indexOf(result.providerId);
+    return index === -1 ? rule.length : index;
+  };
+
+  // Array.prototype.sort is stable, so unranked providers keep the default order
+  return [...results].sort((a, b) => rank(a) - rank(b));
+};
+
+/**
+ * Merge provider results field by field
+ * @param results Provider results, in default precedence order; the first is the primary record
+ * @param rules Per-field provider precedence
+ * @param userValues Values the user entered, which always win
+ * @returns Merged data and the source of every field
+ */
+export const mergeMetadata = (
+  results: MetadataResult[],
+  rules: FieldPrecedenceRules = {},
+  userValues: Partial<MinimalBookData> = {}
+): MergedMetadata => {
+  if (results.length === 0) {
+    throw new Error('Cannot merge metadata without at least one provider result');
+  }
+
+  const primary = results[0];
+  const data: MinimalBookData = { ...primary.data };
+  const sources: Partial<Record<MergeableField, string>> = {};
+
+  MERGEABLE_FIELDS.forEach(field => {
+    if (field in userValues && !isEmptyFieldValue(field, userValues[field])) {
+      Object.assign(data, { [field]: userValues[field] });
+      sources[field] = USER_SOURCE_ID;
+      return;
+    }
+
+    const chosen = orderForField(results, rules[field])
+      .find(result => !isEmptyFieldValue(field, result.data[field]));
+
+    if (chosen) {
+      Object.assign(data, { [field]: chosen.data[field] });
+      sources[field] = chosen.providerId;
+    }
+  });
+
+  // Every provider's ids describe the same book, so keep them all;
+  // the ISBNs follow whichever isbn value won
+  const providerIds = results.reduceRight<BookIdentifiers>(
+    (identifiers, result) => ({ ...identifiers, ...result.data.identifiers }),
+    {}
+  );
+  data.identifiers = buildBookIdentifiers(
+    { isbn: data.isbn },
+    { googleBooksId: providerIds.googleBooksId, openLibraryId: providerIds.openLibraryId }
+  );
+
+  return { data, sources };
+};
@@ -0,0 +1,207 @@
+import { bookMetadataService } from '../BookMetadataService';
+import { bookEnrichmentOrchestrator } from '../BookEnrichmentOrchestrator';
+import { aiEnrichmentService } from '../AIEnrichmentService';
+import { normalizeIsbn } from '../../utils/isbn';
+import { decodeEan13Barcodes, LuminanceSource } from './ean13Decoder';
+import { PhotoScanResult, ScanBatchSummary, ScanItem } from './ScanTypes';
+
+// Photos are scaled down to this many pixels on their longest side before
+// decoding; enough for a back-cover barcode without decoding 12MP images
+const MAX_DECODE_DIMENSION = 2000;
+
+/**
+ * BarcodeScanService
+ *
+ * Adds books from photos of their barcodes:
+ * 1. Each photo is decoded in the browser to find EAN-13 barcodes
+ * 2. Barcodes with an ISBN prefix (978/979) are looked up by ISBN in Google Books
+ * 3. Found books are added like books picked from search results: merged with
+ *    the other catalogs' data and queued for enrichment; anything else is left for review
+ *
+ * Photos are processed one at a time so a batch of twenty doesn't hold
+ * twenty decoded images in memory or fire twenty lookups at once.
+ */
+export class BarcodeScanService {
+  /**
+   * Read the EAN-13 barcodes in a photo
+   * @param file Photo file
+   * @returns Promise with the 13-digit codes found, most clearly read first
+   */
+  async decodePhoto(file: Blob): Promise<string[]> {
+    const pixels = await this.readPixels(file);
+    return decodeEan13Barcodes(pixels);
+  }
+
+  /**
+   * Scan a batch of photos and add every book found
+   * @param files Photo files
+   * @param onProgress Called after each photo is processed
+   * @returns Promise with one result per photo, in input order
+   */
+  async scanPhotos(
+    files: File[],
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<PhotoScanResult[]> {
+    const results: PhotoScanResult[] = [];
+    // ISBNs already handled in this batch, so the same book photographed twice is added once
+    const seenIsbns = new Set<string>();
+
+    for (const [index, file] of files.entries()) {
+      results.push(await this.scanPhoto(`${index}-${file.name}`, file, seenIsbns));
+      onProgress?.(results.length, files.length);
+    }
+
+    return results;
+  }
+
+  /**
+   * Scan one photo and add the books on it
+   * @param photoId Id of the photo within its batch
+   * @param file Photo file
+   * @param seenIsbns ISBNs already handled in the batch; updated in place
+   * @returns Promise with the photo's result
+   */
+  private async scanPhoto(photoId: string, file: File, seenIsbns: Set<string>): Promise<PhotoScanResult> {
+    const result: PhotoScanResult = { photoId, fileName: file.name, barcodes: [], items: [] };
+
+    try {
+      result.barcodes = await this.decodePhoto(file);
+    } catch (error) {
+      console.error(`Error decoding photo ${file.name}:`, error);
+      result.error = 'The photo could not be read';
+      return result;
+    }
+
+    // Other EAN-13s (e.g. a retailer's own code) are reported but not looked up
+    const isbns = result.barcodes
+      .filter(code => /^97[89]/.test(code))
+      .map(normalizeIsbn)
+      .filter((isbn): isbn is string => isbn !== null);
+
+    for (const isbn of isbns) {
+      if (seenIsbns.has(isbn)) {
+        result.items.push({ isbn, status: 'duplicate' });
+        continue;
+      }
+
+      seenIsbns.add(isbn);
+      result.items.push(await this.addByIsbn(isbn));
+    }
+
+    return result;
+  }
+
+  /**
+   * Look an ISBN up in Google Books and add the book to the library
+   * @param isbn ISBN in either form
+   * @returns Promise with the outcome
+   */
+  async addByIsbn(isbn: string): Promise<ScanItem> {
+    const isbn13 = normalizeIsbn(isbn);
+    if (!isbn13) {
+      return { isbn, status: 'failed', error: 'Not a valid ISBN' };
+    }
+
+    const existing = bookMetadataService.findBookByIsbn(isbn13);
+    if (existing) {
+      return { isbn: isbn13, status: 'duplicate', book: existing };
+    }
+
+    try {
+      const volume = await bookMetadataService.fetchBookByISBN(isbn13);
+      if (!volume) {
+        return { isbn: isbn13, status: 'not_found' };
+      }
+
+      // The volume may already be in the library under an id without this ISBN
+      const existingVolume = bookMetadataService.getBookById(volume.id);
+      if (existingVolume) {
+        return { isbn: isbn13, status: 'duplicate', book: existingVolume };
+      }
+
+      // Stored so the add flow merges this response instead of fetching the volume again
+      bookMetadataService.saveExternalBookData(volume.id, 'google_books', volume);
+      const book = await bookEnrichmentOrchestrator.addBookToLibrary(volume.id);
+
+      return { isbn: isbn13, status: 'added', book };
+    } catch (error) {
+      console.error(`Error adding scanned ISBN ${isbn13}:`, error);
+      return { isbn: isbn13, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Look an ISBN up in Open Library and save the book to the library,
+   * for ISBNs Google Books doesn't know
+   * @param isbn ISBN in either form
+   * @returns Promise with the outcome
+   */
+  async addByIsbnFromOpenLibrary(isbn: string): Promise<ScanItem> {
+    const isbn13 = normalizeIsbn(isbn);
+    if (!isbn13) {
+      return { isbn, status: 'failed', error: 'Not a valid ISBN' };
+    }
+
+    const existing = bookMetadataService.findBookByIsbn(isbn13);
+    if (existing) {
+      return { isbn: isbn13, status: 'duplicate', book: existing };
+    }
+
+    try {
+      const book = await bookMetadataService.addBookFromOpenLibrary(isbn13);
+      if (aiEnrichmentService.hasAPIKey()) {
+        await bookEnrichmentOrchestrator.scheduleEnrichment(book);
+      }
+      return { isbn: isbn13, status: 'added', book };
+    } catch (error) {
+      console.error(`Error adding scanned ISBN ${isbn13} from Open Library:`, error);
+      return { isbn: isbn13, status: 'not_found', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Count the outcomes of a batch
+   * @param results Photo results
+   * @returns Batch summary
+   */
+  summarize(results: PhotoScanResult[]): ScanBatchSummary {
+    const items = results.flatMap(result => result.items);
+
+    return {
+      photos: results.length,
+      added: items.filter(item => item.status === 'added').length,
+      duplicates: items.filter(item => item.status === 'duplicate').length,
+      needsReview: results.filter(result => result.items.length === 0).length
+        + items.filter(item => item.status === 'not_found' || item.status === 'failed').length
+    };
+  }
+
+  /**
+   * Decode an image file into pixels, scaled to at most MAX_DECODE_DIMENSION
+   * @param file Image file
+   * @returns Promise with the image's pixels
+   */
+  private async readPixels(file: Blob): Promise<LuminanceSource> {
+    const bitmap = await createImageBitmap(file);
+
+    try {
+      const scale = Math.min(1, MAX_DECODE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(bitmap.width * scale);
+      canvas.height = Math.round(bitmap.height * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas 2D context is not available');
+      }
+
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      return context.getImageData(0, 0, canvas.width, canvas.height);
+    } finally {
+      bitmap.close();
+    }
+  }
+}
+
+// Create and export a singleton instance
+export const barcodeScanService = new BarcodeScanService();
@@ -0,0 +1,41 @@
+import { Book } from '../../models/BookTypes';
+
+/**
+ * What happened to one scanned ISBN
+ * - added: the ISBN resolved to a catalog book, which was saved to the library
+ * - duplicate: the book is already in the library (or was scanned earlier in the batch)
+ * - not_found: the catalog has no book for the ISBN
+ * - failed: the lookup or save threw an error
+ */
+export type ScanItemStatus = 'added' | 'duplicate' | 'not_found' | 'failed';
+
+/**
+ * A scanned ISBN and its outcome
+ */
+export interface ScanItem {
+  isbn: string;                 // Normalized ISBN-13
+  status: ScanItemStatus;
+  book?: Book;                  // Saved or existing library book
+  error?: string;               // Reason for a failure
+}
+
+/**
+ * The result of scanning one photo
+ */
+export interface PhotoScanResult {
+  photoId: string;              // Unique within a batch
+  fileName: string;
+  barcodes: string[];           // Every EAN-13 read from the photo, including non-ISBN codes
+  items: ScanItem[];            // One per ISBN barcode
+  error?: string;               // Set when the photo could not be read at all
+}
+
+/**
+ * Counts for a whole batch
+ */
+export interface ScanBatchSummary {
+  photos: number;
+  added: number;
+  duplicates: number;
+  needsReview: number;          // Photos without a barcode plus ISBNs that failed or weren't found
+}
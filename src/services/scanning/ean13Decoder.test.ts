@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { decodeEan13Barcodes, LuminanceSource } from './ean13Decoder';
+
+// Widths of space, bar, space, bar for each digit's L-code
+const L_WIDTHS = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2]
+];
+const PARITIES = ['000000', '001011', '001101', '001110', '010011', '011001', '011100', '010101', '010110', '011010'];
+
+/**
+ * Encode a 13-digit code as its 95 modules, true for a bar
+ */
+const encodeModules = (code: string): boolean[] => {
+  const digits = code.split('').map(Number);
+  const runs = (widths: number[], startWithBar: boolean) =>
+    widths.flatMap((width, i) => Array<boolean>(width).fill(i % 2 === 0 ? startWithBar : !startWithBar));
+
+  const left = digits.slice(1, 7).flatMap((digit, i) => {
+    const widths = PARITIES[digits[0]][i] === '1' ? [...L_WIDTHS[digit]].reverse() : L_WIDTHS[digit];
+    return runs(widths, false);
+  });
+  const right = digits.slice(7).flatMap(digit => runs(L_WIDTHS[digit], true));
+
+  return [true, false, true, ...left, false, true, false, true, false, ...right, true, false, true];
+};
+
+/**
+ * Render a barcode as RGBA pixels with a quiet zone around it
+ * @param code 13-digit code
+ * @param rotated Draw the bars horizontally, as in a photo taken sideways
+ */
+const renderBarcode = (code: string, rotated = false): LuminanceSource => {
+  const moduleWidth = 3;
+  const quietZone = 12 * moduleWidth;
+  const modules = encodeModules(code);
+  const length = quietZone * 2 + modules.length * moduleWidth;
+  const depth = 24;
+
+  const width = rotated ? depth : length;
+  const height = rotated ? length : depth;
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const position = (rotated ? y : x) - quietZone;
+      const module = Math.floor(position / moduleWidth);
+      if (position >= 0 && module < modules.length && modules[module]) {
+        data.fill(20, (y * width + x) * 4, (y * width + x) * 4 + 3);
+      }
+    }
+  }
+
+  return { width, height, data };
+};
+
+/**
+ * Mirror an image left to right, so its barcode reads backwards
+ */
+const mirror = (image: LuminanceSource): LuminanceSource => {
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const from = (y * image.width + x) * 4;
+      const to = (y * image.width + (image.width - 1 - x)) * 4;
+      data.set(image.data.subarray(from, from + 4), to);
+    }
+  }
+  return { ...image, data };
+};
+
+describe('decodeEan13Barcodes', () => {
+  it('decodes an EAN-13 barcode', () => {
+    expect(decodeEan13Barcodes(renderBarcode('9780441013593'))).toEqual(['9780441013593']);
+  });
+
+  it('decodes codes with G-coded left digits', () => {
+    expect(decodeEan13Barcodes(renderBarcode('9791090636071'))).toEqual(['9791090636071']);
+    expect(decodeEan13Barcodes(renderBarcode('4006381333931'))).toEqual(['4006381333931']);
+  });
+
+  it('decodes barcodes read backwards or photographed sideways', () => {
+    expect(decodeEan13Barcodes(mirror(renderBarcode('9780441013593')))).toEqual(['9780441013593']);
+    expect(decodeEan13Barcodes(renderBarcode('9780441013593', true))).toEqual(['9780441013593']);
+  });
+
+  it('rejects codes whose check digit is wrong', () => {
+    expect(decodeEan13Barcodes(renderBarcode('9780441013594'))).toEqual([]);
+  });
+
+  it('finds nothing in an image without a barcode', () => {
+    const blank = { width: 60, height: 40, data: new Uint8ClampedArray(60 * 40 * 4).fill(255) };
+    expect(decodeEan13Barcodes(blank)).toEqual([]);
+  });
+});
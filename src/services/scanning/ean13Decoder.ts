@@ -0,0 +1,269 @@
+/**
+ * EAN-13 barcode decoder that runs on raw image pixels, with no
+ * native BarcodeDetector or third-party library.
+ *
+ * The image is converted to luminance and read along horizontal and
+ * vertical scanlines in both directions, so barcodes photographed
+ * sideways or upside down are found too. Each scanline is binarized
+ * against a moving average, turned into bar/space run lengths and
+ * searched for the start guard; the 12 encoded digits are matched to
+ * the closest module pattern and the result is accepted only if the
+ * check digit is valid.
+ */
+
+/**
+ * Pixels in the shape of the DOM's ImageData
+ */
+export interface LuminanceSource {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;      // RGBA, 4 bytes per pixel
+}
+
+/**
+ * Digit patterns as widths of space, bar, space, bar (L-codes).
+ * G-codes are the same widths reversed; R-codes are the L widths
+ * read as bar, space, bar, space.
+ */
+const DIGIT_PATTERNS: number[][] = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2]
+];
+
+/**
+ * Parity of the six left-hand digits (0 = L, 1 = G), indexed by the first digit
+ */
+const FIRST_DIGIT_PARITIES = [
+  '000000', '001011', '001101', '001110', '010011',
+  '011001', '011100', '010101', '010110', '011010'
+];
+
+// Bars and spaces from the start guard through the end guard
+const EAN13_RUN_COUNT = 59;
+const EAN13_MODULE_COUNT = 95;
+
+// Largest average per-run deviation (in modules) accepted for a digit
+const MAX_DIGIT_ERROR = 0.38;
+
+// Number of scanlines read across each axis
+const SCANLINES_PER_AXIS = 48;
+
+/**
+ * Convert RGBA pixels to luminance
+ * @param image Source pixels
+ * @returns One byte of luminance per pixel
+ */
+const toLuminance = (image: LuminanceSource): Uint8Array => {
+  const luminance = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < luminance.length; i++) {
+    const offset = i * 4;
+    luminance[i] = (image.data[offset] * 77 + image.data[offset + 1] * 150 + image.data[offset + 2] * 29) >> 8;
+  }
+  return luminance;
+};
+
+/**
+ * Binarize a scanline against its moving average and measure the runs
+ * @param line Luminance values along the scanline
+ * @returns Run lengths, and whether the first run is dark
+ */
+const toRuns = (line: Uint8Array): { runs: number[]; firstIsBar: boolean } => {
+  const window = Math.max(8, Math.floor(line.length / 16));
+  const prefix = new Float64Array(line.length + 1);
+  for (let i = 0; i < line.length; i++) {
+    prefix[i + 1] = prefix[i] + line[i];
+  }
+
+  const runs: number[] = [];
+  let firstIsBar = false;
+  let current: boolean | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const from = Math.max(0, i - window);
+    const to = Math.min(line.length, i + window + 1);
+    const average = (prefix[to] - prefix[from]) / (to - from);
+    // A small margin keeps sensor noise on flat backgrounds from becoming bars
+    const isBar = line[i] < average - 4;
+
+    if (current === null) {
+      current = isBar;
+      firstIsBar = isBar;
+      runs.push(1);
+    } else if (isBar === current) {
+      runs[runs.length - 1]++;
+    } else {
+      current = isBar;
+      runs.push(1);
+    }
+  }
+
+  return { runs, firstIsBar };
+};
+
+/**
+ * Match four runs against the digit patterns
+ * @param runs Four run lengths
+ * @param reversed Whether to compare against the reversed (G-code) widths
+ * @returns Best matching digit and its average deviation in modules
+ */
+const matchDigit = (runs: number[], reversed: boolean): { digit: number; error: number } => {
+  // Scale so the four runs add up to exactly 7 modules, which absorbs
+  // the bar-width gain of ink spread and blur better than a global unit
+  const scale = 7 / runs.reduce((sum, run) => sum + run, 0);
+  const modules = runs.map(run => run * scale);
+
+  let best = { digit: -1, error: Infinity };
+  DIGIT_PATTERNS.forEach((pattern, digit) => {
+    const widths = reversed ? [...pattern].reverse() : pattern;
+    const error = widths.reduce((sum, width, i) => sum + Math.abs(width - modules[i]), 0) / 4;
+    if (error < best.error) {
+      best = { digit, error };
+    }
+  });
+
+  return best;
+};
+
+/**
+ * Check that guard runs are close to one module wide each
+ * @param runs Guard runs
+ * @param unit Width of one module in pixels
+ * @returns True if every run is between half and twice a module
+ */
+const isGuard = (runs: number[], unit: number): boolean => {
+  return runs.every(run => run > unit * 0.5 && run < unit * 2);
+};
+
+/**
+ * Validate the EAN-13 check digit
+ * @param digits 13 digits
+ * @returns True if the check digit is correct
+ */
+const hasValidCheckDigit = (digits: number[]): boolean => {
+  const sum = digits
+    .slice(0, 12)
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10 === digits[12];
+};
+
+/**
+ * Try to decode an EAN-13 whose start guard begins at a run
+ * @param runs Run lengths of the scanline
+ * @param start Index of the first guard bar
+ * @returns The 13-digit code, or null
+ */
+const decodeAt = (runs: number[], start: number): string | null => {
+  const symbol = runs.slice(start, start + EAN13_RUN_COUNT);
+  const unit = symbol.reduce((sum, run) => sum + run, 0) / EAN13_MODULE_COUNT;
+
+  // Start, middle and end guards, and a quiet zone before the symbol
+  if (!isGuard(symbol.slice(0, 3), unit) || !isGuard(symbol.slice(27, 32), unit) || !isGuard(symbol.slice(56, 59), unit)) {
+    return null;
+  }
+  if (start > 0 && runs[start - 1] < unit * 3) {
+    return null;
+  }
+
+  let parity = '';
+  const digits: number[] = [];
+
+  for (let i = 0; i < 6; i++) {
+    const digitRuns = symbol.slice(3 + i * 4, 7 + i * 4);
+    const asL = matchDigit(digitRuns, false);
+    const asG = matchDigit(digitRuns, true);
+    const best = asL.error <= asG.error ? asL : asG;
+    if (best.error > MAX_DIGIT_ERROR) return null;
+
+    parity += asL.error <= asG.error ? '0' : '1';
+    digits.push(best.digit);
+  }
+
+  for (let i = 0; i < 6; i++) {
+    const match = matchDigit(symbol.slice(32 + i * 4, 36 + i * 4), false);
+    if (match.error > MAX_DIGIT_ERROR) return null;
+    digits.push(match.digit);
+  }
+
+  const firstDigit = FIRST_DIGIT_PARITIES.indexOf(parity);
+  if (firstDigit === -1) return null;
+
+  const code = [firstDigit, ...digits];
+  return hasValidCheckDigit(code) ? code.join('') : null;
+};
+
+/**
+ * Decode every EAN-13 on one scanline, read in one direction
+ * @param line Luminance values along the scanline
+ * @returns Codes found
+ */
+const decodeLine = (line: Uint8Array): string[] => {
+  const { runs, firstIsBar } = toRuns(line);
+  const codes: string[] = [];
+
+  // Bars sit at even run indexes when the line starts dark, odd otherwise
+  for (let start = firstIsBar ? 0 : 1; start + EAN13_RUN_COUNT <= runs.length; start += 2) {
+    const code = decodeAt(runs, start);
+    if (code) {
+      codes.push(code);
+      start += EAN13_RUN_COUNT - 1;
+    }
+  }
+
+  return codes;
+};
+
+/**
+ * Read a row or column of the luminance image
+ * @param luminance Luminance pixels
+ * @param width Image width
+ * @param height Image height
+ * @param axis Which axis to read along
+ * @param index Row or column index
+ * @returns Luminance values along the line
+ */
+const readLine = (
+  luminance: Uint8Array,
+  width: number,
+  height: number,
+  axis: 'row' | 'column',
+  index: number
+): Uint8Array => {
+  if (axis === 'row') {
+    return luminance.subarray(index * width, (index + 1) * width);
+  }
+
+  const column = new Uint8Array(height);
+  for (let y = 0; y < height; y++) {
+    column[y] = luminance[y * width + index];
+  }
+  return column;
+};
+
+/**
+ * Find every EAN-13 barcode in an image
+ * @param image Source pixels
+ * @returns Distinct 13-digit codes, most frequently read first
+ */
+export const decodeEan13Barcodes = (image: LuminanceSource): string[] => {
+  const luminance = toLuminance(image);
+  const counts = new Map<string, number>();
+
+  (['row', 'column'] as const).forEach(axis => {
+    const lineCount = axis === 'row' ? image.height : image.width;
+    const step = Math.max(1, Math.floor(lineCount / SCANLINES_PER_AXIS));
+
+    for (let index = Math.floor(step / 2); index < lineCount; index += step) {
+      const line = readLine(luminance, image.width, image.height, axis, index);
+      // Read both ways so upside-down and mirrored-orientation barcodes decode
+      const reversed = Uint8Array.from(line).reverse();
+
+      [...decodeLine(line), ...decodeLine(reversed)].forEach(code => {
+        counts.set(code, (counts.get(code) || 0) + 1);
+      });
+    }
+  });
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([code]) => code);
+};
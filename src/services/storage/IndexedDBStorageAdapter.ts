@@ -0,0 +1,145 @@
+import {
+  StorageAdapter,
+  StorageCollection,
+  StorageEntry,
+  STORAGE_COLLECTIONS
+} from './StorageAdapter';
+
+/**
+ * IndexedDBStorageAdapter
+ *
+ * Primary storage backend. Every collection gets its own object store with
+ * one record per key, and the books store is indexed on isbn, googleBooksId,
+ * readingStatus, workId and the normalized identifiers. IndexedDB quotas are far
+ * larger than localStorage's 5MB.
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly name = 'IndexedDB';
+  readonly supportsBinary = true;
+  private databaseName: string;
+  // Bump whenever STORAGE_COLLECTIONS gains a store or index
+  private databaseVersion = 8;
+  private db: IDBDatabase | null = null;
+
+  /**
+   * @param databaseName Name of the IndexedDB database to open
+   */
+  constructor(databaseName: string = 'bookanalytics') {
+    this.databaseName = databaseName;
+  }
+
+  /**
+   * Open the database, creating object stores and indexes on first use
+   */
+  async init(): Promise<void> {
+    if (this.db) return;
+
+    if (typeof indexedDB === 'undefined') {
+      throw new Error('IndexedDB is not available in this environment');
+    }
+
+    this.db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.databaseName, this.databaseVersion);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+
+        STORAGE_COLLECTIONS.forEach(definition => {
+          const store = db.objectStoreNames.contains(definition.name)
+            ? request.transaction!.objectStore(definition.name)
+            : db.createObjectStore(definition.name);
+
+          definition.indexes.forEach(index => {
+            if (!store.indexNames.contains(index.name)) {
+              store.createIndex(index.name, index.keyPath, { multiEntry: index.multiEntry ?? false });
+            }
+          });
+        });
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error(`IndexedDB database "${this.databaseName}" is blocked by another tab`));
+    });
+  }
+
+  /**
+   * Get the open database or fail loudly
+   * @returns The open database
+   */
+  private getDatabase(): IDBDatabase {
+    if (!this.db) {
+      throw new Error('IndexedDB adapter used before init()');
+    }
+    return this.db;
+  }
+
+  /**
+   * Wrap an IDBRequest in a promise
+   * @param request The request to await
+   * @returns Promise resolving with the request result
+   */
+  private promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Resolve once a transaction has committed
+   * @param transaction The transaction to await
+   */
+  private completion(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+    });
+  }
+
+  async getAll<T>(collection: StorageCollection): Promise<StorageEntry<T>[]> {
+    const store = this.getDatabase().transaction(collection, 'readonly').objectStore(collection);
+    const [keys, values] = await Promise.all([
+      this.promisify(store.getAllKeys()),
+      this.promisify(store.getAll())
+    ]);
+
+    return keys.map((key, index) => ({ key: String(key), value: values[index] as T }));
+  }
+
+  async get<T>(collection: StorageCollection, key: string): Promise<T | undefined> {
+    const store = this.getDatabase().transaction(collection, 'readonly').objectStore(collection);
+    return this.promisify(store.get(key)) as Promise<T | undefined>;
+  }
+
+  async getAllByIndex<T>(collection: StorageCollection, index: string, value: string): Promise<T[]> {
+    const store = this.getDatabase().transaction(collection, 'readonly').objectStore(collection);
+    return this.promisify(store.index(index).getAll(value)) as Promise<T[]>;
+  }
+
+  async put<T>(collection: StorageCollection, key: string, value: T): Promise<void> {
+    await this.putMany(collection, [{ key, value }]);
+  }
+
+  async putMany<T>(collection: StorageCollection, entries: StorageEntry<T>[]): Promise<void> {
+    const transaction = this.getDatabase().transaction(collection, 'readwrite');
+    const store = transaction.objectStore(collection);
+
+    entries.forEach(entry => store.put(entry.value, entry.key));
+
+    await this.completion(transaction);
+  }
+
+  async delete(collection: StorageCollection, key: string): Promise<void> {
+    const transaction = this.getDatabase().transaction(collection, 'readwrite');
+    transaction.objectStore(collection).delete(key);
+    await this.completion(transaction);
+  }
+
+  async clear(collection: StorageCollection): Promise<void> {
+    const transaction = this.getDatabase().transaction(collection, 'readwrite');
+    transaction.objectStore(collection).clear();
+    await this.completion(transaction);
+  }
+}
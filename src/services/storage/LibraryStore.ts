@@ -0,0 +1,418 @@
+import {
+  StorageAdapter,
+  StorageCollection,
+  StorageEntry,
+  STORAGE_COLLECTIONS
+} from './StorageAdapter';
+import { IndexedDBStorageAdapter } from './IndexedDBStorageAdapter';
+import { LocalStorageAdapter } from './LocalStorageAdapter';
+import { MigrationReport, retryFailedMigrations, runMigrations } from './migrations';
+
+/**
+ * Legacy localStorage keys that map onto entries of the settings collection
+ */
+const LEGACY_SETTING_KEYS: Record<string, string> = {
+  enrichment_queue: 'enrichment_queue',
+  bookanalytics_layouts: 'layouts',
+  bookanalytics_last_updated: 'last_updated'
+};
+
+/**
+ * Prefix of the ad-hoc per-ISBN retry counters the orchestrator used to write;
+ * migration 8 turns them and the ISBN queue into enrichment jobs
+ */
+const LEGACY_RETRY_PREFIX = 'retry_count_';
+
+/**
+ * LibraryStore
+ *
+ * Synchronous, in-memory view over the active StorageAdapter.
+ * Services read from the cache and every write is persisted record-by-record
+ * in the background, so callers keep their synchronous API while the data
+ * lives in IndexedDB (or localStorage when IndexedDB is unavailable).
+ */
+export class LibraryStore {
+  private adapters: StorageAdapter[];
+  private adapter: StorageAdapter | null = null;
+  private cache = new Map<StorageCollection, Map<string, unknown>>();
+  private readyPromise: Promise<void> | null = null;
+  private initialized = false;
+  private migrationReport: MigrationReport | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param adapters Storage backends in order of preference
+   */
+  constructor(adapters: StorageAdapter[] = [new IndexedDBStorageAdapter(), new LocalStorageAdapter()]) {
+    this.adapters = adapters;
+    STORAGE_COLLECTIONS.forEach(definition => this.cache.set(definition.name, new Map()));
+  }
+
+  /**
+   * Select a backend, migrate legacy localStorage data and load the cache.
+   * Safe to call repeatedly; initialization only happens once.
+   */
+  ready(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = this.initialize();
+    }
+    return this.readyPromise;
+  }
+
+  /**
+   * Check whether the cache has been loaded from storage
+   * @returns True once ready() has completed
+   */
+  isReady(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Name of the active storage backend
+   * @returns Backend name or null before initialization
+   */
+  getAdapterName(): string | null {
+    return this.adapter?.name ?? null;
+  }
+
+  /**
+   * Check whether the active backend can store Blobs
+   * @returns False on the localStorage fallback, which only holds JSON
+   */
+  supportsBinary(): boolean {
+    return this.adapter?.supportsBinary ?? false;
+  }
+
+  /**
+   * Report of the schema migrations run during initialization
+   * @returns The report or null before initialization
+   */
+  getMigrationReport(): MigrationReport | null {
+    return this.migrationReport;
+  }
+
+  /**
+   * Run the migration steps that left records behind again
+   * @returns Report of the retry, listing the records still failing
+   */
+  async retryMigrations(): Promise<MigrationReport> {
+    await this.ready();
+
+    this.migrationReport = retryFailedMigrations(this);
+    this.migrationReport.unresolved.forEach(failure => {
+      console.warn(`Still could not migrate ${failure.collection}/${failure.key}: ${failure.reason}`);
+    });
+
+    await this.flush();
+    return this.migrationReport;
+  }
+
+  /**
+   * Pick the first backend that initializes successfully
+   */
+  private async selectAdapter(): Promise<StorageAdapter> {
+    for (const adapter of this.adapters) {
+      try {
+        await adapter.init();
+        return adapter;
+      } catch (error) {
+        console.warn(`Storage backend ${adapter.name} unavailable, trying next:`, error);
+      }
+    }
+    throw new Error('No storage backend is available');
+  }
+
+  /**
+   * Initialize the store: select a backend, import legacy keys,
+   * load every collection and bring the schema up to date
+   */
+  private async initialize(): Promise<void> {
+    this.adapter = await this.selectAdapter();
+
+    await this.importLegacyLocalStorage(this.adapter);
+
+    for (const definition of STORAGE_COLLECTIONS) {
+      const entries = await this.adapter.getAll(definition.name);
+      const records = this.collection(definition.name);
+
+      // Writes made before initialization finished take precedence
+      entries.forEach(entry => {
+        if (!records.has(entry.key)) {
+          records.set(entry.key, entry.value);
+        }
+      });
+    }
+
+    this.migrationReport = runMigrations(this);
+    if (this.migrationReport.applied.length > 0) {
+      console.log(`Migrated library schema from version ${this.migrationReport.fromVersion} to ${this.migrationReport.toVersion}`);
+    }
+    this.migrationReport.unresolved.forEach(failure => {
+      console.warn(`Could not migrate ${failure.collection}/${failure.key}: ${failure.reason}`);
+    });
+
+    this.initialized = true;
+  }
+
+  /**
+   * Move data written by earlier versions directly into localStorage
+   * into the active backend, then remove the old keys.
+   * @param adapter Backend to import into
+   */
+  private async importLegacyLocalStorage(adapter: StorageAdapter): Promise<void> {
+    if (typeof localStorage === 'undefined') return;
+
+    for (const definition of STORAGE_COLLECTIONS) {
+      if (!definition.legacyKey) continue;
+
+      const raw = localStorage.getItem(definition.legacyKey);
+      if (raw === null) continue;
+
+      try {
+        const entries = this.legacyEntries(definition.name, JSON.parse(raw));
+        await adapter.putMany(definition.name, entries);
+        localStorage.removeItem(definition.legacyKey);
+        console.log(`Migrated ${entries.length} ${definition.name} records from localStorage to ${adapter.name}`);
+      } catch (error) {
+        console.error(`Error migrating legacy localStorage key "${definition.legacyKey}":`, error);
+      }
+    }
+
+    const settingEntries: StorageEntry[] = [];
+    const migratedKeys: string[] = [];
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const legacyKey = localStorage.key(i);
+      if (!legacyKey) continue;
+
+      const settingKey = LEGACY_SETTING_KEYS[legacyKey]
+        ?? (legacyKey.startsWith(LEGACY_RETRY_PREFIX) ? legacyKey : undefined);
+      if (!settingKey) continue;
+
+      const raw = localStorage.getItem(legacyKey);
+      if (raw === null) continue;
+
+      let value: unknown = raw;
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        // Plain string values (e.g. timestamps) are stored as-is
+      }
+
+      settingEntries.push({ key: settingKey, value });
+      migratedKeys.push(legacyKey);
+    }
+
+    if (settingEntries.length > 0) {
+      try {
+        await adapter.putMany('settings', settingEntries);
+        migratedKeys.forEach(key => localStorage.removeItem(key));
+      } catch (error) {
+        console.error('Error migrating legacy settings from localStorage:', error);
+      }
+    }
+  }
+
+  /**
+   * Convert a legacy localStorage value into keyed entries
+   * @param collection Target collection
+   * @param legacyValue Parsed value of the legacy key
+   * @returns Entries for the collection
+   */
+  private legacyEntries(collection: StorageCollection, legacyValue: unknown): StorageEntry[] {
+    if (!legacyValue || typeof legacyValue !== 'object') {
+      return [];
+    }
+
+    // Map-shaped legacy keys (shared_enriched_books, enriched_books_metadata)
+    if (!Array.isArray(legacyValue)) {
+      return Object.entries(legacyValue as Record<string, unknown>)
+        .map(([key, value]) => ({ key, value }));
+    }
+
+    return legacyValue
+      .map(value => ({ key: this.legacyRecordKey(collection, value), value }))
+      .filter((entry): entry is StorageEntry => entry.key !== null);
+  }
+
+  /**
+   * Derive the key for a record from an array-shaped legacy key
+   * @param collection Target collection
+   * @param record Legacy record
+   * @returns Record key or null if none can be derived
+   */
+  private legacyRecordKey(collection: StorageCollection, record: unknown): string | null {
+    if (!record || typeof record !== 'object') return null;
+    const fields = record as Record<string, unknown>;
+
+    switch (collection) {
+      case 'metadataStatus':
+        return typeof fields.bookId === 'string' ? fields.bookId : null;
+      case 'externalData': {
+        const data = fields.data as Record<string, unknown> | undefined;
+        return data && data.id !== undefined ? `${fields.source}:${data.id}` : null;
+      }
+      default:
+        return typeof fields.id === 'string' ? fields.id : null;
+    }
+  }
+
+  /**
+   * Get the cached records of a collection
+   * @param collection Collection name
+   * @returns Key to record map
+   */
+  private collection(collection: StorageCollection): Map<string, unknown> {
+    let records = this.cache.get(collection);
+    if (!records) {
+      records = new Map();
+      this.cache.set(collection, records);
+    }
+    return records;
+  }
+
+  /**
+   * Queue a write against the backend once it is ready
+   * @param description Used in error logs
+   * @param operation The write to perform
+   */
+  private enqueue(description: string, operation: (adapter: StorageAdapter) => Promise<void>): void {
+    this.writeQueue = this.writeQueue
+      .then(() => this.ready())
+      .then(() => operation(this.adapter!))
+      .catch(error => {
+        console.error(`Error persisting ${description}:`, error);
+      });
+  }
+
+  /**
+   * Wait until every queued write has reached the backend
+   */
+  async flush(): Promise<void> {
+    await this.ready();
+    await this.writeQueue;
+  }
+
+  /**
+   * Get every record of a collection
+   * @param collection Collection name
+   * @returns Array of records
+   */
+  getAll<T>(collection: StorageCollection): T[] {
+    return Array.from(this.collection(collection).values()) as T[];
+  }
+
+  /**
+   * Get every key/value pair of a collection
+   * @param collection Collection name
+   * @returns Array of entries
+   */
+  getEntries<T>(collection: StorageCollection): StorageEntry<T>[] {
+    return Array.from(this.collection(collection).entries())
+      .map(([key, value]) => ({ key, value: value as T }));
+  }
+
+  /**
+   * Get a single record
+   * @param collection Collection name
+   * @param key Record key
+   * @returns The record or undefined if missing
+   */
+  get<T>(collection: StorageCollection, key: string): T | undefined {
+    return this.collection(collection).get(key) as T | undefined;
+  }
+
+  /**
+   * Check whether a record exists
+   * @param collection Collection name
+   * @param key Record key
+   * @returns True if the record exists
+   */
+  has(collection: StorageCollection, key: string): boolean {
+    return this.collection(collection).has(key);
+  }
+
+  /**
+   * Insert or replace a single record
+   * @param collection Collection name
+   * @param key Record key
+   * @param value Record value
+   */
+  put<T>(collection: StorageCollection, key: string, value: T): void {
+    this.collection(collection).set(key, value);
+    this.enqueue(`${collection}/${key}`, adapter => adapter.put(collection, key, value));
+  }
+
+  /**
+   * Insert or replace many records in one backend transaction
+   * @param collection Collection name
+   * @param entries Key/value pairs to write
+   */
+  putMany<T>(collection: StorageCollection, entries: StorageEntry<T>[]): void {
+    const records = this.collection(collection);
+    entries.forEach(entry => records.set(entry.key, entry.value));
+    this.enqueue(`${entries.length} ${collection} records`, adapter => adapter.putMany(collection, entries));
+  }
+
+  /**
+   * Delete a single record
+   * @param collection Collection name
+   * @param key Record key
+   * @returns True if the record existed
+   */
+  delete(collection: StorageCollection, key: string): boolean {
+    const existed = this.collection(collection).delete(key);
+    this.enqueue(`${collection}/${key}`, adapter => adapter.delete(collection, key));
+    return existed;
+  }
+
+  /**
+   * Remove every record of a collection
+   * @param collection Collection name
+   */
+  clear(collection: StorageCollection): void {
+    this.collection(collection).clear();
+    this.enqueue(collection, adapter => adapter.clear(collection));
+  }
+
+  /**
+   * Query a collection through one of its backend indexes
+   * @param collection Collection name
+   * @param index Index name as declared in STORAGE_COLLECTIONS
+   * @param value Value to match
+   * @returns Matching records
+   */
+  async findByIndex<T>(collection: StorageCollection, index: string, value: string): Promise<T[]> {
+    await this.flush();
+    return this.adapter!.getAllByIndex<T>(collection, index, value);
+  }
+
+  /**
+   * Read a value from the settings collection
+   * @param key Setting key
+   * @returns The value or undefined if unset
+   */
+  getSetting<T>(key: string): T | undefined {
+    return this.get<T>('settings', key);
+  }
+
+  /**
+   * Write a value to the settings collection
+   * @param key Setting key
+   * @param value Value to store
+   */
+  setSetting<T>(key: string, value: T): void {
+    this.put('settings', key, value);
+  }
+
+  /**
+   * Remove a value from the settings collection
+   * @param key Setting key
+   */
+  removeSetting(key: string): void {
+    this.delete('settings', key);
+  }
+}
+
+// Create and export a singleton instance
+export const libraryStore = new LibraryStore();
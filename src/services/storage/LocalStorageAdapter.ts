@@ -0,0 +1,126 @@
+import {
+  StorageAdapter,
+  StorageCollection,
+  StorageEntry,
+  STORAGE_COLLECTIONS,
+  readKeyPath
+} from './StorageAdapter';
+
+/**
+ * LocalStorageAdapter
+ *
+ * Fallback storage backend for browsers without IndexedDB.
+ * Each record is stored under its own key (`bookanalytics:<collection>:<key>`)
+ * so saving one book does not re-serialize the whole library.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage';
+  readonly supportsBinary = false;
+  private keyPrefix = 'bookanalytics:';
+
+  /**
+   * Nothing to prepare for localStorage
+   */
+  async init(): Promise<void> {
+    if (typeof localStorage === 'undefined') {
+      throw new Error('localStorage is not available in this environment');
+    }
+  }
+
+  /**
+   * Build the localStorage key for a record
+   * @param collection Collection name
+   * @param key Record key
+   * @returns Namespaced localStorage key
+   */
+  private storageKey(collection: StorageCollection, key: string): string {
+    return `${this.collectionPrefix(collection)}${key}`;
+  }
+
+  /**
+   * Build the key prefix shared by every record of a collection
+   * @param collection Collection name
+   * @returns Key prefix
+   */
+  private collectionPrefix(collection: StorageCollection): string {
+    return `${this.keyPrefix}${collection}:`;
+  }
+
+  /**
+   * List every localStorage key belonging to a collection
+   * @param collection Collection name
+   * @returns Matching localStorage keys
+   */
+  private collectionKeys(collection: StorageCollection): string[] {
+    const prefix = this.collectionPrefix(collection);
+    const keys: string[] = [];
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+
+    return keys;
+  }
+
+  async getAll<T>(collection: StorageCollection): Promise<StorageEntry<T>[]> {
+    const prefix = this.collectionPrefix(collection);
+    const entries: StorageEntry<T>[] = [];
+
+    for (const storageKey of this.collectionKeys(collection)) {
+      try {
+        const raw = localStorage.getItem(storageKey);
+        if (raw !== null) {
+          entries.push({ key: storageKey.slice(prefix.length), value: JSON.parse(raw) });
+        }
+      } catch (error) {
+        console.error(`Error reading ${storageKey} from localStorage:`, error);
+      }
+    }
+
+    return entries;
+  }
+
+  async get<T>(collection: StorageCollection, key: string): Promise<T | undefined> {
+    const raw = localStorage.getItem(this.storageKey(collection, key));
+    return raw !== null ? JSON.parse(raw) : undefined;
+  }
+
+  async getAllByIndex<T>(collection: StorageCollection, index: string, value: string): Promise<T[]> {
+    const definition = STORAGE_COLLECTIONS.find(c => c.name === collection);
+    const indexDefinition = definition?.indexes.find(i => i.name === index);
+
+    if (!indexDefinition) {
+      throw new Error(`Unknown index "${index}" on collection "${collection}"`);
+    }
+
+    const entries = await this.getAll<T>(collection);
+
+    return entries
+      .map(entry => entry.value)
+      .filter(record => {
+        const indexed = readKeyPath(record, indexDefinition.keyPath);
+        return Array.isArray(indexed) ? indexed.includes(value) : indexed === value;
+      });
+  }
+
+  async put<T>(collection: StorageCollection, key: string, value: T): Promise<void> {
+    localStorage.setItem(this.storageKey(collection, key), JSON.stringify(value));
+  }
+
+  async putMany<T>(collection: StorageCollection, entries: StorageEntry<T>[]): Promise<void> {
+    for (const entry of entries) {
+      await this.put(collection, entry.key, entry.value);
+    }
+  }
+
+  async delete(collection: StorageCollection, key: string): Promise<void> {
+    localStorage.removeItem(this.storageKey(collection, key));
+  }
+
+  async clear(collection: StorageCollection): Promise<void> {
+    this.collectionKeys(collection).forEach(key => localStorage.removeItem(key));
+  }
+}
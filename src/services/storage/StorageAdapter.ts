@@ -0,0 +1,167 @@
+/**
+ * Storage Adapter
+ * This module defines the contract every persistence backend must implement,
+ * along with the collections the app persists and their legacy localStorage keys.
+ */
+
+/**
+ * Names of the record collections persisted by the app
+ */
+export type StorageCollection =
+  | 'books'                 // Rich Book records, keyed by book id
+  | 'works'                 // Work records grouping editions, keyed by work id
+  | 'authors'               // AuthorRecord registry entries, keyed by author id
+  | 'metadataStatus'        // Legacy BookMetadataCompletionStatus, keyed by book id; emptied by migration 7
+  | 'externalData'          // ExternalBookData, keyed by `${source}:${data.id}`
+  | 'sharedEnrichedBooks'   // Enriched Book records shared across users, keyed by ISBN
+  | 'enrichmentMetadata'    // BookAIEnrichment, keyed by Google Books ID
+  | 'legacyBooks'           // Legacy types.ts Book records (bookanalytics_books), keyed by id
+  | 'userLibrary'           // Legacy types.ts Book records (userLibrary), keyed by id
+  | 'apiCache'              // CachedResponse entries, keyed by `${namespace}:${request}`
+  | 'covers'                // StoredCover image blobs, keyed by book id
+  | 'enrichmentJobs'        // EnrichmentJob records, keyed by job id
+  | 'enrichmentSuggestions' // EnrichmentSuggestionSet records awaiting review, keyed by book id
+  | 'settings';             // Free-form key/value entries (layouts, timestamps, preferences)
+
+/**
+ * Secondary indexes available on a collection
+ */
+export interface StorageIndexDefinition {
+  name: string;                 // Index name
+  keyPath: string;              // Path of the field on the stored record
+  multiEntry?: boolean;         // Index each entry of an array field separately
+}
+
+/**
+ * Describes a collection and where it used to live in localStorage
+ */
+export interface StorageCollectionDefinition {
+  name: StorageCollection;
+  legacyKey?: string;           // localStorage key used before the adapter layer
+  indexes: StorageIndexDefinition[];
+}
+
+/**
+ * All collections the app persists
+ */
+export const STORAGE_COLLECTIONS: StorageCollectionDefinition[] = [
+  {
+    name: 'books',
+    legacyKey: 'enhanced_books',
+    indexes: [
+      { name: 'isbn', keyPath: 'isbn' },
+      { name: 'googleBooksId', keyPath: 'googleBooksId' },
+      { name: 'readingStatus', keyPath: 'readingStatus' },
+      { name: 'isbn13', keyPath: 'identifiers.isbn13' },
+      { name: 'isbn10', keyPath: 'identifiers.isbn10' },
+      { name: 'openLibraryId', keyPath: 'identifiers.openLibraryId' },
+      { name: 'workId', keyPath: 'workId' }
+    ]
+  },
+  { name: 'works', indexes: [] },
+  { name: 'authors', indexes: [] },
+  { name: 'metadataStatus', legacyKey: 'metadata_completion_status', indexes: [] },
+  { name: 'externalData', legacyKey: 'external_book_data', indexes: [] },
+  { name: 'sharedEnrichedBooks', legacyKey: 'shared_enriched_books', indexes: [] },
+  { name: 'enrichmentMetadata', legacyKey: 'enriched_books_metadata', indexes: [] },
+  { name: 'legacyBooks', legacyKey: 'bookanalytics_books', indexes: [] },
+  { name: 'userLibrary', legacyKey: 'userLibrary', indexes: [] },
+  { name: 'apiCache', indexes: [] },
+  { name: 'covers', indexes: [] },
+  { name: 'enrichmentJobs', indexes: [] },
+  { name: 'enrichmentSuggestions', indexes: [] },
+  { name: 'settings', indexes: [] }
+];
+
+/**
+ * A key/value pair as read from a collection
+ */
+export interface StorageEntry<T = unknown> {
+  key: string;
+  value: T;
+}
+
+/**
+ * Contract implemented by every storage backend.
+ * All operations are asynchronous so that IndexedDB can be used;
+ * records are stored individually rather than as one serialized array.
+ */
+export interface StorageAdapter {
+  /** Human-readable backend name, used in logs */
+  readonly name: string;
+
+  /** Whether Blobs survive a round trip; otherwise only JSON values do */
+  readonly supportsBinary: boolean;
+
+  /**
+   * Prepare the backend (open databases, create stores)
+   */
+  init(): Promise<void>;
+
+  /**
+   * Read every entry of a collection
+   * @param collection Collection to read
+   * @returns All key/value pairs in the collection
+   */
+  getAll<T>(collection: StorageCollection): Promise<StorageEntry<T>[]>;
+
+  /**
+   * Read a single record
+   * @param collection Collection to read from
+   * @param key Record key
+   * @returns The record or undefined if missing
+   */
+  get<T>(collection: StorageCollection, key: string): Promise<T | undefined>;
+
+  /**
+   * Find records by a secondary index
+   * @param collection Collection to search
+   * @param index Index name as declared in STORAGE_COLLECTIONS
+   * @param value Value to match
+   * @returns Matching records
+   */
+  getAllByIndex<T>(collection: StorageCollection, index: string, value: string): Promise<T[]>;
+
+  /**
+   * Insert or replace a single record
+   * @param collection Collection to write to
+   * @param key Record key
+   * @param value Record value
+   */
+  put<T>(collection: StorageCollection, key: string, value: T): Promise<void>;
+
+  /**
+   * Insert or replace many records in one transaction
+   * @param collection Collection to write to
+   * @param entries Key/value pairs to write
+   */
+  putMany<T>(collection: StorageCollection, entries: StorageEntry<T>[]): Promise<void>;
+
+  /**
+   * Delete a single record
+   * @param collection Collection to delete from
+   * @param key Record key
+   */
+  delete(collection: StorageCollection, key: string): Promise<void>;
+
+  /**
+   * Remove every record of a collection
+   * @param collection Collection to clear
+   */
+  clear(collection: StorageCollection): Promise<void>;
+}
+
+/**
+ * Resolve a dotted key path against a record
+ * @param record Record to read
+ * @param keyPath Dotted path, e.g. "isbn" or "series.name"
+ * @returns The value at the path, if any
+ */
+export const readKeyPath = (record: unknown, keyPath: string): unknown => {
+  return keyPath.split('.').reduce<unknown>((value, segment) => {
+    if (value && typeof value === 'object') {
+      return (value as Record<string, unknown>)[segment];
+    }
+    return undefined;
+  }, record);
+};
@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Book, EnrichmentJob, ExternalBookData, Work } from '../../models/BookTypes';
+import { Book as LegacyBook } from '../../types';
+import { MemoryStorageAdapter } from '../../test/MemoryStorageAdapter';
+import { LibraryStore } from './LibraryStore';
+import { CURRENT_SCHEMA_VERSION, fillMissingBookFields, SCHEMA_ENVELOPE_KEY, StorageEnvelope } from './migrations';
+
+/**
+ * Store an envelope saying the data was written at the given schema version
+ */
+const writtenAt = (adapter: MemoryStorageAdapter, schemaVersion: number) =>
+  adapter.put<StorageEnvelope>('settings', SCHEMA_ENVELOPE_KEY, {
+    schemaVersion,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    migrations: []
+  });
+
+/**
+ * Load a store over the adapter, running the pending migrations
+ */
+const load = async (adapter: MemoryStorageAdapter) => {
+  const store = new LibraryStore([adapter]);
+  await store.ready();
+  return store;
+};
+
+describe('schema migrations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('upgrades legacy records through every step', async () => {
+    const adapter = new MemoryStorageAdapter();
+    await adapter.init();
+    await adapter.put<LegacyBook>('legacyBooks', 'g-dune', {
+      id: 'g-dune',
+      title: 'Dune (Dune Chronicles, #1)',
+      authors: ['Frank Herbert'],
+      pageCount: 604,
+      categories: ['Fiction']
+    });
+    await adapter.put('metadataStatus', 'g-dune', { bookId: 'g-dune' });
+
+    const store = await load(adapter);
+    const book = store.get<Book>('books', 'g-dune')!;
+
+    expect(book).toMatchObject({
+      title: 'Dune (Dune Chronicles, #1)',
+      isbn: '',
+      pageCount: 604,
+      subjects: ['Fiction'],
+      identifiers: { googleBooksId: 'g-dune' },
+      series: { name: 'Dune Chronicles', position: 1 }
+    });
+    expect(book.authors).toEqual([expect.objectContaining({ name: 'Frank Herbert' })]);
+    expect(store.get<Work>('works', book.workId!)).toMatchObject({ title: book.title, authors: book.authors });
+    expect(store.getAll('authors')).toHaveLength(1);
+    expect(store.getAll('legacyBooks')).toEqual([]);
+    expect(store.getAll('metadataStatus')).toEqual([]);
+
+    const report = store.getMigrationReport()!;
+    expect(report.fromVersion).toBe(0);
+    expect(report.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(report.applied.map(step => step.version)).toEqual(
+      Array.from({ length: CURRENT_SCHEMA_VERSION }, (_, index) => index + 1)
+    );
+  });
+
+  it('runs no step twice', async () => {
+    const adapter = new MemoryStorageAdapter();
+    await adapter.init();
+    await adapter.put<LegacyBook>('legacyBooks', 'g-dune', { id: 'g-dune', title: 'Dune', authors: ['Frank Herbert'] });
+
+    const first = await load(adapter);
+    await first.flush();
+    const second = await load(adapter);
+
+    expect(second.getMigrationReport()?.applied).toEqual([]);
+    expect(second.getAll('books')).toEqual(first.getAll('books'));
+  });
+
+  it('keeps records a step cannot migrate until a retry succeeds', async () => {
+    const adapter = new MemoryStorageAdapter();
+    await adapter.init();
+    await adapter.put('userLibrary', 'broken', { id: 'broken', authors: [] });
+
+    const store = await load(adapter);
+
+    expect(store.has('userLibrary', 'broken')).toBe(true);
+    expect(store.getMigrationReport()?.unresolved).toEqual([
+      { collection: 'userLibrary', key: 'broken', reason: 'Legacy record is missing its id or title', version: 1 }
+    ]);
+    // Later steps still ran
+    expect(store.getSetting<StorageEnvelope>(SCHEMA_ENVELOPE_KEY)?.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+
+    store.put('userLibrary', 'broken', { id: 'broken', title: 'Beowulf', authors: [] });
+    const retry = await store.retryMigrations();
+
+    expect(retry.unresolved).toEqual([]);
+    expect(retry.applied[0].version).toBe(1);
+    expect(store.has('userLibrary', 'broken')).toBe(false);
+    expect(store.get<Book>('books', 'broken')?.workId).toBeDefined();
+    expect(store.getSetting<StorageEnvelope>(SCHEMA_ENVELOPE_KEY)?.unresolved).toEqual([]);
+  });
+
+  it('normalizes ISBNs and re-keys shared books by ISBN-13', async () => {
+    const adapter = new MemoryStorageAdapter();
+    await adapter.init();
+    await writtenAt(adapter, 2);
+    await adapter.put('books', 'g-dune', fillMissingBookFields({ id: 'g-dune', title: 'Dune', isbn: '0-441-01359-7' }));
+    await adapter.put('externalData', 'google_books:g-dune', { source: 'google_books', data: { id: 'g-dune' } });
+    await adapter.put('sharedEnrichedBooks', '0441013597', fillMissingBookFields({ id: 'g-dune', title: 'Dune' }));
+    await adapter.put('sharedEnrichedBooks', 'placeholder-1700000000000', fillMissingBookFields({ id: 'x', title: 'X' }));
+
+    const store = await load(adapter);
+
+    expect(store.get<Book>('books', 'g-dune')?.identifiers).toEqual({
+      isbn13: '9780441013593',
+      isbn10: '0441013597',
+      googleBooksId: 'g-dune'
+    });
+    expect(store.getEntries('sharedEnrichedBooks').map(entry => entry.key)).toEqual(['9780441013593']);
+  });
+
+  it('turns the ISBN queue and retry counters into enrichment jobs', async () => {
+    const adapter = new MemoryStorageAdapter();
+    await adapter.init();
+    await writtenAt(adapter, 7);
+    await adapter.put('books', 'g-dune', fillMissingBookFields({
+      id: 'g-dune',
+      title: 'Dune',
+      isbn: '9780441013593',
+      identifiers: { isbn13: '9780441013593' }
+    }));
+    await adapter.put('settings', 'enrichment_queue', ['0441013597', '9780593099322']);
+    await adapter.put('settings', 'retry_count_9780441013593', 9);
+
+    const store = await load(adapter);
+    const jobs = store.getAll<EnrichmentJob>('enrichmentJobs');
+
+    // Spent attempts count, but the job keeps one to run
+    expect(jobs).toEqual([expect.objectContaining({ bookId: 'g-dune', status: 'pending', attempts: 3, maxAttempts: 4 })]);
+    expect(store.getSetting('enrichment_queue')).toBeUndefined();
+    expect(store.getSetting('retry_count_9780441013593')).toBeUndefined();
+    expect(store.getMigrationReport()?.failures).toEqual([
+      { collection: 'settings', key: 'enrichment_queue', reason: 'No book with ISBN "9780593099322"' }
+    ]);
+  });
+
+  it('gives manual source records the id of their book', async () => {
+    const adapter = new MemoryStorageAdapter();
+    await adapter.init();
+    await writtenAt(adapter, 8);
+    await adapter.put<ExternalBookData>('externalData', 'manual:manual-abc', {
+      source: 'manual',
+      data: { title: 'The Notebook of Small Things' },
+      retrievedAt: '2025-01-01T00:00:00.000Z'
+    });
+    await adapter.put<ExternalBookData>('externalData', 'open_library:OL1M', {
+      source: 'open_library',
+      data: { id: 'OL1M' },
+      retrievedAt: '2025-01-01T00:00:00.000Z'
+    });
+
+    const store = await load(adapter);
+
+    expect(store.get<ExternalBookData>('externalData', 'manual:manual-abc')?.data)
+      .toEqual({ id: 'manual-abc', title: 'The Notebook of Small Things' });
+    expect(store.getMigrationReport()?.applied.map(step => step.migrated)).toEqual([1]);
+    expect(store.getSetting<StorageEnvelope>(SCHEMA_ENVELOPE_KEY)?.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+});
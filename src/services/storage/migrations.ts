@@ -0,0 +1,651 @@
+import {
+  AuthorRecord,
+  Book,
+  BookMetadataCompletionStatus,
+  ExternalBookData,
+  GoogleBooksVolume,
+  OpenLibraryBookRecord,
+  Work
+} from '../../models/BookTypes';
+import { Book as LegacyBook } from '../../types';
+import { isKnownAuthorName, registerAuthorCredit, toBookAuthor } from '../../utils/authors';
+import { createAuthorFromName, createDefaultBookFields } from '../../utils/bookDefaults';
+import { normalizeBookIdentifiers } from '../../utils/bookIdentifiers';
+import { normalizeIsbn } from '../../utils/isbn';
+import { createEnrichmentJob } from '../../utils/enrichmentJobs';
+import { detectSeries } from '../../utils/series';
+import { addEditionToWork, createWorkFromBook, getOpenLibraryWorkId, workMatchesBook } from '../../utils/works';
+import type { LibraryStore } from './LibraryStore';
+import type { StorageCollection } from './StorageAdapter';
+
+/**
+ * Schema version written by this build of the app
+ */
+export const CURRENT_SCHEMA_VERSION = 9;
+
+/**
+ * Settings key holding the storage envelope
+ */
+export const SCHEMA_ENVELOPE_KEY = 'schema';
+
+/**
+ * A record that could not be migrated
+ */
+export interface MigrationFailure {
+  collection: StorageCollection;
+  key: string;
+  reason: string;
+}
+
+/**
+ * A failed record that is still in storage, waiting to be migrated
+ */
+export interface UnresolvedMigrationFailure extends MigrationFailure {
+  version: number;              // Step that could not migrate the record
+}
+
+/**
+ * Outcome of a single migration step
+ */
+export interface AppliedMigration {
+  version: number;
+  description: string;
+  appliedAt: string;
+  migrated: number;             // Records upgraded by this step
+  failures: MigrationFailure[];
+}
+
+/**
+ * Versioned envelope describing the persisted data as a whole
+ */
+export interface StorageEnvelope {
+  schemaVersion: number;
+  createdAt: string;
+  updatedAt: string;
+  migrations: AppliedMigration[];
+  unresolved?: UnresolvedMigrationFailure[]; // Records failed steps left behind, until they migrate or are removed
+}
+
+/**
+ * Summary of the migrations run during one startup
+ */
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: AppliedMigration[];
+  failures: MigrationFailure[];  // Records the steps run this time could not migrate
+  unresolved: UnresolvedMigrationFailure[]; // Every record still waiting, including from earlier startups
+}
+
+/**
+ * Result returned by a migration step
+ */
+export interface MigrationResult {
+  migrated: number;
+  failures: MigrationFailure[];
+}
+
+/**
+ * A single, ordered schema migration
+ */
+export interface SchemaMigration {
+  version: number;              // Schema version reached once the step has run
+  description: string;
+  migrate(store: LibraryStore): MigrationResult;
+}
+
+/**
+ * Upgrade a legacy types.ts Book into the rich Book model
+ * @param legacy Legacy book record
+ * @returns Rich book record with default values for the missing fields
+ */
+export const upgradeLegacyBook = (legacy: LegacyBook): Book => {
+  if (!legacy.id || !legacy.title) {
+    throw new Error('Legacy record is missing its id or title');
+  }
+
+  const currentDate = new Date().toISOString();
+
+  return {
+    ...createDefaultBookFields(currentDate),
+    id: legacy.id,
+    isbn: '',
+    googleBooksId: legacy.id,
+    identifiers: { googleBooksId: legacy.id },
+    title: legacy.title,
+    authors: (legacy.authors && legacy.authors.length > 0 ? legacy.authors : ['Unknown Author'])
+      .map(createAuthorFromName),
+    publisher: 'Unknown Publisher',
+    publishedDate: legacy.publishedDate || '',
+    language: 'en',
+    pageCount: legacy.pageCount || 0,
+    description: legacy.description || '',
+    coverImage: legacy.imageLinks?.thumbnail || legacy.imageLinks?.smallThumbnail,
+    subjects: legacy.categories || [],
+    averageRating: legacy.averageRating
+  };
+};
+
+/**
+ * Fill fields added to the Book model since a record was written
+ * @param book Stored book record, possibly missing fields
+ * @returns Book with every required field present
+ */
+export const fillMissingBookFields = (book: Partial<Book>): Book => {
+  if (!book.id || !book.title) {
+    throw new Error('Book record is missing its id or title');
+  }
+
+  const defaults = createDefaultBookFields(book.dateAdded || new Date().toISOString());
+
+  return {
+    ...defaults,
+    isbn: '',
+    identifiers: {},
+    authors: [],
+    publisher: 'Unknown Publisher',
+    publishedDate: '',
+    language: 'en',
+    pageCount: 0,
+    description: '',
+    ...book,
+    narrativeStructure: { ...defaults.narrativeStructure, ...book.narrativeStructure },
+    emotionalResponse: { ...defaults.emotionalResponse, ...book.emotionalResponse },
+    culturalContext: { ...defaults.culturalContext, ...book.culturalContext },
+    complexity: { ...defaults.complexity, ...book.complexity }
+  } as Book;
+};
+
+/**
+ * Build the initial completion status for a book created by a migration
+ * @param bookId ID of the book
+ * @returns Completion status with only basic info marked complete
+ */
+const initialMetadataStatus = (bookId: string): BookMetadataCompletionStatus => ({
+  bookId,
+  basicInfoComplete: true,
+  publicationDetailsComplete: false,
+  contentClassificationComplete: false,
+  narrativeElementsComplete: false,
+  contentAnalysisComplete: false,
+  readingExperienceComplete: false,
+  culturalContextComplete: false,
+  complexityAnalysisComplete: false
+});
+
+/**
+ * Move every record of a legacy collection into the books collection
+ * @param store Store to migrate
+ * @param collection Legacy collection to drain
+ * @returns Counts and failures
+ */
+const upgradeLegacyCollection = (store: LibraryStore, collection: StorageCollection): MigrationResult => {
+  const result: MigrationResult = { migrated: 0, failures: [] };
+
+  store.getEntries<LegacyBook>(collection).forEach(({ key, value }) => {
+    try {
+      // Records already present in the rich model win over their legacy copy
+      if (!store.has('books', key)) {
+        const book = upgradeLegacyBook(value);
+        store.put('books', book.id, book);
+
+        if (!store.has('metadataStatus', book.id)) {
+          store.put('metadataStatus', book.id, initialMetadataStatus(book.id));
+        }
+      }
+
+      store.delete(collection, key);
+      result.migrated++;
+    } catch (error) {
+      result.failures.push({
+        collection,
+        key,
+        reason: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Re-key an ISBN-keyed collection by normalized ISBN-13,
+ * dropping entries whose key is not a valid ISBN (e.g. "placeholder-<timestamp>")
+ * @param store Store to migrate
+ * @param collection Collection keyed by ISBN
+ * @returns Counts and failures
+ */
+const normalizeIsbnKeys = (store: LibraryStore, collection: 'sharedEnrichedBooks'): MigrationResult => {
+  const result: MigrationResult = { migrated: 0, failures: [] };
+
+  store.getEntries<Book>(collection).forEach(({ key, value }) => {
+    const isbn = normalizeIsbn(key);
+
+    if (isbn !== key) {
+      store.delete(collection, key);
+      if (isbn) {
+        store.put(collection, isbn, normalizeBookIdentifiers(fillMissingBookFields(value)));
+      }
+      result.migrated++;
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Ordered list of schema migrations. Append new steps with the next version;
+ * never edit or reorder steps that have shipped.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Upgrade legacy userLibrary and bookanalytics_books records into the rich Book model',
+    migrate: store => {
+      const results = [
+        upgradeLegacyCollection(store, 'legacyBooks'),
+        upgradeLegacyCollection(store, 'userLibrary')
+      ];
+
+      return {
+        migrated: results.reduce((sum, result) => sum + result.migrated, 0),
+        failures: results.flatMap(result => result.failures)
+      };
+    }
+  },
+  {
+    version: 2,
+    description: 'Fill Book fields added since records were written and create missing completion statuses',
+    migrate: store => {
+      const result: MigrationResult = { migrated: 0, failures: [] };
+
+      store.getEntries<Partial<Book>>('books').forEach(({ key, value }) => {
+        try {
+          const book = fillMissingBookFields({ ...value, id: value.id || key });
+          store.put('books', key, book);
+
+          if (!store.has('metadataStatus', key)) {
+            store.put('metadataStatus', key, initialMetadataStatus(key));
+          }
+
+          result.migrated++;
+        } catch (error) {
+          result.failures.push({
+            collection: 'books',
+            key,
+            reason: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+
+      return result;
+    }
+  },
+  {
+    version: 3,
+    description: 'Give every book a normalized identifier set and drop placeholder ISBNs',
+    migrate: store => {
+      const result: MigrationResult = { migrated: 0, failures: [] };
+
+      store.getEntries<Book>('books').forEach(({ key, value }) => {
+        try {
+          // Books added from a catalog used the catalog's id as their own
+          const extra = {
+            googleBooksId: store.has('externalData', `google_books:${key}`) ? key : undefined,
+            openLibraryId: store.has('externalData', `open_library:${key}`) ? key : undefined
+          };
+
+          store.put('books', key, normalizeBookIdentifiers(fillMissingBookFields(value), extra));
+          result.migrated++;
+        } catch (error) {
+          result.failures.push({
+            collection: 'books',
+            key,
+            reason: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+
+      const sharedResult = normalizeIsbnKeys(store, 'sharedEnrichedBooks');
+      result.migrated += sharedResult.migrated;
+
+      // The enrichment queue and retry counters are keyed by ISBN too
+      const queue = store.getSetting<string[]>('enrichment_queue') || [];
+      const normalizedQueue = Array.from(new Set(
+        queue.map(normalizeIsbn).filter((isbn): isbn is string => isbn !== null)
+      ));
+      store.setSetting('enrichment_queue', normalizedQueue);
+
+      store.getEntries<number>('settings')
+        .filter(({ key }) => key.startsWith('retry_count_'))
+        .forEach(({ key, value }) => {
+          const isbn = normalizeIsbn(key.slice('retry_count_'.length));
+          store.removeSetting(key);
+          if (isbn) {
+            store.setSetting(`retry_count_${isbn}`, value);
+          }
+        });
+
+      return result;
+    }
+  },
+  {
+    version: 4,
+    description: 'Group editions into works',
+    migrate: store => {
+      const result: MigrationResult = { migrated: 0, failures: [] };
+      const works = new Map(store.getEntries<Work>('works').map(({ key, value }) => [key, value]));
+
+      // Oldest books first, so each work takes the title of the first edition added
+      const books = store.getEntries<Book>('books')
+        .sort((a, b) => (a.value.dateAdded || '').localeCompare(b.value.dateAdded || ''));
+
+      books.forEach(({ key, value }) => {
+        try {
+          if (value.workId && works.has(value.workId)) return;
+
+          const stored = value.identifiers?.openLibraryId
+            ? store.get<ExternalBookData>('externalData', `open_library:${value.identifiers.openLibraryId}`)
+            : undefined;
+          const openLibraryWorkId = getOpenLibraryWorkId(stored?.data as OpenLibraryBookRecord | undefined);
+
+          const match = Array.from(works.values()).find(work => workMatchesBook(work, value, openLibraryWorkId));
+          const work = match
+            ? addEditionToWork(match, value, openLibraryWorkId)
+            : createWorkFromBook(value, openLibraryWorkId);
+
+          works.set(work.id, work);
+          store.put('works', work.id, work);
+          store.put('books', key, { ...value, workId: work.id });
+          result.migrated++;
+        } catch (error) {
+          result.failures.push({
+            collection: 'books',
+            key,
+            reason: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+
+      return result;
+    }
+  },
+  {
+    version: 5,
+    description: 'Register authors',
+    migrate: store => {
+      const result: MigrationResult = { migrated: 0, failures: [] };
+      const authors = new Map(store.getEntries<AuthorRecord>('authors').map(({ key, value }) => [key, value]));
+
+      // Canonical author copy for one credit, registering the author if needed
+      const resolve = (author: Book['authors'][number]) => {
+        if (!isKnownAuthorName(author.name)) return author;
+        const record = registerAuthorCredit(author, Array.from(authors.values()));
+        authors.set(record.id, record);
+        return toBookAuthor(record, author.roles);
+      };
+
+      const books = store.getEntries<Book>('books')
+        .sort((a, b) => (a.value.dateAdded || '').localeCompare(b.value.dateAdded || ''));
+
+      books.forEach(({ key, value }) => {
+        try {
+          store.put('books', key, { ...value, authors: (value.authors || []).map(resolve) });
+          result.migrated++;
+        } catch (error) {
+          result.failures.push({
+            collection: 'books',
+            key,
+            reason: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+
+      store.getEntries<Work>('works').forEach(({ key, value }) => {
+        store.put('works', key, { ...value, authors: value.authors.map(resolve) });
+      });
+
+      authors.forEach((record, id) => store.put('authors', id, record));
+
+      return result;
+    }
+  },
+  {
+    version: 6,
+    description: 'Detect series from stored catalog records',
+    migrate: store => {
+      const result: MigrationResult = { migrated: 0, failures: [] };
+
+      store.getEntries<Book>('books').forEach(({ key, value }) => {
+        if (value.series) return;
+
+        try {
+          const { googleBooksId, openLibraryId } = value.identifiers || {};
+          const openLibrary = openLibraryId
+            ? store.get<ExternalBookData>('externalData', `open_library:${openLibraryId}`)?.data as OpenLibraryBookRecord | undefined
+            : undefined;
+          const google = googleBooksId
+            ? store.get<ExternalBookData>('externalData', `google_books:${googleBooksId}`)?.data as GoogleBooksVolume | undefined
+            : undefined;
+
+          const series = detectSeries({
+            title: openLibrary?.edition.title || value.title,
+            subtitle: openLibrary?.edition.subtitle,
+            seriesLabels: openLibrary?.edition.series
+          }) || (google && detectSeries({ title: google.volumeInfo.title, subtitle: google.volumeInfo.subtitle }))
+            || detectSeries({ title: value.title, subtitle: value.subtitle });
+
+          if (series) {
+            store.put('books', key, { ...value, series });
+            result.migrated++;
+          }
+        } catch (error) {
+          result.failures.push({
+            collection: 'books',
+            key,
+            reason: error instanceof Error ? error.message : String(error)
+          });
+        }
+      });
+
+      return result;
+    }
+  },
+  {
+    version: 7,
+    description: 'Drop stored completion statuses; completeness is now derived from each book',
+    migrate: store => {
+      const migrated = store.getEntries('metadataStatus').length;
+      store.clear('metadataStatus');
+      return { migrated, failures: [] };
+    }
+  },
+  {
+    version: 8,
+    description: 'Turn the ISBN enrichment queue and its retry counters into enrichment job records',
+    migrate: store => {
+      const result: MigrationResult = { migrated: 0, failures: [] };
+      const books = store.getAll<Book>('books');
+
+      (store.getSetting<string[]>('enrichment_queue') || []).forEach(rawIsbn => {
+        const isbn = normalizeIsbn(rawIsbn);
+        const book = isbn ? books.find(candidate => candidate.identifiers?.isbn13 === isbn) : undefined;
+        if (!book) {
+          result.failures.push({ collection: 'settings', key: 'enrichment_queue', reason: `No book with ISBN "${rawIsbn}"` });
+          return;
+        }
+
+        // Attempts already spent count against the job, leaving it at least one
+        const job = createEnrichmentJob(book);
+        const retries = store.getSetting<number>(`retry_count_${isbn}`) || 0;
+        store.put('enrichmentJobs', job.id, { ...job, attempts: Math.min(retries, job.maxAttempts - 1) });
+        result.migrated++;
+      });
+
+      store.removeSetting('enrichment_queue');
+      store.getEntries('settings')
+        .filter(({ key }) => key.startsWith('retry_count_'))
+        .forEach(({ key }) => store.removeSetting(key));
+
+      return result;
+    }
+  },
+  {
+    version: 9,
+    description: 'Give manually entered source records the id of their book',
+    migrate: store => {
+      const result: MigrationResult = { migrated: 0, failures: [] };
+
+      store.getEntries<ExternalBookData>('externalData')
+        .filter(({ key, value }) => key.startsWith('manual:') && value.data && value.data.id === undefined)
+        .forEach(({ key, value }) => {
+          store.put('externalData', key, { ...value, data: { ...value.data, id: key.slice('manual:'.length) } });
+          result.migrated++;
+        });
+
+      return result;
+    }
+  }
+];
+
+/**
+ * Run one migration step and record its outcome
+ * @param store Store to migrate
+ * @param migration Step to run
+ * @returns The applied step; throws if the step could not run
+ */
+const applyMigration = (store: LibraryStore, migration: SchemaMigration): AppliedMigration => {
+  const result = migration.migrate(store);
+  return {
+    version: migration.version,
+    description: migration.description,
+    appliedAt: new Date().toISOString(),
+    migrated: result.migrated,
+    failures: result.failures
+  };
+};
+
+/**
+ * Keep the failures whose record is still in storage, once each. A record
+ * that has been removed, or moved by a later step, no longer needs migrating.
+ * @param store Store to check
+ * @param failures Failures collected so far
+ * @returns Outstanding failures
+ */
+const collectUnresolved = (store: LibraryStore, failures: UnresolvedMigrationFailure[]): UnresolvedMigrationFailure[] => {
+  const outstanding = new Map<string, UnresolvedMigrationFailure>();
+  failures
+    .filter(failure => store.has(failure.collection, failure.key))
+    .forEach(failure => outstanding.set(`${failure.version}:${failure.collection}/${failure.key}`, failure));
+  return Array.from(outstanding.values());
+};
+
+/**
+ * Tag a step's failures with the step's version
+ * @param applied Applied step
+ * @returns The step's failures
+ */
+const unresolvedFailures = (applied: AppliedMigration): UnresolvedMigrationFailure[] =>
+  applied.failures.map(failure => ({ ...failure, version: applied.version }));
+
+/**
+ * Run every migration newer than the stored schema version, in order.
+ * Records a step fails on are kept in the envelope until a retry migrates them.
+ * @param store Loaded store to migrate
+ * @returns Report of the steps applied and the records that failed
+ */
+export const runMigrations = (store: LibraryStore): MigrationReport => {
+  const now = new Date().toISOString();
+  const envelope: StorageEnvelope = store.getSetting<StorageEnvelope>(SCHEMA_ENVELOPE_KEY) || {
+    schemaVersion: 0,
+    createdAt: now,
+    updatedAt: now,
+    migrations: []
+  };
+
+  const report: MigrationReport = {
+    fromVersion: envelope.schemaVersion,
+    toVersion: envelope.schemaVersion,
+    applied: [],
+    failures: [],
+    unresolved: []
+  };
+
+  const pending = SCHEMA_MIGRATIONS
+    .filter(migration => migration.version > envelope.schemaVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    try {
+      const applied = applyMigration(store, migration);
+
+      report.applied.push(applied);
+      report.failures.push(...applied.failures);
+      report.toVersion = migration.version;
+
+      envelope.schemaVersion = migration.version;
+      envelope.migrations = [...envelope.migrations, applied];
+    } catch (error) {
+      // Stop at the first step that cannot run so later steps never see a half-migrated schema
+      console.error(`Schema migration to version ${migration.version} failed:`, error);
+      break;
+    }
+  }
+
+  const previous = envelope.unresolved || [];
+  report.unresolved = collectUnresolved(store, [...previous, ...report.applied.flatMap(unresolvedFailures)]);
+
+  if (report.applied.length > 0 || report.unresolved.length !== previous.length) {
+    envelope.unresolved = report.unresolved;
+    envelope.updatedAt = new Date().toISOString();
+    store.setSetting(SCHEMA_ENVELOPE_KEY, envelope);
+  }
+
+  return report;
+};
+
+/**
+ * Run the earliest step that left records behind again, along with every step
+ * after it, so a record it now migrates is brought fully up to date. Every
+ * step can be re-run: it only changes the records that still need it.
+ * @param store Loaded store to migrate
+ * @returns Report of the steps re-run and the records still failing
+ */
+export const retryFailedMigrations = (store: LibraryStore): MigrationReport => {
+  const envelope = store.getSetting<StorageEnvelope>(SCHEMA_ENVELOPE_KEY);
+  const version = envelope?.schemaVersion ?? 0;
+  const report: MigrationReport = { fromVersion: version, toVersion: version, applied: [], failures: [], unresolved: [] };
+  if (!envelope) return report;
+
+  let outstanding = collectUnresolved(store, envelope.unresolved || []);
+  const earliest = Math.min(...outstanding.map(failure => failure.version));
+  const retried = SCHEMA_MIGRATIONS
+    .filter(migration => migration.version >= earliest && migration.version <= envelope.schemaVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of retried) {
+    try {
+      const applied = applyMigration(store, migration);
+
+      report.applied.push(applied);
+      report.failures.push(...applied.failures);
+      envelope.migrations = [...envelope.migrations, applied];
+
+      // The step's new failures replace its old ones
+      outstanding = [
+        ...outstanding.filter(failure => failure.version !== migration.version),
+        ...unresolvedFailures(applied)
+      ];
+    } catch (error) {
+      console.error(`Retrying schema migration ${migration.version} failed:`, error);
+      break;
+    }
+  }
+
+  report.unresolved = collectUnresolved(store, outstanding);
+  envelope.unresolved = report.unresolved;
+  envelope.updatedAt = new Date().toISOString();
+  store.setSetting(SCHEMA_ENVELOPE_KEY, envelope);
+
+  return report;
+};
@@ -0,0 +1,84 @@
+import {
+  StorageAdapter,
+  StorageCollection,
+  StorageEntry,
+  STORAGE_COLLECTIONS,
+  readKeyPath
+} from '../services/storage/StorageAdapter';
+
+/**
+ * MemoryStorageAdapter
+ *
+ * In-memory storage backend for tests. Records are copied through JSON on the
+ * way in and out, like the localStorage fallback, so a new LibraryStore over
+ * the same adapter sees exactly what a reload would.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  readonly supportsBinary = false;
+  private records = new Map<StorageCollection, Map<string, string>>();
+
+  async init(): Promise<void> {
+    STORAGE_COLLECTIONS.forEach(definition => {
+      if (!this.records.has(definition.name)) {
+        this.records.set(definition.name, new Map());
+      }
+    });
+  }
+
+  /**
+   * Get the serialized records of a collection
+   * @param collection Collection name
+   * @returns Key to JSON map
+   */
+  private collection(collection: StorageCollection): Map<string, string> {
+    let records = this.records.get(collection);
+    if (!records) {
+      records = new Map();
+      this.records.set(collection, records);
+    }
+    return records;
+  }
+
+  async getAll<T>(collection: StorageCollection): Promise<StorageEntry<T>[]> {
+    return Array.from(this.collection(collection).entries())
+      .map(([key, raw]) => ({ key, value: JSON.parse(raw) as T }));
+  }
+
+  async get<T>(collection: StorageCollection, key: string): Promise<T | undefined> {
+    const raw = this.collection(collection).get(key);
+    return raw === undefined ? undefined : JSON.parse(raw) as T;
+  }
+
+  async getAllByIndex<T>(collection: StorageCollection, index: string, value: string): Promise<T[]> {
+    const definition = STORAGE_COLLECTIONS.find(candidate => candidate.name === collection);
+    const keyPath = definition?.indexes.find(candidate => candidate.name === index)?.keyPath;
+    if (!keyPath) {
+      throw new Error(`Unknown index "${index}" on ${collection}`);
+    }
+
+    const entries = await this.getAll<T>(collection);
+    return entries
+      .map(entry => entry.value)
+      .filter(record => {
+        const indexed = readKeyPath(record, keyPath);
+        return Array.isArray(indexed) ? indexed.includes(value) : indexed === value;
+      });
+  }
+
+  async put<T>(collection: StorageCollection, key: string, value: T): Promise<void> {
+    this.collection(collection).set(key, JSON.stringify(value));
+  }
+
+  async putMany<T>(collection: StorageCollection, entries: StorageEntry<T>[]): Promise<void> {
+    entries.forEach(entry => this.collection(collection).set(entry.key, JSON.stringify(entry.value)));
+  }
+
+  async delete(collection: StorageCollection, key: string): Promise<void> {
+    this.collection(collection).delete(key);
+  }
+
+  async clear(collection: StorageCollection): Promise<void> {
+    this.collection(collection).clear();
+  }
+}
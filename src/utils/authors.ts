@@ -0,0 +1,248 @@
+import { Author, AuthorBibliographyEntry, AuthorRecord, AuthorSummary, WorkSummary } from '../models/BookTypes';
+import { createAuthorFromName } from './bookDefaults';
+import { normalizePersonName, normalizeTitle, surnameOf, textSimilarity } from './textMatching';
+
+/**
+ * Placeholder name catalogs use when a book has no author
+ */
+export const UNKNOWN_AUTHOR = 'Unknown Author';
+
+/**
+ * Check whether an author name is a real name rather than a placeholder
+ * @param name Author name
+ * @returns True if the name identifies someone
+ */
+export const isKnownAuthorName = (name: string | undefined): boolean => {
+  return !!name && name.trim() !== '' && name.trim() !== UNKNOWN_AUTHOR && normalizePersonName(name) !== '';
+};
+
+/**
+ * Put a catalog-style "Last, First" name in reading order
+ * @param name Name as printed
+ * @returns "First Last"; names with no comma or several commas ("King, Martin Luther, Jr.") are kept
+ */
+export const toDisplayName = (name: string): string => {
+  const parts = name.split(',').map(part => part.trim());
+  return parts.length === 2 && parts[0] && parts[1] ? `${parts[1]} ${parts[0]}` : name.trim();
+};
+
+/**
+ * Check whether two given names can belong to the same person: an initial
+ * matches any name starting with it, full names must be spelled alike
+ * @param a First normalized given name
+ * @param b Second normalized given name
+ * @returns True if compatible
+ */
+const givenNamesCompatible = (a: string, b: string): boolean => {
+  if (!a || !b) return true;
+  if (a.length === 1 || b.length === 1) return a[0] === b[0];
+  return textSimilarity(a, b) >= 0.5;
+};
+
+/**
+ * Check whether two names are spellings of the same author's name.
+ * Transliteration variants ("Dostoevsky" / "Dostoyevsky") and initials
+ * ("F. Dostoevsky") match; different given names ("John" / "Jane Smith") don't.
+ * @param a First name as printed
+ * @param b Second name as printed
+ * @returns True if the names match
+ */
+export const authorNamesMatch = (a: string, b: string): boolean => {
+  const first = normalizePersonName(a);
+  const second = normalizePersonName(b);
+  if (!first || !second) return false;
+  if (first === second) return true;
+
+  if (textSimilarity(surnameOf(first), surnameOf(second)) < 0.8) return false;
+
+  const givenA = first.split(' ').slice(0, -1);
+  const givenB = second.split(' ').slice(0, -1);
+  return givenNamesCompatible(givenA[0] || '', givenB[0] || '');
+};
+
+/**
+ * Find the registry record for an author name
+ * @param name Name as printed on a book
+ * @param records Registry records
+ * @returns The record whose name or a variant matches exactly, else the
+ *          first fuzzy match, else undefined
+ */
+export const findMatchingAuthor = (name: string, records: AuthorRecord[]): AuthorRecord | undefined => {
+  const normalized = normalizePersonName(name);
+  const names = (record: AuthorRecord) => [record.name, ...record.nameVariants];
+
+  return records.find(record => names(record).some(known => normalizePersonName(known) === normalized))
+    || records.find(record => names(record).some(known => authorNamesMatch(known, name)));
+};
+
+/**
+ * Create a registry record for an author seen for the first time
+ * @param author Author as credited on a book
+ * @param takenIds Ids already used by other records
+ * @returns New record with an id derived from the name, suffixed if taken
+ */
+export const createAuthorRecord = (author: Author, takenIds: Set<string>): AuthorRecord => {
+  const now = new Date().toISOString();
+  const baseId = createAuthorFromName(author.name).id;
+  let id = baseId;
+  for (let suffix = 2; takenIds.has(id); suffix++) {
+    id = `${baseId}-${suffix}`;
+  }
+
+  return {
+    id,
+    name: toDisplayName(author.name),
+    birth: author.birth,
+    death: author.death,
+    nationality: author.nationality,
+    otherBooks: author.otherBooks,
+    primaryGenres: author.primaryGenres,
+    nameVariants: [],
+    bibliography: [],
+    dateCreated: now,
+    lastModified: now
+  };
+};
+
+/**
+ * Record what a book's credit tells us about a registered author: a new
+ * spelling of the name, and any biographical fields the record lacks
+ * @param record Registry record
+ * @param author Author as credited on a book
+ * @returns The updated record, or the same record if nothing was new
+ */
+export const mergeAuthorCredit = (record: AuthorRecord, author: Author): AuthorRecord => {
+  const name = author.name.trim();
+  const isNewVariant = normalizePersonName(name) !== normalizePersonName(record.name)
+    && !record.nameVariants.some(variant => variant === name);
+  const fill = <K extends 'birth' | 'death' | 'nationality'>(key: K) => record[key] || author[key] || undefined;
+  const fillList = (key: 'otherBooks' | 'primaryGenres') =>
+    record[key]?.length ? record[key] : author[key]?.length ? author[key] : record[key];
+
+  const updated: AuthorRecord = {
+    ...record,
+    birth: fill('birth'),
+    death: fill('death'),
+    nationality: fill('nationality'),
+    otherBooks: fillList('otherBooks'),
+    primaryGenres: fillList('primaryGenres'),
+    nameVariants: isNewVariant ? [...record.nameVariants, name] : record.nameVariants
+  };
+
+  return authorFieldsDiffer(record, updated) || isNewVariant
+    ? { ...updated, lastModified: new Date().toISOString() }
+    : record;
+};
+
+/**
+ * Find or create the registry record for an author credited on a book
+ * @param author Author as credited on a book
+ * @param records Registry records
+ * @returns The matching record updated with the credit, or a new record
+ */
+export const registerAuthorCredit = (author: Author, records: AuthorRecord[]): AuthorRecord => {
+  const match = records.find(record => record.id === author.id && findMatchingAuthor(author.name, [record]))
+    || findMatchingAuthor(author.name, records);
+
+  return match
+    ? mergeAuthorCredit(match, author)
+    : createAuthorRecord(author, new Set(records.map(record => record.id)));
+};
+
+/**
+ * Check whether two authors carry different shared fields
+ * @param a First author
+ * @param b Second author
+ * @returns True if the copies on books need refreshing
+ */
+export const authorFieldsDiffer = (a: Author, b: Author): boolean => {
+  const shared = (author: Author) => JSON.stringify([
+    author.id, author.name, author.birth, author.death, author.nationality, author.otherBooks, author.primaryGenres
+  ]);
+  return shared(a) !== shared(b);
+};
+
+/**
+ * Build the copy of a registry record that a book carries
+ * @param record Registry record
+ * @param roles The author's roles on that book, e.g. "translator"
+ * @returns Author for the book
+ */
+export const toBookAuthor = (record: AuthorRecord, roles?: string[]): Author => {
+  const author: Author = { id: record.id, name: record.name };
+  if (record.birth) author.birth = record.birth;
+  if (record.death) author.death = record.death;
+  if (record.nationality) author.nationality = record.nationality;
+  if (record.otherBooks?.length) author.otherBooks = record.otherBooks;
+  if (record.primaryGenres?.length) author.primaryGenres = record.primaryGenres;
+  if (roles?.length) author.roles = roles;
+  return author;
+};
+
+/**
+ * Combine two records for the same person; the survivor keeps its id and name
+ * @param survivor Record that stays in the registry
+ * @param merged Record folded into it
+ * @returns The combined record
+ */
+export const combineAuthorRecords = (survivor: AuthorRecord, merged: AuthorRecord): AuthorRecord => {
+  const combined = mergeAuthorCredit(survivor, merged);
+  const variants = [merged.name, ...merged.nameVariants, ...combined.nameVariants]
+    .filter(name => normalizePersonName(name) !== normalizePersonName(survivor.name));
+
+  return {
+    ...combined,
+    nameVariants: Array.from(new Set(variants)),
+    openLibraryAuthorId: survivor.openLibraryAuthorId || merged.openLibraryAuthorId,
+    bibliography: survivor.bibliography.length > 0 ? survivor.bibliography : merged.bibliography,
+    dateCreated: survivor.dateCreated < merged.dateCreated ? survivor.dateCreated : merged.dateCreated,
+    lastModified: new Date().toISOString()
+  };
+};
+
+/**
+ * Check whether a library work is a bibliography entry
+ * @param summary Work in the library
+ * @param entry Bibliography entry
+ * @returns True if they are the same work
+ */
+const workIsEntry = (summary: WorkSummary, entry: AuthorBibliographyEntry): boolean => {
+  if (entry.openLibraryWorkId && summary.work.openLibraryWorkId) {
+    return entry.openLibraryWorkId === summary.work.openLibraryWorkId;
+  }
+  const title = normalizeTitle(entry.title);
+  return [summary.work.title, ...summary.work.alternateTitles].some(known => normalizeTitle(known) === title);
+};
+
+/**
+ * Aggregate the user's reading of an author
+ * @param author Registry record
+ * @param works Library works crediting the author
+ * @returns Author summary
+ */
+export const summarizeAuthor = (author: AuthorRecord, works: WorkSummary[]): AuthorSummary => {
+  const rated = works.filter(summary => summary.userRating > 0);
+  const averageRating = rated.length > 0
+    ? rated.reduce((sum, summary) => sum + summary.userRating, 0) / rated.length
+    : 0;
+
+  const missing = author.bibliography.filter(entry => !works.some(summary => workIsEntry(summary, entry)));
+  const unlisted = works.filter(summary => !author.bibliography.some(entry => workIsEntry(summary, entry)));
+
+  const genreCounts = new Map<string, number>();
+  works.flatMap(summary => summary.genres).forEach(genre => {
+    genreCounts.set(genre, (genreCounts.get(genre) || 0) + 1);
+  });
+
+  return {
+    author,
+    works,
+    editionCount: works.reduce((sum, summary) => sum + summary.editions.length, 0),
+    worksRead: works.filter(summary => summary.readCount > 0 || summary.readingStatus === 'completed').length,
+    bibliographySize: author.bibliography.length + unlisted.length,
+    missing,
+    averageRating: Math.round(averageRating * 10) / 10,
+    ratedCount: rated.length,
+    genres: Array.from(genreCounts.entries()).sort((a, b) => b[1] - a[1]).map(([genre]) => genre)
+  };
+};
@@ -0,0 +1,64 @@
+import { Author, Book, MinimalBookData } from '../models/BookTypes';
+import { normalizePersonName } from './textMatching';
+
+/**
+ * Fields of a Book that are not part of MinimalBookData
+ */
+export type BookDefaultFields = Omit<Book, keyof MinimalBookData>;
+
+/**
+ * Build the default values for every Book field beyond the minimal catalog data
+ * @param currentDate ISO timestamp used for dateAdded and lastModified
+ * @returns Default values for a newly created book
+ */
+export const createDefaultBookFields = (currentDate: string = new Date().toISOString()): BookDefaultFields => ({
+  format: 'paperback', // Default format
+  genres: [], // Empty array for now
+  subgenres: [],
+  subjects: [],
+  contentTags: [],
+  audience: 'adult', // Default audience
+  fiction: true, // Default to fiction
+  narrativeStructure: {
+    pov: 'third-person-limited', // Common default
+    tense: 'past',
+    timeline: 'linear'
+  },
+  themes: [],
+  locations: [],
+  characters: [],
+  userRating: 0,
+  readingStatus: 'to-read',
+  dateAdded: currentDate,
+  isFavorite: false,
+  isReread: false,
+  readCount: 0,
+  readingSessions: [],
+  annotations: [],
+  userNotes: '',
+  userTags: [],
+  emotionalResponse: {
+    overall: 'neutral',
+    emotions: {},
+    impactRating: 0,
+    memorability: 0
+  },
+  awards: [],
+  culturalContext: {
+    representation: [],
+    diversityElements: []
+  },
+  complexity: {},
+  lastModified: currentDate
+});
+
+/**
+ * Build an author record from a display name. The id only depends on the
+ * normalized name, so "Tolkien, J.R.R." and "J. R. R. Tolkien" get the same one.
+ * @param name Author name
+ * @returns Author with an id derived from the name
+ */
+export const createAuthorFromName = (name: string): Author => ({
+  id: `author-${normalizePersonName(name).replace(/\s+/g, '-') || 'unknown'}`,
+  name: name.trim()
+});
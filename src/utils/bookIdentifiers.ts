@@ -0,0 +1,73 @@
+import { Book, BookIdentifiers } from '../models/BookTypes';
+import { isbn13To10, normalizeIsbn } from './isbn';
+
+/**
+ * Anything that carries book identifiers: a Book, MinimalBookData or an import row
+ */
+interface IdentifierSource {
+  isbn?: string;
+  googleBooksId?: string;
+  identifiers?: BookIdentifiers;
+}
+
+/**
+ * Drop undefined and empty entries from an identifier set
+ * @param identifiers Identifier set
+ * @returns Identifier set with only known values
+ */
+const removeEmptyIdentifiers = (identifiers: BookIdentifiers): BookIdentifiers => {
+  return Object.fromEntries(
+    Object.entries(identifiers).filter(([, value]) => value !== undefined && value !== '')
+  ) as BookIdentifiers;
+};
+
+/**
+ * Build a normalized identifier set.
+ * ISBNs are validated and both forms derived from whichever is known;
+ * invalid or placeholder ISBNs are dropped.
+ * @param source Record carrying identifiers
+ * @param extra Identifiers known from elsewhere, taking precedence over the source's
+ * @returns Identifier set without empty entries
+ */
+export const buildBookIdentifiers = (source: IdentifierSource, extra: BookIdentifiers = {}): BookIdentifiers => {
+  const known = { ...source.identifiers, ...removeEmptyIdentifiers(extra) };
+
+  const isbn13 = [known.isbn13, source.isbn, known.isbn10]
+    .map(normalizeIsbn)
+    .find((isbn): isbn is string => isbn !== null);
+
+  return removeEmptyIdentifiers({
+    isbn13,
+    isbn10: isbn13 ? isbn13To10(isbn13) || undefined : undefined,
+    googleBooksId: known.googleBooksId || source.googleBooksId,
+    openLibraryId: known.openLibraryId
+  });
+};
+
+/**
+ * Bring a book's isbn, googleBooksId and identifiers into agreement
+ * @param book Book to normalize
+ * @param extra Identifiers known from elsewhere
+ * @returns Book with a normalized identifier set
+ */
+export const normalizeBookIdentifiers = (book: Book, extra?: BookIdentifiers): Book => {
+  const identifiers = buildBookIdentifiers(book, extra);
+
+  return {
+    ...book,
+    isbn: identifiers.isbn13 || '',
+    googleBooksId: identifiers.googleBooksId,
+    identifiers
+  };
+};
+
+/**
+ * Check whether two identifier sets refer to the same book
+ * @param a First identifier set
+ * @param b Second identifier set
+ * @returns True if any identifier is shared
+ */
+export const identifiersMatch = (a: BookIdentifiers, b: BookIdentifiers): boolean => {
+  return (Object.keys(a) as (keyof BookIdentifiers)[])
+    .some(key => a[key] !== undefined && a[key] === b[key]);
+};
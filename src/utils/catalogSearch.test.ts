@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendSearchPage,
+  buildGoogleBooksQuery,
+  CATALOG_PAGE_SIZE,
+  hasMoreSearchResults,
+  hasSearchTerms,
+  matchesBookSearchQuery,
+  SearchableBook
+} from './catalogSearch';
+
+const volumes = (...ids: string[]) => ids.map(id => ({ id }));
+
+const dune: SearchableBook = {
+  title: 'Dune',
+  subtitle: 'Deluxe Edition',
+  authors: ['Frank Herbert'],
+  isbns: ['0441013597', '9780441013593'],
+  publisher: 'Ace',
+  subjects: ['Science Fiction'],
+  language: 'en'
+};
+
+describe('catalog search paging', () => {
+  it('appends a page, skipping volumes an earlier page already listed', () => {
+    const merged = appendSearchPage(volumes('a', 'b', 'c'), volumes('c', 'd', 'a', 'e'));
+    expect(merged.map(volume => volume.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('keeps the fields of the volumes already listed', () => {
+    const listed = [{ id: 'a', added: true }];
+    expect(appendSearchPage(listed, [{ id: 'a', added: false }])).toEqual([{ id: 'a', added: true }]);
+  });
+
+  it('fetches 20 results per page', () => {
+    expect(CATALOG_PAGE_SIZE).toBe(20);
+  });
+
+  it('offers another page while full pages remain below the total', () => {
+    expect(hasMoreSearchResults(0, 20, 45)).toBe(true);
+    expect(hasMoreSearchResults(20, 20, 45)).toBe(true);
+    // The third page reaches the total
+    expect(hasMoreSearchResults(40, 20, 45)).toBe(false);
+    expect(hasMoreSearchResults(20, 20, 40)).toBe(false);
+  });
+
+  it('stops at a short page even when the catalog reports more', () => {
+    // Google Books' totalItems is an estimate that often overshoots
+    expect(hasMoreSearchResults(0, 12, 500)).toBe(false);
+    expect(hasMoreSearchResults(0, 0, 500)).toBe(false);
+  });
+
+  it('honours a different page size', () => {
+    expect(hasMoreSearchResults(0, 10, 25, 10)).toBe(true);
+    expect(hasMoreSearchResults(0, 10, 25)).toBe(false);
+  });
+});
+
+describe('buildGoogleBooksQuery', () => {
+  it('compiles fields to operators, quoting values of several words', () => {
+    expect(buildGoogleBooksQuery({ title: 'The Hobbit', author: 'Tolkien' }))
+      .toBe('intitle:"The Hobbit" inauthor:Tolkien');
+    expect(buildGoogleBooksQuery({ text: 'dragons', publisher: 'Allen & Unwin', subject: 'Fantasy' }))
+      .toBe('dragons inpublisher:"Allen & Unwin" subject:Fantasy');
+  });
+
+  it('strips quotes from field values', () => {
+    expect(buildGoogleBooksQuery({ title: '"Dune"' })).toBe('intitle:Dune');
+  });
+
+  it('searches ISBN-10s by their ISBN-13', () => {
+    expect(buildGoogleBooksQuery({ isbn: '0-441-01359-7' })).toBe('isbn:9780441013593');
+    expect(buildGoogleBooksQuery({ isbn: '978 0441 013593' })).toBe('isbn:9780441013593');
+  });
+
+  it('leaves language and print type to the request parameters', () => {
+    expect(buildGoogleBooksQuery({ text: 'dune', language: 'en', printType: 'books' })).toBe('dune');
+    expect(buildGoogleBooksQuery({ title: '  ' })).toBe('');
+  });
+});
+
+describe('hasSearchTerms', () => {
+  it('needs three characters across the text fields', () => {
+    expect(hasSearchTerms({ text: 'du' })).toBe(false);
+    expect(hasSearchTerms({ text: 'du', author: 'f' })).toBe(true);
+    expect(hasSearchTerms({ text: '   ', language: 'english' })).toBe(false);
+  });
+});
+
+describe('matchesBookSearchQuery', () => {
+  it('requires every filled-in field to match', () => {
+    expect(matchesBookSearchQuery({ title: 'dune', author: 'herbert' }, dune)).toBe(true);
+    expect(matchesBookSearchQuery({ title: 'dune', author: 'asimov' }, dune)).toBe(false);
+    expect(matchesBookSearchQuery({ text: 'science fiction ace' }, dune)).toBe(true);
+  });
+
+  it('matches ISBNs in either form and filters by language', () => {
+    expect(matchesBookSearchQuery({ isbn: '0441013597' }, dune)).toBe(true);
+    expect(matchesBookSearchQuery({ isbn: '9780441013593', language: 'fr' }, dune)).toBe(false);
+  });
+
+  it('matches nothing without enough search terms', () => {
+    expect(matchesBookSearchQuery({ language: 'en' }, dune)).toBe(false);
+  });
+});
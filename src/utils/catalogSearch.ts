@@ -0,0 +1,133 @@
+import { BookSearchQuery } from '../models/BookTypes';
+import { normalizeIsbn } from './isbn';
+import { matchesSearchQuery } from './textMatching';
+
+/**
+ * Google Books query operator for each structured field
+ */
+const FIELD_OPERATORS: ['title' | 'author' | 'publisher' | 'subject', string][] = [
+  ['title', 'intitle'],
+  ['author', 'inauthor'],
+  ['publisher', 'inpublisher'],
+  ['subject', 'subject']
+];
+
+/**
+ * Results fetched per page of a catalog search
+ */
+export const CATALOG_PAGE_SIZE = 20;
+
+/**
+ * The fields of a book a structured search is matched against
+ */
+export interface SearchableBook {
+  title: string;
+  subtitle?: string;
+  authors: string[];
+  isbns: string[];
+  publisher?: string;
+  subjects: string[];
+  language?: string;
+}
+
+/**
+ * Format a value for a query operator: quoted when it has several words
+ * @param value Field value
+ * @returns Value safe to follow an operator
+ */
+const operatorValue = (value: string): string => {
+  const cleaned = value.replace(/"/g, '').trim();
+  return /\s/.test(cleaned) ? `"${cleaned}"` : cleaned;
+};
+
+/**
+ * Clean up an ISBN typed into a search: hyphens and spaces are dropped and
+ * valid ISBN-10s become ISBN-13s
+ * @param value ISBN as typed
+ * @returns ISBN to search for
+ */
+const searchIsbn = (value: string): string => {
+  return normalizeIsbn(value) || value.replace(/[^0-9Xx]/g, '');
+};
+
+/**
+ * Compile a structured search to a Google Books query:
+ * { title: 'The Hobbit', author: 'Tolkien' } → intitle:"The Hobbit" inauthor:Tolkien
+ * Language and print type are request parameters, not part of the query.
+ * @param query Structured search
+ * @returns Query string, empty if no field is filled in
+ */
+export const buildGoogleBooksQuery = (query: BookSearchQuery): string => {
+  const isbn = query.isbn ? searchIsbn(query.isbn) : '';
+
+  return [
+    query.text?.trim() || '',
+    ...FIELD_OPERATORS.map(([field, operator]) => {
+      const value = query[field]?.trim();
+      return value ? `${operator}:${operatorValue(value)}` : '';
+    }),
+    isbn ? `isbn:${isbn}` : ''
+  ].filter(Boolean).join(' ');
+};
+
+/**
+ * Check whether a search has enough to send: at least three characters
+ * across its text fields
+ * @param query Structured search
+ * @returns True if the search is worth running
+ */
+export const hasSearchTerms = (query: BookSearchQuery): boolean => {
+  const terms = [query.text, query.title, query.author, query.isbn, query.publisher, query.subject];
+  return terms.reduce((length, term) => length + (term?.trim().length || 0), 0) >= 3;
+};
+
+/**
+ * Match a book against a structured search the way the catalog would,
+ * for searches answered from cached data or the library
+ * @param query Structured search
+ * @param book The book's searchable fields
+ * @returns True if every filled-in field matches
+ */
+export const matchesBookSearchQuery = (query: BookSearchQuery, book: SearchableBook): boolean => {
+  if (!hasSearchTerms(query)) return false;
+  if (query.language && book.language && book.language !== query.language) return false;
+
+  const isbn = query.isbn ? searchIsbn(query.isbn) : '';
+  const checks: [string | undefined, string[]][] = [
+    [query.text, [book.title, book.subtitle || '', ...book.authors, book.publisher || '', ...book.subjects]],
+    [query.title, [book.title, book.subtitle || '']],
+    [query.author, book.authors],
+    [query.publisher, [book.publisher || '']],
+    [query.subject, book.subjects]
+  ];
+
+  return checks.every(([value, fields]) => !value?.trim() || matchesSearchQuery(value, fields))
+    && (!isbn || book.isbns.some(candidate => searchIsbn(candidate) === isbn));
+};
+
+/**
+ * Add a further page of results to those already listed. Pages can overlap
+ * when the catalog reorders results between requests; repeats are skipped.
+ * @param results Results listed so far
+ * @param page Newly fetched page
+ * @returns Results with the page's new volumes appended
+ */
+export const appendSearchPage = <T extends { id: string }>(results: T[], page: T[]): T[] => {
+  const listed = new Set(results.map(result => result.id));
+  return [...results, ...page.filter(volume => !listed.has(volume.id))];
+};
+
+/**
+ * Check whether a catalog search has pages after the one just fetched
+ * @param startIndex Offset the page was fetched from
+ * @param pageLength Number of volumes the page held
+ * @param totalItems Total matches the catalog reported
+ * @param pageSize Volumes requested per page
+ * @returns True if another page is worth requesting
+ */
+export const hasMoreSearchResults = (
+  startIndex: number,
+  pageLength: number,
+  totalItems: number,
+  pageSize: number = CATALOG_PAGE_SIZE
+): boolean => pageLength === pageSize && startIndex + pageSize < totalItems;
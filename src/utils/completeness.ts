@@ -0,0 +1,206 @@
+import { Book, FieldCompleteness, MetadataCompletenessReport, MetadataSection } from '../models/BookTypes';
+import { isKnownAuthorName } from './authors';
+import { isDefaultValue } from './provenance';
+
+/**
+ * How one field is judged
+ */
+export interface CompletenessRule {
+  field: keyof Book;
+  label: string;
+  section: MetadataSection;
+  weight: number;               // Default weight
+  enrichable: boolean;          // AI enrichment has a prompt for the field
+  missingReason: (book: Book) => string | null; // Explanation when the field is empty, null when filled
+}
+
+/**
+ * Weights that replace the defaults, by field
+ */
+export type CompletenessWeights = Partial<Record<keyof Book, number>>;
+
+export const METADATA_SECTION_LABELS: Record<MetadataSection, string> = {
+  basicInfo: 'Basic Information',
+  publicationDetails: 'Publication Details',
+  contentClassification: 'Content Classification',
+  narrativeElements: 'Narrative Elements',
+  contentAnalysis: 'Content Analysis',
+  culturalContext: 'Cultural Context',
+  complexityAnalysis: 'Complexity Analysis'
+};
+
+// Percentages at or above these read as high and medium completeness
+const HIGH_COMPLETENESS = 80;
+const MEDIUM_COMPLETENESS = 40;
+
+/**
+ * Build a rule for a list field
+ * @param field List field
+ * @param label Display label
+ * @param section Section of the field
+ * @param weight Default weight
+ * @param enrichable Whether enrichment can fill it
+ * @returns Rule that is filled when the list has an entry
+ */
+const listRule = (
+  field: 'genres' | 'subgenres' | 'themes' | 'characters' | 'locations',
+  label: string,
+  section: MetadataSection,
+  weight: number,
+  enrichable: boolean
+): CompletenessRule => ({
+  field,
+  label,
+  section,
+  weight,
+  enrichable,
+  missingReason: book => (book[field] && book[field].length > 0 ? null : `No ${label.toLowerCase()} yet`)
+});
+
+/**
+ * Fields the completeness percentage is made of. Reading data (sessions,
+ * notes, ratings) is the user's own and not counted as metadata.
+ */
+export const COMPLETENESS_RULES: CompletenessRule[] = [
+  {
+    field: 'title',
+    label: 'Title',
+    section: 'basicInfo',
+    weight: 3,
+    enrichable: false,
+    missingReason: book => (book.title?.trim() ? null : 'No title')
+  },
+  {
+    field: 'authors',
+    label: 'Authors',
+    section: 'basicInfo',
+    weight: 3,
+    enrichable: false,
+    missingReason: book => (book.authors?.some(author => isKnownAuthorName(author.name)) ? null : 'Author is unknown')
+  },
+  {
+    field: 'description',
+    label: 'Description',
+    section: 'basicInfo',
+    weight: 2,
+    enrichable: false,
+    missingReason: book => (book.description?.trim() ? null : 'No description')
+  },
+  {
+    field: 'publisher',
+    label: 'Publisher',
+    section: 'publicationDetails',
+    weight: 1,
+    enrichable: false,
+    missingReason: book => (book.publisher?.trim() && book.publisher !== 'Unknown Publisher' ? null : 'Publisher is unknown')
+  },
+  {
+    field: 'publishedDate',
+    label: 'Publication date',
+    section: 'publicationDetails',
+    weight: 1,
+    enrichable: false,
+    missingReason: book => (book.publishedDate?.trim() ? null : 'No publication date')
+  },
+  {
+    field: 'pageCount',
+    label: 'Page count',
+    section: 'publicationDetails',
+    weight: 1,
+    enrichable: false,
+    missingReason: book => (book.pageCount > 0 ? null : 'Page count is unknown')
+  },
+  {
+    field: 'language',
+    label: 'Language',
+    section: 'publicationDetails',
+    weight: 0.5,
+    enrichable: false,
+    missingReason: book => (book.language?.trim() ? null : 'Language is unknown')
+  },
+  {
+    field: 'isbn',
+    label: 'ISBN',
+    section: 'publicationDetails',
+    weight: 1,
+    enrichable: false,
+    missingReason: book => (book.isbn || book.identifiers?.isbn13 || book.identifiers?.isbn10 ? null : 'No ISBN')
+  },
+  listRule('genres', 'Genres', 'contentClassification', 2, true),
+  listRule('subgenres', 'Subgenres', 'contentClassification', 1, true),
+  {
+    field: 'narrativeStructure',
+    label: 'Narrative structure',
+    section: 'narrativeElements',
+    weight: 1.5,
+    enrichable: true,
+    missingReason: book => {
+      if (!book.narrativeStructure?.pov) return 'No point of view';
+      // The placeholder every new book starts with says nothing about this book
+      return isDefaultValue(book, 'narrativeStructure') ? 'Only the default point of view, tense and timeline' : null;
+    }
+  },
+  listRule('themes', 'Themes', 'contentAnalysis', 2, true),
+  listRule('characters', 'Characters', 'contentAnalysis', 2, true),
+  listRule('locations', 'Locations', 'contentAnalysis', 1, true),
+  {
+    field: 'culturalContext',
+    label: 'Cultural context',
+    section: 'culturalContext',
+    weight: 1,
+    enrichable: true,
+    missingReason: book => {
+      const context = book.culturalContext;
+      const filled = context && (context.representation?.length > 0 || context.diversityElements?.length > 0 || context.sensitivity);
+      return filled ? null : 'No representation or diversity elements';
+    }
+  },
+  {
+    field: 'complexity',
+    label: 'Complexity',
+    section: 'complexityAnalysis',
+    weight: 1,
+    enrichable: true,
+    missingReason: book => {
+      const complexity = book.complexity || {};
+      const scored = [complexity.readability, complexity.vocabulary, complexity.conceptual, complexity.structural]
+        .some(score => typeof score === 'number' && score > 0);
+      return scored ? null : 'No complexity scores';
+    }
+  }
+];
+
+/**
+ * Work out how complete a book's metadata is from what its fields hold
+ * @param book Book to judge
+ * @param weights Weights replacing the rules' defaults
+ * @returns Percentage, level and the state of every field
+ */
+export const evaluateCompleteness = (book: Book, weights: CompletenessWeights = {}): MetadataCompletenessReport => {
+  const fields: FieldCompleteness[] = COMPLETENESS_RULES.map(rule => {
+    const reason = rule.missingReason(book);
+    return {
+      field: rule.field,
+      label: rule.label,
+      section: rule.section,
+      weight: Math.max(0, weights[rule.field] ?? rule.weight),
+      filled: reason === null,
+      enrichable: rule.enrichable,
+      ...(reason === null ? {} : { reason })
+    };
+  });
+
+  const totalWeight = fields.reduce((sum, field) => sum + field.weight, 0);
+  const filledWeight = fields.filter(field => field.filled).reduce((sum, field) => sum + field.weight, 0);
+  const percentage = totalWeight > 0 ? Math.round((filledWeight / totalWeight) * 100) : 100;
+
+  return {
+    bookId: book.id,
+    percentage,
+    level: percentage >= HIGH_COMPLETENESS ? 'high' : percentage >= MEDIUM_COMPLETENESS ? 'medium' : 'low',
+    fields,
+    missing: fields
+      .filter(field => !field.filled && field.weight > 0)
+      .sort((a, b) => b.weight - a.weight)
+  };
+};
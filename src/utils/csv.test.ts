@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { formatDelimited, parseDelimited, parseDelimitedRecords } from './csv';
+
+describe('parseDelimited', () => {
+  it('splits rows and fields', () => {
+    expect(parseDelimited('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('keeps delimiters, escaped quotes and line breaks inside quoted fields', () => {
+    expect(parseDelimited('"Hello, world","She said ""hi""","line\nbreak"')).toEqual([
+      ['Hello, world', 'She said "hi"', 'line\nbreak']
+    ]);
+  });
+
+  it('handles CRLF line endings, a byte order mark and blank lines', () => {
+    expect(parseDelimited('\uFEFFa,b\r\n\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseDelimited('a,,c\n,,')).toEqual([['a', '', 'c']]);
+    expect(parseDelimited('a,,c\n1,,3')).toEqual([['a', '', 'c'], ['1', '', '3']]);
+  });
+
+  it('parses tab-separated text', () => {
+    expect(parseDelimited('a\tb, c\n1\t2', '\t')).toEqual([['a', 'b, c'], ['1', '2']]);
+  });
+});
+
+describe('parseDelimitedRecords', () => {
+  it('keys rows by trimmed header names and trims values', () => {
+    expect(parseDelimitedRecords(' Title ,Author\n Dune , Frank Herbert ')).toEqual([
+      { Title: 'Dune', Author: 'Frank Herbert' }
+    ]);
+  });
+
+  it('fills missing cells with empty strings', () => {
+    expect(parseDelimitedRecords('Title,Author,Pages\nDune')).toEqual([
+      { Title: 'Dune', Author: '', Pages: '' }
+    ]);
+  });
+
+  it('returns no records for empty input', () => {
+    expect(parseDelimitedRecords('')).toEqual([]);
+  });
+});
+
+describe('formatDelimited', () => {
+  it('quotes fields that need it and round-trips through the parser', () => {
+    const rows = [['Title', 'Notes'], ['Dune', 'Spice, "sand"\nand worms']];
+    const text = formatDelimited(rows);
+
+    expect(text).toBe('Title,Notes\r\nDune,"Spice, ""sand""\nand worms"');
+    expect(parseDelimited(text)).toEqual(rows);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Parse delimited text (CSV/TSV) into rows of fields.
+ * Handles quoted fields, escaped quotes ("") and line breaks inside quotes.
+ * @param text Raw file contents
+ * @param delimiter Field delimiter, ',' for CSV or '\t' for TSV
+ * @returns Array of rows, each an array of raw field values
+ */
+export const parseDelimited = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark if present
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the last row unless the file ended with a newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+/**
+ * Parse delimited text with a header row into keyed records
+ * @param text Raw file contents
+ * @param delimiter Field delimiter
+ * @returns Array of records keyed by header name
+ */
+export const parseDelimitedRecords = (text: string, delimiter: string = ','): Record<string, string>[] => {
+  const [header, ...rows] = parseDelimited(text, delimiter);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+
+  return rows.map(row => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = (row[index] ?? '').trim();
+    });
+    return record;
+  });
+};
+
+/**
+ * Escape a single field for delimited output, quoting it when it contains
+ * the delimiter, a quote or a line break
+ * @param value Field value
+ * @param delimiter Field delimiter
+ * @returns Field ready to be written
+ */
+export const formatDelimitedField = (value: string, delimiter: string = ','): string => {
+  if (value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+/**
+ * Format rows of fields as delimited text (CSV/TSV) with CRLF line endings
+ * @param rows Rows to write, the first usually being the header
+ * @param delimiter Field delimiter
+ * @returns Delimited text
+ */
+export const formatDelimited = (rows: string[][], delimiter: string = ','): string => {
+  return rows
+    .map(row => row.map(field => formatDelimitedField(field, delimiter)).join(delimiter))
+    .join('\r\n');
+};
@@ -0,0 +1,17 @@
+/**
+ * Offer text contents to the user as a file download
+ * @param contents File contents
+ * @param fileName Name of the downloaded file
+ * @param mimeType MIME type of the file
+ */
+export const downloadTextFile = (contents: string, fileName: string, mimeType: string): void => {
+  const blob = new Blob([contents], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  URL.revokeObjectURL(url);
+};
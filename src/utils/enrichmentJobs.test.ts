@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Book, EnrichmentJob } from '../models/BookTypes';
+import { createEnrichmentJob, DEFAULT_MAX_ATTEMPTS, getBackoffDelay, isActiveJob, isJobDue } from './enrichmentJobs';
+
+const book = { id: 'book-1', title: 'Dune', isbn: '0-441-01359-7' } as Book;
+
+describe('createEnrichmentJob', () => {
+  it('creates a pending job with no attempts and a normalized ISBN', () => {
+    const job = createEnrichmentJob(book);
+
+    expect(job).toMatchObject({
+      bookId: 'book-1',
+      title: 'Dune',
+      isbn: '9780441013593',
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: DEFAULT_MAX_ATTEMPTS
+    });
+    expect(job.createdAt).toBe(job.updatedAt);
+    expect(createEnrichmentJob(book, 2).maxAttempts).toBe(2);
+  });
+
+  it('gives every job its own id', () => {
+    expect(createEnrichmentJob(book).id).not.toBe(createEnrichmentJob(book).id);
+  });
+});
+
+describe('isActiveJob', () => {
+  it('treats pending and running jobs as active', () => {
+    const job = createEnrichmentJob(book);
+    const statuses: EnrichmentJob['status'][] = ['pending', 'running', 'succeeded', 'failed', 'cancelled'];
+
+    expect(statuses.map(status => isActiveJob({ ...job, status }))).toEqual([true, true, false, false, false]);
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('doubles the delay with every attempt up to the ceiling', () => {
+    expect([1, 2, 3, 4, 5].map(attempts => getBackoffDelay(attempts, 1000, 10000)))
+      .toEqual([1000, 2000, 4000, 8000, 10000]);
+  });
+
+  it('uses the base delay before any attempt', () => {
+    expect(getBackoffDelay(0, 1000, 10000)).toBe(1000);
+  });
+});
+
+describe('isJobDue', () => {
+  it('runs jobs without a backoff straight away', () => {
+    expect(isJobDue(createEnrichmentJob(book))).toBe(true);
+  });
+
+  it('waits until the next attempt time', () => {
+    const job = { ...createEnrichmentJob(book), nextAttemptAt: '2026-01-01T00:00:10.000Z' };
+    const at = (time: string) => new Date(time).getTime();
+
+    expect(isJobDue(job, at('2026-01-01T00:00:09.999Z'))).toBe(false);
+    expect(isJobDue(job, at('2026-01-01T00:00:10.000Z'))).toBe(true);
+  });
+});
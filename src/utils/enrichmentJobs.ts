@@ -0,0 +1,78 @@
+import { Book, EnrichmentJob, EnrichmentJobStatus } from '../models/BookTypes';
+import { normalizeIsbn } from './isbn';
+
+/**
+ * Attempts a job gets before it is marked failed
+ */
+export const DEFAULT_MAX_ATTEMPTS = 4;
+
+/**
+ * Display names of job statuses
+ */
+export const ENRICHMENT_JOB_STATUS_LABELS: Record<EnrichmentJobStatus, string> = {
+  pending: 'Queued',
+  running: 'Enriching',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+/**
+ * Create an id for a new job
+ * @returns Unique job id
+ */
+export const createEnrichmentJobId = (): string => {
+  return `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/**
+ * Create a pending job for a book
+ * @param book Book to enrich
+ * @param maxAttempts Attempts the job gets before it fails
+ * @returns New job, not yet stored
+ */
+export const createEnrichmentJob = (book: Book, maxAttempts: number = DEFAULT_MAX_ATTEMPTS): EnrichmentJob => {
+  const now = new Date().toISOString();
+  return {
+    id: createEnrichmentJobId(),
+    bookId: book.id,
+    isbn: normalizeIsbn(book.isbn) || undefined,
+    title: book.title,
+    status: 'pending',
+    attempts: 0,
+    maxAttempts,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * Check whether a job still has work to do
+ * @param job Job to check
+ * @returns True for pending and running jobs
+ */
+export const isActiveJob = (job: EnrichmentJob): boolean => {
+  return job.status === 'pending' || job.status === 'running';
+};
+
+/**
+ * Work out how long to wait before retrying a job: the delay doubles with
+ * every failed attempt, up to a ceiling
+ * @param attempts Attempts made so far (at least 1)
+ * @param baseDelayMs Delay after the first failure
+ * @param maxDelayMs Longest delay
+ * @returns Delay in milliseconds
+ */
+export const getBackoffDelay = (attempts: number, baseDelayMs: number, maxDelayMs: number): number => {
+  return Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempts - 1));
+};
+
+/**
+ * Check whether a pending job's backoff has passed
+ * @param job Pending job
+ * @param now Current time in milliseconds
+ * @returns True if the job may run now
+ */
+export const isJobDue = (job: EnrichmentJob, now: number = Date.now()): boolean => {
+  return !job.nextAttemptAt || new Date(job.nextAttemptAt).getTime() <= now;
+};
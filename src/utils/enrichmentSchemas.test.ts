@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { isEnrichmentSection, validateEnrichment } from './enrichmentSchemas';
+
+describe('validateEnrichment', () => {
+  it('coerces numeric strings and clamps scores to their scale', () => {
+    const result = validateEnrichment('themes', [
+      { name: ' Ecology ', relevance: '4' },
+      { name: 'Power', relevance: 9 },
+      { name: 'Religion', relevance: 0 }
+    ]);
+
+    expect(result.value).toEqual([
+      { name: 'Ecology', relevance: 4 },
+      { name: 'Power', relevance: 5 },
+      { name: 'Religion', relevance: 1 }
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('drops invalid list items, reports them by path and keeps the rest', () => {
+    const result = validateEnrichment('themes', [
+      { name: 'Ecology', relevance: 4 },
+      { relevance: 3 },
+      { name: 'Power', relevance: 'high' }
+    ]);
+
+    expect(result.value).toEqual([{ name: 'Ecology', relevance: 4 }]);
+    expect(result.errors).toEqual([
+      '[1].name: is required',
+      '[2].relevance: expected a number between 1 and 5 (got "high")'
+    ]);
+  });
+
+  it('fails a list without enough valid items', () => {
+    const result = validateEnrichment('themes', [{ name: 'Ecology' }]);
+
+    expect(result.value).toBeUndefined();
+    expect(result.errors).toContain('reply: expected at least 1 valid item (got 0)');
+  });
+
+  it('maps synonyms onto allowed values and text onto flags', () => {
+    const characters = validateEnrichment('characters', [
+      { name: 'Paul', role: 'Main Character', development: 'round', personalityTraits: 'driven, wary' }
+    ]);
+    const locations = validateEnrichment('locations', [
+      { name: 'Arrakis', type: 'World', realWorld: 'no', importance: 5, coordinates: [120, -200] }
+    ]);
+
+    expect(characters.value).toEqual([
+      { name: 'Paul', role: 'protagonist', development: 'dynamic', personalityTraits: ['driven', 'wary'] }
+    ]);
+    expect(locations.value).toEqual([
+      { name: 'Arrakis', type: 'planet', realWorld: false, importance: 5, coordinates: [90, -180] }
+    ]);
+  });
+
+  it('drops invalid optional properties without invalidating the object', () => {
+    const result = validateEnrichment('narrativeStructure', {
+      pov: 'third_person_omniscient',
+      tense: 'Past',
+      timeline: 'nonlinear',
+      format: 'hologram',
+      extra: 'ignored'
+    });
+
+    expect(result.value).toEqual({ pov: 'third-person-omniscient', tense: 'past', timeline: 'non-linear' });
+    expect(result.errors).toEqual([
+      'format: expected one of prose, verse, epistolary, mixed-media, other (got "hologram")'
+    ]);
+  });
+
+  it('rejects an object missing a required property', () => {
+    const result = validateEnrichment('narrativeStructure', { pov: 'first', tense: 'past' });
+
+    expect(result.value).toBeUndefined();
+    expect(result.errors).toEqual(['timeline: is required']);
+  });
+
+  it('accepts comma-separated text for lists and numbers for text', () => {
+    const result = validateEnrichment('genres', { genres: 'Science Fiction, Adventure', fiction: 'yes', audience: 'YA' });
+    const analysis = validateEnrichment('analysis', { overallRating: 4.27, similarBooks: [] });
+
+    expect(result.value).toEqual({ genres: ['Science Fiction', 'Adventure'], fiction: true, audience: 'young-adult' });
+    expect(analysis.value).toEqual({ overallRating: '4.27', similarBooks: [] });
+  });
+
+  it('rejects replies of the wrong type', () => {
+    expect(validateEnrichment('complexity', 'hard')).toEqual({
+      value: undefined,
+      errors: ['reply: expected an object (got "hard")']
+    });
+    expect(validateEnrichment('themes', { name: 'Ecology' }).errors).toEqual([
+      'reply: expected a list (got {"name":"Ecology"})'
+    ]);
+  });
+});
+
+describe('isEnrichmentSection', () => {
+  it('recognizes sections with a schema', () => {
+    expect(isEnrichmentSection('themes')).toBe(true);
+    expect(isEnrichmentSection('subgenres')).toBe(false);
+    expect(isEnrichmentSection('toString')).toBe(false);
+  });
+});
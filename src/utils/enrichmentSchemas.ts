@@ -0,0 +1,323 @@
+import { Book, BookAIEnrichment, Character, Location, Theme } from '../models/BookTypes';
+
+/**
+ * Outcome of checking a value against a schema. Coercions and clamps are
+ * applied silently; anything that cannot be made to fit is reported in
+ * `errors` (with the path to the offending value) and left out of `value`.
+ */
+export interface SchemaResult<T> {
+  value: T | undefined;         // Undefined if nothing usable was found
+  errors: string[];
+}
+
+/**
+ * Checks and coerces an untyped value
+ * @param input Value to check
+ * @param path Where the value sits in the reply, for error messages
+ */
+export type Schema<T> = (input: unknown, path: string) => SchemaResult<T>;
+
+/**
+ * Values each enrichment section yields once validated
+ */
+export interface EnrichmentSectionValues {
+  themes: Theme[];
+  characters: Character[];
+  locations: Location[];
+  narrativeStructure: Book['narrativeStructure'];
+  genres: Partial<Pick<Book, 'genres' | 'subgenres' | 'fiction' | 'audience'>>;
+  complexity: Book['complexity'];
+  culturalContext: Book['culturalContext'] & { culturalSignificance?: string };
+  analysis: Omit<BookAIEnrichment, 'enrichmentDate' | 'enrichmentSource' | 'version' | 'failures'> & { overallRating?: string };
+}
+
+export type EnrichmentSection = keyof EnrichmentSectionValues;
+
+const ok = <T>(value: T | undefined): SchemaResult<T> => ({ value, errors: [] });
+const fail = <T>(path: string, message: string): SchemaResult<T> => ({ value: undefined, errors: [`${path || 'reply'}: ${message}`] });
+const isMissing = (input: unknown): boolean => input === undefined || input === null || input === '';
+const describe = (input: unknown): string => JSON.stringify(input)?.slice(0, 60) ?? String(input);
+
+// Schemas whose property can be left out, or dropped when invalid
+const optionalSchemas = new WeakSet<Schema<unknown>>();
+
+/**
+ * Marks a schema as optional: a missing value is not an error, and an
+ * invalid one is dropped without invalidating the object around it
+ */
+const optional = <T>(schema: Schema<T>): Schema<T> => {
+  const wrapped: Schema<T> = (input, path) => isMissing(input) ? ok<T>(undefined) : schema(input, path);
+  optionalSchemas.add(wrapped as Schema<unknown>);
+  return wrapped;
+};
+
+/**
+ * Text, trimmed; numbers are accepted and turned into text
+ */
+const text: Schema<string> = (input, path) => {
+  if (typeof input === 'number') return ok(String(input));
+  if (typeof input !== 'string') return fail(path, `expected text (got ${describe(input)})`);
+  const trimmed = input.trim();
+  return trimmed ? ok(trimmed) : fail(path, 'expected text (got an empty string)');
+};
+
+/**
+ * A number on a fixed scale. Numeric strings are accepted and values outside
+ * the scale are clamped to it.
+ */
+const score = (min: number, max: number): Schema<number> => (input, path) => {
+  const number = typeof input === 'string' ? parseFloat(input) : input;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    return fail(path, `expected a number between ${min} and ${max} (got ${describe(input)})`);
+  }
+  return ok(Math.min(max, Math.max(min, number)));
+};
+
+/**
+ * A yes/no value; "true", "yes", "false" and "no" are accepted as text
+ */
+const flag: Schema<boolean> = (input, path) => {
+  if (typeof input === 'boolean') return ok(input);
+  if (typeof input === 'string') {
+    const normalized = input.trim().toLowerCase();
+    if (normalized === 'true' || normalized === 'yes') return ok(true);
+    if (normalized === 'false' || normalized === 'no') return ok(false);
+  }
+  return fail(path, `expected true or false (got ${describe(input)})`);
+};
+
+/**
+ * One of a fixed set of values. Case, spaces and underscores are normalized
+ * and common synonyms are mapped onto the allowed values.
+ */
+const oneOf = <T extends string>(values: readonly T[], synonyms: Record<string, NoInfer<T>> = {}): Schema<T> => (input, path) => {
+  if (typeof input === 'string') {
+    const normalized = input.trim().toLowerCase().replace(/[\s_]+/g, '-');
+    const match = values.find(value => value === normalized) || synonyms[normalized];
+    if (match) return ok(match);
+  }
+  return fail(path, `expected one of ${values.join(', ')} (got ${describe(input)})`);
+};
+
+/**
+ * A list of items. Invalid items are dropped and reported.
+ * @param item Schema for each item
+ * @param min Fewest valid items the list needs
+ */
+const list = <T>(item: Schema<T>, min = 0): Schema<T[]> => (input, path) => {
+  if (!Array.isArray(input)) return fail(path, `expected a list (got ${describe(input)})`);
+
+  const values: T[] = [];
+  const errors: string[] = [];
+  input.forEach((entry, index) => {
+    const result = item(entry, `${path}[${index}]`);
+    errors.push(...result.errors);
+    if (result.value !== undefined) {
+      values.push(result.value);
+    }
+  });
+
+  if (values.length < min) {
+    errors.push(`${path || 'reply'}: expected at least ${min} valid item${min === 1 ? '' : 's'} (got ${values.length})`);
+  }
+  return { value: values.length >= min ? values : undefined, errors };
+};
+
+/**
+ * A list of text; a comma-separated string is accepted too
+ * @param min Fewest items the list needs
+ */
+const textList = (min = 0): Schema<string[]> => (input, path) =>
+  list(text, min)(typeof input === 'string' ? input.split(',') : input, path);
+
+/**
+ * A [latitude, longitude] pair, clamped to valid coordinates
+ */
+const coordinates: Schema<[number, number]> = (input, path) => {
+  if (!Array.isArray(input) || input.length !== 2) {
+    return fail(path, `expected [latitude, longitude] (got ${describe(input)})`);
+  }
+  const latitude = score(-90, 90)(input[0], `${path}[0]`);
+  const longitude = score(-180, 180)(input[1], `${path}[1]`);
+  return latitude.value !== undefined && longitude.value !== undefined
+    ? ok<[number, number]>([latitude.value, longitude.value])
+    : { value: undefined, errors: [...latitude.errors, ...longitude.errors] };
+};
+
+/**
+ * An object with known properties. Unknown properties are dropped; the object
+ * is unusable if a required property is missing or invalid.
+ */
+const shape = <T extends object>(properties: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => (input, path) => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return fail(path, `expected an object (got ${describe(input)})`);
+  }
+
+  const value: Record<string, unknown> = {};
+  const errors: string[] = [];
+  let usable = true;
+  (Object.keys(properties) as (keyof T & string)[]).forEach(key => {
+    const schema = properties[key] as Schema<unknown>;
+    const raw = (input as Record<string, unknown>)[key];
+    const propertyPath = path ? `${path}.${key}` : key;
+    const isOptional = optionalSchemas.has(schema);
+
+    if (isMissing(raw) && !isOptional) {
+      errors.push(`${propertyPath}: is required`);
+      usable = false;
+      return;
+    }
+
+    const result = schema(raw, propertyPath);
+    errors.push(...result.errors);
+    if (result.value !== undefined) {
+      value[key] = result.value;
+    } else if (!isOptional) {
+      usable = false;
+    }
+  });
+
+  return { value: usable ? value as T : undefined, errors };
+};
+
+const scale = score(1, 5);
+
+const themeSchema = shape<Theme>({
+  name: text,
+  relevance: scale,
+  userNotes: optional(text)
+});
+
+const characterSchema = shape<Character>({
+  name: text,
+  role: oneOf(['protagonist', 'antagonist', 'supporting', 'minor'] as const, {
+    'main': 'protagonist',
+    'main-character': 'protagonist',
+    'hero': 'protagonist',
+    'heroine': 'protagonist',
+    'narrator': 'protagonist',
+    'villain': 'antagonist',
+    'secondary': 'supporting',
+    'side-character': 'supporting',
+    'deuteragonist': 'supporting',
+    'background': 'minor'
+  }),
+  archetype: optional(text),
+  demographics: optional(shape<NonNullable<Character['demographics']>>({
+    gender: optional(text),
+    age: optional(text),
+    background: optional(text),
+    occupation: optional(text)
+  })),
+  personalityTraits: optional(textList()),
+  development: optional(oneOf(['static', 'dynamic'] as const, { 'flat': 'static', 'round': 'dynamic' })),
+  notes: optional(text)
+});
+
+const locationSchema = shape<Location>({
+  name: text,
+  type: oneOf(['city', 'country', 'region', 'fictional', 'planet', 'other'] as const, {
+    'town': 'city',
+    'village': 'city',
+    'state': 'region',
+    'province': 'region',
+    'fictional-place': 'fictional',
+    'world': 'planet'
+  }),
+  realWorld: flag,
+  coordinates: optional(coordinates),
+  importance: scale,
+  description: optional(text)
+});
+
+/**
+ * Schema of each enrichment section, matching the JSON its prompt asks for
+ */
+export const ENRICHMENT_SCHEMAS: { [S in EnrichmentSection]: Schema<EnrichmentSectionValues[S]> } = {
+  themes: list(themeSchema, 1),
+  characters: list(characterSchema, 1),
+  locations: list(locationSchema, 1),
+  narrativeStructure: shape<Book['narrativeStructure']>({
+    pov: oneOf(['first-person', 'second-person', 'third-person-limited', 'third-person-omniscient', 'multiple', 'other'] as const, {
+      'first': 'first-person',
+      'second': 'second-person',
+      'third-person': 'third-person-limited',
+      'third-limited': 'third-person-limited',
+      'third-omniscient': 'third-person-omniscient',
+      'omniscient': 'third-person-omniscient',
+      'multiple-povs': 'multiple',
+      'multiple-perspectives': 'multiple'
+    }),
+    tense: oneOf(['past', 'present', 'future', 'mixed'] as const, { 'multiple': 'mixed' }),
+    timeline: oneOf(['linear', 'non-linear', 'multiple-timelines'] as const, {
+      'nonlinear': 'non-linear',
+      'multiple': 'multiple-timelines',
+      'parallel': 'multiple-timelines'
+    }),
+    format: optional(oneOf(['prose', 'verse', 'epistolary', 'mixed-media', 'other'] as const, { 'mixed': 'mixed-media', 'poetry': 'verse' }))
+  }),
+  genres: shape<EnrichmentSectionValues['genres']>({
+    genres: textList(1),
+    subgenres: optional(textList()),
+    fiction: optional(flag),
+    audience: optional(oneOf(['children', 'middle-grade', 'young-adult', 'adult', 'academic'] as const, {
+      'kids': 'children',
+      'childrens': 'children',
+      'ya': 'young-adult',
+      'teen': 'young-adult',
+      'adults': 'adult',
+      'general': 'adult',
+      'scholarly': 'academic'
+    }))
+  }),
+  complexity: shape<Book['complexity']>({
+    readability: optional(scale),
+    vocabulary: optional(scale),
+    conceptual: optional(scale),
+    structural: optional(scale)
+  }),
+  culturalContext: shape<EnrichmentSectionValues['culturalContext']>({
+    representation: textList(),
+    diversityElements: textList(),
+    sensitivity: optional(text),
+    culturalSignificance: optional(text)
+  }),
+  analysis: shape<EnrichmentSectionValues['analysis']>({
+    themes: optional(textList()),
+    mood: optional(text),
+    narrativeStyle: optional(text),
+    pacing: optional(text),
+    perspective: optional(text),
+    timeline: optional(text),
+    targetAudience: optional(text),
+    complexity: optional(text),
+    similarBooks: optional(textList()),
+    culturalSignificance: optional(text),
+    historicalContext: optional(text),
+    aiAnalysis: optional(text),
+    overallRating: optional(text)
+  })
+};
+
+/**
+ * Check whether a section is one a schema exists for
+ * @param section Section name
+ * @returns True if replies for the section can be validated
+ */
+export const isEnrichmentSection = (section: string): section is EnrichmentSection =>
+  Object.prototype.hasOwnProperty.call(ENRICHMENT_SCHEMAS, section);
+
+/**
+ * Validate a parsed language model reply for a section, coercing and clamping
+ * what can be made to fit
+ * @param section Section the reply is for
+ * @param input Parsed JSON of the reply
+ * @returns The usable values and what was wrong with the rest
+ */
+export const validateEnrichment = <S extends EnrichmentSection>(
+  section: S,
+  input: unknown
+): SchemaResult<EnrichmentSectionValues[S]> => {
+  const schema = ENRICHMENT_SCHEMAS[section] as Schema<EnrichmentSectionValues[S]>;
+  return schema(input, '');
+};
@@ -0,0 +1,182 @@
+import {
+  Book,
+  Character,
+  EnrichableField,
+  EnrichmentReviewPolicy,
+  FieldSuggestion,
+  Location,
+  Theme
+} from '../models/BookTypes';
+import { changedEnrichableFields, createProvenance, ENRICHABLE_FIELDS, isDefaultValue, isUserValue } from './provenance';
+
+/**
+ * Display names of review policies
+ */
+export const ENRICHMENT_REVIEW_POLICY_LABELS: Record<EnrichmentReviewPolicy, string> = {
+  review_all: 'Review every suggestion',
+  auto_accept_empty: 'Fill empty fields automatically, review the rest'
+};
+
+/**
+ * Enrichable fields that hold lists, reviewed item by item
+ */
+export type ListField = 'genres' | 'subgenres' | 'themes' | 'characters' | 'locations';
+
+/**
+ * One entry of a list field
+ */
+export type ListItem = string | Theme | Character | Location;
+
+const LIST_FIELDS: ListField[] = ['genres', 'subgenres', 'themes', 'characters', 'locations'];
+
+/**
+ * How a suggested list item compares to the book's list
+ */
+export type ItemChange =
+  | 'added'                     // Not in the book's list yet
+  | 'changed'                   // In the list under the same name, with different details
+  | 'unchanged';                // Already in the list as suggested
+
+/**
+ * A suggested list item next to the book's item of the same name
+ */
+export interface ItemDiff<T extends ListItem> {
+  key: string;                  // Normalized name the items are matched by
+  current?: T;                  // The book's item, if it has one
+  suggested: T;
+  change: ItemChange;
+}
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Check whether a field is reviewed item by item
+ * @param field Enrichable field
+ * @returns True for list fields
+ */
+export const isListField = (field: EnrichableField): field is ListField =>
+  (LIST_FIELDS as EnrichableField[]).includes(field);
+
+/**
+ * Get the name a list item is shown and matched by
+ * @param item List item
+ * @returns The text of a genre, or the name of a theme, character or location
+ */
+export const getItemName = (item: ListItem): string => typeof item === 'string' ? item : item.name;
+
+/**
+ * Get the key list items are matched by, so "Fantasy" and "fantasy " are the same genre
+ * @param item List item
+ * @returns Normalized name
+ */
+export const getItemKey = (item: ListItem): string => getItemName(item).trim().toLowerCase();
+
+/**
+ * Give a list item a new name, keeping its other details
+ * @param item List item
+ * @param name New name
+ * @returns Renamed copy of the item
+ */
+export const renameItem = <T extends ListItem>(item: T, name: string): T =>
+  (typeof item === 'string' ? name : { ...(item as Exclude<ListItem, string>), name }) as T;
+
+/**
+ * Compare suggested list items with the book's list. Items only the book has
+ * are not listed: accepting a suggestion never removes them.
+ * @param current The book's items
+ * @param suggested Suggested items
+ * @returns One entry per suggested item, in suggested order
+ */
+export const diffListItems = <T extends ListItem>(current: T[], suggested: T[]): ItemDiff<T>[] => {
+  const byKey = new Map(current.map(item => [getItemKey(item), item]));
+  return suggested.map(item => {
+    const key = getItemKey(item);
+    const match = byKey.get(key);
+    return {
+      key,
+      current: match,
+      suggested: item,
+      change: !match ? 'added' : sameValue(match, item) ? 'unchanged' : 'changed'
+    };
+  });
+};
+
+/**
+ * Add accepted items to a list: an item replaces the entry of the same name,
+ * or is appended if the list has none
+ * @param current The book's items
+ * @param accepted Items to take
+ * @returns The combined list
+ */
+export const mergeListItems = <T extends ListItem>(current: T[], accepted: T[]): T[] => {
+  const merged = [...current];
+  accepted.forEach(item => {
+    const index = merged.findIndex(existing => getItemKey(existing) === getItemKey(item));
+    if (index >= 0) {
+      merged[index] = item;
+    } else {
+      merged.push(item);
+    }
+  });
+  return merged;
+};
+
+/**
+ * Check whether a field holds no data yet, so filling it loses nothing
+ * @param book Book to inspect
+ * @param field Enrichable field
+ * @returns True for empty lists, new-book defaults and objects with nothing filled in
+ */
+export const isEmptyField = (book: Book, field: EnrichableField): boolean => {
+  const value = book[field];
+  if (Array.isArray(value)) return value.length === 0;
+  if (isDefaultValue(book, field)) return true;
+
+  if (field === 'complexity') {
+    return Object.values(book.complexity || {}).every(score => score === undefined);
+  }
+  if (field === 'culturalContext') {
+    const context = book.culturalContext;
+    return !context || (context.representation.length === 0 && context.diversityElements.length === 0 && !context.sensitivity);
+  }
+  return false;
+};
+
+/**
+ * Work out what an enrichment run proposes for a book: every enrichable field
+ * it changed, except those the user entered and lists it only repeats
+ * @param current Book as stored now
+ * @param enriched The run's copy of the book
+ * @returns One suggestion per field, in ENRICHABLE_FIELDS order
+ */
+export const createSuggestions = (current: Book, enriched: Book): FieldSuggestion[] => {
+  return changedEnrichableFields(current, enriched)
+    .filter(field => !isUserValue(current, field))
+    .filter(field => !isListField(field)
+      || diffListItems(current[field] as ListItem[], enriched[field] as ListItem[]).some(item => item.change !== 'unchanged'))
+    .map(field => ({
+      field,
+      suggested: enriched[field],
+      provenance: enriched.provenance?.[field] || createProvenance('ai_enrichment')
+    }) as FieldSuggestion);
+};
+
+/**
+ * Combine a new run's suggestions with those still under review. A field's
+ * new suggestion replaces the old one; old ones the book now matches are dropped.
+ * @param book Book as stored now
+ * @param existing Suggestions still under review
+ * @param incoming The new run's suggestions
+ * @returns Combined suggestions, in ENRICHABLE_FIELDS order
+ */
+export const mergeSuggestions = (book: Book, existing: FieldSuggestion[], incoming: FieldSuggestion[]): FieldSuggestion[] => {
+  const byField = new Map<EnrichableField, FieldSuggestion>();
+  existing
+    .filter(suggestion => !isUserValue(book, suggestion.field) && !sameValue(book[suggestion.field], suggestion.suggested))
+    .forEach(suggestion => byField.set(suggestion.field, suggestion));
+  incoming.forEach(suggestion => byField.set(suggestion.field, suggestion));
+
+  return ENRICHABLE_FIELDS
+    .map(field => byField.get(field))
+    .filter((suggestion): suggestion is FieldSuggestion => suggestion !== undefined);
+};
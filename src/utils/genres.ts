@@ -0,0 +1,389 @@
+import { Book } from '../models/BookTypes';
+
+/**
+ * A genre of the controlled taxonomy, with the subgenres it allows
+ */
+export interface GenreDefinition {
+  name: string;
+  fiction?: boolean;            // Whether books of the genre are fiction; undefined when it varies
+  subgenres: string[];
+}
+
+/**
+ * How one catalog category classifies a book. Categories are matched by
+ * path, so "Fiction / Fantasy" also covers "Fiction / Fantasy / General";
+ * fields left out are taken from the broader categories above it.
+ */
+export interface GenreMapping {
+  category: string;             // Category key, as built by categoryKey
+  genre?: string;
+  subgenre?: string;            // Only used together with genre
+  fiction?: boolean;
+  audience?: Book['audience'];
+}
+
+/**
+ * The genre fields of a book worked out from its catalog categories
+ */
+export interface GenreClassification {
+  genres: string[];
+  subgenres: string[];
+  fiction: boolean;
+  audience: Book['audience'];
+  unmapped: string[];           // Categories no mapping covers, as given by the catalog
+}
+
+export const GENRE_TAXONOMY: GenreDefinition[] = [
+  { name: 'Fantasy', fiction: true, subgenres: ['Epic Fantasy', 'Urban Fantasy', 'Dark Fantasy', 'Sword & Sorcery', 'Fairy Tales & Mythology', 'Romantic Fantasy'] },
+  { name: 'Science Fiction', fiction: true, subgenres: ['Space Opera', 'Cyberpunk', 'Dystopian', 'Post-Apocalyptic', 'Time Travel', 'Military Science Fiction', 'Hard Science Fiction', 'Alien Contact'] },
+  { name: 'Mystery & Detective', fiction: true, subgenres: ['Cozy Mystery', 'Police Procedural', 'Private Investigator', 'Hard-Boiled', 'Amateur Sleuth', 'Traditional Mystery'] },
+  { name: 'Thriller & Suspense', fiction: true, subgenres: ['Psychological Thriller', 'Legal Thriller', 'Espionage', 'Political Thriller', 'Crime Thriller', 'Medical Thriller', 'Military Thriller'] },
+  { name: 'Horror', fiction: true, subgenres: ['Gothic', 'Supernatural', 'Psychological Horror'] },
+  { name: 'Romance', fiction: true, subgenres: ['Contemporary Romance', 'Historical Romance', 'Paranormal Romance', 'Romantic Suspense', 'Regency Romance'] },
+  { name: 'Historical Fiction', fiction: true, subgenres: ['Ancient World', 'Medieval', 'World War II', 'War & Military'] },
+  { name: 'Literary Fiction', fiction: true, subgenres: ['Psychological Fiction', 'Philosophical Fiction', 'Political Fiction', 'Satire', 'Coming of Age', 'Family Saga'] },
+  { name: 'Classics', fiction: true, subgenres: [] },
+  { name: 'Action & Adventure', fiction: true, subgenres: [] },
+  { name: 'Westerns', fiction: true, subgenres: [] },
+  { name: 'Short Stories', fiction: true, subgenres: ['Single Author', 'Anthology'] },
+  { name: 'Graphic Novels & Comics', subgenres: ['Manga', 'Superheroes'] },
+  { name: 'Poetry', subgenres: [] },
+  { name: 'Drama', subgenres: [] },
+  { name: 'Humor', subgenres: [] },
+  { name: 'Biography & Memoir', fiction: false, subgenres: ['Memoir', 'Literary Figures', 'Historical Figures', 'Political Figures', 'Science & Technology', 'Artists'] },
+  { name: 'History', fiction: false, subgenres: ['Ancient History', 'Medieval History', 'Modern History', 'Military History', 'European History', 'American History', 'World History', 'Social History'] },
+  { name: 'Science', fiction: false, subgenres: ['Physics', 'Biology', 'Astronomy', 'Chemistry', 'Earth Sciences', 'Mathematics', 'History of Science'] },
+  { name: 'Nature', fiction: false, subgenres: [] },
+  { name: 'Philosophy', fiction: false, subgenres: ['Ethics', 'Political Philosophy', 'History of Philosophy', 'Existentialism'] },
+  { name: 'Religion & Spirituality', fiction: false, subgenres: ['Mind, Body & Spirit'] },
+  { name: 'Psychology', fiction: false, subgenres: [] },
+  { name: 'Politics & Society', fiction: false, subgenres: ['Sociology'] },
+  { name: 'Business & Economics', fiction: false, subgenres: ['Personal Finance'] },
+  { name: 'Self-Help', fiction: false, subgenres: [] },
+  { name: 'True Crime', fiction: false, subgenres: [] },
+  { name: 'Travel', fiction: false, subgenres: [] },
+  { name: 'Essays & Collections', fiction: false, subgenres: [] },
+  { name: 'Literary Criticism', fiction: false, subgenres: [] },
+  { name: 'Arts', fiction: false, subgenres: ['Visual Art', 'Music', 'Performing Arts', 'Photography', 'Architecture'] },
+  { name: 'Cooking', fiction: false, subgenres: [] },
+  { name: 'Health & Fitness', fiction: false, subgenres: [] },
+  { name: 'Technology', fiction: false, subgenres: ['Computers'] },
+  { name: 'Education', fiction: false, subgenres: ['Study Aids'] },
+  { name: 'Language & Linguistics', fiction: false, subgenres: [] },
+  { name: 'Reference', fiction: false, subgenres: [] }
+];
+
+/**
+ * Shorthand for the default mapping table: [category, genre, subgenre]
+ */
+type MappingRow = [string, string?, string?];
+
+/**
+ * Google Books categories are BISAC subject headings ("Fiction / Fantasy / Epic");
+ * Open Library subjects are free-form, so its most common ones are listed too
+ */
+const DEFAULT_MAPPING_ROWS: MappingRow[] = [
+  ['fiction / fantasy', 'Fantasy'],
+  ['fiction / fantasy / epic', 'Fantasy', 'Epic Fantasy'],
+  ['fiction / fantasy / urban', 'Fantasy', 'Urban Fantasy'],
+  ['fiction / fantasy / dark fantasy', 'Fantasy', 'Dark Fantasy'],
+  ['fiction / fantasy / romance', 'Fantasy', 'Romantic Fantasy'],
+  ['fiction / fantasy / sword & sorcery', 'Fantasy', 'Sword & Sorcery'],
+  ['fiction / fairy tales, folk tales, legends & mythology', 'Fantasy', 'Fairy Tales & Mythology'],
+  ['fiction / science fiction', 'Science Fiction'],
+  ['fiction / science fiction / space opera', 'Science Fiction', 'Space Opera'],
+  ['fiction / science fiction / cyberpunk', 'Science Fiction', 'Cyberpunk'],
+  ['fiction / science fiction / apocalyptic & post-apocalyptic', 'Science Fiction', 'Post-Apocalyptic'],
+  ['fiction / science fiction / time travel', 'Science Fiction', 'Time Travel'],
+  ['fiction / science fiction / military', 'Science Fiction', 'Military Science Fiction'],
+  ['fiction / science fiction / hard science fiction', 'Science Fiction', 'Hard Science Fiction'],
+  ['fiction / science fiction / alien contact', 'Science Fiction', 'Alien Contact'],
+  ['fiction / dystopian', 'Science Fiction', 'Dystopian'],
+  ['fiction / mystery & detective', 'Mystery & Detective'],
+  ['fiction / mystery & detective / cozy', 'Mystery & Detective', 'Cozy Mystery'],
+  ['fiction / mystery & detective / police procedural', 'Mystery & Detective', 'Police Procedural'],
+  ['fiction / mystery & detective / private investigators', 'Mystery & Detective', 'Private Investigator'],
+  ['fiction / mystery & detective / hard-boiled', 'Mystery & Detective', 'Hard-Boiled'],
+  ['fiction / mystery & detective / amateur sleuth', 'Mystery & Detective', 'Amateur Sleuth'],
+  ['fiction / mystery & detective / traditional', 'Mystery & Detective', 'Traditional Mystery'],
+  ['fiction / thrillers', 'Thriller & Suspense'],
+  ['fiction / thrillers / psychological', 'Thriller & Suspense', 'Psychological Thriller'],
+  ['fiction / thrillers / legal', 'Thriller & Suspense', 'Legal Thriller'],
+  ['fiction / thrillers / espionage', 'Thriller & Suspense', 'Espionage'],
+  ['fiction / thrillers / political', 'Thriller & Suspense', 'Political Thriller'],
+  ['fiction / thrillers / crime', 'Thriller & Suspense', 'Crime Thriller'],
+  ['fiction / thrillers / medical', 'Thriller & Suspense', 'Medical Thriller'],
+  ['fiction / thrillers / military', 'Thriller & Suspense', 'Military Thriller'],
+  ['fiction / suspense', 'Thriller & Suspense'],
+  ['fiction / espionage', 'Thriller & Suspense', 'Espionage'],
+  ['fiction / crime', 'Thriller & Suspense', 'Crime Thriller'],
+  ['fiction / horror', 'Horror'],
+  ['fiction / gothic', 'Horror', 'Gothic'],
+  ['fiction / ghost', 'Horror', 'Supernatural'],
+  ['fiction / occult & supernatural', 'Horror', 'Supernatural'],
+  ['fiction / romance', 'Romance'],
+  ['fiction / romance / contemporary', 'Romance', 'Contemporary Romance'],
+  ['fiction / romance / historical', 'Romance', 'Historical Romance'],
+  ['fiction / romance / historical / regency', 'Romance', 'Regency Romance'],
+  ['fiction / romance / paranormal', 'Romance', 'Paranormal Romance'],
+  ['fiction / romance / suspense', 'Romance', 'Romantic Suspense'],
+  ['fiction / historical', 'Historical Fiction'],
+  ['fiction / historical / ancient', 'Historical Fiction', 'Ancient World'],
+  ['fiction / historical / medieval', 'Historical Fiction', 'Medieval'],
+  ['fiction / historical / world war ii', 'Historical Fiction', 'World War II'],
+  ['fiction / war & military', 'Historical Fiction', 'War & Military'],
+  ['fiction / literary', 'Literary Fiction'],
+  ['fiction / psychological', 'Literary Fiction', 'Psychological Fiction'],
+  ['fiction / philosophical', 'Literary Fiction', 'Philosophical Fiction'],
+  ['fiction / political', 'Literary Fiction', 'Political Fiction'],
+  ['fiction / satire', 'Literary Fiction', 'Satire'],
+  ['fiction / coming of age', 'Literary Fiction', 'Coming of Age'],
+  ['fiction / family life', 'Literary Fiction', 'Family Saga'],
+  ['fiction / sagas', 'Literary Fiction', 'Family Saga'],
+  ['fiction / classics', 'Classics'],
+  ['fiction / action & adventure', 'Action & Adventure'],
+  ['fiction / westerns', 'Westerns'],
+  ['fiction / short stories (single author)', 'Short Stories', 'Single Author'],
+  ['fiction / anthologies (multiple authors)', 'Short Stories', 'Anthology'],
+  ['fiction / humorous', 'Humor'],
+  ['comics & graphic novels', 'Graphic Novels & Comics'],
+  ['comics & graphic novels / manga', 'Graphic Novels & Comics', 'Manga'],
+  ['comics & graphic novels / superheroes', 'Graphic Novels & Comics', 'Superheroes'],
+  ['poetry', 'Poetry'],
+  ['drama', 'Drama'],
+  ['humor', 'Humor'],
+  ['biography & autobiography', 'Biography & Memoir'],
+  ['biography & autobiography / personal memoirs', 'Biography & Memoir', 'Memoir'],
+  ['biography & autobiography / literary figures', 'Biography & Memoir', 'Literary Figures'],
+  ['biography & autobiography / historical', 'Biography & Memoir', 'Historical Figures'],
+  ['biography & autobiography / political', 'Biography & Memoir', 'Political Figures'],
+  ['biography & autobiography / science & technology', 'Biography & Memoir', 'Science & Technology'],
+  ['biography & autobiography / artists, architects, photographers', 'Biography & Memoir', 'Artists'],
+  ['history', 'History'],
+  ['history / ancient', 'History', 'Ancient History'],
+  ['history / medieval', 'History', 'Medieval History'],
+  ['history / modern', 'History', 'Modern History'],
+  ['history / military', 'History', 'Military History'],
+  ['history / europe', 'History', 'European History'],
+  ['history / united states', 'History', 'American History'],
+  ['history / world', 'History', 'World History'],
+  ['history / social history', 'History', 'Social History'],
+  ['science', 'Science'],
+  ['science / physics', 'Science', 'Physics'],
+  ['science / life sciences', 'Science', 'Biology'],
+  ['science / astronomy', 'Science', 'Astronomy'],
+  ['science / chemistry', 'Science', 'Chemistry'],
+  ['science / earth sciences', 'Science', 'Earth Sciences'],
+  ['science / history', 'Science', 'History of Science'],
+  ['mathematics', 'Science', 'Mathematics'],
+  ['nature', 'Nature'],
+  ['philosophy', 'Philosophy'],
+  ['philosophy / ethics & moral philosophy', 'Philosophy', 'Ethics'],
+  ['philosophy / political', 'Philosophy', 'Political Philosophy'],
+  ['philosophy / history & surveys', 'Philosophy', 'History of Philosophy'],
+  ['philosophy / movements / existentialism', 'Philosophy', 'Existentialism'],
+  ['religion', 'Religion & Spirituality'],
+  ['body, mind & spirit', 'Religion & Spirituality', 'Mind, Body & Spirit'],
+  ['psychology', 'Psychology'],
+  ['political science', 'Politics & Society'],
+  ['social science', 'Politics & Society'],
+  ['social science / sociology', 'Politics & Society', 'Sociology'],
+  ['business & economics', 'Business & Economics'],
+  ['business & economics / personal finance', 'Business & Economics', 'Personal Finance'],
+  ['self-help', 'Self-Help'],
+  ['true crime', 'True Crime'],
+  ['travel', 'Travel'],
+  ['literary collections', 'Essays & Collections'],
+  ['literary criticism', 'Literary Criticism'],
+  ['art', 'Arts', 'Visual Art'],
+  ['music', 'Arts', 'Music'],
+  ['performing arts', 'Arts', 'Performing Arts'],
+  ['photography', 'Arts', 'Photography'],
+  ['architecture', 'Arts', 'Architecture'],
+  ['cooking', 'Cooking'],
+  ['health & fitness', 'Health & Fitness'],
+  ['computers', 'Technology', 'Computers'],
+  ['technology & engineering', 'Technology'],
+  ['education', 'Education'],
+  ['language arts & disciplines', 'Language & Linguistics'],
+  ['foreign language study', 'Language & Linguistics'],
+  ['reference', 'Reference'],
+  ['juvenile fiction / fantasy & magic', 'Fantasy'],
+  ['juvenile fiction / mysteries & detective stories', 'Mystery & Detective'],
+  ['fantasy fiction', 'Fantasy'],
+  ['science fiction', 'Science Fiction'],
+  ['detective and mystery stories', 'Mystery & Detective'],
+  ['horror tales', 'Horror'],
+  ['love stories', 'Romance'],
+  ['historical fiction', 'Historical Fiction'],
+  ['biography', 'Biography & Memoir']
+];
+
+/**
+ * Mappings from the top of the BISAC tree that only say who a book is for
+ */
+const AUDIENCE_MAPPINGS: GenreMapping[] = [
+  { category: 'fiction', fiction: true },
+  { category: 'juvenile fiction', fiction: true, audience: 'children' },
+  { category: 'juvenile nonfiction', fiction: false, audience: 'children' },
+  { category: 'young adult fiction', fiction: true, audience: 'young-adult' },
+  { category: 'young adult nonfiction', fiction: false, audience: 'young-adult' },
+  { category: 'juvenile literature', audience: 'children' },
+  { category: "children's fiction", fiction: true, audience: 'children' },
+  { category: 'study aids', genre: 'Education', subgenre: 'Study Aids', audience: 'academic' }
+];
+
+export const DEFAULT_GENRE_MAPPINGS: GenreMapping[] = [
+  ...AUDIENCE_MAPPINGS,
+  ...DEFAULT_MAPPING_ROWS.map(([category, genre, subgenre]) => ({ category, genre, subgenre }))
+];
+
+/**
+ * Children's and young adult headings repeat the adult tree below them:
+ * "Young Adult Fiction / Fantasy / Epic" is classified like "Fiction / Fantasy / Epic",
+ * "Juvenile Nonfiction / History / Ancient" like "History / Ancient"
+ */
+const ADULT_EQUIVALENTS: Record<string, string> = {
+  'juvenile fiction': 'fiction',
+  'young adult fiction': 'fiction',
+  'juvenile nonfiction': '',
+  'young adult nonfiction': ''
+};
+
+/**
+ * Build the key a category is mapped by
+ * @param category Category as given by a catalog, e.g. "Fiction / Fantasy / Epic"
+ * @returns Lowercase path with single spaces around the separators
+ */
+export const categoryKey = (category: string): string => {
+  return category
+    .split('/')
+    .map(segment => segment.trim().replace(/\s+/g, ' ').toLowerCase())
+    .filter(Boolean)
+    .join(' / ');
+};
+
+/**
+ * List the keys a category is looked up under, most specific first
+ * @param key Category key
+ * @returns The key, its parents, then the adult equivalents of both
+ */
+const lookupKeys = (key: string): string[] => {
+  const ancestry = (segments: string[]) =>
+    segments.map((_, index) => segments.slice(0, index + 1).join(' / ')).reverse();
+
+  const segments = key.split(' / ');
+  const keys = ancestry(segments);
+
+  const adult = ADULT_EQUIVALENTS[segments[0]];
+  if (adult !== undefined && segments.length > 1) {
+    keys.push(...ancestry(adult ? [adult, ...segments.slice(1)] : segments.slice(1)));
+  }
+
+  return keys;
+};
+
+/**
+ * Guess whether a book is fiction from categories no mapping covers
+ * @param categories Catalog categories
+ * @returns True unless a category names a non-fiction subject
+ */
+export const inferFiction = (categories: string[]): boolean => {
+  const lowerCategories = categories.map(c => c.toLowerCase());
+
+  // "Fiction / Science Fiction" is fiction even though it mentions science
+  if (lowerCategories.some(c => c.includes('fiction') && !/non-?fiction/.test(c))) {
+    return true;
+  }
+
+  const nonFictionKeywords = [
+    'biography', 'autobiography', 'memoir', 'history', 'science', 'academic',
+    'reference', 'self-help', 'business', 'economics', 'philosophy', 'religion',
+    'politics', 'true crime', 'travel', 'essay', 'nonfiction', 'non-fiction'
+  ];
+
+  return !lowerCategories.some(c => nonFictionKeywords.some(keyword => c.includes(keyword)));
+};
+
+/**
+ * Guess a book's audience from categories no mapping covers
+ * @param categories Catalog categories
+ * @returns Audience, 'adult' unless a category says otherwise
+ */
+export const inferAudience = (categories: string[]): Book['audience'] => {
+  const lowerCategories = categories.map(c => c.toLowerCase());
+
+  if (lowerCategories.some(c => c.includes('children') || c.includes('juvenile'))) {
+    return 'children';
+  }
+
+  if (lowerCategories.some(c => c.includes('middle grade') || c.includes('middle-grade'))) {
+    return 'middle-grade';
+  }
+
+  if (lowerCategories.some(c => c.includes('young adult') || /\bya\b/.test(c) || c.includes('teen'))) {
+    return 'young-adult';
+  }
+
+  if (lowerCategories.some(c => c.includes('academic') || c.includes('textbook') || c.includes('scholarly'))) {
+    return 'academic';
+  }
+
+  return 'adult';
+};
+
+/**
+ * Classify a book from its catalog categories. Each category takes its genre
+ * and subgenre from the most specific mapping that names a genre, and its
+ * fiction and audience from the most specific mapping that sets them;
+ * the first category that settles fiction or audience decides for the book.
+ * @param categories Catalog categories, most relevant first
+ * @param mappings Mapping table
+ * @param taxonomy Genres, used for the fiction flag of mappings that don't set one
+ * @returns Genre fields of the book
+ */
+export const classifyCategories = (
+  categories: string[],
+  mappings: GenreMapping[],
+  taxonomy: GenreDefinition[] = GENRE_TAXONOMY
+): GenreClassification => {
+  const byKey = new Map(mappings.map(mapping => [mapping.category, mapping]));
+  const genres: string[] = [];
+  const subgenres: string[] = [];
+  const unmapped: string[] = [];
+  let fiction: boolean | undefined;
+  let audience: Book['audience'] | undefined;
+
+  categories.forEach(category => {
+    const matched = lookupKeys(categoryKey(category))
+      .map(key => byKey.get(key))
+      .filter((mapping): mapping is GenreMapping => mapping !== undefined);
+
+    if (matched.length === 0) {
+      unmapped.push(category);
+      return;
+    }
+
+    const genreMapping = matched.find(mapping => mapping.genre);
+    if (genreMapping?.genre) {
+      if (!genres.includes(genreMapping.genre)) genres.push(genreMapping.genre);
+      if (genreMapping.subgenre && !subgenres.includes(genreMapping.subgenre)) subgenres.push(genreMapping.subgenre);
+    }
+
+    if (fiction === undefined) {
+      fiction = matched.find(mapping => mapping.fiction !== undefined)?.fiction
+        ?? taxonomy.find(genre => genre.name === genreMapping?.genre)?.fiction;
+    }
+    if (audience === undefined) {
+      audience = matched.find(mapping => mapping.audience)?.audience;
+    }
+  });
+
+  return {
+    genres,
+    subgenres,
+    fiction: fiction ?? inferFiction(unmapped),
+    audience: audience ?? inferAudience(unmapped),
+    unmapped
+  };
+};
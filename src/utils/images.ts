@@ -0,0 +1,72 @@
+/**
+ * Longest side of an uploaded cover, in pixels; larger images are scaled down
+ */
+const MAX_COVER_DIMENSION = 800;
+
+/**
+ * Scale an uploaded image to fit MAX_COVER_DIMENSION and re-encode it as JPEG
+ * @param file Image file chosen by the user
+ * @returns Promise with the scaled image
+ */
+export const resizeCoverImage = async (file: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    const scale = Math.min(1, MAX_COVER_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is not available');
+    }
+
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error('The image could not be encoded'))),
+        'image/jpeg',
+        0.85
+      );
+    });
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Pick a stable hue for a generated cover, so a book keeps its colours
+ * @param text Title (and author) of the book
+ * @returns Hue between 0 and 359
+ */
+export const coverHue = (text: string): number => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) % 360;
+};
+
+/**
+ * Encode an image as a data URL, for storage that only holds text
+ * @param blob Image to encode
+ * @returns Promise with the data URL
+ */
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error('The image could not be read'));
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Decode a data URL back into an image
+ * @param dataUrl Data URL made by blobToDataUrl
+ * @returns Promise with the image
+ */
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  hyphenateIsbn,
+  isbn10To13,
+  isbn13To10,
+  isValidIsbn,
+  isValidIsbn10,
+  isValidIsbn13,
+  normalizeIsbn
+} from './isbn';
+
+describe('ISBN validation', () => {
+  it('checks ISBN-10 checksums, including an X check character', () => {
+    expect(isValidIsbn10('0441013597')).toBe(true);
+    expect(isValidIsbn10('0-8044-2957-x')).toBe(true);
+    expect(isValidIsbn10('0441013598')).toBe(false);
+    expect(isValidIsbn10('044101359')).toBe(false);
+  });
+
+  it('checks ISBN-13 checksums and the 978/979 prefix', () => {
+    expect(isValidIsbn13('978-0-441-01359-3')).toBe(true);
+    expect(isValidIsbn13('9791090636071')).toBe(true);
+    expect(isValidIsbn13('9780441013594')).toBe(false);
+    // Valid EAN-13 checksum, but not an ISBN
+    expect(isValidIsbn13('4006381333931')).toBe(false);
+  });
+
+  it('accepts either length and an "ISBN" prefix', () => {
+    expect(isValidIsbn('ISBN 0-441-01359-7')).toBe(true);
+    expect(isValidIsbn('ISBN-13: 978-0-441-01359-3')).toBe(true);
+    expect(isValidIsbn('not an isbn')).toBe(false);
+  });
+});
+
+describe('ISBN conversion', () => {
+  it('converts ISBN-10 to ISBN-13 and back', () => {
+    expect(isbn10To13('0441013597')).toBe('9780441013593');
+    expect(isbn13To10('9780441013593')).toBe('0441013597');
+    expect(isbn10To13('080442957X')).toBe('9780804429573');
+    expect(isbn13To10('9780804429573')).toBe('080442957X');
+  });
+
+  it('has no ISBN-10 for 979 ISBNs or invalid input', () => {
+    expect(isbn13To10('9791090636071')).toBeNull();
+    expect(isbn13To10('9780441013594')).toBeNull();
+    expect(isbn10To13('0441013598')).toBeNull();
+  });
+
+  it('normalizes any valid form to a compact ISBN-13', () => {
+    expect(normalizeIsbn('0-441-01359-7')).toBe('9780441013593');
+    expect(normalizeIsbn(' 978 0441 013593 ')).toBe('9780441013593');
+    expect(normalizeIsbn('0441013598')).toBeNull();
+    expect(normalizeIsbn('')).toBeNull();
+    expect(normalizeIsbn(undefined)).toBeNull();
+  });
+});
+
+describe('hyphenateIsbn', () => {
+  it('hyphenates known registration groups in the input length', () => {
+    expect(hyphenateIsbn('9780441013593')).toBe('978-0-441-01359-3');
+    expect(hyphenateIsbn('0441013597')).toBe('0-441-01359-7');
+    expect(hyphenateIsbn('9783161484100')).toBe('978-3-16-148410-0');
+  });
+
+  it('leaves ISBNs of unknown groups compact and rejects invalid ones', () => {
+    expect(hyphenateIsbn('9791090636071')).toBe('9791090636071');
+    expect(hyphenateIsbn('9780441013594')).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * ISBN utilities: normalization, checksum validation,
+ * ISBN-10/ISBN-13 conversion and hyphenation
+ */
+
+/**
+ * Registrant element ranges for the registration groups hyphenation knows about.
+ * Each entry is [first, last, length]: a registrant starting with a 7-digit
+ * prefix between first and last has the given number of digits.
+ * Source: International ISBN Agency range message (simplified).
+ */
+const REGISTRANT_RANGES: Record<string, Array<[number, number, number]>> = {
+  // 978-0 and 978-1: English language
+  '978-0': [
+    [0, 1999999, 2], [2000000, 6999999, 3], [7000000, 8499999, 4],
+    [8500000, 8999999, 5], [9000000, 9499999, 6], [9500000, 9999999, 7]
+  ],
+  '978-1': [
+    [0, 999999, 2], [1000000, 3999999, 3], [4000000, 5499999, 4],
+    [5500000, 8697999, 5], [8698000, 9989999, 6], [9990000, 9999999, 7]
+  ],
+  // 978-2: French language
+  '978-2': [
+    [0, 1999999, 2], [2000000, 3499999, 3], [3500000, 3999999, 5],
+    [4000000, 6999999, 3], [7000000, 8399999, 4], [8400000, 8999999, 5],
+    [9000000, 9499999, 6], [9500000, 9999999, 7]
+  ],
+  // 978-3: German language
+  '978-3': [
+    [0, 299999, 2], [300000, 339999, 3], [340000, 369999, 4],
+    [370000, 399999, 5], [400000, 1999999, 2], [2000000, 6999999, 3],
+    [7000000, 8499999, 4], [8500000, 8999999, 5], [9000000, 9499999, 6],
+    [9500000, 9539999, 7], [9540000, 9699999, 5], [9700000, 9849999, 7],
+    [9850000, 9999999, 5]
+  ]
+};
+
+/**
+ * Strip everything but digits and a check character
+ * @param value Raw ISBN, possibly hyphenated or prefixed ("ISBN 0-14-032872-X")
+ * @returns Digits, with an upper-case X where present
+ */
+const compactIsbn = (value: string): string => {
+  return value.replace(/^\s*ISBN(?:-1[03])?:?/i, '').replace(/[^0-9Xx]/g, '').toUpperCase();
+};
+
+/**
+ * Compute the ISBN-10 check character for the first 9 digits
+ * @param digits First 9 digits
+ * @returns Check digit, or X for 10
+ */
+const isbn10CheckDigit = (digits: string): string => {
+  const sum = digits
+    .split('')
+    .reduce((total, digit, index) => total + parseInt(digit, 10) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+};
+
+/**
+ * Compute the ISBN-13 check digit for the first 12 digits
+ * @param digits First 12 digits
+ * @returns Check digit
+ */
+const isbn13CheckDigit = (digits: string): string => {
+  const sum = digits
+    .split('')
+    .reduce((total, digit, index) => total + parseInt(digit, 10) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+/**
+ * Check an ISBN-10, including its checksum
+ * @param value Raw ISBN-10
+ * @returns True if the value is a valid ISBN-10
+ */
+export const isValidIsbn10 = (value: string): boolean => {
+  const isbn = compactIsbn(value);
+  return /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9];
+};
+
+/**
+ * Check an ISBN-13, including its checksum and 978/979 prefix
+ * @param value Raw ISBN-13
+ * @returns True if the value is a valid ISBN-13
+ */
+export const isValidIsbn13 = (value: string): boolean => {
+  const isbn = compactIsbn(value);
+  return /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+};
+
+/**
+ * Check an ISBN of either length
+ * @param value Raw ISBN
+ * @returns True if the value is a valid ISBN-10 or ISBN-13
+ */
+export const isValidIsbn = (value: string): boolean => {
+  return isValidIsbn10(value) || isValidIsbn13(value);
+};
+
+/**
+ * Convert an ISBN-10 to ISBN-13
+ * @param value Raw ISBN-10
+ * @returns The ISBN-13, or null if the input is not a valid ISBN-10
+ */
+export const isbn10To13 = (value: string): string | null => {
+  if (!isValidIsbn10(value)) return null;
+
+  const body = `978${compactIsbn(value).slice(0, 9)}`;
+  return body + isbn13CheckDigit(body);
+};
+
+/**
+ * Convert an ISBN-13 to ISBN-10. Only 978-prefixed ISBNs have an ISBN-10.
+ * @param value Raw ISBN-13
+ * @returns The ISBN-10, or null if the input is invalid or 979-prefixed
+ */
+export const isbn13To10 = (value: string): string | null => {
+  const isbn = compactIsbn(value);
+  if (!isValidIsbn13(isbn) || !isbn.startsWith('978')) return null;
+
+  const body = isbn.slice(3, 12);
+  return body + isbn10CheckDigit(body);
+};
+
+/**
+ * Normalize an ISBN to its compact ISBN-13 form, the form used for storage and lookups
+ * @param value Raw ISBN-10 or ISBN-13 in any formatting
+ * @returns Compact ISBN-13, or null if the value is not a valid ISBN
+ */
+export const normalizeIsbn = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+
+  const isbn = compactIsbn(value);
+  if (isValidIsbn13(isbn)) return isbn;
+  if (isValidIsbn10(isbn)) return isbn10To13(isbn);
+  return null;
+};
+
+/**
+ * Hyphenate an ISBN into prefix, group, registrant, publication and check digit.
+ * Only registration groups listed in REGISTRANT_RANGES can be hyphenated.
+ * @param value Raw ISBN-10 or ISBN-13
+ * @returns Hyphenated ISBN in the same length as the input, or the compact
+ *          ISBN if its group is unknown; null if the value is not a valid ISBN
+ */
+export const hyphenateIsbn = (value: string): string | null => {
+  const isbn13 = normalizeIsbn(value);
+  if (!isbn13) return null;
+
+  const isIsbn10 = compactIsbn(value).length === 10;
+  const compact = isIsbn10 ? compactIsbn(value) : isbn13;
+
+  const prefix = isbn13.slice(0, 3);
+  const group = isbn13[3];
+  const ranges = REGISTRANT_RANGES[`${prefix}-${group}`];
+  if (!ranges) return compact;
+
+  const registrantPrefix = parseInt(isbn13.slice(4, 11), 10);
+  const range = ranges.find(([first, last]) => registrantPrefix >= first && registrantPrefix <= last);
+  if (!range) return compact;
+
+  const registrant = isbn13.slice(4, 4 + range[2]);
+  const publication = isbn13.slice(4 + range[2], 12);
+  const parts = [group, registrant, publication, compact[compact.length - 1]];
+
+  return (isIsbn10 ? parts : [prefix, ...parts]).join('-');
+};
@@ -1,27 +1,20 @@
 import { Book } from '../types';
-
-const LIBRARY_STORAGE_KEY = 'userLibrary';
+import { libraryStore } from '../services/storage/LibraryStore';
 
 export const getLibrary = (): Book[] => {
-  const stored = localStorage.getItem(LIBRARY_STORAGE_KEY);
-  return stored ? JSON.parse(stored) : [];
+  return libraryStore.getAll<Book>('userLibrary');
 };
 
 export const addToLibrary = (book: Book): void => {
-  const library = getLibrary();
-  if (!library.some(b => b.id === book.id)) {
-    library.push(book);
-    localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(library));
+  if (!libraryStore.has('userLibrary', book.id)) {
+    libraryStore.put('userLibrary', book.id, book);
   }
 };
 
 export const removeFromLibrary = (bookId: string): void => {
-  const library = getLibrary();
-  const updatedLibrary = library.filter(book => book.id !== bookId);
-  localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(updatedLibrary));
+  libraryStore.delete('userLibrary', bookId);
 };
 
 export const isInLibrary = (bookId: string): boolean => {
-  const library = getLibrary();
-  return library.some(book => book.id === bookId);
-}; 
\ No newline at end of file
+  return libraryStore.has('userLibrary', bookId);
+};
@@ -0,0 +1,192 @@
+import { Book, EnrichableField, FieldProvenance, ProvenanceSource } from '../models/BookTypes';
+import { createDefaultBookFields } from './bookDefaults';
+
+/**
+ * Fields provenance is tracked for, in display order
+ */
+export const ENRICHABLE_FIELDS: EnrichableField[] = [
+  'genres',
+  'subgenres',
+  'fiction',
+  'audience',
+  'narrativeStructure',
+  'themes',
+  'characters',
+  'locations',
+  'culturalContext',
+  'complexity'
+];
+
+export const ENRICHABLE_FIELD_LABELS: Record<EnrichableField, string> = {
+  genres: 'Genres',
+  subgenres: 'Subgenres',
+  fiction: 'Fiction',
+  audience: 'Audience',
+  narrativeStructure: 'Narrative structure',
+  themes: 'Themes',
+  characters: 'Characters',
+  locations: 'Locations',
+  culturalContext: 'Cultural context',
+  complexity: 'Complexity'
+};
+
+export const PROVENANCE_SOURCE_LABELS: Record<ProvenanceSource, string> = {
+  default: 'Default',
+  catalog: 'Catalog categories',
+  library_import: 'Library import',
+  classic_literature_database: 'Classic literature data',
+  ai_enrichment: 'AI enrichment',
+  user: 'You'
+};
+
+// Confidence given to a source's values unless the source says otherwise
+const SOURCE_CONFIDENCE: Record<ProvenanceSource, number> = {
+  default: 0,
+  catalog: 0.8,
+  library_import: 0.7,
+  classic_literature_database: 0.9,
+  ai_enrichment: 0.6,
+  user: 1
+};
+
+const DEFAULT_FIELDS = createDefaultBookFields();
+
+/**
+ * Build a provenance record
+ * @param source Where the value came from
+ * @param details Confidence, prompt version and model, where known
+ * @returns Provenance stamped with the current time
+ */
+export const createProvenance = (
+  source: ProvenanceSource,
+  details: Partial<Omit<FieldProvenance, 'source' | 'recordedAt'>> = {}
+): FieldProvenance => ({
+  source,
+  recordedAt: new Date().toISOString(),
+  ...details,
+  confidence: Math.min(1, Math.max(0, details.confidence ?? SOURCE_CONFIDENCE[source]))
+});
+
+/**
+ * Compare two field values
+ * @returns True if the values are the same
+ */
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Get where a field's value came from. Books saved before provenance was
+ * tracked have no records; a value still equal to the new-book default is
+ * reported as the default, anything else as unknown.
+ * @param book Book to inspect
+ * @param field Enrichable field
+ * @returns Provenance, or null if unknown
+ */
+export const getFieldProvenance = (book: Book, field: EnrichableField): FieldProvenance | null => {
+  const recorded = book.provenance?.[field];
+  if (recorded) return recorded;
+
+  // Empty lists hold no data and need no source
+  const value = book[field];
+  if (Array.isArray(value) && value.length === 0) return null;
+
+  if (field === 'narrativeStructure' || field === 'fiction' || field === 'audience') {
+    if (sameValue(value, DEFAULT_FIELDS[field])) {
+      return { source: 'default', recordedAt: book.dateAdded, confidence: 0 };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check whether a field holds a value the user entered
+ * @param book Book to inspect
+ * @param field Enrichable field
+ * @returns True if enrichment must leave the field alone
+ */
+export const isUserValue = (book: Book, field: EnrichableField): boolean =>
+  book.provenance?.[field]?.source === 'user';
+
+/**
+ * Check whether a field only holds the new-book default
+ * @param book Book to inspect
+ * @param field Enrichable field
+ * @returns True if the value is a placeholder rather than data
+ */
+export const isDefaultValue = (book: Book, field: EnrichableField): boolean =>
+  getFieldProvenance(book, field)?.source === 'default';
+
+/**
+ * List the enrichable fields whose values differ between two versions of a book
+ * @param before Earlier version
+ * @param after Later version
+ * @returns Fields that changed
+ */
+export const changedEnrichableFields = (before: Book, after: Book): EnrichableField[] =>
+  ENRICHABLE_FIELDS.filter(field => !sameValue(before[field], after[field]));
+
+/**
+ * Record the provenance of some of a book's fields
+ * @param book Book the fields belong to
+ * @param fields Fields to stamp
+ * @param provenance Provenance to record
+ * @returns The book with updated provenance
+ */
+export const recordProvenance = (book: Book, fields: EnrichableField[], provenance: FieldProvenance): Book => {
+  if (fields.length === 0) return book;
+
+  const records = { ...(book.provenance || {}) };
+  fields.forEach(field => {
+    records[field] = provenance;
+  });
+  return { ...book, provenance: records };
+};
+
+/**
+ * Set enrichable fields from a source, leaving the ones the user entered alone
+ * @param book Book to update
+ * @param values New field values
+ * @param provenance Provenance of the new values
+ * @returns The updated book, with the fields applied and the ones refused
+ */
+export const applyFieldValues = (
+  book: Book,
+  values: Partial<Pick<Book, EnrichableField>>,
+  provenance: FieldProvenance
+): { book: Book; applied: EnrichableField[]; skipped: EnrichableField[] } => {
+  const applied: EnrichableField[] = [];
+  const skipped: EnrichableField[] = [];
+  const updated: Book = { ...book };
+
+  (Object.keys(values) as EnrichableField[]).forEach(field => {
+    if (values[field] === undefined) return;
+    if (isUserValue(book, field)) {
+      skipped.push(field);
+      return;
+    }
+    Object.assign(updated, { [field]: values[field] });
+    applied.push(field);
+  });
+
+  return { book: recordProvenance(updated, applied, provenance), applied, skipped };
+};
+
+/**
+ * Apply the enrichable fields a source changed on its copy of a book,
+ * leaving the ones the user entered alone
+ * @param book Book before the source ran
+ * @param changed The source's copy of the book
+ * @param provenance Provenance of the source's values
+ * @returns The updated book, with the fields applied and the ones refused
+ */
+export const applyChangedFields = (
+  book: Book,
+  changed: Book,
+  provenance: FieldProvenance
+): { book: Book; applied: EnrichableField[]; skipped: EnrichableField[] } => {
+  const values: Partial<Pick<Book, EnrichableField>> = {};
+  changedEnrichableFields(book, changed).forEach(field => {
+    Object.assign(values, { [field]: changed[field] });
+  });
+  return applyFieldValues(book, values, provenance);
+};
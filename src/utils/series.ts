@@ -0,0 +1,200 @@
+import { Book, SeriesEntry, SeriesSummary } from '../models/BookTypes';
+import { normalizeText } from './textMatching';
+
+export type BookSeries = NonNullable<Book['series']>;
+
+/**
+ * Position words used in subtitles like "Book One of the Stormlight Archive"
+ */
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15,
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10
+};
+
+// Words that mark a position inside a series: "#2", "Book 2", "Vol. 2", "Volume II"...
+const POSITION_MARKER = '(?:#|no\\.?|number|book|bk\\.?|vol\\.?|volume|part|tome)';
+
+// Trailing words that aren't part of a series name: "The Expanse Series" → "The Expanse"
+const SERIES_SUFFIX = /\s+(?:series|trilogy|saga|cycle|sequence|novels?)$/i;
+
+/**
+ * Parse a series position
+ * @param value Digits ("2", "2.5"), a number word ("two") or a roman numeral ("II")
+ * @returns Position, or undefined if the value isn't one
+ */
+export const parseSeriesPosition = (value: string): number | undefined => {
+  const text = value.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(text)) return Number(text);
+  if (text in NUMBER_WORDS) return NUMBER_WORDS[text];
+
+  if (/^[ivxl]+$/.test(text)) {
+    const numerals: Record<string, number> = { i: 1, v: 5, x: 10, l: 50 };
+    let total = 0;
+    for (let i = 0; i < text.length; i++) {
+      const current = numerals[text[i]];
+      const next = numerals[text[i + 1]] || 0;
+      total += current < next ? -current : current;
+    }
+    return total > 0 ? total : undefined;
+  }
+
+  return undefined;
+};
+
+/**
+ * Clean up a series name taken from a title or catalog label
+ * @param name Raw name
+ * @returns Name without trailing punctuation or "Series"
+ */
+const cleanSeriesName = (name: string): string => {
+  return name.trim().replace(/[\s,:;.-]+$/, '').replace(SERIES_SUFFIX, '').trim();
+};
+
+/**
+ * Parse a catalog series label, as in Open Library's series field:
+ * "Harry Potter (1)", "Discworld -- 12", "Discworld ; 12", "A Song of Ice and Fire, Book 1"
+ * @param label Series label
+ * @returns Series with a position, or undefined if the label has no position
+ */
+export const parseSeriesLabel = (label: string): BookSeries | undefined => {
+  const patterns = [
+    /^(.+?)\s*\(\s*(?:#|book|vol\.?|volume|no\.?)?\s*([\w.]+)\s*\)$/i,
+    /^(.+?)\s*(?:--|;|,)\s*(?:#|book|vol\.?|volume|no\.?|part)?\s*([\w.]+)$/i,
+    new RegExp(`^(.+?)\\s+${POSITION_MARKER}\\s*([\\w.]+)$`, 'i')
+  ];
+
+  for (const pattern of patterns) {
+    const match = label.trim().match(pattern);
+    const position = match ? parseSeriesPosition(match[2]) : undefined;
+    const name = match ? cleanSeriesName(match[1]) : '';
+    if (position !== undefined && name) {
+      return { name, position };
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Find a series in a book's title or subtitle:
+ * "Leviathan Wakes (The Expanse, #1)", "Book Two of the Stormlight Archive",
+ * "A Song of Ice and Fire, Book 1"
+ * @param title Book title
+ * @param subtitle Book subtitle
+ * @returns Series, or undefined if none is named
+ */
+export const detectSeriesInTitle = (title: string, subtitle?: string): BookSeries | undefined => {
+  // "(The Expanse, #1)" at the end of a title or subtitle
+  const bracketed = new RegExp(`\\(([^()]+?),?\\s*${POSITION_MARKER}\\s*([\\w.]+)\\)\\s*$`, 'i');
+  for (const text of [title, subtitle]) {
+    const match = text?.match(bracketed);
+    const position = match ? parseSeriesPosition(match[2]) : undefined;
+    if (match && position !== undefined) {
+      return { name: cleanSeriesName(match[1]), position };
+    }
+  }
+
+  if (!subtitle) return undefined;
+
+  // "Book Two of the Stormlight Archive", "Volume 3 in the Wheel of Time series"
+  const ordinal = subtitle.match(/^(?:the\s+)?(?:book|volume|vol\.?|part|novel)\s+([\w.]+)\s+(?:of|in)\s+(?:the\s+)?(.+)$/i)
+    || subtitle.match(/^(?:the\s+)?(first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth)\s+(?:book|volume|novel)\s+(?:of|in)\s+(?:the\s+)?(.+)$/i);
+  if (ordinal) {
+    const position = parseSeriesPosition(ordinal[1]);
+    const name = cleanSeriesName(ordinal[2]);
+    if (position !== undefined && name) return { name, position };
+  }
+
+  // "A Song of Ice and Fire, Book 1"
+  return parseSeriesLabel(subtitle);
+};
+
+/**
+ * Detect a book's series from what a catalog says about it
+ * @param sources Title, subtitle and the catalog's series labels
+ * @returns Series, preferring catalog labels over title patterns
+ */
+export const detectSeries = (sources: { title: string; subtitle?: string; seriesLabels?: string[] }): BookSeries | undefined => {
+  for (const label of sources.seriesLabels || []) {
+    const series = parseSeriesLabel(label);
+    if (series) return series;
+  }
+  return detectSeriesInTitle(sources.title, sources.subtitle);
+};
+
+/**
+ * Key that groups the books of one series: "The Expanse" and "Expanse" match
+ * @param name Series name
+ * @returns Normalized key
+ */
+export const seriesKey = (name: string): string => {
+  return normalizeText(name).replace(/^the\s+/, '');
+};
+
+/**
+ * Reading state of the editions at one series position
+ * @param books Editions at the position
+ * @returns Entry status
+ */
+const entryStatus = (books: Book[]): SeriesEntry['status'] => {
+  if (books.length === 0) return 'missing';
+  if (books.some(book => book.readingStatus === 'completed' || book.readCount > 0)) return 'read';
+  if (books.some(book => book.readingStatus === 'reading')) return 'reading';
+  return 'unread';
+};
+
+/**
+ * Group books into series and list each series' entries in reading order
+ * @param books Books to group; books without a series are ignored
+ * @returns One summary per series, by name
+ */
+export const summarizeSeries = (books: Book[]): SeriesSummary[] => {
+  const grouped = new Map<string, Book[]>();
+
+  books.forEach(book => {
+    if (!book.series?.name) return;
+    const key = seriesKey(book.series.name);
+    grouped.set(key, [...(grouped.get(key) || []), book]);
+  });
+
+  return Array.from(grouped.entries())
+    .map(([key, seriesBooks]) => {
+      const byPosition = new Map<number, Book[]>();
+      seriesBooks.forEach(book => {
+        const position = book.series!.position;
+        byPosition.set(position, [...(byPosition.get(position) || []), book]);
+      });
+
+      // Whole positions below the highest owned one are known to exist
+      const highest = Math.max(...byPosition.keys());
+      for (let position = 1; position < highest; position++) {
+        if (!byPosition.has(position)) byPosition.set(position, []);
+      }
+
+      const entries: SeriesEntry[] = Array.from(byPosition.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([position, editions]) => ({
+          position,
+          title: editions[0]?.title,
+          books: editions,
+          status: entryStatus(editions)
+        }));
+
+      const lastRead = [...entries].reverse().find(entry => entry.status === 'read');
+      const nextUp = entries.find(entry =>
+        entry.status !== 'read' && (!lastRead || entry.position > lastRead.position)
+      );
+
+      return {
+        key,
+        name: seriesBooks[0].series!.name,
+        authors: Array.from(new Set(seriesBooks.flatMap(book => book.authors.map(author => author.name)))),
+        entries,
+        ownedCount: entries.filter(entry => entry.books.length > 0).length,
+        readCount: entries.filter(entry => entry.status === 'read').length,
+        nextUp
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
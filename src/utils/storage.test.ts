@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LibraryStore } from '../services/storage/LibraryStore';
+import { MemoryStorageAdapter } from '../test/MemoryStorageAdapter';
+import { loadDashboardCountBy, saveDashboardCountBy } from './storage';
+
+// The app-wide store, swapped for a fresh one over the same backend to simulate a reload
+const stores = vi.hoisted(() => ({ current: null as unknown as LibraryStore }));
+
+vi.mock('../services/storage/LibraryStore', async importOriginal => ({
+  ...await importOriginal<typeof import('../services/storage/LibraryStore')>(),
+  libraryStore: new Proxy({}, {
+    get: (_target, property) => {
+      const value = Reflect.get(stores.current, property);
+      return typeof value === 'function' ? value.bind(stores.current) : value;
+    }
+  })
+}));
+
+describe('dashboard count-by preference', () => {
+  let adapter: MemoryStorageAdapter;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    adapter = new MemoryStorageAdapter();
+    stores.current = new LibraryStore([adapter]);
+    await stores.current.ready();
+  });
+
+  it('counts editions until a choice is saved', () => {
+    expect(loadDashboardCountBy()).toBe('editions');
+  });
+
+  it('keeps the saved choice across a reload once storage is ready', async () => {
+    saveDashboardCountBy('works');
+    await stores.current.flush();
+
+    stores.current = new LibraryStore([adapter]);
+    // Nothing is loaded before ready(), which is why the dashboard reads the choice after loading
+    expect(loadDashboardCountBy()).toBe('editions');
+
+    await stores.current.ready();
+    expect(loadDashboardCountBy()).toBe('works');
+  });
+});
@@ -1,59 +1,73 @@
 import { Book } from '../types';
 import { Layouts } from 'react-grid-layout';
+import { libraryStore } from '../services/storage/LibraryStore';
 
-const STORAGE_KEYS = {
-  BOOKS: 'bookanalytics_books',
-  LAYOUTS: 'bookanalytics_layouts',
-  LAST_UPDATED: 'bookanalytics_last_updated'
+const SETTING_KEYS = {
+  LAYOUTS: 'layouts',
+  LAST_UPDATED: 'last_updated',
+  DASHBOARD_COUNT_BY: 'dashboard_count_by'
 } as const;
 
+/**
+ * Whether dashboard analytics count each edition or each work once
+ */
+export type DashboardCountBy = 'editions' | 'works';
+
 export const saveBooks = (books: Book[]): void => {
   try {
-    localStorage.setItem(STORAGE_KEYS.BOOKS, JSON.stringify(books));
-    localStorage.setItem(STORAGE_KEYS.LAST_UPDATED, new Date().toISOString());
+    libraryStore.clear('legacyBooks');
+    libraryStore.putMany('legacyBooks', books.map(book => ({ key: book.id, value: book })));
+    libraryStore.setSetting(SETTING_KEYS.LAST_UPDATED, new Date().toISOString());
   } catch (error) {
-    console.error('Error saving books to localStorage:', error);
+    console.error('Error saving books to storage:', error);
   }
 };
 
 export const loadBooks = (): Book[] => {
   try {
-    const booksJson = localStorage.getItem(STORAGE_KEYS.BOOKS);
-    return booksJson ? JSON.parse(booksJson) : [];
+    return libraryStore.getAll<Book>('legacyBooks');
   } catch (error) {
-    console.error('Error loading books from localStorage:', error);
+    console.error('Error loading books from storage:', error);
     return [];
   }
 };
 
 export const saveLayouts = (layouts: Layouts): void => {
   try {
-    localStorage.setItem(STORAGE_KEYS.LAYOUTS, JSON.stringify(layouts));
+    libraryStore.setSetting(SETTING_KEYS.LAYOUTS, layouts);
   } catch (error) {
-    console.error('Error saving layouts to localStorage:', error);
+    console.error('Error saving layouts to storage:', error);
   }
 };
 
 export const loadLayouts = (): Layouts | null => {
   try {
-    const layoutsJson = localStorage.getItem(STORAGE_KEYS.LAYOUTS);
-    return layoutsJson ? JSON.parse(layoutsJson) : null;
+    return libraryStore.getSetting<Layouts>(SETTING_KEYS.LAYOUTS) || null;
   } catch (error) {
-    console.error('Error loading layouts from localStorage:', error);
+    console.error('Error loading layouts from storage:', error);
     return null;
   }
 };
 
+export const saveDashboardCountBy = (countBy: DashboardCountBy): void => {
+  libraryStore.setSetting(SETTING_KEYS.DASHBOARD_COUNT_BY, countBy);
+};
+
+export const loadDashboardCountBy = (): DashboardCountBy => {
+  return libraryStore.getSetting<DashboardCountBy>(SETTING_KEYS.DASHBOARD_COUNT_BY) || 'editions';
+};
+
 export const getLastUpdated = (): string | null => {
-  return localStorage.getItem(STORAGE_KEYS.LAST_UPDATED);
+  return libraryStore.getSetting<string>(SETTING_KEYS.LAST_UPDATED) || null;
 };
 
 export const clearStorage = (): void => {
   try {
-    Object.values(STORAGE_KEYS).forEach(key => {
-      localStorage.removeItem(key);
+    libraryStore.clear('legacyBooks');
+    Object.values(SETTING_KEYS).forEach(key => {
+      libraryStore.removeSetting(key);
     });
   } catch (error) {
-    console.error('Error clearing localStorage:', error);
+    console.error('Error clearing storage:', error);
   }
-}; 
\ No newline at end of file
+};
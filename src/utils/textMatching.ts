@@ -0,0 +1,118 @@
+/**
+ * Text normalization and fuzzy matching for comparing titles and names
+ * that come from different catalogs
+ */
+
+// Leading articles dropped from titles, in the languages catalogs use most
+const LEADING_ARTICLES = /^(the|a|an|le|la|les|l|el|los|las|der|die|das|il|lo)\s+/;
+
+/**
+ * Lower-case, strip accents and punctuation, and collapse whitespace
+ * @param value Raw text
+ * @returns Normalized text
+ */
+export const normalizeText = (value: string): string => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+/**
+ * Normalize a title for comparison: subtitles, edition notes and leading
+ * articles are dropped ("The Hobbit: Or There and Back Again (Deluxe Edition)" → "hobbit")
+ * @param title Raw title
+ * @returns Normalized title
+ */
+export const normalizeTitle = (title: string): string => {
+  const main = title
+    .replace(/\s*[([].*?[)\]]\s*/g, ' ')
+    .split(/\s*[:;]\s+|\s+[-–—]\s+/)[0];
+
+  return normalizeText(main).replace(LEADING_ARTICLES, '');
+};
+
+/**
+ * Normalize a person's name for comparison: "Tolkien, J. R. R." and
+ * "J.R.R. Tolkien" both become "j r r tolkien"
+ * @param name Raw name
+ * @returns Normalized name, given names first
+ */
+export const normalizePersonName = (name: string): string => {
+  const [last, first] = name.split(',').map(part => part.trim());
+  const ordered = first ? `${first} ${last}` : name;
+
+  return normalizeText(ordered.replace(/\./g, ' '));
+};
+
+/**
+ * Get the surname from a normalized name
+ * @param normalizedName Name as returned by normalizePersonName
+ * @returns Last word of the name
+ */
+export const surnameOf = (normalizedName: string): string => {
+  const parts = normalizedName.split(' ');
+  return parts[parts.length - 1] || '';
+};
+
+/**
+ * Collect the character bigrams of a string
+ * @param value Normalized text
+ * @returns Bigram counts
+ */
+const bigrams = (value: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const compact = value.replace(/\s+/g, ' ');
+
+  for (let i = 0; i < compact.length - 1; i++) {
+    const bigram = compact.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) || 0) + 1);
+  }
+
+  return counts;
+};
+
+/**
+ * Dice coefficient over character bigrams: 1 for identical strings, 0 for nothing
+ * in common. Tolerant of transliteration variants (Dostoevsky / Dostoyevsky).
+ * @param a First normalized string
+ * @param b Second normalized string
+ * @returns Similarity between 0 and 1
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  if (a === b) return a.length > 0 ? 1 : 0;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const aBigrams = bigrams(a);
+  const bBigrams = bigrams(b);
+  let shared = 0;
+  let total = 0;
+
+  aBigrams.forEach((count, bigram) => {
+    shared += Math.min(count, bBigrams.get(bigram) || 0);
+    total += count;
+  });
+  bBigrams.forEach(count => {
+    total += count;
+  });
+
+  return (2 * shared) / total;
+};
+
+/**
+ * Check whether text contains every word of a search query, the way a
+ * catalog search would match it. Field prefixes like "intitle:" are ignored.
+ * @param query Search query
+ * @param fields Text to search (title, author names...)
+ * @returns True if every query word appears in the fields
+ */
+export const matchesSearchQuery = (query: string, fields: string[]): boolean => {
+  const terms = normalizeText(query.replace(/\b[a-z]+:/gi, ' ')).split(' ').filter(Boolean);
+  if (terms.length === 0) return false;
+
+  const haystack = ` ${normalizeText(fields.join(' '))} `;
+  return terms.every(term => haystack.includes(` ${term}`));
+};
@@ -0,0 +1,148 @@
+import { Book, OpenLibraryBookRecord, ReadingSession, ReadingStatus, Work, WorkSummary } from '../models/BookTypes';
+import { normalizePersonName, normalizeTitle, surnameOf, textSimilarity } from './textMatching';
+
+/**
+ * Reading statuses from most to least advanced; a work takes the first
+ * status any of its editions has
+ */
+const STATUS_PRECEDENCE: ReadingStatus[] = ['reading', 'completed', 'abandoned', 'to-read', 'reference'];
+
+/**
+ * Create an id for a new work
+ * @returns Unique work id
+ */
+export const createWorkId = (): string => {
+  return `work-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/**
+ * Get the Open Library work id from a stored Open Library record
+ * @param record Stored edition record
+ * @returns Work OLID, e.g. "OL45804W", if the edition names its work
+ */
+export const getOpenLibraryWorkId = (record: OpenLibraryBookRecord | undefined): string | undefined => {
+  const key = record?.work?.key || record?.edition?.works?.[0]?.key;
+  return key ? key.replace(/^\/works\//, '') : undefined;
+};
+
+/**
+ * Collect the normalized titles a record is known by
+ * @param titles Raw titles
+ * @returns Distinct non-empty normalized titles
+ */
+const normalizedTitles = (titles: (string | undefined)[]): Set<string> => {
+  return new Set(
+    titles
+      .filter((title): title is string => !!title)
+      .map(normalizeTitle)
+      .filter(title => title.length > 0)
+  );
+};
+
+/**
+ * Create a work for an edition that doesn't belong to one yet
+ * @param book Edition
+ * @param openLibraryWorkId Open Library work the edition belongs to, if known
+ * @returns New work
+ */
+export const createWorkFromBook = (book: Book, openLibraryWorkId?: string): Work => {
+  const now = new Date().toISOString();
+
+  return {
+    id: createWorkId(),
+    title: book.title,
+    alternateTitles: book.originalTitle && book.originalTitle !== book.title ? [book.originalTitle] : [],
+    authors: book.authors,
+    originalLanguage: book.translatedFrom || undefined,
+    openLibraryWorkId,
+    dateCreated: now,
+    lastModified: now
+  };
+};
+
+/**
+ * Check whether an edition belongs to a work: the same Open Library work,
+ * or a shared title (including original titles of translations) by the same author
+ * @param work Candidate work
+ * @param book Edition
+ * @param openLibraryWorkId Open Library work the edition belongs to, if known
+ * @returns True if the edition is of this work
+ */
+export const workMatchesBook = (work: Work, book: Book, openLibraryWorkId?: string): boolean => {
+  if (openLibraryWorkId && work.openLibraryWorkId) {
+    return openLibraryWorkId === work.openLibraryWorkId;
+  }
+
+  const workTitles = normalizedTitles([work.title, ...work.alternateTitles]);
+  const bookTitles = normalizedTitles([book.title, book.originalTitle]);
+  if (![...bookTitles].some(title => workTitles.has(title))) return false;
+
+  // Without a known author a shared title isn't enough
+  const surnames = (names: string[]) => names
+    .filter(name => name && name !== 'Unknown Author')
+    .map(name => surnameOf(normalizePersonName(name)));
+  const workSurnames = surnames(work.authors.map(author => author.name));
+  const bookSurnames = surnames(book.authors.map(author => author.name));
+
+  return workSurnames.some(a => bookSurnames.some(b => textSimilarity(a, b) >= 0.8));
+};
+
+/**
+ * Record what a newly linked edition tells us about its work
+ * @param work Work
+ * @param book Edition joining the work
+ * @param openLibraryWorkId Open Library work the edition belongs to, if known
+ * @returns Updated work
+ */
+export const addEditionToWork = (work: Work, book: Book, openLibraryWorkId?: string): Work => {
+  const known = normalizedTitles([work.title, ...work.alternateTitles]);
+  const newTitles = [book.title, book.originalTitle]
+    .filter((title): title is string => !!title)
+    .filter(title => {
+      const normalized = normalizeTitle(title);
+      if (known.has(normalized)) return false;
+      known.add(normalized);
+      return true;
+    });
+
+  return {
+    ...work,
+    alternateTitles: [...work.alternateTitles, ...newTitles],
+    originalLanguage: work.originalLanguage || book.translatedFrom || undefined,
+    openLibraryWorkId: work.openLibraryWorkId || openLibraryWorkId,
+    lastModified: new Date().toISOString()
+  };
+};
+
+/**
+ * Aggregate the user's data across a work's editions
+ * @param work Work
+ * @param editions Editions in the library
+ * @returns Work summary
+ */
+export const summarizeWork = (work: Work, editions: Book[]): WorkSummary => {
+  const rated = editions.filter(book => book.userRating > 0);
+  const averageRating = rated.length > 0
+    ? rated.reduce((sum, book) => sum + book.userRating, 0) / rated.length
+    : 0;
+
+  const readingSessions: ReadingSession[] = editions
+    .flatMap(book => book.readingSessions)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const startDates = editions.map(book => book.startDate).filter((date): date is string => !!date).sort();
+  const finishDates = editions.map(book => book.finishDate).filter((date): date is string => !!date).sort();
+
+  return {
+    work,
+    editions,
+    readingStatus: STATUS_PRECEDENCE.find(status => editions.some(book => book.readingStatus === status)) || 'to-read',
+    userRating: Math.round(averageRating * 2) / 2,
+    readCount: editions.reduce((sum, book) => sum + book.readCount, 0),
+    readingSessions,
+    startDate: startDates[0],
+    finishDate: finishDates[finishDates.length - 1],
+    genres: Array.from(new Set(editions.flatMap(book => book.genres))),
+    pageCount: Math.max(0, ...editions.map(book => book.pageCount || 0))
+  };
+};